@@ -18,7 +18,7 @@ import PlayerInventoryPanel from '../ui/PlayerInventoryPanel';
 import StationContactsPanel from '../ui/StationContactsPanel';
 import LoadingPanel from '../ui/LoadingPanel';
 import { NPCPanel } from './NPCPanel';
-import { Market, TradeContract, RouteAnalysis } from '../../types/economy';
+import { Market, MarketOrder, TradeContract, RouteAnalysis } from '../../types/economy';
 import { CargoItem, Ship, EquipmentItem, FactionReputation } from '../../types/player';
 import { NPCShip } from '../../types/npc';
 import { GameEvent } from '../../types/events';
@@ -118,12 +118,14 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
   const showQuests = activePanel === 'quests';
   const [currentMarket, setCurrentMarket] = useState<Market | null>(null);
+  const [playerOrders, setPlayerOrders] = useState<MarketOrder[]>([]);
   const [availableContracts, setAvailableContracts] = useState<TradeContract[]>([]);
   const [playerContracts, setPlayerContracts] = useState<TradeContract[]>([]);
   const [routeAnalysis, setRouteAnalysis] = useState<RouteAnalysis | null>(null);
   const [playerCredits, setPlayerCredits] = useState(10000);
   const [cargoItems, setCargoItems] = useState<CargoItem[]>([]);
   const [cargoUsed, setCargoUsed] = useState(0);
+  const [gameTime, setGameTime] = useState(Date.now());
   const [cargoCapacity, setCargoCapacity] = useState(100);
   const [currentShip, setCurrentShip] = useState<Ship | null>(null);
   const [ownedShips, setOwnedShips] = useState<Ship[]>([]);
@@ -190,6 +192,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         setCargoItems(playerManager.getCargoManifest());
         setCargoUsed(playerManager.getCargoUsed());
         setCargoCapacity(playerManager.getCargoCapacity());
+        setGameTime(engineRef.current.getTimeManager().getCurrentTimestamp());
         setCurrentShip(playerManager.getShip());
         setOwnedShips(playerManager.getOwnedShips());
         setCurrentShipId(playerManager.getCurrentShipId());
@@ -210,11 +213,17 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
           completed: completedQuests.length
         });
 
-        // Set up periodic sync for events and quests (every 5 seconds)
+        // Set up periodic sync for events, quests and cargo (every 5 seconds)
         const eventSyncInterval = setInterval(() => {
           if (engineRef.current) {
             const eventManager = engineRef.current.getEventManager();
             setActiveEvents(eventManager.getActiveEvents());
+
+            // Cargo can spoil while the game runs
+            const playerManager = engineRef.current.getPlayerManager();
+            setCargoItems(playerManager.getCargoManifest());
+            setCargoUsed(playerManager.getCargoUsed());
+            setGameTime(engineRef.current.getTimeManager().getCurrentTimestamp());
             
             const questManager = engineRef.current.getQuestManager();
             const activeQuests = questManager.getActiveQuests();
@@ -429,6 +438,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       
       if (market) {
         setCurrentMarket(market);
+        setPlayerOrders(economicSystem.getPlayerOrders());
         setActivePanel('market');
       } else {
         console.error('No market found for current station');
@@ -484,6 +494,55 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     }
   };
 
+  const refreshAfterOrder = () => {
+    if (engineRef.current) {
+      const economicSystem = engineRef.current.getEconomicSystem();
+      const playerManager = engineRef.current.getPlayerManager();
+      setPlayerOrders(economicSystem.getPlayerOrders());
+      setPlayerCredits(playerManager.getCredits());
+      setCargoItems(playerManager.getCargoManifest());
+      setCargoUsed(playerManager.getCargoUsed());
+    }
+  };
+
+  const handlePlaceOrder = (commodityId: string, side: MarketOrder['side'], quantity: number, price: number) => {
+    if (engineRef.current && currentMarket) {
+      const result = engineRef.current.getEconomicSystem().placePlayerOrder(
+        currentMarket.stationId,
+        commodityId,
+        side,
+        quantity,
+        price,
+        engineRef.current.getPlayerManager()
+      );
+
+      if (result.success) {
+        console.log(`Placed ${side} order for ${quantity} ${commodityId} at ${price} credits`);
+        refreshAfterOrder();
+      } else {
+        console.error('Order failed:', result.error);
+        alert(`Order failed: ${result.error}`);
+      }
+    }
+  };
+
+  const handleCancelOrder = (orderId: string) => {
+    if (engineRef.current && currentMarket) {
+      const result = engineRef.current.getEconomicSystem().cancelPlayerOrder(
+        currentMarket.stationId,
+        orderId,
+        engineRef.current.getPlayerManager()
+      );
+
+      if (result.success) {
+        refreshAfterOrder();
+      } else {
+        console.error('Cancel failed:', result.error);
+        alert(`Cancel failed: ${result.error}`);
+      }
+    }
+  };
+
   const handleOpenContracts = () => {
     if (engineRef.current) {
       const contractManager = engineRef.current.getContractManager();
@@ -528,6 +587,21 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     }
   };
 
+  const handleRefuel = () => {
+    if (engineRef.current) {
+      const playerManager = engineRef.current.getPlayerManager();
+      const result = playerManager.refuel();
+      if (!result.success) {
+        console.log(`Refuel failed: ${result.error}`);
+        return;
+      }
+
+      setPlayerCredits(playerManager.getCredits());
+      setCurrentShip(playerManager.getShip());
+      console.log(`Bought ${result.amount.toFixed(1)} fuel for ${result.cost} credits`);
+    }
+  };
+
   const handleAcceptContract = (contractId: string) => {
     if (engineRef.current) {
       const contractManager = engineRef.current.getContractManager();
@@ -1172,6 +1246,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         onClose={() => setActivePanel(null)}
         onTrade={handleTrade}
         playerCredits={playerCredits}
+        getOrderBook={(commodityId) => engineRef.current?.getEconomicSystem().getOrderBook(currentMarket?.stationId ?? '', commodityId) ?? null}
+        playerOrders={playerOrders}
+        onPlaceOrder={handlePlaceOrder}
+        onCancelOrder={handleCancelOrder}
       />
       {/* Contract Panel */}
       <ContractPanel
@@ -1181,6 +1259,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         onClose={() => setActivePanel(null)}
         onAcceptContract={handleAcceptContract}
         playerCredits={playerCredits}
+        currentTime={gameTime}
       />
 
       {/* Trade Route Panel */}
@@ -1201,6 +1280,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         cargoUsed={cargoUsed}
         playerCredits={playerCredits}
         currentStationName="Earth Station Alpha"
+        currentTime={gameTime}
       />
 
       {/* Fleet Management Panel */}
@@ -1264,6 +1344,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
           stationId={engineRef.current.getWorldManager().getCurrentStation()?.id || 'earth-station'}
           maintenanceManager={engineRef.current.getMaintenanceManager()}
           onMaintenancePerformed={handleMaintenancePerformed}
+          onRefuel={handleRefuel}
         />
       )}
 
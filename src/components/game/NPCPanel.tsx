@@ -22,6 +22,8 @@ export const NPCPanel: React.FC<NPCPanelProps> = ({
   const [activeConversation, setActiveConversation] = useState<NPCConversation | null>(null);
   const [selectedNPC, setSelectedNPC] = useState<NPCShip | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [conversationMessages, setConversationMessages] = useState<string[]>([]);
+  const [, setConversationVersion] = useState(0);
 
   // Refresh NPCs every few seconds
   useEffect(() => {
@@ -43,6 +45,15 @@ export const NPCPanel: React.FC<NPCPanelProps> = ({
         setActiveConversation(null);
         setSelectedNPC(null);
       }
+
+      // Resume a conversation restored from a save
+      if (!activeConversation) {
+        const restoredNPC = systemNPCs.find(npc => npcAIManager.getActiveConversations().has(npc.id));
+        if (restoredNPC) {
+          setActiveConversation(npcAIManager.getActiveConversations().get(restoredNPC.id)!);
+          setSelectedNPC(restoredNPC);
+        }
+      }
     }
   }, [currentSystemId, npcAIManager, refreshTrigger]);
 
@@ -50,6 +61,7 @@ export const NPCPanel: React.FC<NPCPanelProps> = ({
     const conversation = npcAIManager.startConversation(npc.id);
     setActiveConversation(conversation);
     setSelectedNPC(npc);
+    setConversationMessages([]);
   };
 
   const endConversation = () => {
@@ -58,6 +70,7 @@ export const NPCPanel: React.FC<NPCPanelProps> = ({
     }
     setActiveConversation(null);
     setSelectedNPC(null);
+    setConversationMessages([]);
   };
 
   const getStatusText = (npc: NPCShip): string => {
@@ -95,28 +108,31 @@ export const NPCPanel: React.FC<NPCPanelProps> = ({
     return '#ef4444'; // red-500
   };
 
-  const getCurrentDialogueNode = () => {
-    if (!activeConversation) return null;
-    return activeConversation.dialogue.find(node => node.id === activeConversation.currentNodeId);
-  };
-
-  const handleChoice = (nextNodeId: string) => {
+  const applyConversationResult = (result: { success: boolean; error?: string; messages?: string[] }) => {
     if (!activeConversation) return;
-    
-    // Update conversation state
-    setActiveConversation(prev => prev ? {
-      ...prev,
-      currentNodeId: nextNodeId
-    } : null);
+
+    setConversationMessages(result.success ? result.messages || [] : [result.error || 'Nothing happens.']);
+    // The manager updates the conversation in place
+    setConversationVersion(prev => prev + 1);
 
     // If conversation ended, close it
-    if (nextNodeId === 'end') {
+    if (npcAIManager.isConversationOver(activeConversation.npcId)) {
       setTimeout(() => {
         endConversation();
       }, 2000);
     }
   };
 
+  const handleChoice = (choiceId: string) => {
+    if (!activeConversation) return;
+    applyConversationResult(npcAIManager.selectConversationChoice(activeConversation.npcId, choiceId));
+  };
+
+  const handleContinue = () => {
+    if (!activeConversation) return;
+    applyConversationResult(npcAIManager.advanceConversation(activeConversation.npcId));
+  };
+
   if (!isVisible) {
     return (
       <button 
@@ -147,28 +163,42 @@ export const NPCPanel: React.FC<NPCPanelProps> = ({
 
           <div className="conversation-content">
             {(() => {
-              const currentNode = getCurrentDialogueNode();
+              const currentNode = npcAIManager.getConversationNode(activeConversation.npcId);
               if (!currentNode) return null;
 
+              const choices = npcAIManager.getAvailableChoices(activeConversation.npcId);
+
               return (
                 <div className="dialogue-node">
-                  <div className={`dialogue-text ${currentNode.speakerType === 'npc' ? 'npc-text' : 'player-text'}`}>
-                    <strong>{currentNode.speakerType === 'npc' ? selectedNPC?.name : 'You'}:</strong>
-                    <p>{currentNode.text}</p>
-                  </div>
+                  {activeConversation.history.map((entry, index) => (
+                    <div key={index} className={`dialogue-text ${entry.speaker === 'npc' ? 'npc-text' : 'player-text'}`}>
+                      <strong>{entry.speaker === 'npc' ? selectedNPC?.name : 'You'}:</strong>
+                      <p>{entry.text}</p>
+                    </div>
+                  ))}
+
+                  {conversationMessages.map((message, index) => (
+                    <div key={index} className="dialogue-message">{message}</div>
+                  ))}
 
-                  {currentNode.choices && currentNode.choices.length > 0 && (
+                  {choices.length > 0 ? (
                     <div className="dialogue-choices">
-                      {currentNode.choices.map(choice => (
+                      {choices.map(choice => (
                         <button
                           key={choice.id}
                           className="dialogue-choice"
-                          onClick={() => handleChoice(choice.nextNodeId)}
+                          onClick={() => handleChoice(choice.id)}
                         >
                           {choice.text}
                         </button>
                       ))}
                     </div>
+                  ) : currentNode.nextNodeId && (
+                    <div className="dialogue-choices">
+                      <button className="dialogue-choice" onClick={handleContinue}>
+                        Continue
+                      </button>
+                    </div>
                   )}
                 </div>
               );
@@ -2,10 +2,16 @@ import React, { useState } from 'react';
 import { CombatManager } from '../../systems/CombatManager';
 import { 
   Weapon, 
-  Shield 
+  Shield,
+  CombatEncounter,
+  CombatParticipant,
+  BoardingOutcome
 } from '../../types/combat';
 import './CombatPanel.css';
 
+// Battlefield ship markers are drawn at this fraction of the view's width
+const SHIP_MARKER_SCALE = 0.025;
+
 interface CombatPanelProps {
   combatManager: CombatManager;
   onClose: () => void;
@@ -40,6 +46,68 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
     </button>
   );
 
+  const renderBattlefield = (encounter: CombatEncounter) => {
+    const extents = [
+      ...encounter.participants.map(participant => ({ ...participant.position, radius: 500 })),
+      ...encounter.environment.hazards.map(hazard => ({ ...hazard.position, radius: hazard.radius }))
+    ];
+    const minX = Math.min(...extents.map(extent => extent.x - extent.radius));
+    const minY = Math.min(...extents.map(extent => extent.y - extent.radius));
+    const size = Math.max(
+      Math.max(...extents.map(extent => extent.x + extent.radius)) - minX,
+      Math.max(...extents.map(extent => extent.y + extent.radius)) - minY
+    );
+    const marker = size * SHIP_MARKER_SCALE;
+    const player = encounter.participants.find(participant => participant.type === 'player');
+    const playerRange = Math.max(0, ...(player?.ship.weapons.map(mount => mount.weapon.stats.range) ?? []));
+
+    return (
+      <svg className="battlefield" viewBox={`${minX} ${minY} ${size} ${size}`}>
+        {encounter.environment.hazards.map((hazard, index) => (
+          <circle
+            key={`hazard-${index}`}
+            className={`hazard ${hazard.type}`}
+            cx={hazard.position.x}
+            cy={hazard.position.y}
+            r={hazard.radius}
+          />
+        ))}
+        {player && playerRange > 0 && (
+          <circle className="weapon-range" cx={player.position.x} cy={player.position.y} r={playerRange} />
+        )}
+        {encounter.participants
+          .filter(participant => participant.status !== 'destroyed')
+          .map(participant => (
+            <g
+              key={participant.id}
+              className={`battlefield-ship ${participant.type} ${participant.status}`}
+              transform={`translate(${participant.position.x} ${participant.position.y}) rotate(${participant.movement.facing * 180 / Math.PI})`}
+            >
+              <polygon points={`${marker},0 ${-marker * 0.6},${marker * 0.6} ${-marker * 0.6},${-marker * 0.6}`} />
+              <title>{participant.name}</title>
+            </g>
+          ))}
+      </svg>
+    );
+  };
+
+  const getTacticalStatus = (encounter: CombatEncounter, participant: CombatParticipant): string | null => {
+    const player = encounter.participants.find(candidate => candidate.type === 'player');
+    if (!player || participant.type === 'player') return null;
+
+    const distance = Math.hypot(participant.position.x - player.position.x, participant.position.y - player.position.y);
+    const longestWeapon = [...player.ship.weapons].sort((a, b) => b.weapon.stats.range - a.weapon.stats.range)[0];
+    const band = longestWeapon ? combatManager.getRangeBand(distance, longestWeapon.weapon) : 'out_of_range';
+    const visible = combatManager.hasLineOfSight(encounter.id, player.id, participant.id);
+
+    return `${Math.round(distance).toLocaleString()}km · ${band.replace(/_/g, ' ')}${visible ? '' : ' · no line of sight'}`;
+  };
+
+  const getBoardingChance = (encounter: CombatEncounter, participant: CombatParticipant): number => {
+    const player = encounter.participants.find(candidate => candidate.type === 'player');
+    return player ? combatManager.getBoardingChance(player, participant) : 0;
+  };
+
   const renderEncounters = () => (
     <div className="encounters-tab">
       <div className="encounter-controls">
@@ -75,12 +143,18 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
                   <span className="label">Participants:</span>
                   <span className="value">{encounter.participants.length}</span>
                 </div>
+                <div className="info-row">
+                  <span className="label">Environment:</span>
+                  <span className="value">{encounter.environment.location.replace(/_/g, ' ')}</span>
+                </div>
                 <div className="info-row">
                   <span className="label">Duration:</span>
                   <span className="value">{formatDuration(Date.now() - encounter.startTime)}</span>
                 </div>
               </div>
 
+              {renderBattlefield(encounter)}
+
               <div className="participants-list">
                 <h5>Participants:</h5>
                 {encounter.participants.map(participant => (
@@ -89,6 +163,28 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
                       <span className="name">{participant.name}</span>
                       <span className={`status ${participant.status}`}>{participant.status}</span>
                     </div>
+                    {getTacticalStatus(encounter, participant) && (
+                      <div className="tactical-status">{getTacticalStatus(encounter, participant)}</div>
+                    )}
+                    {participant.type === 'ai' && participant.status === 'disabled' && (
+                      <div className="boarding-actions">
+                        <span className="boarding-chance">
+                          Boarding odds: {Math.round(getBoardingChance(encounter, participant) * 100)}%
+                        </span>
+                        <button
+                          className="combat-action-btn board"
+                          onClick={() => handleBoard(participant.id, 'capture')}
+                        >
+                          🏴 Capture
+                        </button>
+                        <button
+                          className="combat-action-btn board"
+                          onClick={() => handleBoard(participant.id, 'salvage')}
+                        >
+                          🔧 Salvage
+                        </button>
+                      </div>
+                    )}
                     <div className="ship-status">
                       <div className="hull-bar">
                         <div className="bar-label">Hull</div>
@@ -111,7 +207,7 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
                           ></div>
                         </div>
                         <div className="bar-value">
-                          {participant.ship.shields.current}/{participant.ship.shields.maximum}
+                          {Math.round(participant.ship.shields.current)}/{participant.ship.shields.maximum}
                         </div>
                       </div>
                     </div>
@@ -556,6 +652,19 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
     // In a real implementation, this would execute the combat action
   };
 
+  const handleBoard = (targetId: string, outcome: BoardingOutcome) => {
+    const result = combatManager.executeCombatAction({
+      id: `board-${targetId}-${Date.now()}`,
+      actorId: 'player',
+      type: 'board',
+      targetId,
+      parameters: { outcome },
+      timestamp: Date.now(),
+      resolved: false
+    });
+    console.log(result.message);
+  };
+
   const handlePurchaseWeapon = (weaponId: string) => {
     if (combatManager.purchaseWeapon(weaponId)) {
       console.log('Weapon purchased:', weaponId);
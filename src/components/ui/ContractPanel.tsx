@@ -8,6 +8,7 @@ interface ContractPanelProps {
   onClose: () => void;
   onAcceptContract?: (contractId: string) => void;
   playerCredits?: number;
+  currentTime?: number; // Game time, for contract deadlines
 }
 
 const ContractPanel: React.FC<ContractPanelProps> = ({
@@ -16,7 +17,8 @@ const ContractPanel: React.FC<ContractPanelProps> = ({
   isVisible,
   onClose,
   onAcceptContract,
-  playerCredits = 0
+  playerCredits = 0,
+  currentTime = Date.now()
 }) => {
   const [selectedContract, setSelectedContract] = useState<TradeContract | null>(null);
   const [activeTab, setActiveTab] = useState<'available' | 'active'>('available');
@@ -46,7 +48,7 @@ const ContractPanel: React.FC<ContractPanelProps> = ({
   };
 
   const formatTimeRemaining = (deadline: number): string => {
-    const timeLeft = deadline - Date.now();
+    const timeLeft = deadline - currentTime;
     if (timeLeft <= 0) return 'Expired';
     
     const hours = Math.floor(timeLeft / 3600000);
@@ -36,6 +36,7 @@ const EventsPanel: React.FC<EventsPanelProps> = ({ events, onEventChoice, onClos
       case 'emergency_contract': return '🆘';
       case 'social_interaction': return '👥';
       case 'discovery': return '🔍';
+      case 'market_fluctuation': return '📈';
       default: return '📋';
     }
   };
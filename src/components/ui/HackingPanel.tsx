@@ -2,7 +2,13 @@ import React, { useState } from 'react';
 import { HackingManager } from '../../systems/HackingManager';
 import { 
   HackingTarget, 
-  HackingMinigame 
+  HackingMinigame,
+  HackingMinigameMove,
+  HackingMoveResult,
+  PasswordCrackPuzzle,
+  PatternMatchPuzzle,
+  CircuitBypassPuzzle,
+  CodeInjectPuzzle
 } from '../../types/hacking';
 import './HackingPanel.css';
 
@@ -22,7 +28,10 @@ export const HackingPanel: React.FC<HackingPanelProps> = ({
   const [selectedEquipment, setSelectedEquipment] = useState<string>('');
   const [selectedSoftware, setSelectedSoftware] = useState<string[]>([]);
   const [activeMinigame, setActiveMinigame] = useState<HackingMinigame | null>(null);
+  const [minigameAttemptId, setMinigameAttemptId] = useState<string>('');
   const [minigameInput, setMinigameInput] = useState<string>('');
+  const [lastMove, setLastMove] = useState<HackingMoveResult | null>(null);
+  const [patternHidden, setPatternHidden] = useState<boolean>(false);
 
   const hackingState = hackingManager.getHackingState();
   const availableTargets = hackingManager.getAvailableTargets();
@@ -463,6 +472,7 @@ export const HackingPanel: React.FC<HackingPanelProps> = ({
 
   const renderMinigame = () => {
     if (!activeMinigame) return null;
+    const finished = lastMove?.finished ?? false;
     
     return (
       <div className="minigame-overlay">
@@ -476,16 +486,22 @@ export const HackingPanel: React.FC<HackingPanelProps> = ({
           <div className="minigame-content">
             {renderMinigameContent(activeMinigame)}
           </div>
+
+          {lastMove && (lastMove.error || lastMove.message) && (
+            <div className={`minigame-message ${lastMove.valid ? '' : 'error'}`}>
+              {lastMove.error ?? lastMove.message}
+            </div>
+          )}
+
+          {finished && (
+            <div className={`minigame-result ${lastMove?.success ? 'success' : 'failed'}`}>
+              {lastMove?.success ? `Phase complete - score ${lastMove.score}` : 'Phase failed'}
+            </div>
+          )}
           
           <div className="minigame-actions">
-            <button onClick={() => handleMinigameComplete(true, 80)}>
-              Success (80%)
-            </button>
-            <button onClick={() => handleMinigameComplete(false, 30)}>
-              Fail (30%)
-            </button>
-            <button onClick={() => setActiveMinigame(null)}>
-              Cancel
+            <button onClick={handleCloseMinigame}>
+              {finished ? 'Close' : 'Step Away'}
             </button>
           </div>
         </div>
@@ -494,58 +510,142 @@ export const HackingPanel: React.FC<HackingPanelProps> = ({
   };
 
   const renderMinigameContent = (minigame: HackingMinigame) => {
-    switch (minigame.type) {
+    const puzzle = minigame.puzzle;
+    switch (puzzle.type) {
       case 'password-crack':
-        return (
-          <div className="password-crack">
-            <p>Crack the password using the given constraints:</p>
-            <div>Length: {minigame.parameters.length}</div>
-            <div>Complexity: {minigame.parameters.complexity}/4</div>
-            <div>Attempts remaining: {minigame.parameters.attempts}</div>
-            <input 
-              type="text" 
-              placeholder="Enter password guess..."
-              value={minigameInput}
-              onChange={(e) => setMinigameInput(e.target.value)}
-            />
-          </div>
-        );
-      
+        return renderPasswordCrack(puzzle);
       case 'pattern-match':
-        return (
-          <div className="pattern-match">
-            <p>Match the patterns in the correct sequence:</p>
-            <div>Grid Size: {minigame.parameters.gridSize}x{minigame.parameters.gridSize}</div>
-            <div>Patterns: {minigame.parameters.patternCount}</div>
-            <div>Time per pattern: {minigame.parameters.timePerPattern}s</div>
-          </div>
-        );
-      
+        return renderPatternMatch(puzzle);
       case 'circuit-bypass':
-        return (
-          <div className="circuit-bypass">
-            <p>Bypass the circuit security:</p>
-            <div>Complexity: {minigame.parameters.complexity}/10</div>
-            <div>Components: {minigame.parameters.components}</div>
-            <div>Error tolerance: {minigame.parameters.errorTolerance}</div>
-          </div>
-        );
-      
+        return renderCircuitBypass(puzzle);
       case 'code-inject':
-        return (
-          <div className="code-inject">
-            <p>Inject code into the system:</p>
-            <div>Code length: {minigame.parameters.codeLength}</div>
-            <div>Syntax complexity: {minigame.parameters.syntaxComplexity}/5</div>
-            <div>Injection points: {minigame.parameters.injectionPoints}</div>
-          </div>
-        );
-      
+        return renderCodeInject(puzzle);
       default:
         return <div>Unknown minigame type</div>;
     }
   };
 
+  const renderPasswordCrack = (puzzle: PasswordCrackPuzzle) => (
+    <div className="password-crack">
+      <p>Crack the {puzzle.length}-character password. Symbols, lowest to highest: {puzzle.symbols}</p>
+      <div>Attempts remaining: {puzzle.attemptsAllowed - puzzle.guesses.length}</div>
+      <div className="guess-history">
+        {puzzle.guesses.map((entry, index) => (
+          <div key={index} className="guess-row">
+            {[...entry.guess].map((symbol, position) => (
+              <span key={position} className={`guess-symbol ${entry.feedback[position]}`}>
+                {symbol}
+                <small>{{ correct: '✓', higher: '▲', lower: '▼' }[entry.feedback[position]]}</small>
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+      {puzzle.status === 'in_progress' && (
+        <form onSubmit={(e) => {
+          e.preventDefault();
+          handleMinigameMove({ type: 'guess', guess: minigameInput });
+          setMinigameInput('');
+        }}>
+          <input 
+            type="text" 
+            placeholder="Enter password guess..."
+            maxLength={puzzle.length}
+            value={minigameInput}
+            onChange={(e) => setMinigameInput(e.target.value.toUpperCase())}
+          />
+          <button type="submit">Guess</button>
+        </form>
+      )}
+    </div>
+  );
+
+  const renderPatternMatch = (puzzle: PatternMatchPuzzle) => {
+    const cells = Array.from({ length: puzzle.gridSize * puzzle.gridSize }, (_, cell) => cell);
+    const showing = !patternHidden && puzzle.status === 'in_progress';
+    
+    return (
+      <div className="pattern-match">
+        <p>Round {puzzle.round} of {puzzle.rounds}: {showing ? 'memorise the sequence' : 'repeat the sequence'}</p>
+        <div>Strikes: {puzzle.strikes}/{puzzle.strikesAllowed}</div>
+        <div 
+          className="pattern-grid" 
+          style={{ gridTemplateColumns: `repeat(${puzzle.gridSize}, 1fr)` }}
+        >
+          {cells.map(cell => {
+            // A cell can come up more than once in the sequence
+            const steps = showing ? puzzle.shown.flatMap((shown, index) => shown === cell ? [index + 1] : []) : [];
+            return (
+              <button
+                key={cell}
+                className={`pattern-cell ${steps.length > 0 ? 'lit' : ''} ${puzzle.entered.includes(cell) ? 'entered' : ''}`}
+                disabled={showing || puzzle.status !== 'in_progress'}
+                onClick={() => handleMinigameMove({ type: 'select', cell })}
+              >
+                {steps.join(',')}
+              </button>
+            );
+          })}
+        </div>
+        {showing && (
+          <button onClick={() => setPatternHidden(true)}>Ready</button>
+        )}
+      </div>
+    );
+  };
+
+  const renderCircuitBypass = (puzzle: CircuitBypassPuzzle) => (
+    <div className="circuit-bypass">
+      <p>Rotate the tiles to route power from the entry to the exit, then test the circuit.</p>
+      <div>Rotations: {puzzle.rotations} | Faults: {puzzle.faults}/{puzzle.faultsAllowed}</div>
+      <div 
+        className="circuit-grid" 
+        style={{ gridTemplateColumns: `repeat(${puzzle.columns}, 1fr)` }}
+      >
+        {puzzle.tiles.map((tile, index) => {
+          const x = index % puzzle.columns;
+          const y = Math.floor(index / puzzle.columns);
+          return (
+            <button
+              key={index}
+              className={`circuit-tile ${x === 0 && y === puzzle.entryRow ? 'entry' : ''} ${x === puzzle.columns - 1 && y === puzzle.exitRow ? 'exit' : ''}`}
+              disabled={puzzle.status !== 'in_progress'}
+              onClick={() => handleMinigameMove({ type: 'rotate', x, y })}
+            >
+              {tile & 1 ? <span className="circuit-link north" /> : null}
+              {tile & 2 ? <span className="circuit-link east" /> : null}
+              {tile & 4 ? <span className="circuit-link south" /> : null}
+              {tile & 8 ? <span className="circuit-link west" /> : null}
+            </button>
+          );
+        })}
+      </div>
+      {puzzle.status === 'in_progress' && (
+        <button onClick={() => handleMinigameMove({ type: 'test' })}>Test Circuit</button>
+      )}
+    </div>
+  );
+
+  const renderCodeInject = (puzzle: CodeInjectPuzzle) => (
+    <div className="code-inject">
+      <p>Inject at every line that copies unchecked input into a buffer.</p>
+      <div>Found: {puzzle.found.length}/{puzzle.injectionPoints} | Misses: {puzzle.misses}/{puzzle.missesAllowed}</div>
+      <div className="code-listing">
+        {puzzle.lines.map((line, index) => (
+          <button
+            key={index}
+            className={`code-line ${puzzle.found.includes(index) ? 'injected' : ''}`}
+            disabled={puzzle.status !== 'in_progress'}
+            onClick={() => handleMinigameMove({ type: 'inject', line: index })}
+          >
+            <span className="line-number">{index + 1}</span>
+            <code>{line}</code>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
   const handleStartHacking = () => {
     if (!selectedTarget || !selectedEquipment) return;
     
@@ -567,18 +667,30 @@ export const HackingPanel: React.FC<HackingPanelProps> = ({
     const minigame = hackingManager.generateMinigame(attemptId);
     if (minigame) {
       setActiveMinigame(minigame);
+      setMinigameAttemptId(attemptId);
+      setLastMove(null);
+      setPatternHidden(false);
     }
   };
 
-  const handleMinigameComplete = (success: boolean, score: number) => {
-    if (activeMinigame) {
-      const activeAttempt = activeAttempts.find(attempt => attempt.status === 'active');
-      if (activeAttempt) {
-        hackingManager.completeMinigame(activeAttempt.id, success, score);
-      }
-      setActiveMinigame(null);
-      setMinigameInput('');
+  const handleMinigameMove = (move: HackingMinigameMove) => {
+    const result = hackingManager.submitMinigameMove(minigameAttemptId, move);
+    setLastMove(result);
+    const puzzle = result.puzzle;
+    if (puzzle) {
+      setActiveMinigame(current => current && { ...current, puzzle });
     }
+    // Each new round, and each replay after a strike, shows the sequence again
+    if (result.puzzle?.type === 'pattern-match' && result.puzzle.entered.length === 0) {
+      setPatternHidden(false);
+    }
+  };
+
+  const handleCloseMinigame = () => {
+    setActiveMinigame(null);
+    setMinigameAttemptId('');
+    setMinigameInput('');
+    setLastMove(null);
   };
 
   const handleAbortAttempt = (attemptId: string) => {
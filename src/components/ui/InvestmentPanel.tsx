@@ -4,7 +4,11 @@ import {
   Investment, 
   InvestmentPortfolio, 
   MarketSpeculation, 
-  SupplyChainNode
+  SupplyChainNode,
+  FinancialInstrument,
+  InstrumentHolding,
+  Loan,
+  LoanOffer
 } from '../../types/investment';
 
 import { InvestmentManager } from '../../systems/InvestmentManager';
@@ -21,13 +25,18 @@ export const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
   investmentManager, 
   playerManager 
 }) => {
-  const [activeTab, setActiveTab] = useState<'portfolio' | 'opportunities' | 'speculation' | 'analysis' | 'warfare'>('portfolio');
+  const [activeTab, setActiveTab] = useState<'portfolio' | 'opportunities' | 'speculation' | 'securities' | 'analysis' | 'warfare'>('portfolio');
   const [portfolio, setPortfolio] = useState<InvestmentPortfolio | null>(null);
   const [availableInvestments, setAvailableInvestments] = useState<Investment[]>([]);
   const [activeSpeculations, setActiveSpeculations] = useState<MarketSpeculation[]>([]);
   const [supplyChains, setSupplyChains] = useState<Map<string, SupplyChainNode[]>>(new Map());
   const [selectedInvestment, setSelectedInvestment] = useState<Investment | null>(null);
   const [investmentAmount, setInvestmentAmount] = useState<number>(0);
+  const [instruments, setInstruments] = useState<FinancialInstrument[]>([]);
+  const [holdings, setHoldings] = useState<InstrumentHolding[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [loanOffers, setLoanOffers] = useState<LoanOffer[]>([]);
+  const [loanAmount, setLoanAmount] = useState<number>(10000);
 
   const updateData = useCallback(() => {
     if (!investmentManager) return;
@@ -36,6 +45,12 @@ export const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
     setAvailableInvestments(investmentManager.getAvailableInvestments());
     setActiveSpeculations(investmentManager.getActiveSpeculations());
     setSupplyChains(investmentManager.getSupplyChains());
+
+    const financialInstruments = investmentManager.getFinancialInstruments();
+    setInstruments(financialInstruments.getInstruments());
+    setHoldings(financialInstruments.getHoldings());
+    setLoans(financialInstruments.getLoans());
+    setLoanOffers(financialInstruments.getLoanOffers());
   }, [investmentManager]);
 
   useEffect(() => {
@@ -52,6 +67,39 @@ export const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
     }
   };
 
+  const handleTradeInstrument = (instrumentId: string, side: 'buy' | 'sell', units: number) => {
+    const financialInstruments = investmentManager.getFinancialInstruments();
+    const result = side === 'buy'
+      ? financialInstruments.buyInstrument(instrumentId, units)
+      : financialInstruments.sellInstrument(instrumentId, units);
+    if (result.success) {
+      updateData();
+    } else {
+      console.log(`Instrument trade failed: ${result.error}`);
+    }
+  };
+
+  const handleTakeLoan = (factionId: string) => {
+    const result = investmentManager.getFinancialInstruments().takeLoan(factionId, loanAmount);
+    if (result.success) {
+      updateData();
+    } else {
+      console.log(`Loan refused: ${result.error}`);
+    }
+  };
+
+  const handleRepayLoan = (loan: Loan) => {
+    const result = investmentManager.getFinancialInstruments().repayLoan(loan.id, Math.ceil(loan.balance));
+    if (result.success) {
+      updateData();
+    } else {
+      console.log(`Repayment failed: ${result.error}`);
+    }
+  };
+
+  const getFactionName = (factionId: string) =>
+    playerManager.getFactionManager().getFaction(factionId)?.name ?? factionId;
+
   const formatCredits = (amount: number) => {
     return new Intl.NumberFormat().format(Math.round(amount)) + ' CR';
   };
@@ -94,6 +142,12 @@ export const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
           >
             Speculation
           </button>
+          <button 
+            className={activeTab === 'securities' ? 'active' : ''}
+            onClick={() => setActiveTab('securities')}
+          >
+            Bonds & Loans
+          </button>
           <button 
             className={activeTab === 'analysis' ? 'active' : ''}
             onClick={() => setActiveTab('analysis')}
@@ -384,6 +438,117 @@ export const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
           </div>
         )}
 
+        {activeTab === 'securities' && (
+          <div className="opportunities-tab">
+            <h4>Bonds & Shares ({instruments.length})</h4>
+            <div className="opportunities-list">
+              {instruments.map(instrument => {
+                const holding = holdings.find(h => h.instrumentId === instrument.id);
+                return (
+                  <div key={instrument.id} className="opportunity-item">
+                    <div className="opportunity-header">
+                      <h5>{instrument.name}</h5>
+                      <span className="investment-type">{instrument.type.toUpperCase()}</span>
+                      <span style={{ color: getRiskColor(instrument.riskProfile) }}>
+                        {instrument.riskProfile.toUpperCase()} RISK
+                      </span>
+                    </div>
+
+                    <div className="opportunity-details">
+                      <div className="opportunity-metrics">
+                        <div className="metric">
+                          <span>Price:</span>
+                          <span className={instrument.currentPrice >= instrument.premium ? 'positive' : 'negative'}>
+                            {formatCredits(instrument.currentPrice)}
+                          </span>
+                        </div>
+                        <div className="metric">
+                          <span>Issued At:</span>
+                          <span>{formatCredits(instrument.premium)}</span>
+                        </div>
+                        {instrument.type === 'bond' && (
+                          <div className="metric">
+                            <span>Matures:</span>
+                            <span>{new Date(instrument.expirationDate).toLocaleDateString()}</span>
+                          </div>
+                        )}
+                        <div className="metric">
+                          <span>Held:</span>
+                          <span>{holding ? `${holding.units} units (income ${formatCredits(holding.incomeReceived)})` : '-'}</span>
+                        </div>
+                      </div>
+
+                      <div className="opportunity-actions">
+                        <button onClick={() => handleTradeInstrument(instrument.id, 'buy', 1)} className="invest-btn">
+                          Buy
+                        </button>
+                        {holding && (
+                          <button onClick={() => handleTradeInstrument(instrument.id, 'sell', 1)} className="cancel-btn">
+                            Sell
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <h4>Loans</h4>
+            <div className="amount-input">
+              <label>Amount to borrow:</label>
+              <input
+                type="number"
+                value={loanAmount}
+                onChange={(e) => setLoanAmount(Number(e.target.value))}
+                min={1}
+              />
+            </div>
+            <div className="opportunities-list">
+              {loanOffers.map(offer => (
+                <div key={offer.lenderFactionId} className="opportunity-item">
+                  <div className="opportunity-header">
+                    <h5>{getFactionName(offer.lenderFactionId)}</h5>
+                    <span>Up to {formatCredits(offer.maxAmount)}</span>
+                    <span>{formatPercentage(offer.annualRate)} a year, {offer.termDays} days</span>
+                  </div>
+                  <div className="opportunity-actions">
+                    <button onClick={() => handleTakeLoan(offer.lenderFactionId)} className="invest-btn">
+                      Borrow
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {loans.map(loan => (
+                <div key={loan.id} className="opportunity-item">
+                  <div className="opportunity-header">
+                    <h5>{getFactionName(loan.lenderFactionId)} Loan</h5>
+                    <span className={loan.status === 'defaulted' ? 'negative' : ''}>{loan.status.toUpperCase()}</span>
+                  </div>
+                  <div className="opportunity-metrics">
+                    <div className="metric">
+                      <span>Balance:</span>
+                      <span>{formatCredits(loan.balance)}</span>
+                    </div>
+                    <div className="metric">
+                      <span>Due:</span>
+                      <span>{new Date(loan.dueDate).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                  {loan.status === 'active' && (
+                    <div className="opportunity-actions">
+                      <button onClick={() => handleRepayLoan(loan)} className="invest-btn">
+                        Repay in Full
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {activeTab === 'analysis' && (
           <div className="analysis-tab">
             <h4>Supply Chain Analysis</h4>
@@ -7,6 +7,7 @@ import {
 } from '../../systems/MaintenanceManager';
 import { Ship } from '../../types/player';
 import Modal from './Modal';
+import { FUEL_PRICE_PER_UNIT, getCurrentFuel, getFuelCapacity } from '../../utils/fuel';
 
 interface MaintenancePanelProps {
   isVisible: boolean;
@@ -16,6 +17,7 @@ interface MaintenancePanelProps {
   stationId: string;
   maintenanceManager: MaintenanceManager;
   onMaintenancePerformed: (cost: number) => void;
+  onRefuel: () => void;
 }
 
 const MaintenancePanel: React.FC<MaintenancePanelProps> = ({
@@ -25,7 +27,8 @@ const MaintenancePanel: React.FC<MaintenancePanelProps> = ({
   playerCredits,
   stationId,
   maintenanceManager,
-  onMaintenancePerformed
+  onMaintenancePerformed,
+  onRefuel
 }) => {
   const [currentTab, setCurrentTab] = useState<'schedule' | 'quote' | 'history'>('schedule');
   const [maintenanceSchedule, setMaintenanceSchedule] = useState<MaintenanceScheduleItem[]>([]);
@@ -114,6 +117,9 @@ const MaintenancePanel: React.FC<MaintenancePanelProps> = ({
     return `${hours.toFixed(1)} hours`;
   };
 
+  const missingFuel = getFuelCapacity(ship) - getCurrentFuel(ship);
+  const refuelCost = Math.ceil(missingFuel * FUEL_PRICE_PER_UNIT);
+
   const renderScheduleTab = () => (
     <div style={{ padding: '20px' }}>
       <h3 style={{ color: '#60a5fa', marginBottom: '15px' }}>Maintenance Schedule</h3>
@@ -155,6 +161,34 @@ const MaintenancePanel: React.FC<MaintenancePanelProps> = ({
         </div>
       </div>
 
+      {/* Refueling */}
+      <div style={{ 
+        backgroundColor: '#1f2937', 
+        padding: '15px', 
+        borderRadius: '8px', 
+        marginBottom: '20px',
+        border: '1px solid #374151'
+      }}>
+        <h4 style={{ color: '#e2e8f0', marginBottom: '10px' }}>Refueling</h4>
+        <div style={{ fontSize: '14px', color: '#9ca3af', marginBottom: '15px' }}>
+          <strong>Fuel:</strong> {Math.floor(getCurrentFuel(ship))} / {getFuelCapacity(ship)} units
+        </div>
+        <button
+          onClick={onRefuel}
+          disabled={missingFuel <= 0 || playerCredits < refuelCost}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: missingFuel > 0 ? '#3b82f6' : '#374151',
+            color: missingFuel > 0 ? 'white' : '#9ca3af',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: missingFuel > 0 && playerCredits >= refuelCost ? 'pointer' : 'not-allowed'
+          }}
+        >
+          {missingFuel > 0 ? `Refuel (${formatCurrency(refuelCost)})` : 'Tank full'}
+        </button>
+      </div>
+
       {/* Performance effects */}
       {conditionEffects && (
         <div style={{ 
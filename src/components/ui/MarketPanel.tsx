@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Market, MarketCommodity } from '../../types/economy';
+import { Market, MarketCommodity, MarketOrder, OrderBookDepth } from '../../types/economy';
 import { getCommodity } from '../../data/commodities';
 
 interface MarketPanelProps {
@@ -9,6 +9,10 @@ interface MarketPanelProps {
   onClose: () => void;
   onTrade?: (commodityId: string, quantity: number, isBuying: boolean) => void;
   playerCredits?: number;
+  getOrderBook?: (commodityId: string) => OrderBookDepth | null;
+  playerOrders?: MarketOrder[];
+  onPlaceOrder?: (commodityId: string, side: MarketOrder['side'], quantity: number, price: number) => void;
+  onCancelOrder?: (orderId: string) => void;
 }
 
 const MarketPanel: React.FC<MarketPanelProps> = ({
@@ -17,10 +21,15 @@ const MarketPanel: React.FC<MarketPanelProps> = ({
   isVisible,
   onClose,
   onTrade,
-  playerCredits = 10000
+  playerCredits = 10000,
+  getOrderBook,
+  playerOrders = [],
+  onPlaceOrder,
+  onCancelOrder
 }) => {
   const [selectedCommodity, setSelectedCommodity] = useState<string | null>(null);
   const [tradeQuantity, setTradeQuantity] = useState<number>(1);
+  const [limitPrice, setLimitPrice] = useState<number | null>(null);
   const [sortBy, setSortBy] = useState<'name' | 'price' | 'supply' | 'demand'>('name');
 
   if (!isVisible || !market) return null;
@@ -71,6 +80,15 @@ const MarketPanel: React.FC<MarketPanelProps> = ({
     }
   };
 
+  const orderBook = selectedCommodity ? getOrderBook?.(selectedCommodity) ?? null : null;
+  const stationOrders = playerOrders.filter(order => order.stationId === market.stationId);
+
+  const handlePlaceOrder = (side: MarketOrder['side']) => {
+    if (selectedCommodityData && tradeQuantity > 0) {
+      onPlaceOrder?.(selectedCommodityData.id, side, tradeQuantity, limitPrice ?? selectedCommodityData.marketCommodity.currentPrice);
+    }
+  };
+
   const canAfford = (commodity: MarketCommodity, quantity: number): boolean => {
     return playerCredits >= commodity.currentPrice * quantity;
   };
@@ -213,7 +231,7 @@ const MarketPanel: React.FC<MarketPanelProps> = ({
               {sortedCommodities.map(({ id, marketCommodity, commodity }) => (
                 <div
                   key={id}
-                  onClick={() => setSelectedCommodity(id)}
+                  onClick={() => { setSelectedCommodity(id); setLimitPrice(null); }}
                   style={{
                     display: 'grid',
                     gridTemplateColumns: '1fr 80px 80px 80px 80px',
@@ -285,7 +303,8 @@ const MarketPanel: React.FC<MarketPanelProps> = ({
               padding: '15px',
               backgroundColor: '#2a2a2a',
               display: 'flex',
-              flexDirection: 'column'
+              flexDirection: 'column',
+              overflowY: 'auto'
             }}>
               <h3 style={{ 
                 margin: '0 0 15px 0', 
@@ -393,6 +412,119 @@ const MarketPanel: React.FC<MarketPanelProps> = ({
                     💸 Sell
                   </button>
                 </div>
+
+                {onPlaceOrder && (
+                  <div style={{ marginTop: '20px', borderTop: '1px solid #444', paddingTop: '15px' }}>
+                    <h4 style={{ margin: '0 0 10px 0', color: '#fff' }}>Order Book</h4>
+                    {orderBook && (
+                      <div style={{ fontSize: '0.8rem', marginBottom: '10px' }}>
+                        {[...orderBook.asks].reverse().map(level => (
+                          <div key={`ask-${level.price}`} style={{ display: 'flex', justifyContent: 'space-between', color: '#e74c3c' }}>
+                            <span>Ask {level.price.toLocaleString()}</span>
+                            <span>{level.quantity} ({level.orders})</span>
+                          </div>
+                        ))}
+                        <div style={{ textAlign: 'center', color: '#888', margin: '4px 0' }}>
+                          Spread {(orderBook.spread * 100).toFixed(1)}%
+                        </div>
+                        {orderBook.bids.map(level => (
+                          <div key={`bid-${level.price}`} style={{ display: 'flex', justifyContent: 'space-between', color: '#27ae60' }}>
+                            <span>Bid {level.price.toLocaleString()}</span>
+                            <span>{level.quantity} ({level.orders})</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <label style={{ display: 'block', color: '#fff', marginBottom: '5px' }}>
+                      Limit Price:
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={limitPrice ?? selectedCommodityData.marketCommodity.currentPrice}
+                      onChange={(e) => setLimitPrice(Math.max(1, parseFloat(e.target.value) || 1))}
+                      style={{
+                        width: '100%',
+                        padding: '8px',
+                        marginBottom: '10px',
+                        backgroundColor: '#333',
+                        color: '#fff',
+                        border: '1px solid #555',
+                        borderRadius: '4px'
+                      }}
+                    />
+                    <div style={{ display: 'flex', gap: '10px' }}>
+                      <button
+                        onClick={() => handlePlaceOrder('buy')}
+                        style={{
+                          flex: 1,
+                          padding: '8px',
+                          backgroundColor: '#27ae60',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: 'pointer',
+                          fontSize: '0.85rem'
+                        }}
+                      >
+                        Place Bid
+                      </button>
+                      <button
+                        onClick={() => handlePlaceOrder('sell')}
+                        style={{
+                          flex: 1,
+                          padding: '8px',
+                          backgroundColor: '#e74c3c',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: 'pointer',
+                          fontSize: '0.85rem'
+                        }}
+                      >
+                        Place Ask
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {stationOrders.length > 0 && (
+                  <div style={{ marginTop: '20px', borderTop: '1px solid #444', paddingTop: '15px' }}>
+                    <h4 style={{ margin: '0 0 10px 0', color: '#fff' }}>Your Orders</h4>
+                    {stationOrders.map(order => (
+                      <div key={order.id} style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        fontSize: '0.8rem',
+                        color: order.side === 'buy' ? '#27ae60' : '#e74c3c',
+                        marginBottom: '5px'
+                      }}>
+                        <span>
+                          {order.side === 'buy' ? 'Bid' : 'Ask'} {order.quantity} {getCommodity(order.commodityId)?.name ?? order.commodityId} @ {order.price.toLocaleString()}
+                          {order.filled > 0 && <span style={{ color: '#f39c12' }}> ({order.filled} filled)</span>}
+                        </span>
+                        {order.quantity > 0 && (
+                          <button
+                            onClick={() => onCancelOrder?.(order.id)}
+                            style={{
+                              padding: '2px 8px',
+                              backgroundColor: '#555',
+                              color: '#fff',
+                              border: 'none',
+                              borderRadius: '4px',
+                              cursor: 'pointer',
+                              fontSize: '0.75rem'
+                            }}
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { CargoItem } from '../../types/player';
 import { getCommodity } from '../../data/commodities';
+import { getDaysUntilSpoiled, getSpoilageValueMultiplier, isSpoiling } from '../../utils/spoilage';
 
 interface PlayerInventoryPanelProps {
   isVisible: boolean;
@@ -10,6 +11,7 @@ interface PlayerInventoryPanelProps {
   cargoUsed: number;
   playerCredits: number;
   currentStationName?: string;
+  currentTime?: number; // Game time, for perishable cargo
 }
 
 const PlayerInventoryPanel: React.FC<PlayerInventoryPanelProps> = ({
@@ -19,13 +21,14 @@ const PlayerInventoryPanel: React.FC<PlayerInventoryPanelProps> = ({
   cargoCapacity,
   cargoUsed,
   playerCredits,
-  currentStationName = 'Unknown Station'
+  currentStationName = 'Unknown Station',
+  currentTime = Date.now()
 }) => {
   if (!isVisible) return null;
 
   const cargoPercentage = Math.round((cargoUsed / cargoCapacity) * 100);
   const totalCargoValue = cargoItems.reduce((total, item) => {
-    return total + (item.quantity * item.averagePurchasePrice);
+    return total + (item.quantity * item.averagePurchasePrice * getSpoilageValueMultiplier(item, currentTime));
   }, 0);
 
   return (
@@ -160,9 +163,12 @@ const PlayerInventoryPanel: React.FC<PlayerInventoryPanelProps> = ({
               const commodity = getCommodity(item.commodityId);
               if (!commodity) return null;
               
-              const totalValue = item.quantity * item.averagePurchasePrice;
+              const valueMultiplier = getSpoilageValueMultiplier(item, currentTime);
+              const totalValue = item.quantity * item.averagePurchasePrice * valueMultiplier;
               const spaceUsed = item.quantity * commodity.unitSize;
-              const isExpiring = item.expirationTime && (item.expirationTime - Date.now()) < (24 * 60 * 60 * 1000); // Less than 1 day
+              const isExpiring = isSpoiling(item, currentTime);
+              const daysUntilSpoiled = getDaysUntilSpoiled(item, currentTime);
+              const daysLeft = daysUntilSpoiled !== undefined ? Math.ceil(daysUntilSpoiled) : null;
               
               return (
                 <div 
@@ -181,7 +187,12 @@ const PlayerInventoryPanel: React.FC<PlayerInventoryPanelProps> = ({
                     <div style={{ fontWeight: 'bold' }}>{commodity.name}</div>
                     <div style={{ fontSize: '12px', color: '#999' }}>
                       {commodity.category}
-                      {isExpiring && <span style={{ color: '#ff6b6b', marginLeft: '8px' }}>⚠️ Expiring soon!</span>}
+                      {daysLeft !== null && !isExpiring && <span style={{ marginLeft: '8px' }}>🕒 {daysLeft}d left</span>}
+                      {isExpiring && (
+                        <span style={{ color: '#ff6b6b', marginLeft: '8px' }}>
+                          ⚠️ Spoiling! {daysLeft}d left, {Math.round(valueMultiplier * 100)}% value
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div style={{ textAlign: 'center' }}>{item.quantity}</div>
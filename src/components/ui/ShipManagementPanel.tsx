@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Ship, EquipmentItem } from '../../types/player';
 import Modal from './Modal';
+import { getCurrentFuel, getFuelCapacity } from '../../utils/fuel';
 
 interface ShipManagementPanelProps {
   isVisible: boolean;
@@ -81,7 +82,7 @@ const ShipManagementPanel: React.FC<ShipManagementPanelProps> = ({
               <strong>Cargo Capacity:</strong> {currentShip.class.baseCargoCapacity} units
             </div>
             <div style={{ marginBottom: '8px' }}>
-              <strong>Fuel Capacity:</strong> {currentShip.class.baseFuelCapacity} units
+              <strong>Fuel:</strong> {Math.floor(getCurrentFuel(currentShip))} / {getFuelCapacity(currentShip)} units
             </div>
             <div style={{ marginBottom: '8px' }}>
               <strong>Speed:</strong> {currentShip.class.baseSpeed} units/h
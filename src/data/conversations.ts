@@ -0,0 +1,323 @@
+/**
+ * NPC Conversation Trees
+ * Dialogue for each kind of NPC, evaluated at runtime by NPCAIManager.
+ * Choices are offered only when their conditions pass, and nodes sharing an id
+ * are alternatives: the first whose conditions pass is shown.
+ */
+
+import { ConversationTree } from '../types/npc';
+
+export const CONVERSATION_TREES: ConversationTree[] = [
+  {
+    id: 'merchant_small_talk',
+    npcTypes: ['trader', 'transport', 'civilian'],
+    priority: 1,
+    startNodeId: 'greeting',
+    nodes: [
+      {
+        id: 'greeting',
+        speakerType: 'npc',
+        conditions: [{ type: 'reputation', operator: '<', value: -20 }],
+        text: "You've got some nerve hailing me after last time. Make it quick.",
+        choices: [
+          {
+            id: 'make_amends',
+            text: 'Let me make it up to you. (500 CR)',
+            conditions: [{ type: 'credits', operator: '>=', value: 500 }],
+            consequences: [
+              { type: 'credits', value: -500 },
+              { type: 'reputation', value: 30, message: 'They seem willing to let bygones be bygones.' }
+            ],
+            nextNodeId: 'amends_accepted'
+          },
+          {
+            id: 'farewell',
+            text: 'Forget it.',
+            consequences: [],
+            nextNodeId: 'end'
+          }
+        ]
+      },
+      {
+        id: 'greeting',
+        speakerType: 'npc',
+        text: "Greetings, fellow spacer! Always good to meet another entrepreneur out here.",
+        choices: [
+          {
+            id: 'ask_trade',
+            text: 'Looking to do some trading?',
+            consequences: [],
+            nextNodeId: 'trade_response'
+          },
+          {
+            id: 'sell_electronics',
+            text: 'I have ten crates of electronics going spare.',
+            conditions: [{ type: 'cargo', target: 'electronics', operator: '>=', value: 10 }],
+            consequences: [
+              { type: 'cargo', target: 'electronics', value: -10 },
+              { type: 'credits', value: 1800, message: 'Sold 10 electronics for 1,800 CR.' },
+              { type: 'reputation', value: 5 }
+            ],
+            nextNodeId: 'deal_done'
+          },
+          {
+            id: 'ask_contacts',
+            text: 'Know anyone at Volans who could use a reliable hauler?',
+            conditions: [
+              { type: 'skill', target: 'networking', operator: '>=', value: 5 },
+              { type: 'quest_flag', target: 'volans_liaison_introduced', operator: '!=', value: true }
+            ],
+            consequences: [
+              { type: 'contact', target: 'volans-corp', value: 'trade_liaison' },
+              { type: 'quest_flag', target: 'volans_liaison_introduced', value: true }
+            ],
+            nextNodeId: 'contact_shared'
+          },
+          {
+            id: 'ask_info',
+            text: 'Any interesting news?',
+            consequences: [],
+            nextNodeId: 'info_response'
+          },
+          {
+            id: 'farewell',
+            text: 'Safe travels.',
+            consequences: [],
+            nextNodeId: 'end'
+          }
+        ]
+      },
+      {
+        id: 'amends_accepted',
+        speakerType: 'npc',
+        text: "Credits talk. Alright, we're square - for now.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'trade_response',
+        speakerType: 'npc',
+        conditions: [{ type: 'skill', target: 'negotiation', operator: '>=', value: 10 }],
+        text: "You know how to talk shop. Between us, the refineries two jumps out pay double for fusion cells this cycle.",
+        effects: [{ type: 'information', value: 'fusion-cells', message: 'Tip: fusion cells are fetching high prices near the refineries.' }],
+        nextNodeId: 'greeting'
+      },
+      {
+        id: 'trade_response',
+        speakerType: 'npc',
+        text: "Always! Check the local markets - I might have left some good deals behind.",
+        nextNodeId: 'greeting'
+      },
+      {
+        id: 'deal_done',
+        speakerType: 'npc',
+        text: "Pleasure doing business. My buyers will be happy.",
+        nextNodeId: 'greeting'
+      },
+      {
+        id: 'contact_shared',
+        speakerType: 'npc',
+        text: "Sure, I know the Volans trade liaison. Tell them I sent you.",
+        nextNodeId: 'greeting'
+      },
+      {
+        id: 'info_response',
+        speakerType: 'npc',
+        text: "Pirates have been hitting convoys in the outer systems. Fly with an escort if you can.",
+        nextNodeId: 'greeting'
+      },
+      {
+        id: 'end',
+        speakerType: 'npc',
+        text: 'Conversation ended.'
+      }
+    ]
+  },
+  {
+    id: 'pirate_shakedown',
+    npcTypes: ['pirate'],
+    priority: 1,
+    startNodeId: 'greeting',
+    nodes: [
+      {
+        id: 'greeting',
+        speakerType: 'npc',
+        conditions: [{ type: 'reputation', target: 'pirates', operator: '>=', value: 25 }],
+        text: "Easy, friend - the Reapers vouch for you. What do you need?",
+        choices: [
+          {
+            id: 'ask_targets',
+            text: 'Seen any fat convoys lately?',
+            consequences: [{ type: 'information', value: 'convoy_routes', message: 'The pirate shares the convoy routes through this system.' }],
+            nextNodeId: 'targets_shared'
+          },
+          {
+            id: 'farewell',
+            text: 'Good hunting.',
+            consequences: [],
+            nextNodeId: 'end'
+          }
+        ]
+      },
+      {
+        id: 'greeting',
+        speakerType: 'npc',
+        text: "Nice ship you've got there... shame if something happened to it.",
+        choices: [
+          {
+            id: 'pay_tribute',
+            text: 'Take 1,000 CR and let me pass.',
+            conditions: [{ type: 'credits', operator: '>=', value: 1000 }],
+            consequences: [
+              { type: 'credits', value: -1000 },
+              { type: 'reputation', value: 10 }
+            ],
+            nextNodeId: 'tribute_paid'
+          },
+          {
+            id: 'intimidate',
+            text: 'Take a good look at my weapons before you try anything.',
+            conditions: [{ type: 'skill', target: 'combat', operator: '>=', value: 15 }],
+            consequences: [{ type: 'reputation', value: 5 }],
+            nextNodeId: 'backs_down'
+          },
+          {
+            id: 'join_reapers',
+            text: 'I hear the Void Reapers are recruiting.',
+            conditions: [
+              { type: 'reputation', target: 'pirates', operator: '>=', value: 0 },
+              { type: 'quest_flag', target: 'reapers_recruiter_met', operator: '!=', value: true }
+            ],
+            consequences: [
+              { type: 'mission', value: 'pirates_initiation' },
+              { type: 'quest_flag', target: 'reapers_recruiter_met', value: true }
+            ],
+            nextNodeId: 'recruited'
+          },
+          {
+            id: 'refuse',
+            text: 'Come and take it.',
+            consequences: [{ type: 'combat', value: 'engage', message: 'The pirate powers up weapons!' }],
+            nextNodeId: 'end'
+          }
+        ]
+      },
+      {
+        id: 'targets_shared',
+        speakerType: 'npc',
+        text: "Haulers run the gate lanes at shift change. Leave the escorts to us.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'tribute_paid',
+        speakerType: 'npc',
+        text: "Smart choice. Off you go before I change my mind.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'backs_down',
+        speakerType: 'npc',
+        text: "...Fine. Not worth the repair bill. Get lost.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'recruited',
+        speakerType: 'npc',
+        text: "Ha! Prove yourself on a few raids and we'll talk about a berth.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'end',
+        speakerType: 'npc',
+        text: 'Conversation ended.'
+      }
+    ]
+  },
+  {
+    id: 'patrol_checkpoint',
+    npcTypes: ['patrol'],
+    priority: 1,
+    startNodeId: 'greeting',
+    nodes: [
+      {
+        id: 'greeting',
+        speakerType: 'npc',
+        conditions: [{ type: 'reputation', operator: '<', value: -20 }],
+        text: "Your ship is flagged in our records. Power down and prepare to be scanned.",
+        choices: [
+          {
+            id: 'pay_fine',
+            text: 'Can we settle this with a fine? (2,000 CR)',
+            conditions: [{ type: 'credits', operator: '>=', value: 2000 }],
+            consequences: [
+              { type: 'credits', value: -2000 },
+              { type: 'reputation', value: 40, message: 'The flag on your record has been cleared.' }
+            ],
+            nextNodeId: 'fine_paid'
+          },
+          {
+            id: 'comply',
+            text: 'Powering down.',
+            consequences: [],
+            nextNodeId: 'end'
+          }
+        ]
+      },
+      {
+        id: 'greeting',
+        speakerType: 'npc',
+        text: "This is system patrol. State your business in this system.",
+        choices: [
+          {
+            id: 'ask_work',
+            text: 'Raijin is looking for pilots to field-test weapons. I could use the work.',
+            conditions: [
+              { type: 'reputation', target: 'raijin-corp', operator: '>=', value: 0 },
+              { type: 'quest_flag', target: 'raijin_patrol_referral', operator: '!=', value: true }
+            ],
+            consequences: [
+              { type: 'mission', value: 'raijin_first_contract' },
+              { type: 'quest_flag', target: 'raijin_patrol_referral', value: true }
+            ],
+            nextNodeId: 'referral'
+          },
+          {
+            id: 'report_pirates',
+            text: 'I spotted pirates lurking near the gate.',
+            conditions: [{ type: 'skill', target: 'investigation', operator: '>=', value: 5 }],
+            consequences: [{ type: 'reputation', value: 10 }],
+            nextNodeId: 'report_thanks'
+          },
+          {
+            id: 'farewell',
+            text: 'Just passing through.',
+            consequences: [],
+            nextNodeId: 'end'
+          }
+        ]
+      },
+      {
+        id: 'fine_paid',
+        speakerType: 'npc',
+        text: "Payment received. Your record is clear - keep it that way.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'referral',
+        speakerType: 'npc',
+        text: "I'll forward your name to the Raijin testing office. Expect a contract.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'report_thanks',
+        speakerType: 'npc',
+        text: "Good eyes. We'll send a task force to sweep the area.",
+        nextNodeId: 'end'
+      },
+      {
+        id: 'end',
+        speakerType: 'npc',
+        text: 'Conversation ended.'
+      }
+    ]
+  }
+];
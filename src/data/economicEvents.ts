@@ -0,0 +1,117 @@
+/**
+ * Economic Events - named causes behind market upheavals
+ *
+ * Each cause says where it breaks out, which goods it hits and how, how it
+ * spreads to neighbouring systems and what it can lead to once it ends.
+ */
+
+import { EconomicEventCause } from '../types/economy';
+
+export const ECONOMIC_EVENT_CAUSES: Record<string, EconomicEventCause> = {
+  'strike': {
+    id: 'strike',
+    name: 'Dockworkers\' Strike',
+    type: 'supply-shortage',
+    commodities: ['steel-alloys', 'machinery', 'ship-components', 'titanium-plates', 'iron-ore'],
+    stationTypes: ['industrial', 'refinery', 'manufacturing_hub', 'foundry', 'mining', 'shipyard'],
+    factions: ['Industrial Consortium', 'Manufacturing Alliance', 'Mining Guild'],
+    effects: { priceMultiplier: 1.4, productionMultiplier: 0.3 },
+    durationHours: [24, 96],
+    spontaneous: true,
+    spread: { chance: 0.3, intervalHours: 24, maxLevel: 1 },
+    followUps: [{ causeId: 'supply-glut', chance: 0.4 }],
+    description: 'Workers have walked off the job in {location}. Industrial output has all but stopped.'
+  },
+  'plague': {
+    id: 'plague',
+    name: 'Plague Outbreak',
+    type: 'demand-spike',
+    commodities: ['medical-supplies', 'protein-rations', 'hydroponic-produce'],
+    stationTypes: ['trade', 'habitat', 'colonial', 'agricultural', 'medical', 'luxury', 'entertainment'],
+    factions: ['Outer Colonies Coalition', 'Earth Federation'],
+    effects: { priceMultiplier: 1.8, demandMultiplier: 2.5 },
+    durationHours: [48, 168],
+    spontaneous: true,
+    spread: { chance: 0.5, intervalHours: 12, maxLevel: 3 },
+    followUps: [{ causeId: 'quarantine', chance: 0.6 }],
+    description: 'A fast-moving illness is sweeping through {location}. Medicine and food are in desperate demand.'
+  },
+  'war': {
+    id: 'war',
+    name: 'Border War',
+    type: 'trade-disruption',
+    commodities: ['fusion-cells', 'combat-stims', 'ship-components', 'antimatter-pods', 'fusion-drives'],
+    stationTypes: ['military', 'security', 'pirate', 'exploration', 'colonial'],
+    factions: ['Security Forces', 'Expansion Fleet', 'Pirates'],
+    effects: { priceMultiplier: 1.6, demandMultiplier: 2.0 },
+    durationHours: [72, 240],
+    spontaneous: true,
+    spread: { chance: 0.4, intervalHours: 24, maxLevel: 2 },
+    followUps: [{ causeId: 'refugee-influx', chance: 0.6 }, { causeId: 'plague', chance: 0.15 }],
+    description: 'Fighting has broken out around {location}. Military buyers are paying whatever it takes.'
+  },
+  'bumper-harvest': {
+    id: 'bumper-harvest',
+    name: 'Bumper Harvest',
+    type: 'price-crash',
+    commodities: ['hydroponic-produce', 'protein-rations', 'exotic-spices'],
+    stationTypes: ['agricultural', 'habitat', 'colonial'],
+    factions: ['Outer Colonies Coalition'],
+    effects: { priceMultiplier: 0.6, productionMultiplier: 1.8 },
+    durationHours: [48, 120],
+    spontaneous: true,
+    spread: { chance: 0.25, intervalHours: 24, maxLevel: 1 },
+    description: 'Record yields in {location} have flooded the market with food.'
+  },
+  'mining-boom': {
+    id: 'mining-boom',
+    name: 'Mining Boom',
+    type: 'production-bonus',
+    commodities: ['iron-ore', 'copper-ore', 'titanium-ore', 'rare-earth-elements', 'aluminum-ore'],
+    stationTypes: ['mining'],
+    factions: ['Mining Guild'],
+    effects: { priceMultiplier: 0.8, productionMultiplier: 1.5 },
+    durationHours: [72, 168],
+    spontaneous: true,
+    followUps: [{ causeId: 'strike', chance: 0.3 }],
+    description: 'Prospectors in {location} have struck rich new seams. Ore is pouring out of the mines.'
+  },
+  'supply-glut': {
+    id: 'supply-glut',
+    name: 'Post-Strike Glut',
+    type: 'price-crash',
+    commodities: ['steel-alloys', 'machinery', 'ship-components', 'titanium-plates'],
+    stationTypes: ['industrial', 'refinery', 'manufacturing_hub', 'foundry', 'shipyard'],
+    effects: { priceMultiplier: 0.7, productionMultiplier: 1.4 },
+    durationHours: [24, 72],
+    spontaneous: false,
+    description: 'Factories in {location} are clearing their backlog at cut prices.'
+  },
+  'quarantine': {
+    id: 'quarantine',
+    name: 'Quarantine',
+    type: 'trade-disruption',
+    commodities: ['medical-supplies', 'protein-rations', 'hydroponic-produce', 'consumer-goods'],
+    stationTypes: ['trade', 'habitat', 'colonial', 'agricultural', 'medical', 'luxury', 'entertainment'],
+    effects: { priceMultiplier: 1.3, productionMultiplier: 0.5 },
+    durationHours: [48, 120],
+    spontaneous: false,
+    description: 'Health authorities have sealed the docks in {location}. Only licensed relief cargo gets through.'
+  },
+  'refugee-influx': {
+    id: 'refugee-influx',
+    name: 'Refugee Influx',
+    type: 'demand-spike',
+    commodities: ['protein-rations', 'medical-supplies', 'consumer-goods'],
+    stationTypes: ['trade', 'habitat', 'colonial', 'agricultural', 'medical'],
+    effects: { priceMultiplier: 1.5, demandMultiplier: 2.0 },
+    durationHours: [72, 168],
+    spontaneous: false,
+    spread: { chance: 0.3, intervalHours: 24, maxLevel: 1 },
+    description: 'Refugees fleeing the fighting are arriving in {location} with nothing but what they carry.'
+  }
+};
+
+export function getEconomicEventCause(id: string): EconomicEventCause | undefined {
+  return ECONOMIC_EVENT_CAUSES[id];
+}
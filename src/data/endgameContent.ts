@@ -83,6 +83,11 @@ export interface EndgameRewards {
 /**
  * PRESTIGE SYSTEMS
  * Ways for players to achieve recognition and unlock new gameplay
+ *
+ * Requirements name FactionManager factions, AchievementManager achievements and
+ * QuestManager quests. Faction standing is capped at 100, so the reputation
+ * thresholds are the original 300-point scale divided by three. Where no
+ * achievement exists for a feat, the quest closest to it stands in.
  */
 export const PRESTIGE_SYSTEMS: PrestigeSystem[] = [
   {
@@ -92,11 +97,11 @@ export const PRESTIGE_SYSTEMS: PrestigeSystem[] = [
     requirements: {
       level: 50,
       reputation: {
-        'traders_guild': 200,
-        'industrial_consortium': 150
+        'volans-corp': 67, // Traders Guild, 200
+        'tekton-corp': 50 // Industrial Consortium, 150
       },
       credits: 10000000,
-      completedQuests: ['tg_economic_empire', 'tg_market_monopoly', 'tg_galactic_trade_summit']
+      completedQuests: ['endgame_trade_emperor', 'gcg_trade_route_expansion', 'gcg_financial_crisis']
     },
     benefits: {
       title: 'Merchant Emperor of the Galaxy',
@@ -138,14 +143,14 @@ export const PRESTIGE_SYSTEMS: PrestigeSystem[] = [
     requirements: {
       level: 50,
       reputation: {
-        'security_forces': 250,
-        'earth_federation': 200
+        'bellator-corp': 83, // Security Forces, 250
+        'raijin-corp': 67 // Earth Federation, 200
       },
-      achievements: [
-        'pirate_scourge',
-        'hero_of_the_lanes',
-        'galactic_peacekeeper',
-        'defender_of_the_innocent'
+      completedQuests: [
+        'investigation_suspicious_behavior', // Pirate scourge
+        'investigation_missing_cargo', // Hero of the lanes
+        'endgame_fleet_admiral', // Galactic peacekeeper
+        'isa_refugee_crisis' // Defender of the innocent
       ]
     },
     benefits: {
@@ -188,14 +193,13 @@ export const PRESTIGE_SYSTEMS: PrestigeSystem[] = [
     requirements: {
       level: 45,
       reputation: {
-        'explorers_guild': 300,
-        'scientific_consortium': 150
+        'independents': 100, // Explorers Guild, 300
+        'yugen-corp': 50 // Scientific Consortium, 150
       },
-      achievements: [
-        'first_contact_specialist',
-        'stellar_cartographer',
-        'deep_space_pioneer',
-        'alien_artifact_hunter'
+      achievements: ['explorer'], // Stellar cartographer
+      completedQuests: [
+        'fed_strange_signals', // First contact specialist
+        'endgame_cosmic_explorer' // Deep space pioneer and alien artifact hunter
       ]
     },
     benefits: {
@@ -501,7 +505,7 @@ export const NEW_GAME_PLUS_FEATURES: NewGamePlusFeature[] = [
       startingBonuses: {
         'credits': 500000,
         'trading_skill': 25,
-        'reputation_traders_guild': 50
+        'reputation_volans-corp': 15
       },
       retainedProgress: [
         'advanced_trading_algorithms',
@@ -527,7 +531,7 @@ export const NEW_GAME_PLUS_FEATURES: NewGamePlusFeature[] = [
       startingBonuses: {
         'combat_skill': 30,
         'courage': 20,
-        'reputation_security_forces': 75
+        'reputation_bellator-corp': 25
       },
       retainedProgress: [
         'heroic_recognition',
@@ -553,7 +557,7 @@ export const NEW_GAME_PLUS_FEATURES: NewGamePlusFeature[] = [
       startingBonuses: {
         'exploration_skill': 35,
         'scientific_knowledge': 25,
-        'reputation_explorers_guild': 100
+        'reputation_independents': 33
       },
       retainedProgress: [
         'cosmic_navigation_data',
@@ -16,11 +16,13 @@ export interface EquipmentTemplate {
     scannerRange?: number;
     weaponDamage?: number;
     accuracy?: number;
+    shelfLifeBonus?: number;
   };
   requirements?: {
     minShipClass?: string[];
     techLevel?: number;
   };
+  combatId?: string; // Weapon or shield in CombatManager's database this fitting uses in combat
 }
 
 export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
@@ -106,7 +108,22 @@ export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
     basePrice: 8000,
     rarity: 'rare',
     effects: {
-      cargoCapacity: 80
+      cargoCapacity: 80,
+      shelfLifeBonus: 0.5
+    }
+  },
+
+  'refrigerated-cargo-module': {
+    id: 'refrigerated-cargo-module',
+    name: 'Refrigerated Cargo Module',
+    type: 'Cold Storage',
+    category: 'cargo',
+    description: 'Cryogenic storage that keeps perishable goods fresh for twice as long',
+    basePrice: 4200,
+    rarity: 'uncommon',
+    effects: {
+      cargoCapacity: 10,
+      shelfLifeBonus: 1.0
     }
   },
 
@@ -121,7 +138,8 @@ export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
     rarity: 'common',
     effects: {
       shieldStrength: 15
-    }
+    },
+    combatId: 'magnetic-deflector-basic'
   },
 
   'reinforced-shielding': {
@@ -134,7 +152,8 @@ export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
     rarity: 'uncommon',
     effects: {
       shieldStrength: 35
-    }
+    },
+    combatId: 'magnetic-deflector-basic'
   },
 
   'adaptive-shield-matrix': {
@@ -150,7 +169,8 @@ export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
     },
     requirements: {
       techLevel: 2
-    }
+    },
+    combatId: 'adaptive-shield-matrix'
   },
 
   // WEAPON EQUIPMENT
@@ -165,7 +185,8 @@ export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
     effects: {
       weaponDamage: 20,
       accuracy: 0.8
-    }
+    },
+    combatId: 'pulse-laser-mk1'
   },
 
   'plasma-cannon': {
@@ -179,7 +200,26 @@ export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
     effects: {
       weaponDamage: 45,
       accuracy: 0.7
-    }
+    },
+    combatId: 'plasma-cannon-mk2'
+  },
+
+  'ion-cannon': {
+    id: 'ion-cannon',
+    name: 'Ion Cannon',
+    type: 'Ion Weapon',
+    category: 'weapons',
+    description: 'Overloads ship systems with ionised bursts, leaving targets disabled for boarding',
+    basePrice: 9500,
+    rarity: 'uncommon',
+    effects: {
+      weaponDamage: 30,
+      accuracy: 0.8
+    },
+    requirements: {
+      techLevel: 2
+    },
+    combatId: 'ion-cannon-mk1'
   },
 
   'antimatter-torpedo': {
@@ -197,7 +237,8 @@ export const EQUIPMENT_TEMPLATES: Record<string, EquipmentTemplate> = {
     requirements: {
       minShipClass: ['heavy-freight', 'combat'],
       techLevel: 4
-    }
+    },
+    combatId: 'torpedo-launcher-mk3'
   },
 
   // UTILITY EQUIPMENT
@@ -250,7 +291,7 @@ export const SHIP_CLASSES: Record<string, any> = {
     name: 'Light Freighter',
     category: 'transport',
     baseCargoCapacity: 100,
-    baseFuelCapacity: 50,
+    baseFuelCapacity: 150,
     baseSpeed: 30,
     baseShields: 25,
     equipmentSlots: {
@@ -266,7 +307,7 @@ export const SHIP_CLASSES: Record<string, any> = {
     name: 'Heavy Freighter',
     category: 'heavy-freight',
     baseCargoCapacity: 250,
-    baseFuelCapacity: 80,
+    baseFuelCapacity: 240,
     baseSpeed: 20,
     baseShields: 40,
     equipmentSlots: {
@@ -282,7 +323,7 @@ export const SHIP_CLASSES: Record<string, any> = {
     name: 'Courier Ship',
     category: 'courier',
     baseCargoCapacity: 50,
-    baseFuelCapacity: 40,
+    baseFuelCapacity: 120,
     baseSpeed: 50,
     baseShields: 15,
     equipmentSlots: {
@@ -292,6 +333,54 @@ export const SHIP_CLASSES: Record<string, any> = {
       weapons: 1,
       utility: 2
     }
+  },
+  'light-combat': {
+    id: 'light-combat',
+    name: 'Light Raider',
+    category: 'combat',
+    baseCargoCapacity: 40,
+    baseFuelCapacity: 110,
+    baseSpeed: 45,
+    baseShields: 60,
+    equipmentSlots: {
+      engines: 1,
+      cargo: 1,
+      shields: 1,
+      weapons: 2,
+      utility: 1
+    }
+  },
+  'patrol': {
+    id: 'patrol',
+    name: 'Patrol Cutter',
+    category: 'combat',
+    baseCargoCapacity: 60,
+    baseFuelCapacity: 160,
+    baseSpeed: 40,
+    baseShields: 100,
+    equipmentSlots: {
+      engines: 2,
+      cargo: 1,
+      shields: 2,
+      weapons: 2,
+      utility: 2
+    }
+  },
+  'heavy-combat': {
+    id: 'heavy-combat',
+    name: 'Heavy Gunship',
+    category: 'combat',
+    baseCargoCapacity: 80,
+    baseFuelCapacity: 200,
+    baseSpeed: 25,
+    baseShields: 150,
+    equipmentSlots: {
+      engines: 2,
+      cargo: 2,
+      shields: 2,
+      weapons: 4,
+      utility: 2
+    }
   }
 };
 
@@ -10,6 +10,7 @@ import { performanceMonitor } from './PerformanceMonitor';
 import { resourceManager } from './ResourceManager';
 import { shipTextureManager } from './ShipTextureManager';
 import { audioEngine } from './AudioEngine';
+import { SaveStorageBackend } from '../systems/SaveStorage';
 
 /**
  * Main game engine class with modular architecture.
@@ -73,6 +74,7 @@ export class Engine implements GameEngine {
    * The canvas will be configured for optimal pixel art rendering.
    * 
    * @param canvas - HTML canvas element for rendering the game
+   * @param saveStorage - Backend for save data, defaults to localStorage
    * @throws {Error} If the canvas doesn't support 2D context
    * 
    * @example
@@ -81,7 +83,7 @@ export class Engine implements GameEngine {
    * const engine = new Engine(canvas);
    * ```
    */
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, saveStorage?: SaveStorageBackend) {
     this.canvas = canvas;
     
     // For 3D-only mode, ThreeRenderer will handle canvas context creation
@@ -89,7 +91,7 @@ export class Engine implements GameEngine {
     // Initialize modular components
     this.gameLoop = new GameLoop();
     this.inputHandler = new InputHandler(canvas);
-    this.systemManager = new SystemManager(canvas);
+    this.systemManager = new SystemManager(canvas, saveStorage);
     this.sceneManager = new SceneManager();
     
     // Initialize modern engine systems
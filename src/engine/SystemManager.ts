@@ -8,9 +8,18 @@ import { WorldManager } from '../systems/WorldManager';
 import { HackingManager } from '../systems/HackingManager';
 import { CombatManager } from '../systems/CombatManager';
 import { InvestmentManager } from '../systems/InvestmentManager';
+import { PersonalEquipmentManager } from '../systems/PersonalEquipmentManager';
+import { GameSaveData } from '../systems/SaveManager';
+import { SaveStorageBackend, createSaveStorageBackend } from '../systems/SaveStorage';
+import { SeededRandom } from '../utils/SeededRandom';
+import { GalaxyGenerationOptions } from '../systems/GalaxyGenerator';
+import { GalaxyLoader, GalaxyLoadResult } from '../systems/GalaxyLoader';
+import { Galaxy } from '../types/world';
+import { createShipCoords } from '../utils/coordinates';
 
 import { QuestManager } from '../systems/QuestManager';
 import { NavigationManager } from '../systems/NavigationManager';
+import { EndgameManager } from '../systems/EndgameManager';
 
 /**
  * System manager for dependency injection and system lifecycle management.
@@ -18,6 +27,7 @@ import { NavigationManager } from '../systems/NavigationManager';
  * Makes the engine more testable and maintainable.
  */
 export class SystemManager {
+  private random: SeededRandom;
   private inputManager: InputManager;
   private worldManager: WorldManager;
   private timeManager: TimeManager;
@@ -37,24 +47,34 @@ export class SystemManager {
   private hackingManager: HackingManager;
   private combatManager: CombatManager;
   private investmentManager: InvestmentManager;
+  private personalEquipmentManager: PersonalEquipmentManager;
 
   private questManager: QuestManager;
   private navigationManager: NavigationManager;
+  private endgameManager: EndgameManager;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    saveStorage: SaveStorageBackend = createSaveStorageBackend(),
+    seed?: number
+  ) {
+    // One generator drives every simulation system so a seed replays a session
+    this.random = new SeededRandom(seed);
 
-  constructor(canvas: HTMLCanvasElement) {
     // Initialize all systems
     this.inputManager = new InputManager(canvas);
     this.worldManager = new WorldManager();
     this.timeManager = new TimeManager();
-    this.saveManager = new SaveManager();
-    this.economicSystem = new EconomicSystem();
-    this.contractManager = new ContractManager();
+    this.saveManager = new SaveManager(saveStorage);
+    this.economicSystem = new EconomicSystem(this.random, this.timeManager);
+    this.contractManager = new ContractManager(this.random, this.timeManager);
     this.routeAnalyzer = new RouteAnalyzer();
     this.playerManager = new PlayerManager();
     this.characterManager = new CharacterManager();
     this.characterProgressionSystem = new CharacterProgressionSystem(this.characterManager);
     this.skillSpecializationManager = new SkillSpecializationManager();
     this.achievementManager = new AchievementManager();
+    this.personalEquipmentManager = new PersonalEquipmentManager();
     this.maintenanceManager = new MaintenanceManager(this.timeManager);
     
     // Initialize event manager with required dependencies
@@ -62,14 +82,16 @@ export class SystemManager {
       this.timeManager,
       this.worldManager,
       this.playerManager,
-      this.playerManager.getFactionManager()
+      this.playerManager.getFactionManager(),
+      this.random
     );
     
     // Initialize NPC AI manager with required dependencies
     this.npcAIManager = new NPCAIManager(
       this.timeManager,
       this.worldManager,
-      this.playerManager
+      this.playerManager,
+      this.random
     );
     
     // Initialize security manager with required dependencies
@@ -78,7 +100,8 @@ export class SystemManager {
       this.worldManager,
       this.playerManager,
       this.playerManager.getFactionManager(),
-      this.npcAIManager
+      this.npcAIManager,
+      this.random
     );
     
     // Initialize hacking manager with required dependencies
@@ -88,7 +111,8 @@ export class SystemManager {
       this.playerManager,
       this.playerManager.getFactionManager(),
       this.securityManager,
-      this.characterManager
+      this.characterManager,
+      this.random
     );
     
     // Initialize combat manager with required dependencies
@@ -99,7 +123,8 @@ export class SystemManager {
       this.playerManager.getFactionManager(),
       this.securityManager,
       this.npcAIManager,
-      this.eventManager
+      this.eventManager,
+      this.random
     );
     
     // Initialize investment manager with required dependencies
@@ -108,7 +133,8 @@ export class SystemManager {
       this.worldManager,
       this.playerManager,
       this.playerManager.getFactionManager(),
-      this.economicSystem
+      this.economicSystem,
+      this.random
     );
 
     
@@ -123,13 +149,40 @@ export class SystemManager {
     
     // Initialize navigation manager with required dependencies
     this.navigationManager = new NavigationManager(this.timeManager);
+
+    // Initialize endgame manager; prestige reads player, character, achievement and quest state
+    this.endgameManager = new EndgameManager(
+      this.timeManager,
+      this.playerManager,
+      this.characterManager,
+      this.achievementManager
+    );
     
     // Link systems that need to communicate
     this.playerManager.setProgressionSystem(this.characterProgressionSystem);
     this.playerManager.setNavigationManager(this.navigationManager);
     this.playerManager.setWorldManager(this.worldManager);
+    this.playerManager.setTimeManager(this.timeManager);
+    this.economicSystem.setWorldManager(this.worldManager);
+    this.economicSystem.setEventManager(this.eventManager);
+    this.investmentManager.setSecurityManager(this.securityManager);
+    this.endgameManager.setQuestManager(this.questManager);
+    this.endgameManager.setRunResetCallback(() => this.resetRunScopedSystems());
+    this.economicSystem.setEndgameManager(this.endgameManager);
+    this.contractManager.setEndgameManager(this.endgameManager);
+    this.contractManager.setWorldManager(this.worldManager);
+    // The opening board was posted before the galaxy's stations were known
+    this.contractManager.reset();
+    this.combatManager.setEndgameManager(this.endgameManager);
+    this.combatManager.setCharacterManager(this.characterManager);
+    this.characterManager.setEndgameManager(this.endgameManager);
+    this.playerManager.getFactionManager().setEndgameManager(this.endgameManager);
     this.worldManager.setPlayerManager(this.playerManager);
     this.npcAIManager.setNavigationManager(this.navigationManager);
+    this.npcAIManager.setEconomicSystem(this.economicSystem);
+    this.npcAIManager.setQuestManager(this.questManager);
+    this.npcAIManager.setCharacterManager(this.characterManager);
+    this.navigationManager.setWorldManager(this.worldManager);
     this.contractManager.setProgressionSystem(this.characterProgressionSystem);
     this.maintenanceManager.setProgressionSystem(this.characterProgressionSystem);
     
@@ -160,9 +213,15 @@ export class SystemManager {
     
     // Update world system (includes ship movement)
     this.worldManager.updateShipMovement(deltaTime);
+
+    // Spoil perishable cargo that has expired
+    this.playerManager.updateCargoSpoilage();
     
     // Update economic system
     this.economicSystem.update(deltaTime * 1000); // Convert to milliseconds for economic system
+
+    // Settle player limit orders that filled; goods are handed over at their station
+    this.economicSystem.settlePlayerOrders(this.playerManager, this.worldManager.getCurrentStation()?.id);
     
     // Update contract system
     this.contractManager.update(deltaTime * 1000);
@@ -190,6 +249,9 @@ export class SystemManager {
     
     // Update navigation system
     this.navigationManager.update();
+
+    // Grant prestige the player has become eligible for
+    this.endgameManager.update();
   }
 
   /**
@@ -234,6 +296,10 @@ export class SystemManager {
     return this.saveManager;
   }
 
+  getRandom(): SeededRandom {
+    return this.random;
+  }
+
   getContractManager(): ContractManager {
     return this.contractManager;
   }
@@ -290,6 +356,10 @@ export class SystemManager {
     return this.investmentManager;
   }
 
+  getPersonalEquipmentManager(): PersonalEquipmentManager {
+    return this.personalEquipmentManager;
+  }
+
 
 
   getQuestManager(): QuestManager {
@@ -300,6 +370,231 @@ export class SystemManager {
     return this.navigationManager;
   }
 
+  getEndgameManager(): EndgameManager {
+    return this.endgameManager;
+  }
+
+  /**
+   * End the current run and start the next generation from the galaxy's
+   * starting station with fresh markets
+   */
+  startNewGamePlus(featureIds: string[], challengeModeId?: string): { success: boolean; error?: string } {
+    const result = this.endgameManager.startNewGamePlus(featureIds, challengeModeId);
+    if (result.success) {
+      this.enterGalaxy(this.worldManager.getGalaxy());
+    }
+    return result;
+  }
+
+  /**
+   * Clear what the last run's character owned, owed or was in the middle of
+   * when New Game+ starts. The galaxy carries on: time, events, NPC traffic,
+   * law enforcement and the securities on offer stay, and enterGalaxy
+   * rebuilds the markets afterwards.
+   */
+  private resetRunScopedSystems(): void {
+    this.contractManager.reset();
+    this.investmentManager.resetPlayerHoldings();
+    // The last run's orders and what they hold went with its player
+    this.economicSystem.discardPlayerOrders();
+    this.navigationManager.setState({ activeTravels: [], travelHistory: [] });
+    this.maintenanceManager.reset();
+    this.skillSpecializationManager.reset();
+    this.personalEquipmentManager.reset();
+    this.securityManager.clearCriminalRecord(this.playerManager.getPlayer().id);
+
+    // Gear, stolen data, weapons and licenses belonged to the old character
+    this.hackingManager.reset();
+    this.combatManager.reset();
+  }
+
+
+  /**
+   * Build a complete save document from every system's serialized state
+   */
+  createSaveData(): Partial<GameSaveData> {
+    const player = this.playerManager.getPlayer();
+    const character = this.characterManager.getCharacter();
+    const galaxy = this.worldManager.getGalaxy();
+    const timeState = this.timeManager.getState();
+
+    return {
+      playerName: player.name,
+      playtimeMs: player.statistics.timeInGame,
+      random: this.random.getState(),
+      world: {
+        galaxy,
+        playerLocation: { ...galaxy.currentPlayerLocation }
+      },
+      time: {
+        gameStartTime: timeState.gameStartTime,
+        accumulatedTime: timeState.accumulatedTime,
+        timeAcceleration: timeState.timeAcceleration,
+        scheduledEvents: timeState.scheduledEvents.map(({ callback: _callback, ...event }) => event)
+      },
+      player: {
+        name: player.name,
+        credits: player.credits,
+        experience: character?.progression.experience ?? 0,
+        skills: character ? Object.fromEntries(Object.entries(character.skills)) : {},
+        reputation: Object.fromEntries(
+          Array.from(player.reputation.entries()).map(([factionId, rep]) => [factionId, rep.standing])
+        )
+      },
+      systems: {
+        economy: this.economicSystem.serialize(),
+        contracts: this.contractManager.serialize(),
+        player: this.playerManager.serialize(),
+        character: this.characterManager.serialize(),
+        skillSpecializations: this.skillSpecializationManager.serialize(),
+        achievements: this.achievementManager.serialize(),
+        personalEquipment: this.personalEquipmentManager.serialize(),
+        maintenance: this.maintenanceManager.serialize(),
+        events: this.eventManager.getState(),
+        npcAI: this.npcAIManager.getState(),
+        security: this.securityManager.serialize(),
+        hacking: this.hackingManager.serialize(),
+        combat: this.combatManager.serialize(),
+        investment: this.investmentManager.serialize(),
+        quests: this.questManager.serialize(),
+        navigation: this.navigationManager.getState(),
+        endgame: this.endgameManager.serialize()
+      }
+    };
+  }
+
+  /**
+   * Restore every system from a save document.
+   * Systems are restored in dependency order: time and world first, then the
+   * economy and player, then the systems that read player or market state.
+   */
+  restoreSaveData(saveData: GameSaveData): void {
+    // Scheduled callbacks are owned by the systems that registered them, so
+    // keep the live ones; navigation re-derives arrivals from its travel plans.
+    this.timeManager.setState({
+      gameStartTime: saveData.time.gameStartTime,
+      accumulatedTime: saveData.time.accumulatedTime,
+      timeAcceleration: saveData.time.timeAcceleration,
+      scheduledEvents: this.timeManager.getScheduledEvents()
+    });
+
+    if (saveData.random) {
+      this.random.setState(saveData.random);
+    }
+
+    if (saveData.world.galaxy?.sectors?.length) {
+      this.worldManager.setGalaxy(saveData.world.galaxy);
+    }
+
+    const systems = saveData.systems;
+    if (!systems) {
+      this.worldManager.setPlayerShip(this.playerManager.getShip());
+      return;
+    }
+
+    this.economicSystem.deserialize(systems.economy);
+    this.playerManager.deserialize(systems.player);
+    if (systems.character) {
+      this.characterManager.deserialize(systems.character);
+    }
+    this.skillSpecializationManager.deserialize(systems.skillSpecializations);
+    this.achievementManager.deserialize(systems.achievements);
+    this.personalEquipmentManager.deserialize(systems.personalEquipment);
+    this.contractManager.deserialize(systems.contracts);
+    this.maintenanceManager.deserialize(systems.maintenance);
+    this.eventManager.loadState(systems.events);
+    this.npcAIManager.loadState(systems.npcAI);
+    this.securityManager.deserialize(systems.security);
+    this.hackingManager.deserialize(systems.hacking);
+    this.combatManager.deserialize(systems.combat);
+    this.investmentManager.deserialize(systems.investment);
+    this.questManager.deserialize(systems.quests);
+    this.navigationManager.setState(systems.navigation);
+    if (systems.endgame) {
+      this.endgameManager.deserialize(systems.endgame);
+    }
+
+    // The restored player owns new ship objects; re-link them for rendering
+    this.worldManager.setPlayerShip(this.playerManager.getShip());
+  }
+
+  /**
+   * Save the whole game to a slot
+   */
+  async saveGame(slotId: string, slotName?: string): Promise<boolean> {
+    return this.saveManager.saveGame(slotId, this.createSaveData(), slotName);
+  }
+
+  /**
+   * Load the whole game from a slot
+   */
+  async loadGame(slotId: string): Promise<boolean> {
+    const saveData = await this.saveManager.loadGame(slotId);
+    if (!saveData) return false;
+
+    this.restoreSaveData(saveData);
+    return true;
+  }
+
+  /**
+   * Replace the preset galaxy with a procedurally generated one from the
+   * shared seed, and move the player to its starting station
+   */
+  generateGalaxy(options: Partial<GalaxyGenerationOptions> = {}): Galaxy {
+    const galaxy = this.worldManager.generateGalaxy(this.random, options);
+    this.replaceGalaxy(galaxy);
+    return galaxy;
+  }
+
+  /**
+   * Replace the galaxy with one loaded from a JSON map definition.
+   * Station and sector factions must be known to the FactionManager.
+   * The current galaxy is kept if the definition has errors.
+   */
+  loadGalaxyDefinition(definition: unknown): GalaxyLoadResult {
+    const knownFactions = this.playerManager.getFactionManager().getFactions()
+      .flatMap(faction => [faction.id, faction.name]);
+    const result = new GalaxyLoader(knownFactions).load(definition);
+
+    if (result.success && result.galaxy) {
+      this.worldManager.setGalaxy(result.galaxy);
+      this.replaceGalaxy(result.galaxy);
+    } else {
+      console.error('Galaxy definition has errors:', result.errors);
+    }
+    return result;
+  }
+
+  /**
+   * Move the game into a different galaxy. The player's open orders are cancelled
+   * so the credits and goods they hold come back, and NPCs and contracts are dealt
+   * afresh for the new stations.
+   */
+  private replaceGalaxy(galaxy: Galaxy): void {
+    this.economicSystem.cancelAllPlayerOrders(this.playerManager);
+    this.npcAIManager.respawnNPCs();
+    this.contractManager.reset();
+    this.enterGalaxy(galaxy);
+  }
+
+  /**
+   * Replace the previous galaxy's markets with the new galaxy's and move the
+   * player to its starting station
+   */
+  private enterGalaxy(galaxy: Galaxy): void {
+    this.economicSystem.clearStationEconomics();
+    this.initializeEconomics();
+
+    const start = galaxy.currentPlayerLocation;
+    const startStation = start.stationId ? this.worldManager.getStationById(start.stationId) : null;
+    const ship = this.playerManager.getShip();
+    ship.location.systemId = start.systemId;
+    ship.location.isInTransit = false;
+    ship.location.coordinates = startStation ? createShipCoords(startStation.position.x, startStation.position.y) : undefined;
+    this.playerManager.setCurrentStation(start.stationId ?? null);
+    this.worldManager.setPlayerShip(ship);
+  }
+
   /**
    * Initialize economics for all existing stations
    */
@@ -13,7 +13,7 @@ import {
   AchievementNotification
 } from '../types/achievements';
 
-interface AchievementManagerSaveData {
+export interface AchievementManagerSaveData {
   playerAchievements: PlayerAchievements;
 }
 
@@ -16,8 +16,9 @@ import {
   SkillChangeRecord,
   CharacterCreationConfig
 } from '../types/character';
+import { EndgameModifierSource } from '../types/endgame';
 
-interface CharacterManagerSaveData {
+export interface CharacterManagerSaveData {
   character: Character;
   experienceHistory: ExperienceGain[];
 }
@@ -26,11 +27,19 @@ export class CharacterManager {
   private character: Character | null = null;
   private experienceHistory: ExperienceGain[] = [];
   private config: CharacterCreationConfig;
+  private endgameManager: EndgameModifierSource | null = null;
 
   constructor() {
     this.config = this.getDefaultCreationConfig();
   }
 
+  /**
+   * Set the endgame manager (dependency injection) - challenge modes can multiply experience gains
+   */
+  setEndgameManager(endgameManager: EndgameModifierSource): void {
+    this.endgameManager = endgameManager;
+  }
+
   /**
    * Create a new character with default values
    */
@@ -117,15 +126,16 @@ export class CharacterManager {
   awardExperience(amount: number, source: string, category: ExperienceGain['category']): boolean {
     if (!this.character) return false;
 
+    const gained = Math.round(amount * (this.endgameManager?.getExperienceMultiplier() ?? 1));
     const experienceGain: ExperienceGain = {
       source,
-      amount,
+      amount: gained,
       category,
       timestamp: Date.now()
     };
 
     this.experienceHistory.push(experienceGain);
-    this.character.progression.experience += amount;
+    this.character.progression.experience += gained;
 
     // Check for level up (but don't base success on it)
     this.checkLevelUp();
@@ -12,8 +12,23 @@ import {
   EncounterType,
   CombatStats,
   DamageResult,
-  CombatEffect
+  CombatEffect,
+  DamageType,
+  EquippedWeapon,
+  ShieldType,
+  ShipCombatData,
+  ShipSystems,
+  CombatEnvironment,
+  CombatMovement,
+  CombatTactics,
+  EnvironmentalHazard,
+  RangeBand,
+  BoardingOutcome,
+  CombatCargo,
+  FleetLoadout,
+  ShipLoadout
 } from '../types/combat';
+import { EquipmentItem, Ship } from '../types/player';
 import { TimeManager } from './TimeManager';
 import { WorldManager } from './WorldManager';
 import { PlayerManager } from './PlayerManager';
@@ -21,6 +36,114 @@ import { FactionManager } from './FactionManager';
 import { SecurityManager } from './SecurityManager';
 import { NPCAIManager } from './NPCAIManager';
 import { EventManager } from './EventManager';
+import { CharacterManager } from './CharacterManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { EndgameModifierSource } from '../types/endgame';
+import { angleDifference, rotateTowards } from '../utils/coordinates';
+import {
+  EQUIPMENT_TEMPLATES,
+  EquipmentTemplate,
+  SHIP_CLASSES,
+  createEquipmentItem,
+  getEffectiveStats,
+  getEquipmentTemplate,
+  getTemplateIdFromEquipmentId
+} from '../data/equipment';
+import { getCommodity } from '../data/commodities';
+
+// Hull points of the player's ship at full condition
+const PLAYER_HULL_POINTS = 100;
+
+// Weapon fittings without a combat profile fire as this weapon
+const DEFAULT_WEAPON_ID = 'pulse-laser-mk1';
+
+// Energy each weapon capacitor regains per tick at full power
+const WEAPON_ENERGY_RECHARGE = 20;
+
+// Distance a ship must put between itself and every hostile before it can jump out
+const JUMP_DISTANCE = 20000;
+
+// Game time in milliseconds of one battlefield tick; movement, turning and hazard damage advance per tick
+const COMBAT_TICK = 1000;
+
+// Most ticks one update catches up on; a longer gap, such as accelerated time, drops the rest
+const MAX_TICKS_PER_UPDATE = 10;
+
+// Distance per tick covered by a perfectly manoeuvrable ship with healthy engines
+const BASE_COMBAT_SPEED = 1500;
+
+// Radians per tick a perfectly manoeuvrable ship can turn
+const MAX_TURN_RATE = Math.PI / 2;
+
+// Accuracy at each range band; a band reaches out to the given fraction of the weapon's range
+const RANGE_BANDS: Array<{ band: RangeBand; maxRange: number; accuracy: number }> = [
+  { band: 'close', maxRange: 0.25, accuracy: 1.0 },
+  { band: 'medium', maxRange: 0.6, accuracy: 0.85 },
+  { band: 'long', maxRange: 1.0, accuracy: 0.6 }
+];
+
+// Fraction of its longest weapon's range an AI ship tries to hold for each range preference
+const PREFERRED_RANGE: Record<CombatTactics['preferredRange'], number> = {
+  close: 0.2,
+  medium: 0.45,
+  long: 0.8
+};
+
+// Hazards nothing can see or shoot through
+const LINE_OF_SIGHT_BLOCKERS: Array<EnvironmentalHazard['type']> = ['asteroid', 'nebula', 'station'];
+
+// Top fraction of incoming fire a ship dodges at full speed
+const MAX_EVASION = 0.25;
+
+// A ship whose power system falls to this level is dead in space and can be boarded
+const DISABLED_POWER_LEVEL = 0.1;
+
+// Fraction of ion damage past the shields that still reaches the hull
+const ION_HULL_DAMAGE = 0.25;
+
+// System damage dealt by ion fire past the shields, per hull point's worth of damage
+const ION_SYSTEM_DAMAGE = 2;
+
+// Distance within which a boarding party can cross to a disabled ship
+const BOARDING_RANGE = 500;
+
+// Strength of a boarding party before the captain's skills and crew experience
+const BOARDING_BASE_STRENGTH = 30;
+
+// Factions whose ships can be taken without it counting as piracy
+const OUTLAW_FACTIONS = ['pirates'];
+
+// Captured hulls without a matching ship class join the fleet as this class
+const DEFAULT_PRIZE_CLASS = 'light-combat';
+
+// Standard loadout for each enemy ship type
+const SHIP_LOADOUTS: Record<string, ShipLoadout> = {
+  'light-combat': { hull: 80, shields: 60, shieldType: 'magnetic', weapons: ['pulse-laser-mk1', 'pulse-laser-mk1'] },
+  'patrol': { hull: 120, shields: 100, shieldType: 'adaptive', weapons: ['pulse-laser-mk1', 'plasma-cannon-mk2'] },
+  'heavy-combat': {
+    hull: 200,
+    shields: 150,
+    shieldType: 'ablative',
+    weapons: ['plasma-cannon-mk2', 'plasma-cannon-mk2', 'rail-gun-heavy', 'torpedo-launcher-mk3']
+  }
+};
+
+// Loadout for ship types without a standard one
+const DEFAULT_SHIP_LOADOUT: ShipLoadout = { hull: 100, shields: 80, shieldType: 'magnetic', weapons: ['pulse-laser-mk1', 'pulse-laser-mk1'] };
+
+// Gap between ships of the same fleet when a fleet battle starts
+const FLEET_SHIP_SPACING = 400;
+
+// Commodities enemy ships may be carrying
+const ENEMY_CARGO = ['electronics', 'consumer-goods', 'medical-supplies', 'fusion-cells', 'exotic-spices'];
+
+export interface CombatManagerSaveData {
+  combatState: Omit<CombatState, 'activeEncounters'> & {
+    activeEncounters: Array<[string, CombatEncounter]>;
+  };
+  nextEncounterId: number;
+  nextActionId: number;
+}
 
 /**
  * CombatManager handles all combat encounters, weapon systems, and shield mechanics.
@@ -45,6 +168,8 @@ export class CombatManager {
   private timeManager: TimeManager;
   private worldManager: WorldManager;
   private playerManager: PlayerManager;
+  private securityManager: SecurityManager;
+  private npcAIManager: NPCAIManager;
 
   // System state
   private combatState: CombatState;
@@ -55,48 +180,29 @@ export class CombatManager {
   private weaponDatabase: Map<string, Weapon> = new Map();
   private shieldDatabase: Map<string, Shield> = new Map();
   private licenseDatabase: Map<string, WeaponLicense> = new Map();
+  private random: SeededRandom;
+  private endgameManager: EndgameModifierSource | null = null;
+  private characterManager: CharacterManager | null = null;
 
   constructor(
     timeManager: TimeManager,
     worldManager: WorldManager,
     playerManager: PlayerManager,
     _factionManager: FactionManager,
-    _securityManager: SecurityManager,
-    _npcaiManager: NPCAIManager,
-    _eventManager: EventManager
+    securityManager: SecurityManager,
+    npcAIManager: NPCAIManager,
+    _eventManager: EventManager,
+    random: SeededRandom = new SeededRandom()
   ) {
     this.timeManager = timeManager;
     this.worldManager = worldManager;
     this.playerManager = playerManager;
+    this.securityManager = securityManager;
+    this.npcAIManager = npcAIManager;
+    this.random = random;
 
     // Initialize combat state
-    this.combatState = {
-      activeEncounters: new Map(),
-      combatHistory: [],
-      playerWeapons: [],
-      playerLicenses: [],
-      stats: {
-        encountersTotal: 0,
-        encountersWon: 0,
-        encountersLost: 0,
-        encountersFled: 0,
-        damageDealt: 0,
-        damageTaken: 0,
-        shipsDestroyed: 0,
-        shipsDisabled: 0,
-        weaponsFired: 0,
-        accuracyPercentage: 0,
-        criticalHits: 0,
-        boardingActions: 0,
-        successfulBoarding: 0,
-        highestThreatDefeated: 0,
-        longestBattle: 0,
-        reputation: {}
-      },
-      turnOrder: [],
-      currentTurn: 0,
-      combatPhase: 'setup'
-    };
+    this.combatState = this.createCombatState();
 
     this.initializeWeapons();
     this.initializeShields();
@@ -170,6 +276,30 @@ export class CombatManager {
         cost: 12000,
         availability: 'restricted'
       },
+      {
+        id: 'ion-cannon-mk1',
+        name: 'Ion Cannon Mk I',
+        type: 'energy',
+        size: 'medium',
+        damageType: 'electromagnetic',
+        stats: {
+          damage: 30,
+          accuracy: 0.8,
+          range: 7000,
+          fireRate: 40,
+          energyCost: 30,
+          chargeTime: 2.0
+        },
+        license: {
+          required: false,
+          restrictions: [],
+          cost: 0,
+          validityPeriod: 0
+        },
+        description: 'Ionised bursts that burn out ship systems, leaving targets dead in space for boarding',
+        cost: 11000,
+        availability: 'restricted'
+      },
 
       // Kinetic Weapons
       {
@@ -421,10 +551,10 @@ export class CombatManager {
       type,
       location: {
         systemId,
-        coordinates: { x: Math.random() * 1000, y: Math.random() * 1000 }
+        coordinates: { x: this.random.next() * 1000, y: this.random.next() * 1000 }
       },
       participants,
-      environment: this.generateEnvironment(),
+      environment: this.generateEnvironment(participants),
       objectives: this.generateObjectives(type, participants),
       rewards: this.generateRewards(type, participants),
       startTime: currentTime,
@@ -437,6 +567,100 @@ export class CombatManager {
     return encounter;
   }
 
+  /**
+   * Get the standard loadout of an enemy ship type
+   */
+  getShipLoadout(shipType: string): ShipLoadout | null {
+    return SHIP_LOADOUTS[shipType] ?? null;
+  }
+
+  /**
+   * Set AI fleets against each other in open space, without the player; fleets start evenly spaced round a circle
+   */
+  createFleetEncounter(fleets: FleetLoadout[], systemId: string, startDistance: number): CombatEncounter | null {
+    const unknownWeapon = fleets
+      .flatMap(fleet => fleet.ships)
+      .flatMap(ship => (ship.loadout ?? this.getShipLoadout(ship.shipType) ?? DEFAULT_SHIP_LOADOUT).weapons)
+      .find(weaponId => !this.weaponDatabase.has(weaponId));
+    if (unknownWeapon) {
+      console.log(`Cannot create fleet encounter: unknown weapon ${unknownWeapon}`);
+      return null;
+    }
+
+    const participants = fleets.flatMap((fleet, fleetIndex) => {
+      const bearing = (fleetIndex / fleets.length) * Math.PI * 2 + Math.PI;
+      const centre = { x: Math.cos(bearing) * startDistance / 2, y: Math.sin(bearing) * startDistance / 2 };
+
+      return fleet.ships.map((ship, shipIndex): CombatParticipant => {
+        // Spread the fleet in a line abreast, across the line to the enemy
+        const offset = (shipIndex - (fleet.ships.length - 1) / 2) * FLEET_SHIP_SPACING;
+        const position = { x: centre.x - Math.sin(bearing) * offset, y: centre.y + Math.cos(bearing) * offset };
+        return {
+          id: `fleet-${fleetIndex}-ship-${shipIndex}`,
+          name: ship.name,
+          type: 'ai',
+          faction: fleet.name,
+          ship: this.generateEnemyShip(ship.shipType, ship.loadout),
+          position,
+          movement: this.createMovement(bearing + Math.PI),
+          status: 'active',
+          ai: ship.behaviour === 'patrol' ? this.generatePatrolAI() : this.generatePirateAI()
+        };
+      });
+    });
+
+    const encounter: CombatEncounter = {
+      id: `encounter-${this.nextEncounterId++}`,
+      type: 'faction-conflict',
+      location: { systemId, coordinates: { x: 0, y: 0 } },
+      participants,
+      environment: { location: 'open_space', conditions: [], visibility: 1.0, gravity: 0.0, hazards: [] },
+      objectives: [],
+      rewards: [],
+      startTime: this.timeManager.getCurrentTimestamp(),
+      status: 'active'
+    };
+
+    this.combatState.activeEncounters.set(encounter.id, encounter);
+    this.combatState.stats.encountersTotal++;
+
+    return encounter;
+  }
+
+  /**
+   * Advance one encounter by a single tick, with every AI ship acting once regardless of game time.
+   * Ships act in a fresh random order each tick so no side always shoots first.
+   */
+  stepEncounter(encounterId: string): CombatResult[] {
+    const encounter = this.combatState.activeEncounters.get(encounterId);
+    if (!encounter || encounter.status !== 'active') return [];
+
+    this.updateMovement(encounter);
+
+    const results: CombatResult[] = [];
+    for (const participant of this.random.shuffle(encounter.participants)) {
+      if (participant.type !== 'ai' || !participant.ai || participant.status !== 'active') continue;
+
+      this.updateThreatAssessment(participant, encounter);
+      const action = this.generateAIAction(participant, encounter);
+      if (action) {
+        results.push(this.executeCombatAction(action));
+      }
+    }
+
+    this.updateShieldRecharge(encounter);
+    this.updateWeaponCooldowns(encounter);
+
+    return results;
+  }
+
+  /**
+   * Drop an encounter without adding it to the combat history
+   */
+  removeEncounter(encounterId: string): boolean {
+    return this.combatState.activeEncounters.delete(encounterId);
+  }
+
   /**
    * Generate combat participants based on encounter type
    */
@@ -449,7 +673,7 @@ export class CombatManager {
     // Generate AI participants based on encounter type
     switch (type) {
       case 'pirate-attack':
-        participants.push(...this.generatePirateAttackers(1 + Math.floor(Math.random() * 2)));
+        participants.push(...this.generatePirateAttackers(1 + Math.floor(this.random.next() * 2), systemId));
         break;
       case 'patrol-inspection':
         participants.push(this.generatePatrolShip(systemId));
@@ -471,33 +695,42 @@ export class CombatManager {
   }
 
   /**
-   * Create player combat participant
+   * Create player combat participant from the current ship's fittings and condition
    */
   private createPlayerParticipant(): CombatParticipant {
-    // Use simplified player data for combat
+    const ship = this.playerManager.getCurrentShip();
+    const shieldStrength = ship.equipment.shields.reduce(
+      (total, item) => total + (getEffectiveStats(item).shieldStrength ?? 0),
+      ship.class.baseShields
+    );
+    // Worn shield generators hold less charge, as in MaintenanceManager.getConditionEffects
+    const maxShields = Math.round(shieldStrength * Math.max(0.2, ship.condition.shields));
+
     return {
       id: 'player',
       name: 'Player Ship',
       type: 'player',
       ship: {
-        id: 'player-ship',
-        name: 'Player Ship',
-        class: 'courier',
+        id: ship.id,
+        name: ship.name,
+        class: ship.class.id,
         hull: {
-          current: 100,
-          maximum: 100,
+          current: Math.round(PLAYER_HULL_POINTS * ship.condition.hull),
+          maximum: PLAYER_HULL_POINTS,
           armor: 10 // Basic hull armor
         },
         shields: {
-          current: 50,
-          maximum: 50,
-          type: 'magnetic',
+          current: maxShields,
+          maximum: maxShields,
+          type: this.getFittedShieldType(ship),
           recharging: false,
           rechargeCooldown: 0
         },
-        weapons: [], // Would be populated from player's equipped weapons
+        weapons: ship.equipment.weapons.map((item, index) =>
+          this.createWeaponMount(this.getFittedWeapon(item), `weapon-${index + 1}`)
+        ),
         systems: {
-          engines: 1.0,
+          engines: ship.condition.engines,
           life_support: 1.0,
           sensors: 1.0,
           communications: 1.0,
@@ -510,23 +743,104 @@ export class CombatManager {
           experience: 50,
           casualties: 0
         },
-        maneuverability: this.calculateManeuverability('courier'),
-        size: this.getShipSizeCategory('courier')
+        cargo: [],
+        maneuverability: this.calculateManeuverability(ship.class.id),
+        size: this.getShipSizeCategory(ship.class.id)
       },
-      position: { x: 500, y: 500 },
+      position: { x: 0, y: 0 },
+      movement: this.createMovement(0),
       status: 'active'
     };
   }
 
   /**
-   * Generate pirate attackers
+   * Find the equipment template a fitted item was made from
    */
-  private generatePirateAttackers(count: number): CombatParticipant[] {
+  private getFittingTemplate(item: EquipmentItem): EquipmentTemplate | undefined {
+    return getEquipmentTemplate(getTemplateIdFromEquipmentId(item.id) ?? item.id);
+  }
+
+  /**
+   * Build the combat weapon a fitted item fires as; its damage and accuracy follow the item's condition
+   */
+  private getFittedWeapon(item: EquipmentItem): Weapon {
+    const base = this.weaponDatabase.get(this.getFittingTemplate(item)?.combatId ?? DEFAULT_WEAPON_ID)
+      ?? this.weaponDatabase.get(DEFAULT_WEAPON_ID)!;
+    const effects = getEffectiveStats(item);
+
+    return {
+      ...base,
+      name: item.name,
+      stats: {
+        ...base.stats,
+        damage: effects.weaponDamage ?? base.stats.damage,
+        accuracy: effects.accuracy ?? base.stats.accuracy
+      }
+    };
+  }
+
+  /**
+   * Get the shield type of the strongest fitted shield; ships without one rely on a magnetic deflector
+   */
+  private getFittedShieldType(ship: Ship): ShieldType {
+    const strongest = [...ship.equipment.shields]
+      .sort((a, b) => (b.effects.shieldStrength ?? 0) - (a.effects.shieldStrength ?? 0))
+      .map(item => this.shieldDatabase.get(this.getFittingTemplate(item)?.combatId ?? ''))
+      .find(shield => shield !== undefined);
+    return strongest?.type ?? 'magnetic';
+  }
+
+  /**
+   * Mount a weapon with a full magazine and charged capacitor
+   */
+  private createWeaponMount(weapon: Weapon, mountPoint: string): EquippedWeapon {
+    return {
+      weapon,
+      mountPoint,
+      ammunition: weapon.stats.ammoCapacity ?? 0,
+      energy: weapon.stats.energyCost,
+      cooldown: 0,
+      targeting: {
+        locked: false,
+        lockStrength: 0,
+        lockTime: 0,
+        distance: 0,
+        relativeVelocity: { x: 0, y: 0 },
+        signature: { thermal: 0, electromagnetic: 0, optical: 0, mass: 0 }
+      },
+      status: 'operational'
+    };
+  }
+
+  /**
+   * Pick a point at a random bearing from the player, who starts at the centre of the battlefield
+   */
+  private generateSpawnPosition(minDistance: number, maxDistance: number): { x: number; y: number } {
+    const bearing = this.random.range(-Math.PI, Math.PI);
+    const distance = this.random.range(minDistance, maxDistance);
+    return { x: Math.cos(bearing) * distance, y: Math.sin(bearing) * distance };
+  }
+
+  /**
+   * Create a stationary ship's movement state
+   */
+  private createMovement(facing: number): CombatMovement {
+    return { facing, speed: 0, retreating: false };
+  }
+
+  /**
+   * Generate pirate attackers, led by the pirate NPCs flying in the system
+   */
+  private generatePirateAttackers(count: number, systemId: string): CombatParticipant[] {
     const pirates: CombatParticipant[] = [];
+    const npcPirates = this.npcAIManager.getNPCsInSystem(systemId)
+      .filter(npc => npc.type === 'pirate' && !npc.movement.isInTransit);
     
     for (let i = 0; i < count; i++) {
+      const npc = npcPirates[i];
       const pirateNames = ['Crimson Corsair', 'Void Stalker', 'Solar Scavenger', 'Nebula Raider'];
-      const name = pirateNames[Math.floor(Math.random() * pirateNames.length)];
+      const name = npc?.name ?? this.random.pick(pirateNames);
+      const position = this.generateSpawnPosition(2500, 5000);
       
       pirates.push({
         id: `pirate-${i}`,
@@ -534,12 +848,11 @@ export class CombatManager {
         type: 'ai',
         faction: 'pirates',
         ship: this.generateEnemyShip('light-combat'),
-        position: { 
-          x: Math.random() * 200 + 800, 
-          y: Math.random() * 200 + 400 
-        },
+        position,
+        movement: this.createMovement(Math.atan2(-position.y, -position.x)),
         status: 'active',
-        ai: this.generatePirateAI()
+        ai: this.generatePirateAI(),
+        npcId: npc?.id
       });
     }
     
@@ -551,6 +864,7 @@ export class CombatManager {
    */
   private generatePatrolShip(_systemId: string): CombatParticipant {
     const faction = 'Security Forces';
+    const position = this.generateSpawnPosition(1500, 2500);
     
     return {
       id: 'patrol-ship',
@@ -558,7 +872,8 @@ export class CombatManager {
       type: 'ai',
       faction,
       ship: this.generateEnemyShip('patrol'),
-      position: { x: Math.random() * 100 + 450, y: Math.random() * 100 + 450 },
+      position,
+      movement: this.createMovement(Math.atan2(-position.y, -position.x)),
       status: 'active',
       ai: this.generatePatrolAI()
     };
@@ -567,15 +882,9 @@ export class CombatManager {
   /**
    * Generate enemy ship data
    */
-  private generateEnemyShip(shipType: string): any {
-    const baseStats = {
-      'light-combat': { hull: 80, shields: 60, weapons: 2 },
-      'patrol': { hull: 120, shields: 100, weapons: 2 },
-      'heavy-combat': { hull: 200, shields: 150, weapons: 4 }
-    }[shipType] || { hull: 100, shields: 80, weapons: 2 };
-
+  private generateEnemyShip(shipType: string, baseStats: ShipLoadout = SHIP_LOADOUTS[shipType] ?? DEFAULT_SHIP_LOADOUT): ShipCombatData {
     return {
-      id: `ship-${Date.now()}-${Math.random()}`,
+      id: `ship-${Date.now()}-${this.random.next()}`,
       name: `${shipType} vessel`,
       class: shipType,
       hull: {
@@ -586,11 +895,13 @@ export class CombatManager {
       shields: {
         current: baseStats.shields,
         maximum: baseStats.shields,
-        type: 'magnetic',
+        type: baseStats.shieldType,
         recharging: false,
         rechargeCooldown: 0
       },
-      weapons: [], // Would be populated with appropriate weapons
+      weapons: baseStats.weapons.map((weaponId, index) =>
+        this.createWeaponMount(this.weaponDatabase.get(weaponId)!, `weapon-${index + 1}`)
+      ),
       systems: {
         engines: 1.0,
         life_support: 1.0,
@@ -600,12 +911,13 @@ export class CombatManager {
         power: 1.0
       },
       crew: {
-        count: 2 + Math.floor(Math.random() * 3),
-        morale: 60 + Math.random() * 30,
-        experience: 40 + Math.random() * 40,
+        count: 2 + Math.floor(this.random.next() * 3),
+        morale: 60 + this.random.next() * 30,
+        experience: 40 + this.random.next() * 40,
         casualties: 0
       },
-      maneuverability: 0.6 + Math.random() * 0.3,
+      maneuverability: 0.6 + this.random.next() * 0.3,
+      cargo: [{ commodityId: this.random.pick(ENEMY_CARGO), quantity: this.random.int(5, 20) }],
       size: 'corvette'
     };
   }
@@ -616,16 +928,16 @@ export class CombatManager {
   private generatePirateAI(): CombatAI {
     return {
       personality: {
-        aggression: 0.7 + Math.random() * 0.2,
-        riskTolerance: 0.6 + Math.random() * 0.3,
-        loyalty: 0.3 + Math.random() * 0.3,
-        intelligence: 0.4 + Math.random() * 0.4
+        aggression: 0.7 + this.random.next() * 0.2,
+        riskTolerance: 0.6 + this.random.next() * 0.3,
+        loyalty: 0.3 + this.random.next() * 0.3,
+        intelligence: 0.4 + this.random.next() * 0.4
       },
       tactics: {
-        preferredRange: Math.random() < 0.6 ? 'close' : 'medium',
+        preferredRange: this.random.next() < 0.6 ? 'close' : 'medium',
         formation: 'aggressive',
         targeting: 'weakest',
-        retreatThreshold: 0.2 + Math.random() * 0.2
+        retreatThreshold: 0.2 + this.random.next() * 0.2
       },
       objectives: [
         {
@@ -654,10 +966,10 @@ export class CombatManager {
   private generatePatrolAI(): CombatAI {
     return {
       personality: {
-        aggression: 0.3 + Math.random() * 0.3,
-        riskTolerance: 0.4 + Math.random() * 0.2,
-        loyalty: 0.8 + Math.random() * 0.2,
-        intelligence: 0.6 + Math.random() * 0.3
+        aggression: 0.3 + this.random.next() * 0.3,
+        riskTolerance: 0.4 + this.random.next() * 0.2,
+        loyalty: 0.8 + this.random.next() * 0.2,
+        intelligence: 0.6 + this.random.next() * 0.3
       },
       tactics: {
         preferredRange: 'medium',
@@ -686,6 +998,20 @@ export class CombatManager {
     };
   }
 
+  /**
+   * Set the endgame manager (dependency injection) - prestige and challenge modes change the player's combat
+   */
+  setEndgameManager(endgameManager: EndgameModifierSource): void {
+    this.endgameManager = endgameManager;
+  }
+
+  /**
+   * Set the character manager (dependency injection) - the captain's skills lead boarding parties
+   */
+  setCharacterManager(characterManager: CharacterManager): void {
+    this.characterManager = characterManager;
+  }
+
   /**
    * Execute a combat action
    */
@@ -700,6 +1026,17 @@ export class CombatManager {
       };
     }
 
+    // Challenge modes can forbid the player from attacking; defending and retreating are still allowed
+    if (action.type === 'attack' && actor.type === 'player' &&
+        (this.endgameManager?.getChallengeModifier('combat', 'combat_disabled', 0) ?? 0) >= 1) {
+      return {
+        action,
+        success: false,
+        effects: [],
+        message: 'Combat is disabled in this challenge mode'
+      };
+    }
+
     switch (action.type) {
       case 'attack':
         return this.executeAttack(action, actor);
@@ -709,6 +1046,8 @@ export class CombatManager {
         return this.executeDefend(action, actor);
       case 'retreat':
         return this.executeRetreat(action, actor);
+      case 'board':
+        return this.executeBoard(action, actor);
       default:
         return {
           action,
@@ -724,7 +1063,8 @@ export class CombatManager {
    */
   private executeAttack(action: CombatAction, actor: CombatParticipant): CombatResult {
     const target = this.findParticipant(action.targetId!);
-    if (!target) {
+    const encounter = this.findEncounter(actor.id);
+    if (!target || !encounter) {
       return {
         action,
         success: false,
@@ -733,19 +1073,47 @@ export class CombatManager {
       };
     }
 
-    // Get weapon (simplified - would select from actor's equipped weapons)
-    const weapon = this.weaponDatabase.get('pulse-laser-mk1')!;
-    
+    const distance = this.calculateDistance(actor.position, target.position);
+    const weaponId = action.weaponId ?? action.parameters.weaponId;
+    const mount = this.selectWeapon(actor, weaponId, distance);
+    if (!mount) {
+      return {
+        action,
+        success: false,
+        effects: [],
+        message: this.selectWeapon(actor, weaponId)
+          ? `${target.name} is out of range`
+          : `${actor.name} has no weapon ready to fire`
+      };
+    }
+
+    // Firing spends the capacitor and a round, and the weapon has to recharge before the next shot
+    const weapon = mount.weapon;
+    mount.cooldown = weapon.stats.chargeTime;
+    mount.energy -= weapon.stats.energyCost;
+    if (weapon.stats.ammoCapacity !== undefined) {
+      mount.ammunition--;
+    }
+
     // Track weapon fired (regardless of hit/miss)
     this.combatState.stats.weaponsFired++;
-    
-    // Calculate hit chance
-    const distance = this.calculateDistance(actor.position, target.position);
-    const baseAccuracy = weapon.stats.accuracy;
-    const rangeModifier = Math.max(0.1, 1 - (distance / weapon.stats.range));
-    const finalAccuracy = baseAccuracy * rangeModifier;
 
-    const hit = Math.random() < finalAccuracy;
+    const blocker = this.getLineOfSightBlocker(encounter, actor.position, target.position);
+    if (blocker) {
+      return {
+        action,
+        success: false,
+        effects: [],
+        message: `${actor.name}'s shot at ${target.name} was blocked by ${this.getHazardName(blocker)}`
+      };
+    }
+
+    // Calculate hit chance from range band, visibility and how fast the target is jinking
+    const band = RANGE_BANDS.find(candidate => candidate.band === this.getRangeBand(distance, weapon))!;
+    const evasion = MAX_EVASION * Math.min(1, target.movement.speed / BASE_COMBAT_SPEED);
+    const finalAccuracy = weapon.stats.accuracy * band.accuracy * encounter.environment.visibility * (1 - evasion);
+
+    const hit = this.random.next() < finalAccuracy;
     
     if (!hit) {
       return {
@@ -758,13 +1126,18 @@ export class CombatManager {
 
     // Calculate damage
     const baseDamage = weapon.stats.damage;
-    const damageVariation = 0.8 + Math.random() * 0.4; // ±20% variation
-    const finalDamage = Math.floor(baseDamage * damageVariation);
+    const damageVariation = 0.8 + this.random.next() * 0.4; // ±20% variation
+    const effectiveness = actor.type === 'player' ? 1 + (this.endgameManager?.getPrestigeBonus('combat_effectiveness') ?? 0) : 1;
+    const finalDamage = Math.floor(baseDamage * damageVariation * effectiveness);
 
     // Apply damage to target
     const damageResult = this.applyDamage(target, finalDamage, weapon.damageType);
     
     this.combatState.stats.damageDealt += finalDamage;
+    if (target.type === 'player') {
+      this.combatState.stats.damageTaken += finalDamage;
+      this.syncPlayerShipCondition(target);
+    }
 
     return {
       action,
@@ -778,17 +1151,24 @@ export class CombatManager {
   /**
    * Apply damage to a target
    */
-  private applyDamage(target: CombatParticipant, damage: number, damageType: any): DamageResult {
+  private applyDamage(target: CombatParticipant, damage: number, damageType: DamageType): DamageResult {
     const ship = target.ship;
     let remainingDamage = damage;
     let shieldsHit = false;
     let penetration = false;
+    let systemDamage: DamageResult['systemDamage'];
 
-    // Apply to shields first
+    // Apply to shields first; resistant shields lose less charge to the damage they absorb
     if (ship.shields.current > 0) {
-      const shieldAbsorbed = Math.min(remainingDamage, ship.shields.current);
-      ship.shields.current -= shieldAbsorbed;
-      remainingDamage -= shieldAbsorbed;
+      const resistance = this.getShieldResistance(ship.shields.type, damageType);
+      const shieldDamage = remainingDamage * (1 - resistance);
+      if (shieldDamage <= ship.shields.current) {
+        ship.shields.current -= shieldDamage;
+        remainingDamage = 0;
+      } else {
+        remainingDamage = Math.round((shieldDamage - ship.shields.current) / (1 - resistance));
+        ship.shields.current = 0;
+      }
       shieldsHit = true;
 
       // Start shield recharge cooldown
@@ -796,20 +1176,28 @@ export class CombatManager {
       ship.shields.rechargeCooldown = 3; // 3 seconds
     }
 
-    // Apply remaining damage to hull
+    // Apply remaining damage to hull; ion fire mostly burns out systems instead
     if (remainingDamage > 0) {
-      ship.hull.current = Math.max(0, ship.hull.current - remainingDamage);
       penetration = true;
-
-      // Check for system damage
-      if (penetration && Math.random() < 0.3) {
-        this.applySystemDamage(ship);
+      if (damageType === 'electromagnetic') {
+        ship.hull.current = Math.max(0, ship.hull.current - Math.round(remainingDamage * ION_HULL_DAMAGE));
+        systemDamage = this.applyIonDamage(ship, remainingDamage);
+      } else {
+        ship.hull.current = Math.max(0, ship.hull.current - remainingDamage);
+
+        // Check for system damage
+        if (this.random.next() < 0.3) {
+          systemDamage = this.applySystemDamage(ship);
+        }
       }
 
-      // Check for destruction
+      // Check for destruction, or a ship left without power
       if (ship.hull.current <= 0) {
         target.status = 'destroyed';
         this.combatState.stats.shipsDestroyed++;
+        this.removeNPCShip(target);
+      } else if (target.status === 'active' && ship.systems.power <= DISABLED_POWER_LEVEL) {
+        this.disableShip(target);
       }
     }
 
@@ -817,19 +1205,133 @@ export class CombatManager {
       amount: damage,
       type: damageType,
       target: shieldsHit && !penetration ? 'shields' : 'hull',
-      penetration
+      penetration,
+      systemDamage
     };
   }
 
+  /**
+   * Get how much of a damage type a shield type shrugs off (0-1)
+   */
+  private getShieldResistance(shieldType: ShieldType, damageType: DamageType): number {
+    const shield = Array.from(this.shieldDatabase.values()).find(candidate => candidate.type === shieldType);
+    return shield?.resistances[damageType] ?? 0;
+  }
+
   /**
    * Apply system damage
    */
-  private applySystemDamage(ship: any): void {
-    const systems = ['engines', 'sensors', 'communications', 'navigation', 'power'];
-    const damagedSystem = systems[Math.floor(Math.random() * systems.length)];
-    const damage = 0.1 + Math.random() * 0.3; // 10-40% damage
+  private applySystemDamage(ship: ShipCombatData): NonNullable<DamageResult['systemDamage']> {
+    const systems: Array<keyof ShipSystems> = ['engines', 'sensors', 'communications', 'navigation', 'power'];
+    const damagedSystem = this.random.pick(systems);
+    const damage = 0.1 + this.random.next() * 0.3; // 10-40% damage
     
     ship.systems[damagedSystem] = Math.max(0, ship.systems[damagedSystem] - damage);
+    return { system: damagedSystem, severity: damage };
+  }
+
+  /**
+   * Burn out the power system and one other system with ion damage that got past the shields
+   */
+  private applyIonDamage(ship: ShipCombatData, damage: number): NonNullable<DamageResult['systemDamage']> {
+    const severity = Math.min(1, (damage / ship.hull.maximum) * ION_SYSTEM_DAMAGE);
+    const systems: Array<keyof ShipSystems> = ['engines', 'sensors', 'communications', 'navigation'];
+
+    ship.systems.power = Math.max(0, ship.systems.power - severity);
+    const secondary = this.random.pick(systems);
+    ship.systems[secondary] = Math.max(0, ship.systems[secondary] - severity);
+    return { system: 'power', severity };
+  }
+
+  /**
+   * Leave a ship dead in space: no shields, no thrust, waiting to be boarded
+   */
+  private disableShip(participant: CombatParticipant): void {
+    participant.status = 'disabled';
+    participant.ship.shields.current = 0;
+    participant.movement.speed = 0;
+    participant.movement.destination = undefined;
+    participant.movement.retreating = false;
+    this.combatState.stats.shipsDisabled++;
+  }
+
+  /**
+   * Carry hull and engine damage taken in combat over to the player's ship
+   */
+  private syncPlayerShipCondition(participant: CombatParticipant): void {
+    const condition = this.playerManager.getCurrentShip().condition;
+    condition.hull = participant.ship.hull.current / participant.ship.hull.maximum;
+    condition.engines = participant.ship.systems.engines;
+  }
+
+  /**
+   * Pick the weapon to fire: the requested one if it is ready, otherwise the first ready weapon that reaches the target
+   */
+  private selectWeapon(actor: CombatParticipant, weaponId?: string, distance = 0): EquippedWeapon | null {
+    const usable = actor.ship.weapons.filter(mount => this.isWeaponReady(mount) && distance <= mount.weapon.stats.range);
+    return usable.find(mount => mount.weapon.id === weaponId) ?? usable[0] ?? null;
+  }
+
+  /**
+   * Get the range band a target at the given distance falls into for a weapon
+   */
+  getRangeBand(distance: number, weapon: Weapon): RangeBand {
+    return RANGE_BANDS.find(band => distance <= weapon.stats.range * band.maxRange)?.band ?? 'out_of_range';
+  }
+
+  /**
+   * Check whether two participants in an encounter can see each other past the battlefield's hazards
+   */
+  hasLineOfSight(encounterId: string, fromId: string, toId: string): boolean {
+    const encounter = this.combatState.activeEncounters.get(encounterId);
+    const from = encounter?.participants.find(participant => participant.id === fromId);
+    const to = encounter?.participants.find(participant => participant.id === toId);
+    if (!encounter || !from || !to) return false;
+
+    return this.getLineOfSightBlocker(encounter, from.position, to.position) === null;
+  }
+
+  /**
+   * Find the first hazard the straight line between two points passes through
+   */
+  private getLineOfSightBlocker(
+    encounter: CombatEncounter,
+    from: { x: number; y: number },
+    to: { x: number; y: number }
+  ): EnvironmentalHazard | null {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const lengthSquared = dx * dx + dy * dy;
+
+    return encounter.environment.hazards.find(hazard => {
+      if (!hazard.active || !LINE_OF_SIGHT_BLOCKERS.includes(hazard.type)) return false;
+
+      // Closest point on the segment to the hazard's centre
+      const t = lengthSquared === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((hazard.position.x - from.x) * dx + (hazard.position.y - from.y) * dy) / lengthSquared));
+      const closest = { x: from.x + dx * t, y: from.y + dy * t };
+      return this.calculateDistance(closest, hazard.position) < hazard.radius;
+    }) ?? null;
+  }
+
+  private getHazardName(hazard: EnvironmentalHazard): string {
+    const names: Partial<Record<EnvironmentalHazard['type'], string>> = {
+      asteroid: 'an asteroid',
+      nebula: 'nebula gas',
+      station: 'a station'
+    };
+    return names[hazard.type] ?? hazard.type;
+  }
+
+  /**
+   * Check a weapon is online, off cooldown, charged and loaded
+   */
+  private isWeaponReady(mount: EquippedWeapon): boolean {
+    return mount.status !== 'offline' &&
+      mount.cooldown <= 0 &&
+      mount.energy >= mount.weapon.stats.energyCost &&
+      (mount.weapon.stats.ammoCapacity === undefined || mount.ammunition > 0);
   }
 
   /**
@@ -923,12 +1425,6 @@ export class CombatManager {
       this.updateEncounter(encounter, currentTime);
     }
 
-    // Update shield recharge for all participants
-    this.updateShieldRecharge();
-
-    // Update weapon cooldowns
-    this.updateWeaponCooldowns();
-
     // Check for encounter timeouts
     this.checkEncounterTimeouts(currentTime);
   }
@@ -939,6 +1435,8 @@ export class CombatManager {
   private updateEncounter(encounter: CombatEncounter, currentTime: number): void {
     if (encounter.status !== 'active') return;
 
+    this.advanceBattlefield(encounter, currentTime);
+
     // Update AI decision making
     for (const participant of encounter.participants) {
       if (participant.type === 'ai' && participant.ai && participant.status === 'active') {
@@ -1028,6 +1526,9 @@ export class CombatManager {
    */
   private generateAIAction(participant: CombatParticipant, encounter: CombatEncounter): CombatAction | null {
     const ai = participant.ai!;
+
+    // Already running for jump distance
+    if (participant.movement.retreating) return null;
     
     // Check retreat conditions
     const hullPercentage = participant.ship.hull.current / participant.ship.hull.maximum;
@@ -1046,6 +1547,11 @@ export class CombatManager {
     const target = this.findBestTarget(participant, encounter);
     if (!target) return null;
 
+    this.steerToPreferredRange(participant, target, encounter);
+
+    const mount = this.selectWeapon(participant, undefined, this.calculateDistance(participant.position, target.position));
+    if (!mount || this.getLineOfSightBlocker(encounter, participant.position, target.position)) return null;
+
     // Generate attack action
     return {
       id: `action-${this.nextActionId++}`,
@@ -1053,13 +1559,30 @@ export class CombatManager {
       type: 'attack',
       targetId: target.id,
       parameters: {
-        weaponId: 'pulse-laser-mk1' // Simplified weapon selection
+        weaponId: mount.weapon.id
       },
       timestamp: this.timeManager.getCurrentTimestamp(),
       resolved: false
     };
   }
 
+  /**
+   * Hold the AI's preferred range to its target, circling round anything blocking the shot
+   */
+  private steerToPreferredRange(participant: CombatParticipant, target: CombatParticipant, encounter: CombatEncounter): void {
+    const longestRange = Math.max(0, ...participant.ship.weapons.map(mount => mount.weapon.stats.range));
+    const distance = longestRange * PREFERRED_RANGE[participant.ai!.tactics.preferredRange];
+    let bearing = Math.atan2(participant.position.y - target.position.y, participant.position.x - target.position.x);
+    if (this.getLineOfSightBlocker(encounter, participant.position, target.position)) {
+      bearing += Math.PI / 4;
+    }
+
+    participant.movement.destination = {
+      x: target.position.x + Math.cos(bearing) * distance,
+      y: target.position.y + Math.sin(bearing) * distance
+    };
+  }
+
   /**
    * Find best target for AI
    */
@@ -1114,6 +1637,19 @@ export class CombatManager {
     return null;
   }
 
+  private findEncounter(participantId: string): CombatEncounter | null {
+    for (const encounter of this.combatState.activeEncounters.values()) {
+      if (encounter.participants.some(p => p.id === participantId)) return encounter;
+    }
+    return null;
+  }
+
+  private isHostile(participant: CombatParticipant, other: CombatParticipant): boolean {
+    if (participant.id === other.id) return false;
+    if (participant.type === 'player' || other.type === 'player') return participant.type !== other.type;
+    return participant.faction !== other.faction;
+  }
+
   private calculateDistance(pos1: { x: number; y: number }, pos2: { x: number; y: number }): number {
     const dx = pos1.x - pos2.x;
     const dy = pos1.y - pos2.y;
@@ -1140,15 +1676,65 @@ export class CombatManager {
     return sizeMap[shipClass] || 'corvette';
   }
 
-  private generateEnvironment(): any {
-    // Simplified environment generation
-    return {
-      location: 'open_space',
+  private generateEnvironment(participants: CombatParticipant[]): CombatEnvironment {
+    const location = this.random.pick<CombatEnvironment['location']>(
+      ['open_space', 'open_space', 'asteroid_field', 'nebula', 'station_vicinity', 'planet_orbit']
+    );
+    const environment: CombatEnvironment = {
+      location,
       conditions: [],
       visibility: 1.0,
       gravity: 0.0,
       hazards: []
     };
+
+    switch (location) {
+      case 'asteroid_field':
+        environment.hazards = this.placeHazards('asteroid', this.random.int(4, 6), 500, 1000, 15, participants);
+        environment.conditions.push({ type: 'debris', severity: 0.3, effects: { maneuverability: -0.1 } });
+        break;
+      case 'nebula':
+        environment.visibility = 0.7;
+        environment.hazards = this.placeHazards('nebula', 2, 1200, 2000, 0, participants);
+        environment.conditions.push({ type: 'interference', severity: 0.5, effects: { sensors: -0.3 } });
+        break;
+      case 'station_vicinity':
+        environment.hazards = this.placeHazards('station', 1, 800, 800, 0, participants);
+        break;
+      case 'planet_orbit':
+        environment.gravity = 0.8;
+        environment.conditions.push({ type: 'gravity_well', severity: 0.4, effects: { maneuverability: -0.2 } });
+        break;
+    }
+
+    return environment;
+  }
+
+  /**
+   * Scatter hazards over the battlefield, keeping them clear of where the ships start
+   */
+  private placeHazards(
+    type: EnvironmentalHazard['type'],
+    count: number,
+    minRadius: number,
+    maxRadius: number,
+    damage: number,
+    participants: CombatParticipant[]
+  ): EnvironmentalHazard[] {
+    const hazards: EnvironmentalHazard[] = [];
+
+    for (let i = 0; i < count; i++) {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const radius = this.random.range(minRadius, maxRadius);
+        const position = this.generateSpawnPosition(0, 6000);
+        if (participants.every(participant => this.calculateDistance(participant.position, position) > radius + 300)) {
+          hazards.push({ type, position, radius, damage, active: true });
+          break;
+        }
+      }
+    }
+
+    return hazards;
   }
 
   private generateObjectives(_type: EncounterType, _participants: CombatParticipant[]): any[] {
@@ -1168,7 +1754,7 @@ export class CombatManager {
     return [
       {
         type: 'credits',
-        amount: 500 + Math.floor(Math.random() * 1000),
+        amount: 500 + Math.floor(this.random.next() * 1000),
         description: 'Combat pay'
       }
     ];
@@ -1179,12 +1765,14 @@ export class CombatManager {
   }
 
   private generateBountyHunter(): CombatParticipant {
+    const position = this.generateSpawnPosition(3000, 5000);
     return {
       id: 'bounty-hunter',
       name: 'Bounty Hunter',
       type: 'ai',
       ship: this.generateEnemyShip('heavy-combat'),
-      position: { x: 700, y: 300 },
+      position,
+      movement: this.createMovement(Math.atan2(-position.y, -position.x)),
       status: 'active',
       ai: this.generatePirateAI()
     };
@@ -1198,24 +1786,189 @@ export class CombatManager {
   }
 
   private generateGenericEnemy(): CombatParticipant {
+    const position = this.generateSpawnPosition(2500, 5000);
     return {
-      id: `enemy-${Math.random()}`,
+      id: `enemy-${this.random.next()}`,
       name: 'Unknown Vessel',
       type: 'ai',
       ship: this.generateEnemyShip('light-combat'),
-      position: { x: Math.random() * 200 + 700, y: Math.random() * 200 + 300 },
+      position,
+      movement: this.createMovement(Math.atan2(-position.y, -position.x)),
       status: 'active',
       ai: this.generatePirateAI()
     };
   }
 
+  /**
+   * Send a boarding party across to a disabled ship, then capture it for the fleet or strip it for salvage
+   */
+  private executeBoard(action: CombatAction, actor: CombatParticipant): CombatResult {
+    const target = this.findParticipant(action.targetId!);
+    const encounter = this.findEncounter(actor.id);
+    if (!target || !encounter) {
+      return { action, success: false, effects: [], message: 'Target not found' };
+    }
+
+    let failure: string | null = null;
+    if (actor.type !== 'player') {
+      failure = `${actor.name} has no boarding party`;
+    } else if (target.status !== 'disabled') {
+      failure = `${target.name} must be disabled before it can be boarded`;
+    } else if (this.calculateDistance(actor.position, target.position) > BOARDING_RANGE) {
+      failure = `${target.name} is too far away to board`;
+    }
+    if (failure) {
+      return { action, success: false, effects: [], message: failure };
+    }
+
+    this.combatState.stats.boardingActions++;
+    if (this.random.next() >= this.getBoardingChance(actor, target)) {
+      // Defenders who beat back a boarding party dig in for the next attempt
+      actor.ship.crew.casualties++;
+      target.ship.crew.morale = Math.min(100, target.ship.crew.morale + 10);
+      return {
+        action,
+        success: false,
+        effects: [{ type: 'crew_injury', target: actor.id, value: 1, description: 'Boarding party casualties' }],
+        message: `${target.name}'s crew repelled the boarding party`
+      };
+    }
+
+    this.combatState.stats.successfulBoarding++;
+    target.status = 'captured';
+    this.removeNPCShip(target);
+    if (this.isLawful(target)) {
+      this.reportPiracy(target, encounter);
+    }
+
+    const outcome: BoardingOutcome = action.parameters.outcome === 'salvage' ? 'salvage' : 'capture';
+    const message = outcome === 'capture' ? this.captureShip(target) : this.salvageShip(target);
+    return { action, success: true, effects: [], message };
+  }
+
+  /**
+   * Take a destroyed or captured NPC ship out of the galaxy, so its fleet reacts to the loss
+   */
+  private removeNPCShip(participant: CombatParticipant): void {
+    if (participant.npcId) {
+      this.npcAIManager.destroyNPC(participant.npcId);
+    }
+  }
+
+  /**
+   * Chance (0-1) a boarding party takes a ship, from the captain's combat skills against the defending crew
+   */
+  getBoardingChance(actor: CombatParticipant, target: CombatParticipant): number {
+    const skills = this.characterManager?.getCharacter()?.skills;
+    const attack = BOARDING_BASE_STRENGTH +
+      (skills?.combat ?? 0) * 2 +
+      (skills?.tactics ?? 0) +
+      actor.ship.crew.experience * 0.2;
+    const crew = target.ship.crew;
+    const defence = crew.count * 5 + crew.experience * 0.3 + crew.morale * 0.2;
+
+    return Math.min(0.95, Math.max(0.05, attack / (attack + defence)));
+  }
+
+  private isLawful(participant: CombatParticipant): boolean {
+    return participant.faction !== undefined && !OUTLAW_FACTIONS.includes(participant.faction);
+  }
+
+  private reportPiracy(target: CombatParticipant, encounter: CombatEncounter): void {
+    this.securityManager.reportCrime('piracy', encounter.location.systemId, [{
+      type: 'witness',
+      reliability: 90,
+      description: `${target.name} (${target.faction}) was boarded and seized`,
+      source: target.name
+    }]);
+  }
+
+  /**
+   * Crew a boarded ship and add it to the player's fleet, along with what its hold can spare
+   */
+  private captureShip(target: CombatParticipant): string {
+    const shipClassId = SHIP_CLASSES[target.ship.class] ? target.ship.class : DEFAULT_PRIZE_CLASS;
+    const condition = target.ship.hull.current / target.ship.hull.maximum;
+    const result = this.playerManager.addCapturedShip(shipClassId, target.name, condition);
+    if (!result.success || !result.ship) {
+      return this.salvageShip(target);
+    }
+
+    const prize = result.ship;
+    prize.condition.engines = target.ship.systems.engines;
+    prize.equipment.weapons = this.removeSalvageableWeapons(target, condition);
+
+    return [`Captured ${target.name}; it joins your fleet`, ...this.transferCargo(target)].join('. ');
+  }
+
+  /**
+   * Strip a boarded ship of its weapons and cargo
+   */
+  private salvageShip(target: CombatParticipant): string {
+    const condition = target.ship.hull.current / target.ship.hull.maximum;
+    const equipment = this.removeSalvageableWeapons(target, condition);
+    equipment.forEach(item => this.playerManager.addEquipmentToInventory(item));
+
+    const salvaged = equipment.length > 0 ? `Salvaged ${equipment.map(item => item.name).join(', ')} from ${target.name}` :
+      `Found nothing worth salvaging on ${target.name}`;
+    return [salvaged, ...this.transferCargo(target)].join('. ');
+  }
+
+  /**
+   * Take a ship's weapons as fittings; weapons no fitting is made for are scrapped
+   */
+  private removeSalvageableWeapons(target: CombatParticipant, condition: number): EquipmentItem[] {
+    const items = target.ship.weapons
+      .map(mount => Object.values(EQUIPMENT_TEMPLATES).find(template => template.combatId === mount.weapon.id))
+      .filter((template): template is EquipmentTemplate => template !== undefined)
+      .map(template => createEquipmentItem(template.id, condition))
+      .filter((item): item is EquipmentItem => item !== null);
+
+    target.ship.weapons = [];
+    return items;
+  }
+
+  /**
+   * Move as much of a ship's cargo into the player's hold as fits, returning a line per commodity taken
+   */
+  private transferCargo(target: CombatParticipant): string[] {
+    const messages: string[] = [];
+    const remaining: CombatCargo[] = [];
+
+    for (const lot of target.ship.cargo) {
+      const commodity = getCommodity(lot.commodityId);
+      const fits = commodity ? Math.min(lot.quantity, Math.floor(this.playerManager.getAvailableSpace() / commodity.unitSize)) : 0;
+      if (fits > 0 && this.playerManager.addCommodity(lot.commodityId, fits, 0).success) {
+        messages.push(`Took ${fits} ${commodity!.name}`);
+      }
+      if (fits < lot.quantity) {
+        remaining.push({ commodityId: lot.commodityId, quantity: lot.quantity - fits });
+      }
+    }
+
+    target.ship.cargo = remaining;
+    return messages;
+  }
+
   private executeMove(action: CombatAction, actor: CombatParticipant): CombatResult {
-    // Simplified move implementation
+    const destination = action.parameters.destination as { x: number; y: number } | undefined;
+    if (!destination) {
+      return {
+        action,
+        success: false,
+        effects: [],
+        message: 'No destination given'
+      };
+    }
+
+    actor.movement.destination = { x: destination.x, y: destination.y };
+    actor.movement.retreating = false;
+
     return {
       action,
       success: true,
       effects: [],
-      message: `${actor.name} moved`
+      message: `${actor.name} is moving into position`
     };
   }
 
@@ -1230,38 +1983,164 @@ export class CombatManager {
   }
 
   private executeRetreat(action: CombatAction, actor: CombatParticipant): CombatResult {
-    actor.status = 'fled';
-    this.combatState.stats.encountersFled++;
-    
+    const encounter = this.findEncounter(actor.id)!;
+    if (this.isClearOfHostiles(actor, encounter)) {
+      this.completeEscape(actor);
+      return {
+        action,
+        success: true,
+        effects: [],
+        message: `${actor.name} has fled the battle`
+      };
+    }
+
+    actor.movement.retreating = true;
+    actor.movement.destination = this.getRetreatDestination(actor, encounter);
+
     return {
       action,
       success: true,
       effects: [],
-      message: `${actor.name} has fled the battle`
+      message: `${actor.name} is breaking away for jump distance`
     };
   }
 
-  private updateShieldRecharge(): void {
-    // Simplified shield recharge update
-    for (const encounter of this.combatState.activeEncounters.values()) {
-      for (const participant of encounter.participants) {
-        if (participant.status !== 'active') continue;
-        
-        const ship = participant.ship;
-        if (ship.shields.rechargeCooldown > 0) {
-          ship.shields.rechargeCooldown -= 1;
-        } else if (ship.shields.current < ship.shields.maximum) {
-          ship.shields.current = Math.min(
-            ship.shields.maximum,
-            ship.shields.current + 5 // 5 shield points per update
-          );
+  /**
+   * Check every hostile is far enough away to jump out
+   */
+  private isClearOfHostiles(participant: CombatParticipant, encounter: CombatEncounter): boolean {
+    return encounter.participants
+      .filter(other => other.status === 'active' && this.isHostile(participant, other))
+      .every(other => this.calculateDistance(participant.position, other.position) >= JUMP_DISTANCE);
+  }
+
+  /**
+   * Aim straight away from the hostiles' centre, out past jump distance
+   */
+  private getRetreatDestination(participant: CombatParticipant, encounter: CombatEncounter): { x: number; y: number } {
+    const hostiles = encounter.participants.filter(other => other.status === 'active' && this.isHostile(participant, other));
+    const centre = hostiles.reduce(
+      (sum, other) => ({ x: sum.x + other.position.x / hostiles.length, y: sum.y + other.position.y / hostiles.length }),
+      { x: 0, y: 0 }
+    );
+    const awayX = participant.position.x - centre.x;
+    const awayY = participant.position.y - centre.y;
+    const bearing = awayX === 0 && awayY === 0 ? participant.movement.facing : Math.atan2(awayY, awayX);
+
+    return {
+      x: centre.x + Math.cos(bearing) * JUMP_DISTANCE * 1.5,
+      y: centre.y + Math.sin(bearing) * JUMP_DISTANCE * 1.5
+    };
+  }
+
+  private completeEscape(participant: CombatParticipant): void {
+    participant.status = 'fled';
+    participant.movement.retreating = false;
+    participant.movement.destination = undefined;
+    this.combatState.stats.encountersFled++;
+  }
+
+  /**
+   * Run the battlefield ticks that game time has reached since the encounter last advanced:
+   * movement, hazards, shield recharge and weapon cooldowns
+   */
+  private advanceBattlefield(encounter: CombatEncounter, currentTime: number): void {
+    const lastTick = encounter.lastTick ?? encounter.startTime;
+    const ticks = Math.floor((currentTime - lastTick) / COMBAT_TICK);
+    if (ticks <= 0) return;
+
+    for (let i = 0; i < Math.min(ticks, MAX_TICKS_PER_UPDATE); i++) {
+      this.updateMovement(encounter);
+      this.updateShieldRecharge(encounter);
+      this.updateWeaponCooldowns(encounter);
+    }
+    encounter.lastTick = ticks > MAX_TICKS_PER_UPDATE ? currentTime : lastTick + ticks * COMBAT_TICK;
+  }
+
+  /**
+   * Move every ship one tick toward its destination, turning no faster than its manoeuvrability allows
+   */
+  private updateMovement(encounter: CombatEncounter): void {
+    const maneuverModifier = 1 + encounter.environment.conditions
+      .reduce((total, condition) => total + (condition.effects.maneuverability ?? 0), 0);
+
+    for (const participant of encounter.participants) {
+      if (participant.status !== 'active') continue;
+
+      const movement = participant.movement;
+      if (movement.retreating) {
+        movement.destination = this.getRetreatDestination(participant, encounter);
+      }
+
+      const destination = movement.destination;
+      movement.speed = 0;
+      if (destination) {
+        const maneuverability = participant.ship.maneuverability * maneuverModifier;
+        const maxSpeed = BASE_COMBAT_SPEED * maneuverability * participant.ship.systems.engines;
+        const remaining = this.calculateDistance(participant.position, destination);
+        const bearing = Math.atan2(destination.y - participant.position.y, destination.x - participant.position.x);
+
+        movement.facing = rotateTowards(movement.facing, bearing, MAX_TURN_RATE * maneuverability);
+        // Ships only reach full speed once they point where they are going
+        const alignment = Math.max(0, Math.cos(angleDifference(bearing, movement.facing)));
+        movement.speed = Math.min(remaining, maxSpeed * alignment);
+        participant.position = {
+          x: participant.position.x + Math.cos(movement.facing) * movement.speed,
+          y: participant.position.y + Math.sin(movement.facing) * movement.speed
+        };
+
+        if (this.calculateDistance(participant.position, destination) < 1) {
+          movement.destination = undefined;
+        }
+      }
+
+      for (const hazard of encounter.environment.hazards) {
+        if (hazard.active && hazard.damage > 0 &&
+            this.calculateDistance(participant.position, hazard.position) < hazard.radius) {
+          this.applyDamage(participant, hazard.damage, 'kinetic');
+          if (participant.type === 'player') {
+            this.syncPlayerShipCondition(participant);
+          }
         }
       }
     }
+
+    // Escapes are judged once everyone has moved, so ships listed first get no head start
+    const escaping = encounter.participants.filter(participant =>
+      participant.status === 'active' && participant.movement.retreating && this.isClearOfHostiles(participant, encounter)
+    );
+    escaping.forEach(participant => this.completeEscape(participant));
   }
 
-  private updateWeaponCooldowns(): void {
-    // Weapon cooldown updates would be implemented here
+  private updateShieldRecharge(encounter: CombatEncounter): void {
+    // Simplified shield recharge update
+    for (const participant of encounter.participants) {
+      if (participant.status !== 'active') continue;
+      
+      const ship = participant.ship;
+      if (ship.shields.rechargeCooldown > 0) {
+        ship.shields.rechargeCooldown = Math.max(0, ship.shields.rechargeCooldown - COMBAT_TICK / 1000);
+      } else if (ship.shields.current < ship.shields.maximum) {
+        ship.shields.current = Math.min(
+          ship.shields.maximum,
+          ship.shields.current + 5 // 5 shield points per tick
+        );
+      }
+    }
+  }
+
+  private updateWeaponCooldowns(encounter: CombatEncounter): void {
+    for (const participant of encounter.participants) {
+      if (participant.status !== 'active') continue;
+
+      // Capacitors charge more slowly when the power system is damaged
+      const recharge = WEAPON_ENERGY_RECHARGE * participant.ship.systems.power;
+      for (const mount of participant.ship.weapons) {
+        // Cooldowns are charge times in seconds
+        mount.cooldown = Math.max(0, mount.cooldown - COMBAT_TICK / 1000);
+        mount.energy = Math.min(mount.weapon.stats.energyCost, mount.energy + recharge);
+      }
+    }
   }
 
   private checkEncounterTimeouts(currentTime: number): void {
@@ -1363,15 +2242,54 @@ export class CombatManager {
     const currentSystem = galaxy.currentPlayerLocation.systemId || 'default-system';
     
     const encounterTypes: EncounterType[] = ['pirate-attack', 'patrol-inspection', 'bounty-hunter'];
-    const randomType = encounterTypes[Math.floor(Math.random() * encounterTypes.length)];
+    const randomType = this.random.pick(encounterTypes);
     
     return this.generateEncounter(randomType, currentSystem);
   }
 
+  /**
+   * Drop every fight, weapon, license and statistic of the current run
+   */
+  reset(): void {
+    this.combatState = this.createCombatState();
+    this.nextEncounterId = 1;
+    this.nextActionId = 1;
+  }
+
+  private createCombatState(): CombatState {
+    return {
+      activeEncounters: new Map(),
+      combatHistory: [],
+      playerWeapons: [],
+      playerLicenses: [],
+      stats: {
+        encountersTotal: 0,
+        encountersWon: 0,
+        encountersLost: 0,
+        encountersFled: 0,
+        damageDealt: 0,
+        damageTaken: 0,
+        shipsDestroyed: 0,
+        shipsDisabled: 0,
+        weaponsFired: 0,
+        accuracyPercentage: 0,
+        criticalHits: 0,
+        boardingActions: 0,
+        successfulBoarding: 0,
+        highestThreatDefeated: 0,
+        longestBattle: 0,
+        reputation: {}
+      },
+      turnOrder: [],
+      currentTurn: 0,
+      combatPhase: 'setup'
+    };
+  }
+
   /**
    * Serialize combat state
    */
-  serialize(): any {
+  serialize(): CombatManagerSaveData {
     return {
       combatState: {
         ...this.combatState,
@@ -1385,12 +2303,19 @@ export class CombatManager {
   /**
    * Deserialize combat state
    */
-  deserialize(data: any): void {
+  deserialize(data: CombatManagerSaveData): void {
     if (data.combatState) {
       this.combatState = {
         ...data.combatState,
         activeEncounters: new Map(data.combatState.activeEncounters || [])
       };
+      // Encounters saved before the tactical battlefield and boarding have ships without movement or cargo
+      for (const encounter of this.combatState.activeEncounters.values()) {
+        for (const participant of encounter.participants) {
+          participant.movement ??= this.createMovement(0);
+          participant.ship.cargo ??= [];
+        }
+      }
     }
     
     if (data.nextEncounterId) this.nextEncounterId = data.nextEncounterId;
@@ -0,0 +1,205 @@
+import {
+  CombatBatchReport,
+  CombatEncounter,
+  CombatLogEvent,
+  CombatParticipant,
+  CombatResult,
+  CombatSimulationConfig,
+  CombatSimulationResult,
+  FleetSimulationStats,
+  WeaponBalanceStats
+} from '../types/combat';
+import { CombatManager } from './CombatManager';
+import { TimeManager } from './TimeManager';
+import { WorldManager } from './WorldManager';
+import { PlayerManager } from './PlayerManager';
+import { FactionManager } from './FactionManager';
+import { SecurityManager } from './SecurityManager';
+import { NPCAIManager } from './NPCAIManager';
+import { EventManager } from './EventManager';
+import { SeededRandom } from '../utils/SeededRandom';
+
+// Ticks a simulated battle may run before it is called a draw
+const DEFAULT_MAX_TICKS = 300;
+
+// Distance between the two fleets when a simulated battle starts
+const DEFAULT_START_DISTANCE = 6000;
+
+// System simulated battles are recorded against
+const SIMULATION_SYSTEM_ID = 'simulation';
+
+/**
+ * CombatSimulator fights AI fleets against each other headlessly for balance testing.
+ *
+ * Each battle runs on the simulator's own CombatManager, ticked directly rather than by
+ * game time and seeded per fight, so the same fleets and seed always play out the same way
+ * and the game's combat state and statistics are left untouched.
+ */
+export class CombatSimulator {
+  private combatManager: CombatManager;
+  private random: SeededRandom;
+
+  constructor(
+    timeManager: TimeManager,
+    worldManager: WorldManager,
+    playerManager: PlayerManager,
+    factionManager: FactionManager,
+    securityManager: SecurityManager,
+    npcaiManager: NPCAIManager,
+    eventManager: EventManager
+  ) {
+    this.random = new SeededRandom(0);
+    this.combatManager = new CombatManager(
+      timeManager,
+      worldManager,
+      playerManager,
+      factionManager,
+      securityManager,
+      npcaiManager,
+      eventManager,
+      this.random
+    );
+  }
+
+  /**
+   * Fight two fleets until one side has no ships left in the battle, returning the event log and each side's stats
+   */
+  simulate(config: CombatSimulationConfig): CombatSimulationResult | null {
+    // Sides are told apart by fleet name
+    if (config.fleets[0].name === config.fleets[1].name) {
+      console.log(`Cannot simulate: both fleets are named ${config.fleets[0].name}`);
+      return null;
+    }
+
+    this.random.reseed(config.seed);
+    const encounter = this.combatManager.createFleetEncounter(
+      config.fleets,
+      SIMULATION_SYSTEM_ID,
+      config.startDistance ?? DEFAULT_START_DISTANCE
+    );
+    if (!encounter) return null;
+
+    const maxTicks = config.maxTicks ?? DEFAULT_MAX_TICKS;
+    const log: CombatLogEvent[] = [];
+    let ticks = 0;
+
+    while (ticks < maxTicks && this.getFleetsInBattle(encounter).length > 1) {
+      ticks++;
+      const statuses = new Map(encounter.participants.map(participant => [participant.id, participant.status]));
+
+      this.combatManager.stepEncounter(encounter.id)
+        .forEach(result => log.push(this.createActionEvent(ticks, result)));
+
+      // Record ships knocked out or escaped this tick, whatever caused it
+      for (const participant of encounter.participants) {
+        const status = participant.status;
+        if (status !== statuses.get(participant.id) && (status === 'disabled' || status === 'destroyed' || status === 'fled')) {
+          log.push({
+            tick: ticks,
+            type: status,
+            actorId: participant.id,
+            success: true,
+            message: `${participant.name} ${status === 'fled' ? 'fled the battle' : `was ${status}`}`
+          });
+        }
+      }
+    }
+
+    const remaining = this.getFleetsInBattle(encounter);
+    this.combatManager.removeEncounter(encounter.id);
+
+    return {
+      seed: config.seed,
+      winner: remaining.length === 1 ? remaining[0] : null,
+      ticks,
+      log,
+      fleets: config.fleets.map(fleet => this.getFleetStats(fleet.name, encounter, log))
+    };
+  }
+
+  /**
+   * Fight the same fleets once per seed from the config's seed onwards and report win rates and weapon performance
+   */
+  runBatch(config: CombatSimulationConfig, fights: number): CombatBatchReport | null {
+    const wins: Record<string, number> = Object.fromEntries(config.fleets.map(fleet => [fleet.name, 0]));
+    const weapons: Record<string, WeaponBalanceStats> = {};
+    let draws = 0;
+    let totalTicks = 0;
+
+    for (let fight = 0; fight < fights; fight++) {
+      const result = this.simulate({ ...config, seed: config.seed + fight });
+      if (!result) return null;
+
+      if (result.winner) {
+        wins[result.winner]++;
+      } else {
+        draws++;
+      }
+      totalTicks += result.ticks;
+
+      for (const event of result.log) {
+        if (event.type !== 'attack' || !event.weaponId) continue;
+        const stats = weapons[event.weaponId] ??= { shotsFired: 0, hits: 0, damageDealt: 0, damagePerShot: 0 };
+        stats.shotsFired++;
+        if (event.success) {
+          stats.hits++;
+          stats.damageDealt += event.damage ?? 0;
+        }
+      }
+    }
+
+    Object.values(weapons).forEach(stats => {
+      stats.damagePerShot = stats.shotsFired > 0 ? stats.damageDealt / stats.shotsFired : 0;
+    });
+
+    return {
+      fights,
+      draws,
+      wins,
+      winRates: Object.fromEntries(Object.entries(wins).map(([name, count]) => [name, fights > 0 ? count / fights : 0])),
+      averageTicks: fights > 0 ? totalTicks / fights : 0,
+      weapons
+    };
+  }
+
+  private createActionEvent(tick: number, result: CombatResult): CombatLogEvent {
+    return {
+      tick,
+      type: result.action.type,
+      actorId: result.action.actorId,
+      targetId: result.action.targetId,
+      weaponId: result.action.weaponId ?? result.action.parameters.weaponId,
+      success: result.success,
+      damage: result.damage?.amount,
+      message: result.message
+    };
+  }
+
+  /**
+   * Names of the fleets that still have a ship fighting
+   */
+  private getFleetsInBattle(encounter: CombatEncounter): string[] {
+    return Array.from(new Set(
+      encounter.participants
+        .filter(participant => participant.status === 'active')
+        .map(participant => participant.faction!)
+    ));
+  }
+
+  private getFleetStats(name: string, encounter: CombatEncounter, log: CombatLogEvent[]): FleetSimulationStats {
+    const ships = encounter.participants.filter(participant => participant.faction === name);
+    const shipIds = new Set(ships.map(participant => participant.id));
+    const attacks = log.filter(event => event.type === 'attack' && shipIds.has(event.actorId));
+    const countStatus = (status: CombatParticipant['status']) => ships.filter(participant => participant.status === status).length;
+
+    return {
+      name,
+      shotsFired: attacks.length,
+      hits: attacks.filter(event => event.success).length,
+      damageDealt: attacks.reduce((total, event) => total + (event.damage ?? 0), 0),
+      shipsLost: countStatus('destroyed') + countStatus('disabled'),
+      shipsFled: countStatus('fled'),
+      shipsRemaining: countStatus('active')
+    };
+  }
+}
@@ -11,6 +11,14 @@ import {
   ContactService
 } from '../types/contacts';
 import { FactionReputation } from '../types/player';
+import { EndgameModifierSource } from '../types/endgame';
+
+export interface ContactManagerSaveData {
+  contacts: Array<[string, Contact]>;
+  interactions: ContactInteraction[];
+  networkConnections: Array<[string, string[]]>;
+  networkEffects: NetworkEffect[];
+}
 
 /**
  * ContactManager handles the personal relationship and contact network system.
@@ -19,6 +27,7 @@ import { FactionReputation } from '../types/player';
 export class ContactManager {
   private socialNetwork: SocialNetwork;
   private networkEffects: NetworkEffect[] = [];
+  private endgameManager: EndgameModifierSource | null = null;
 
   constructor() {
     this.socialNetwork = {
@@ -28,6 +37,13 @@ export class ContactManager {
     };
   }
 
+  /**
+   * Set the endgame manager (dependency injection) - challenge modes can make diplomacy easier
+   */
+  setEndgameManager(endgameManager: EndgameModifierSource): void {
+    this.endgameManager = endgameManager;
+  }
+
   /**
    * Meet a new contact for the first time
    */
@@ -357,6 +373,7 @@ export class ContactManager {
         baseChance += Math.max(0, playerSkills.reputation / 5); // Positive reputation helps
       }
     }
+    baseChance *= this.endgameManager?.getChallengeModifier('social', 'diplomatic_success_bonus') ?? 1;
 
     // Determine outcome with more possibilities
     const roll = Math.random() * 100;
@@ -522,7 +539,7 @@ export class ContactManager {
   /**
    * Serialize contact manager state
    */
-  serialize(): any {
+  serialize(): ContactManagerSaveData {
     return {
       contacts: Array.from(this.socialNetwork.contacts.entries()),
       interactions: this.socialNetwork.interactions,
@@ -534,7 +551,7 @@ export class ContactManager {
   /**
    * Deserialize contact manager state
    */
-  deserialize(data: any): void {
+  deserialize(data: ContactManagerSaveData): void {
     if (data?.contacts) {
       this.socialNetwork.contacts = new Map(data.contacts);
     }
@@ -1,19 +1,36 @@
 import { TradeContract } from '../types/economy';
+import { EndgameModifierSource } from '../types/endgame';
+import { Station } from '../types/world';
+import { SeededRandom } from '../utils/SeededRandom';
+import { TimeManager } from './TimeManager';
+import { WorldManager } from './WorldManager';
 
 // Forward declaration to avoid circular dependency
 interface ICharacterProgressionSystem {
   awardTradingExperience(activity: string, data: {value?: number; profitMargin?: number}): boolean;
 }
 
+export interface ContractManagerSaveData {
+  contracts: Array<[string, TradeContract]>;
+  contractIdCounter: number;
+  lastGenerationTime: number;
+}
+
 export class ContractManager {
   private contracts: Map<string, TradeContract> = new Map();
   private contractIdCounter: number = 1;
   private lastGenerationTime: number = 0;
-  private generationInterval: number = 1800000; // Generate new contracts every 30 minutes
+  private generationInterval: number = 1800000; // Generate new contracts every 30 game minutes
   private progressionSystem: ICharacterProgressionSystem | null = null;
+  private endgameManager: EndgameModifierSource | null = null;
+  private worldManager: WorldManager | null = null; // Stations contracts run between
+  private random: SeededRandom;
+  private timeManager: TimeManager;
 
-  constructor() {
-    this.lastGenerationTime = Date.now();
+  constructor(random: SeededRandom = new SeededRandom(), timeManager: TimeManager = new TimeManager()) {
+    this.random = random;
+    this.timeManager = timeManager;
+    this.lastGenerationTime = this.timeManager.getCurrentTimestamp();
     // Generate initial contracts for testing
     this.generateRandomContracts();
   }
@@ -25,11 +42,34 @@ export class ContractManager {
     this.progressionSystem = progressionSystem;
   }
 
+  /**
+   * Set the endgame manager (dependency injection) - prestige can raise contract rewards
+   */
+  setEndgameManager(endgameManager: EndgameModifierSource): void {
+    this.endgameManager = endgameManager;
+  }
+
+  /**
+   * Set the world manager (dependency injection) - contracts run between the galaxy's stations
+   */
+  setWorldManager(worldManager: WorldManager): void {
+    this.worldManager = worldManager;
+  }
+
+  /**
+   * Drop every contract and post a fresh board, e.g. once a different galaxy is installed
+   */
+  reset(): void {
+    this.contracts.clear();
+    this.lastGenerationTime = this.timeManager.getCurrentTimestamp();
+    this.generateRandomContracts();
+  }
+
   /**
    * Update contract system - generate new contracts and clean up expired ones
    */
   update(_deltaTime: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.timeManager.getCurrentTimestamp();
     
     // Generate new contracts periodically
     if (currentTime - this.lastGenerationTime >= this.generationInterval) {
@@ -49,7 +89,7 @@ export class ContractManager {
    */
   generateRandomContracts(): void {
     // Generate 2-5 new contracts
-    const contractCount = 2 + Math.floor(Math.random() * 4);
+    const contractCount = 2 + Math.floor(this.random.next() * 4);
     
     for (let i = 0; i < contractCount; i++) {
       const contract = this.generateContract();
@@ -64,31 +104,32 @@ export class ContractManager {
    */
   private generateContract(): TradeContract | null {
     const contractTypes: TradeContract['type'][] = ['delivery', 'transport', 'bulk'];
-    const type = contractTypes[Math.floor(Math.random() * contractTypes.length)];
+    const type = this.random.pick(contractTypes);
     
     // For now, create basic delivery contracts
     const commodities = ['iron-ore', 'electronics', 'carbon-crystals', 'protein-rations', 'fusion-cells'];
-    const commodityId = commodities[Math.floor(Math.random() * commodities.length)];
+    const commodityId = this.random.pick(commodities);
     
     // Simple station selection (would be improved with actual economic data)
-    const stations = ['earth-station', 'alpha-station', 'sirius-station'];
-    const originId = stations[Math.floor(Math.random() * stations.length)];
-    let destinationId = stations[Math.floor(Math.random() * stations.length)];
+    const galaxyStations = this.worldManager?.getAllStations().map(station => station.id) ?? [];
+    const stations = galaxyStations.length >= 2 ? galaxyStations : ['earth-station', 'alpha-station', 'sirius-station'];
+    const originId = this.random.pick(stations);
+    let destinationId = this.random.pick(stations);
     
     // Ensure origin and destination are different
     while (destinationId === originId) {
-      destinationId = stations[Math.floor(Math.random() * stations.length)];
+      destinationId = this.random.pick(stations);
     }
 
-    const quantity = 10 + Math.floor(Math.random() * 50); // 10-60 units
-    const pricePerUnit = 50 + Math.floor(Math.random() * 200); // 50-250 credits per unit
+    const quantity = 10 + Math.floor(this.random.next() * 50); // 10-60 units
+    const pricePerUnit = 50 + Math.floor(this.random.next() * 200); // 50-250 credits per unit
     const totalValue = quantity * pricePerUnit;
     
     // Calculate base reward (10-30% of cargo value)
-    const baseReward = Math.floor(totalValue * (0.1 + Math.random() * 0.2));
+    const baseReward = Math.floor(totalValue * (0.1 + this.random.next() * 0.2));
     
     // Time limit: 2-12 hours based on difficulty
-    const timeLimit = 2 + Math.floor(Math.random() * 10);
+    const timeLimit = 2 + Math.floor(this.random.next() * 10);
     
     const contract: TradeContract = {
       id: `contract-${this.contractIdCounter++}`,
@@ -112,11 +153,11 @@ export class ContractManager {
       bonusReward: Math.floor(baseReward * 0.5), // 50% bonus for fast completion
       reputationReward: {
         faction: this.getFactionForStation(destinationId),
-        amount: 10 + Math.floor(Math.random() * 20)
+        amount: 10 + Math.floor(this.random.next() * 20)
       },
       
       status: 'available',
-      deadline: Date.now() + (timeLimit * 3600000) // Convert hours to milliseconds
+      deadline: this.timeManager.getCurrentTimestamp() + (timeLimit * 3600000) // Convert hours to milliseconds
     };
 
     return contract;
@@ -136,7 +177,7 @@ export class ContractManager {
       return { success: false, error: 'Contract is no longer available' };
     }
     
-    if (Date.now() > contract.deadline) {
+    if (this.timeManager.getCurrentTimestamp() > contract.deadline) {
       return { success: false, error: 'Contract has expired' };
     }
     
@@ -160,7 +201,7 @@ export class ContractManager {
       return { success: false, error: 'Contract not accepted or already completed' };
     }
     
-    const currentTime = Date.now();
+    const currentTime = this.timeManager.getCurrentTimestamp();
     const timeRemaining = contract.deadline - currentTime;
     
     if (timeRemaining <= 0) {
@@ -180,6 +221,7 @@ export class ContractManager {
     if (timeUsedRatio <= 0.5 && contract.bonusReward) {
       totalReward += contract.bonusReward;
     }
+    totalReward = Math.round(totalReward * (1 + (this.endgameManager?.getPrestigeBonus('contract_rewards') ?? 0)));
     
     // Award contract completion experience
     if (this.progressionSystem) {
@@ -196,7 +238,7 @@ export class ContractManager {
    */
   getAvailableContracts(): TradeContract[] {
     return Array.from(this.contracts.values())
-      .filter(contract => contract.status === 'available' && Date.now() < contract.deadline)
+      .filter(contract => contract.status === 'available' && this.timeManager.getCurrentTimestamp() < contract.deadline)
       .sort((a, b) => b.baseReward - a.baseReward); // Sort by reward, highest first
   }
 
@@ -216,11 +258,37 @@ export class ContractManager {
     return this.contracts.get(contractId);
   }
 
+  /**
+   * Serialize contract state for saving
+   */
+  serialize(): ContractManagerSaveData {
+    return {
+      contracts: Array.from(this.contracts.entries()),
+      contractIdCounter: this.contractIdCounter,
+      lastGenerationTime: this.lastGenerationTime
+    };
+  }
+
+  /**
+   * Restore contract state from save data
+   */
+  deserialize(data: ContractManagerSaveData): void {
+    if (data.contracts) {
+      this.contracts = new Map(data.contracts);
+    }
+    if (data.contractIdCounter) {
+      this.contractIdCounter = data.contractIdCounter;
+    }
+    if (data.lastGenerationTime) {
+      this.lastGenerationTime = data.lastGenerationTime;
+    }
+  }
+
   /**
    * Remove expired contracts
    */
   private cleanupExpiredContracts(): void {
-    const currentTime = Date.now();
+    const currentTime = this.timeManager.getCurrentTimestamp();
     
     for (const [id, contract] of this.contracts.entries()) {
       if (currentTime > contract.deadline && contract.status === 'available') {
@@ -240,7 +308,7 @@ export class ContractManager {
    * Update contract status based on time
    */
   private updateContractStatus(): void {
-    const currentTime = Date.now();
+    const currentTime = this.timeManager.getCurrentTimestamp();
     
     for (const contract of this.contracts.values()) {
       if (contract.status === 'accepted' && currentTime > contract.deadline) {
@@ -284,7 +352,7 @@ export class ContractManager {
       `Contract shipping: ${quantity} units of ${commodity} from ${originName} to ${destName}. Payment on delivery.`
     ];
     
-    return descriptions[Math.floor(Math.random() * descriptions.length)];
+    return this.random.pick(descriptions);
   }
 
   /**
@@ -302,7 +370,7 @@ export class ContractManager {
       'Starline Cargo Services'
     ];
     
-    return companies[Math.floor(Math.random() * companies.length)];
+    return this.random.pick(companies);
   }
 
   /**
@@ -310,8 +378,8 @@ export class ContractManager {
    */
   private generateSecurityRequirement(): number | undefined {
     // 30% chance of requiring security clearance
-    if (Math.random() < 0.3) {
-      return 5 + Math.floor(Math.random() * 5); // 5-9 security level required
+    if (this.random.next() < 0.3) {
+      return 5 + Math.floor(this.random.next() * 5); // 5-9 security level required
     }
     return undefined;
   }
@@ -320,6 +388,9 @@ export class ContractManager {
    * Get faction for station (simplified)
    */
   private getFactionForStation(stationId: string): string {
+    const station = this.getStation(stationId);
+    if (station) return station.faction;
+
     const factions: Record<string, string> = {
       'earth-station': 'Earth Federation',
       'alpha-station': 'Alpha Centauri Alliance',
@@ -350,6 +421,9 @@ export class ContractManager {
    * Get display name for station
    */
   private getStationDisplayName(stationId: string): string {
+    const station = this.getStation(stationId);
+    if (station) return station.name;
+
     const names: Record<string, string> = {
       'earth-station': 'Earth Station Alpha',
       'alpha-station': 'Alpha Centauri Station',
@@ -358,4 +432,8 @@ export class ContractManager {
     
     return names[stationId] || stationId.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase());
   }
-}
\ No newline at end of file
+
+  private getStation(stationId: string): Station | null {
+    return this.worldManager?.getStationById(stationId) ?? null;
+  }
+}
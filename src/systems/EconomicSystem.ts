@@ -6,21 +6,120 @@ import {
   Production, 
   Consumption,
   PricePoint,
-  EconomicEvent
+  EconomicEvent,
+  EconomicEventCause,
+  MarketPressure,
+  PlayerTrade,
+  MarketOrder,
+  OrderBookDepth
 } from '../types/economy';
 import { Station } from '../types/world';
 import { Character } from '../types/character';
+import { EndgameModifierSource } from '../types/endgame';
 import { COMMODITIES, getCommodity } from '../data/commodities';
+import { ECONOMIC_EVENT_CAUSES, getEconomicEventCause } from '../data/economicEvents';
+import { SeededRandom } from '../utils/SeededRandom';
+import { TimeManager } from './TimeManager';
+import { EventManager } from './EventManager';
+import { WorldManager } from './WorldManager';
+import { PlayerManager } from './PlayerManager';
+import { calculateSpread, getOrderBookDepth, matchOrder } from '../utils/orderBook';
+
+export interface EconomicSystemSaveData {
+  markets: Array<[string, Omit<Market, 'commodities'> & { commodities: Array<[string, MarketCommodity]> }]>;
+  stationEconomics: Array<[string, Omit<StationEconomics, 'market'>]>;
+  activeEvents: EconomicEvent[];
+  chainSystems?: Array<[string, string[]]>;
+  lastUpdateTime: number;
+  blockadedSectors?: string[];
+  orderIdCounter?: number;
+  playerTrades?: PlayerTrade[];
+}
+
+// An economic event waiting to be announced to the player
+interface EventAnnouncement {
+  event: EconomicEvent;
+  title: string;
+  location: string;
+}
+
+// Hours of production a station tries to keep in stock for each input
+const INPUT_STOCK_HOURS = 4;
+// Share of its stock a producer will ship to other stations in one update
+const FREIGHT_SHARE = 0.5;
+// Longest span of game time a single economic cycle simulates
+const CATCH_UP_STEP = 6 * 3600000;
+// Most cycles one catch-up runs; longer gaps are simulated in longer steps
+const MAX_CATCH_UP_STEPS = 240;
+// Chance of a new market event per game hour
+const EVENT_CHANCE_PER_HOUR = 0.01;
+// Price gap NPC traders need between two stations before hauling goods
+const NPC_TRADE_MARGIN = 1.2;
+// Units of one commodity NPC traders haul between two stations per game hour
+const NPC_HAUL_PER_HOUR = 10;
+// Share of its stock and demand a station's traders put on the order book
+const QUOTE_SHARE = 0.5;
+// Owner of the orders station traders quote against the station's own stock
+const STATION_TRADERS_ID = 'station-traders';
+// Most recent player trades kept for market influence
+const MAX_PLAYER_TRADES = 500;
 
 export class EconomicSystem {
   private markets: Map<string, Market> = new Map();
   private stationEconomics: Map<string, StationEconomics> = new Map();
   private activeEvents: EconomicEvent[] = [];
+  private chainSystems: Map<string, Set<string>> = new Map(); // Every system each running event chain has reached
   private lastUpdateTime: number = 0;
-  private updateInterval: number = 3600000; // Update every hour (in milliseconds)
+  private updateInterval: number = 3600000; // Update every game hour (in milliseconds)
+  private random: SeededRandom;
+  private timeManager: TimeManager;
+  private worldManager: WorldManager | null = null; // WorldManager reference for freight routes between stations
+  private eventManager: EventManager | null = null; // Announces economic events to the player
+  private endgameManager: EndgameModifierSource | null = null; // Prestige bonuses and challenge-mode modifiers
+  private blockadedSectors: Set<string> = new Set();
+  private simulationTime: number | null = null; // Game time being simulated during a catch-up
+  private pendingAnnouncements: EventAnnouncement[] | null = null; // Events started during a catch-up, announced once it ends
+  private orderIdCounter: number = 1;
+  private playerTrades: PlayerTrade[] = [];
+
+  constructor(random: SeededRandom = new SeededRandom(), timeManager: TimeManager = new TimeManager()) {
+    this.random = random;
+    this.timeManager = timeManager;
+    this.lastUpdateTime = this.timeManager.getCurrentTimestamp();
+  }
+
+  /**
+   * Set the world manager (dependency injection) - needed to route freight between sectors
+   */
+  setWorldManager(worldManager: WorldManager): void {
+    this.worldManager = worldManager;
+  }
+
+  /**
+   * Set the event manager (dependency injection) - economic events are announced through it
+   */
+  setEventManager(eventManager: EventManager): void {
+    this.eventManager = eventManager;
+  }
 
-  constructor() {
-    this.lastUpdateTime = Date.now();
+  /**
+   * Set the endgame manager (dependency injection) - prestige and challenge modes change player margins and volatility
+   */
+  setEndgameManager(endgameManager: EndgameModifierSource): void {
+    this.endgameManager = endgameManager;
+  }
+
+  /**
+   * Drop every station's market and economy, with the events, blockades and
+   * trades tied to them, before a different galaxy is installed
+   */
+  clearStationEconomics(): void {
+    this.markets.clear();
+    this.stationEconomics.clear();
+    this.activeEvents = [];
+    this.chainSystems.clear();
+    this.blockadedSectors.clear();
+    this.playerTrades = [];
   }
 
   /**
@@ -35,10 +134,10 @@ export class EconomicSystem {
       produces: this.generateProduction(station),
       consumes: this.generateConsumption(station),
       economicFactors: {
-        efficiency: 0.8 + Math.random() * 0.4, // 0.8-1.2
-        corruption: Math.random() * 0.3, // 0-0.3
-        stability: 0.7 + Math.random() * 0.3, // 0.7-1.0
-        infrastructure: 0.6 + Math.random() * 0.4 // 0.6-1.0
+        efficiency: 0.8 + this.random.next() * 0.4, // 0.8-1.2
+        corruption: this.random.next() * 0.3, // 0-0.3
+        stability: 0.7 + this.random.next() * 0.3, // 0.7-1.0
+        infrastructure: 0.6 + this.random.next() * 0.4 // 0.6-1.0
       },
       market: this.initializeMarket(station, system),
       credits: this.calculateStationCredits(station),
@@ -56,7 +155,8 @@ export class EconomicSystem {
     const market: Market = {
       stationId: station.id,
       commodities: new Map(),
-      lastUpdate: Date.now(),
+      lastUpdate: this.now(),
+      orders: [],
       demandFactors: {
         stationType: this.getStationTypeModifier(station.type),
         population: Math.log10(this.calculateStationPopulation(station)) / 6, // Normalize to 0-1
@@ -88,14 +188,14 @@ export class EconomicSystem {
         demand: this.calculateInitialDemand(commodity, station),
         currentPrice: this.calculatePrice(commodity, market),
         priceHistory: [{
-          timestamp: Date.now(),
+          timestamp: this.now(),
           price: commodity.basePrice,
           volume: 0
         }],
         supplyLevel: 'normal',
         demandLevel: 'normal',
         productionRate: this.getProductionRate(commodityId, station),
-        restockTime: 8 + Math.random() * 16 // 8-24 hours
+        restockTime: 8 + this.random.next() * 16 // 8-24 hours
       };
 
       market.commodities.set(commodityId, marketCommodity);
@@ -128,7 +228,8 @@ export class EconomicSystem {
     }
     
     // Apply volatility with more controlled range
-    const volatilityFactor = 1.0 + (Math.random() - 0.5) * commodity.volatility * 0.5;
+    const volatility = commodity.volatility * (this.endgameManager?.getChallengeModifier('economic', 'market_volatility') ?? 1);
+    const volatilityFactor = 1.0 + (this.random.next() - 0.5) * volatility * 0.5;
     price *= volatilityFactor;
     
     // Apply active economic events with capped multiplier
@@ -247,20 +348,91 @@ export class EconomicSystem {
   }
 
   /**
-   * Update all markets and economic cycles
+   * Update all markets and economic cycles. Runs once per game hour and
+   * simulates all game time since the last cycle, so time acceleration speeds
+   * the economy up, a paused clock stops it and a jump in game time (a long
+   * journey, an old save) is caught up on the next update.
    */
   update(_deltaTime: number): void {
-    const currentTime = Date.now();
-    
-    // Only update markets periodically (every hour in game time)
-    if (currentTime - this.lastUpdateTime >= this.updateInterval) {
-      this.updateMarkets(_deltaTime);
-      this.updateProduction(_deltaTime);
-      this.updateEvents(_deltaTime);
-      this.lastUpdateTime = currentTime;
+    const elapsed = this.timeManager.getCurrentTimestamp() - this.lastUpdateTime;
+
+    if (elapsed >= this.updateInterval) {
+      this.catchUp(elapsed);
     }
   }
 
+  /**
+   * Simulate the given span of game time up to now in coarse steps of at most
+   * CATCH_UP_STEP, so skipped days or weeks move the economy much as they would
+   * have hour by hour. Events started along the way are announced once it
+   * ends, and only those still running, one per chain. Returns the number of
+   * cycles run.
+   */
+  catchUp(elapsed: number): number {
+    const endTime = this.timeManager.getCurrentTimestamp();
+    if (elapsed <= 0) {
+      this.lastUpdateTime = endTime;
+      return 0;
+    }
+
+    const steps = Math.min(MAX_CATCH_UP_STEPS, Math.ceil(elapsed / CATCH_UP_STEP));
+    const stepLength = elapsed / steps;
+    // Gates and blockades hold still while catching up, so routes are looked up once
+    const routes = new Map<string, boolean>();
+    const announcements: EventAnnouncement[] = [];
+    this.pendingAnnouncements = announcements;
+
+    try {
+      for (let step = 1; step <= steps; step++) {
+        this.simulationTime = endTime - elapsed + stepLength * step;
+        this.runEconomicCycle(stepLength, routes);
+      }
+    } finally {
+      this.simulationTime = null;
+      this.pendingAnnouncements = null;
+    }
+
+    this.lastUpdateTime = endTime;
+    this.announceCaughtUpEvents(announcements);
+    return steps;
+  }
+
+  /**
+   * Announce the events a catch-up started that are still running, the most
+   * severe of each chain
+   */
+  private announceCaughtUpEvents(announcements: EventAnnouncement[]): void {
+    const byChain = new Map<string, EventAnnouncement>();
+    for (const announcement of announcements) {
+      if (!this.activeEvents.includes(announcement.event)) continue;
+
+      const chainId = announcement.event.chainId ?? announcement.event.id;
+      const current = byChain.get(chainId);
+      if (!current || announcement.event.severity > current.event.severity) {
+        byChain.set(chainId, announcement);
+      }
+    }
+    for (const { event, title, location } of byChain.values()) {
+      this.eventManager?.announceEconomicEvent(event, title, location);
+    }
+  }
+
+  private runEconomicCycle(elapsed: number, routes: Map<string, boolean> = new Map()): void {
+    const hours = elapsed / 3600000;
+    this.updateProduction(elapsed, routes);
+    this.updateNPCTrade(hours, routes);
+    this.updateMarkets(elapsed);
+    this.updateOrderBooks();
+    this.updateEvents(hours);
+  }
+
+  /**
+   * Game time the economy is at: the simulated moment during a catch-up, otherwise the clock
+   */
+  private now(): number {
+    return this.simulationTime ?? this.timeManager.getCurrentTimestamp();
+  }
+
   /**
    * Update all market prices and availability
    */
@@ -281,10 +453,8 @@ export class EconomicSystem {
       const commodity = getCommodity(commodityId);
       if (!commodity) continue;
 
-      // Update supply based on production
       const hoursPassed = deltaTime / 3600000; // Convert ms to hours
-      this.updateSupply(marketCommodity, economics, hoursPassed);
-      
+
       // Update demand based on consumption
       this.updateDemand(marketCommodity, economics, hoursPassed);
       
@@ -295,19 +465,7 @@ export class EconomicSystem {
       this.updateSupplyDemandLevels(marketCommodity);
     }
 
-    market.lastUpdate = Date.now();
-  }
-
-  /**
-   * Update commodity supply based on production
-   */
-  private updateSupply(marketCommodity: MarketCommodity, economics: StationEconomics, hours: number): void {
-    const production = economics.produces.find(p => p.commodityId === marketCommodity.commodityId);
-    if (production) {
-      const produced = production.baseRate * production.efficiency * economics.economicFactors.efficiency * hours;
-      marketCommodity.available += Math.round(produced);
-      marketCommodity.productionRate = production.baseRate * production.efficiency;
-    }
+    market.lastUpdate = this.now();
   }
 
   /**
@@ -316,8 +474,12 @@ export class EconomicSystem {
   private updateDemand(marketCommodity: MarketCommodity, economics: StationEconomics, hours: number): void {
     const consumption = economics.consumes.find(c => c.commodityId === marketCommodity.commodityId);
     if (consumption) {
-      const consumed = consumption.baseRate * hours;
+      const consumed = consumption.baseRate * hours *
+        this.getEventMultiplier(marketCommodity.commodityId, economics.stationId, 'demandMultiplier');
       marketCommodity.demand += Math.round(consumed);
+
+      // Production inputs are drawn from stock by the production cycle itself
+      if (this.isProductionInput(economics, marketCommodity.commodityId)) return;
       
       // Station consumes from available supply if possible
       const actualConsumption = Math.min(consumed, marketCommodity.available);
@@ -348,7 +510,7 @@ export class EconomicSystem {
     
     // Add price history point
     const pricePoint: PricePoint = {
-      timestamp: Date.now(),
+      timestamp: this.now(),
       price: newPrice,
       volume: 0 // Will be updated when trades occur
     };
@@ -397,7 +559,7 @@ export class EconomicSystem {
   /**
    * Execute a trade transaction with player inventory integration
    */
-  executeTradeWithPlayer(stationId: string, commodityId: string, quantity: number, isBuying: boolean, playerManager: any): {
+  executeTradeWithPlayer(stationId: string, commodityId: string, quantity: number, isBuying: boolean, playerManager: PlayerManager): {
     success: boolean;
     totalCost?: number;
     pricePerUnit?: number;
@@ -431,6 +593,7 @@ export class EconomicSystem {
       // Update market state
       marketCommodity.available -= quantity;
       marketCommodity.demand = Math.max(0, marketCommodity.demand - quantity);
+      this.recordPlayerTrade(stationId, commodityId, 'buy', quantity, pricePerUnit);
       
       // Update price history with trade volume
       if (marketCommodity.priceHistory.length > 0) {
@@ -447,8 +610,10 @@ export class EconomicSystem {
         pricePerUnit
       };
     } else {
-      // Player selling to station
-      const pricePerUnit = marketCommodity.currentPrice;
+      // Player selling to station; spoiling goods fetch less
+      const marketValue = marketCommodity.currentPrice * (playerManager.getCargoValueMultiplier(commodityId));
+      const costBasis = playerManager.getCargoManifest().find(item => item.commodityId === commodityId)?.averagePurchasePrice;
+      const pricePerUnit = this.applyPlayerProfitModifiers(marketValue, costBasis);
       const totalValue = pricePerUnit * quantity;
       
       // Execute the sale through PlayerManager
@@ -460,6 +625,7 @@ export class EconomicSystem {
       // Update market state
       marketCommodity.available += quantity;
       marketCommodity.demand += Math.floor(quantity * 0.8); // Stations want more when they buy
+      this.recordPlayerTrade(stationId, commodityId, 'sell', quantity, pricePerUnit);
       
       // Update price history with trade volume
       if (marketCommodity.priceHistory.length > 0) {
@@ -478,6 +644,20 @@ export class EconomicSystem {
     }
   }
 
+  /**
+   * Scale the profit the player makes on a sale by prestige trading bonuses
+   * and the active challenge mode's trading margins
+   */
+  private applyPlayerProfitModifiers(pricePerUnit: number, costBasis: number | undefined): number {
+    if (!this.endgameManager || costBasis === undefined || pricePerUnit <= costBasis) {
+      return pricePerUnit;
+    }
+
+    const profitMultiplier = this.endgameManager.getChallengeModifier('economic', 'trading_margins') *
+      (1 + this.endgameManager.getPrestigeBonus('trading_profit'));
+    return costBasis + (pricePerUnit - costBasis) * profitMultiplier;
+  }
+
   /**
    * Execute a trade transaction (legacy method for compatibility)
    */
@@ -537,6 +717,355 @@ export class EconomicSystem {
     }
   }
 
+  /**
+   * Place a limit order on a station's order book. It trades at once against
+   * any resting orders it crosses, and whatever is left rests on the book.
+   */
+  placeOrder(stationId: string, order: Pick<MarketOrder, 'commodityId' | 'side' | 'owner' | 'ownerId' | 'price' | 'quantity' | 'expiresAt'>): MarketOrder | null {
+    const market = this.markets.get(stationId);
+    if (!market || !market.commodities.has(order.commodityId)) return null;
+    if (!(order.price > 0) || !Number.isInteger(order.quantity) || order.quantity <= 0) return null;
+
+    const placed: MarketOrder = {
+      ...order,
+      id: `order-${this.orderIdCounter++}`,
+      stationId,
+      filled: 0,
+      fillValue: 0,
+      placedAt: this.now()
+    };
+
+    const book = [...market.orders, ...this.getStationQuotes(market, order.commodityId)];
+    matchOrder(book, placed, (filled, quantity, price) => this.settleFill(market, filled, quantity, price));
+    market.orders.push(placed);
+    this.pruneOrders(market);
+    return placed;
+  }
+
+  /**
+   * Place a player limit order. Credits for a buy order and goods for a sell
+   * order are held by the order until it fills or is cancelled.
+   */
+  placePlayerOrder(stationId: string, commodityId: string, side: MarketOrder['side'], quantity: number, price: number, playerManager: PlayerManager): {
+    success: boolean;
+    order?: MarketOrder;
+    error?: string;
+  } {
+    const market = this.markets.get(stationId);
+    if (!market) {
+      return { success: false, error: 'Market not found' };
+    }
+    if (!market.commodities.has(commodityId)) {
+      return { success: false, error: 'Commodity not available' };
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0 || !(price > 0)) {
+      return { success: false, error: 'Invalid quantity or price' };
+    }
+
+    if (side === 'buy') {
+      if (!playerManager.spendCredits(quantity * price)) {
+        return { success: false, error: 'Insufficient credits' };
+      }
+    } else {
+      const result = playerManager.removeCommodity(commodityId, quantity);
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+    }
+
+    const order = this.placeOrder(stationId, {
+      commodityId,
+      side,
+      owner: 'player',
+      ownerId: 'player',
+      price,
+      quantity
+    })!;
+
+    // The player is at the station, so anything filled at once is settled now
+    this.settlePlayerOrders(playerManager, stationId);
+    return { success: true, order };
+  }
+
+  /**
+   * Cancel a player order, handing back the credits or goods it still holds
+   */
+  cancelPlayerOrder(stationId: string, orderId: string, playerManager: PlayerManager): { success: boolean; error?: string } {
+    const market = this.markets.get(stationId);
+    const order = market?.orders.find(o => o.id === orderId && o.owner === 'player');
+    if (!market || !order) {
+      return { success: false, error: 'Order not found' };
+    }
+
+    if (order.side === 'sell' && order.quantity > 0) {
+      const result = playerManager.addCommodity(order.commodityId, order.quantity, order.price);
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+    } else if (order.side === 'buy') {
+      playerManager.addCredits(order.quantity * order.price);
+    }
+
+    order.quantity = 0;
+    this.settlePlayerOrders(playerManager, stationId);
+    this.pruneOrders(market);
+    return { success: true };
+  }
+
+  /**
+   * Cancel every player order, settling fills and handing back what the orders still
+   * hold. Goods that do not fit in the hold are bought back at the order's price.
+   */
+  cancelAllPlayerOrders(playerManager: PlayerManager): void {
+    for (const order of this.getPlayerOrders()) {
+      this.cancelPlayerOrder(order.stationId, order.id, playerManager);
+    }
+
+    // Orders still open are holding goods the hold had no room for
+    for (const order of this.getPlayerOrders()) {
+      const unsettled = order.side === 'sell' ? order.fillValue : order.filled * order.price;
+      playerManager.addCredits(order.quantity * order.price + unsettled);
+      order.quantity = 0;
+      order.filled = 0;
+      order.fillValue = 0;
+    }
+    this.markets.forEach(market => this.pruneOrders(market));
+  }
+
+  /**
+   * Drop every player order without settling it, along with what it holds
+   */
+  discardPlayerOrders(): void {
+    this.markets.forEach(market => {
+      market.orders = market.orders.filter(order => order.owner !== 'player');
+    });
+  }
+
+  /**
+   * Pay the player for filled sell orders and hand over goods from filled buy
+   * orders. Credits reach the player anywhere; goods only at the station where
+   * they were bought, and only as far as the cargo hold has room.
+   */
+  settlePlayerOrders(playerManager: PlayerManager, currentStationId?: string): { credits: number; delivered: Array<{ commodityId: string; quantity: number }> } {
+    const settlement = { credits: 0, delivered: [] as Array<{ commodityId: string; quantity: number }> };
+
+    for (const market of this.markets.values()) {
+      let settled = false;
+      for (const order of market.orders) {
+        if (order.owner !== 'player' || order.filled <= 0) continue;
+
+        if (order.side === 'sell') {
+          settlement.credits += order.fillValue;
+          playerManager.addCredits(order.fillValue);
+        } else {
+          if (order.stationId !== currentStationId) continue;
+          const result = playerManager.addCommodity(order.commodityId, order.filled, order.fillValue / order.filled);
+          if (!result.success) continue;
+          // Fills below the limit price leave part of the held credits unspent
+          const refund = order.filled * order.price - order.fillValue;
+          settlement.credits += refund;
+          playerManager.addCredits(refund);
+          settlement.delivered.push({ commodityId: order.commodityId, quantity: order.filled });
+        }
+
+        order.filled = 0;
+        order.fillValue = 0;
+        settled = true;
+      }
+      if (settled) this.pruneOrders(market);
+    }
+
+    return settlement;
+  }
+
+  /**
+   * Open and unsettled player orders across all stations
+   */
+  getPlayerOrders(): MarketOrder[] {
+    return Array.from(this.markets.values()).flatMap(market => market.orders.filter(order => order.owner === 'player'));
+  }
+
+  /**
+   * Bids and asks resting on a station's book for one commodity
+   */
+  getOrderBook(stationId: string, commodityId: string, levels: number = 5): OrderBookDepth | null {
+    const market = this.markets.get(stationId);
+    const marketCommodity = market?.commodities.get(commodityId);
+    if (!market || !marketCommodity) return null;
+    const book = [...market.orders, ...this.getStationQuotes(market, commodityId)];
+    return getOrderBookDepth(book, commodityId, calculateSpread(market, marketCommodity), levels);
+  }
+
+  /**
+   * The bid and ask a station's traders quote for a commodity: around the market
+   * price, backed by the station's stock and demand. Quotes follow the market and
+   * are worked out when needed rather than kept on the book.
+   */
+  private getStationQuotes(market: Market, commodityId: string): MarketOrder[] {
+    const marketCommodity = market.commodities.get(commodityId);
+    if (!marketCommodity) return [];
+
+    const halfSpread = calculateSpread(market, marketCommodity) / 2;
+    const quotes: MarketOrder[] = [];
+    for (const side of ['sell', 'buy'] as const) {
+      const quantity = Math.floor((side === 'sell' ? marketCommodity.available : marketCommodity.demand) * QUOTE_SHARE);
+      if (quantity <= 0) continue;
+      quotes.push({
+        id: `${market.stationId}:${commodityId}:${side}`,
+        stationId: market.stationId,
+        commodityId,
+        side,
+        owner: 'npc',
+        ownerId: STATION_TRADERS_ID,
+        price: Math.max(1, Math.round(marketCommodity.currentPrice * (side === 'sell' ? 1 + halfSpread : 1 - halfSpread))),
+        quantity,
+        filled: 0,
+        fillValue: 0,
+        placedAt: market.lastUpdate
+      });
+    }
+    return quotes;
+  }
+
+  /**
+   * Drop expired NPC orders and let resting orders trade against the station
+   * traders' fresh quotes, which is how player and NPC orders fill while
+   * nobody is watching.
+   */
+  private updateOrderBooks(): void {
+    const currentTime = this.now();
+
+    for (const market of this.markets.values()) {
+      if (market.orders.length === 0) continue;
+
+      market.orders = market.orders.filter(order =>
+        order.expiresAt === undefined || order.expiresAt > currentTime || order.filled > 0
+      );
+
+      const commodityIds = new Set(market.orders.map(order => order.commodityId));
+      for (const commodityId of commodityIds) {
+        // A station's own bid and ask never cross, so quotes only trade with the orders resting
+        for (const quote of this.getStationQuotes(market, commodityId)) {
+          matchOrder(market.orders, quote, (filled, quantity, price) => this.settleFill(market, filled, quantity, price));
+        }
+      }
+
+      this.pruneOrders(market);
+    }
+  }
+
+  /**
+   * Record a fill against either side of the book
+   */
+  private settleFill(market: Market, order: MarketOrder, quantity: number, price: number): void {
+    if (order.owner === 'player') {
+      this.recordPlayerTrade(market.stationId, order.commodityId, order.side, quantity, price);
+    } else {
+      this.settleTraderFill(market, order, quantity);
+    }
+  }
+
+  /**
+   * Settle a fill for an NPC order straight away. Station traders trade the
+   * station's own stock; other NPC traders carry their goods off the books.
+   */
+  private settleTraderFill(market: Market, order: MarketOrder, quantity: number): void {
+    if (order.owner !== 'npc') return;
+
+    if (order.ownerId === STATION_TRADERS_ID) {
+      const marketCommodity = market.commodities.get(order.commodityId)!;
+      if (order.side === 'sell') {
+        marketCommodity.available = Math.max(0, marketCommodity.available - quantity);
+      } else {
+        marketCommodity.available += quantity;
+        marketCommodity.demand = Math.max(0, marketCommodity.demand - quantity);
+      }
+
+      if (marketCommodity.priceHistory.length > 0) {
+        marketCommodity.priceHistory[marketCommodity.priceHistory.length - 1].volume += quantity;
+      }
+      this.updateSupplyDemandLevels(marketCommodity);
+    }
+
+    order.filled = 0;
+    order.fillValue = 0;
+  }
+
+  private recordPlayerTrade(stationId: string, commodityId: string, side: PlayerTrade['side'], quantity: number, price: number): void {
+    this.playerTrades.push({ stationId, commodityId, side, quantity, price, timestamp: this.now() });
+    if (this.playerTrades.length > MAX_PLAYER_TRADES) {
+      this.playerTrades = this.playerTrades.slice(-MAX_PLAYER_TRADES);
+    }
+  }
+
+  /**
+   * The player's recent trades, optionally at one station and since a given time
+   */
+  getPlayerTradeHistory(stationId?: string, since: number = 0): PlayerTrade[] {
+    return this.playerTrades.filter(trade =>
+      (!stationId || trade.stationId === stationId) && trade.timestamp >= since
+    );
+  }
+
+  /**
+   * Units of all commodities traded at a station since a given time, by anyone
+   */
+  getMarketVolume(stationId: string, since: number = 0): number {
+    const market = this.markets.get(stationId);
+    if (!market) return 0;
+
+    let volume = 0;
+    for (const marketCommodity of market.commodities.values()) {
+      for (const point of marketCommodity.priceHistory) {
+        if (point.timestamp >= since) volume += point.volume;
+      }
+    }
+    return volume;
+  }
+
+  /**
+   * Push a commodity in a market off balance from outside: its stock and
+   * demand shift at once, and any price distortion holds for a while as an
+   * economic event. The market is repriced straight away.
+   */
+  applyMarketPressure(stationId: string, commodityId: string, pressure: MarketPressure): { priceBefore: number; priceAfter: number } | null {
+    const market = this.markets.get(stationId);
+    const marketCommodity = market?.commodities.get(commodityId);
+    const commodity = getCommodity(commodityId);
+    if (!market || !marketCommodity || !commodity) return null;
+
+    const priceBefore = marketCommodity.currentPrice;
+    marketCommodity.available = Math.max(0, Math.round(marketCommodity.available * (1 + (pressure.supplyChange ?? 0))));
+    marketCommodity.demand = Math.max(0, Math.round(marketCommodity.demand * (1 + (pressure.demandChange ?? 0))));
+
+    if (pressure.priceMultiplier !== undefined) {
+      const currentTime = this.now();
+      this.activeEvents.push({
+        id: `pressure-${currentTime}-${this.random.next().toString(36).substr(2, 6)}`,
+        type: pressure.type,
+        affectedCommodities: [commodityId],
+        affectedStations: [stationId],
+        severity: Math.min(1, Math.abs(pressure.priceMultiplier - 1)),
+        duration: pressure.durationHours,
+        startTime: currentTime,
+        endTime: currentTime + pressure.durationHours * 3600000,
+        description: pressure.description,
+        effects: { priceMultiplier: pressure.priceMultiplier }
+      });
+    }
+
+    this.updatePrice(marketCommodity, commodity, market);
+    this.updateSupplyDemandLevels(marketCommodity);
+    return { priceBefore, priceAfter: marketCommodity.currentPrice };
+  }
+
+  /**
+   * Remove orders that are neither open nor waiting to be settled
+   */
+  private pruneOrders(market: Market): void {
+    market.orders = market.orders.filter(order => order.quantity > 0 || order.filled > 0);
+  }
+
   // Helper methods for initialization
   private calculateStationPopulation(station: Station): number {
     const basePopulation = {
@@ -566,11 +1095,11 @@ export class EconomicSystem {
     };
     
     const base = basePopulation[station.type] || 30000;
-    return Math.round(base * (0.5 + Math.random()));
+    return Math.round(base * (0.5 + this.random.next()));
   }
 
   private determineWealthLevel(station: Station): 'poor' | 'average' | 'wealthy' | 'elite' {
-    const random = Math.random();
+    const random = this.random.next();
     if (station.type === 'trade' && random > 0.7) return 'wealthy';
     if (station.type === 'research' && random > 0.8) return 'elite';
     if (station.type === 'mining' && random < 0.3) return 'poor';
@@ -597,27 +1126,40 @@ export class EconomicSystem {
         break;
       case 'refinery':
         productions.push(
-          { commodityId: 'steel-alloys', baseRate: 80, efficiency: 1.0, capacity: 160 },
-          { commodityId: 'copper-ingots', baseRate: 70, efficiency: 1.0, capacity: 140 },
-          { commodityId: 'aluminum-sheets', baseRate: 60, efficiency: 1.0, capacity: 120 },
-          { commodityId: 'titanium-plates', baseRate: 30, efficiency: 1.0, capacity: 60 },
-          { commodityId: 'silicon-wafers', baseRate: 45, efficiency: 1.0, capacity: 90 }
+          { commodityId: 'steel-alloys', baseRate: 80, efficiency: 1.0, capacity: 160, requiredInputs: [{ commodityId: 'iron-ore', unitsRequired: 2 }, { commodityId: 'carbon-crystals', unitsRequired: 0.25 }] },
+          { commodityId: 'copper-ingots', baseRate: 70, efficiency: 1.0, capacity: 140, requiredInputs: [{ commodityId: 'copper-ore', unitsRequired: 2 }] },
+          { commodityId: 'aluminum-sheets', baseRate: 60, efficiency: 1.0, capacity: 120, requiredInputs: [{ commodityId: 'aluminum-ore', unitsRequired: 2 }] },
+          { commodityId: 'titanium-plates', baseRate: 30, efficiency: 1.0, capacity: 60, requiredInputs: [{ commodityId: 'titanium-ore', unitsRequired: 2 }] },
+          { commodityId: 'silicon-wafers', baseRate: 45, efficiency: 1.0, capacity: 90, requiredInputs: [{ commodityId: 'silicon-ore', unitsRequired: 2 }] }
         );
         break;
       case 'manufacturing_hub':
         productions.push(
-          { commodityId: 'advanced-electronics', baseRate: 50, efficiency: 1.0, capacity: 100 },
-          { commodityId: 'consumer-goods', baseRate: 70, efficiency: 1.0, capacity: 140 },
-          { commodityId: 'ship-components', baseRate: 35, efficiency: 1.0, capacity: 70 },
+          { commodityId: 'advanced-electronics', baseRate: 50, efficiency: 1.0, capacity: 100, requiredInputs: [{ commodityId: 'silicon-wafers', unitsRequired: 1 }, { commodityId: 'copper-ingots', unitsRequired: 1 }] },
+          { commodityId: 'consumer-goods', baseRate: 70, efficiency: 1.0, capacity: 140, requiredInputs: [{ commodityId: 'aluminum-sheets', unitsRequired: 0.5 }, { commodityId: 'synthetic-fabrics', unitsRequired: 0.5 }] },
+          { commodityId: 'ship-components', baseRate: 35, efficiency: 1.0, capacity: 70, requiredInputs: [{ commodityId: 'steel-alloys', unitsRequired: 1 }, { commodityId: 'copper-ingots', unitsRequired: 0.5 }] },
           { commodityId: 'synthetic-fabrics', baseRate: 60, efficiency: 1.0, capacity: 120 }
         );
         break;
       case 'industrial':
         productions.push(
-          { commodityId: 'electronics', baseRate: 40, efficiency: 1.0, capacity: 80 },
-          { commodityId: 'machinery', baseRate: 20, efficiency: 1.0, capacity: 40 },
-          { commodityId: 'ship-hulls', baseRate: 8, efficiency: 1.0, capacity: 16 },
-          { commodityId: 'fusion-drives', baseRate: 12, efficiency: 1.0, capacity: 24 }
+          { commodityId: 'electronics', baseRate: 40, efficiency: 1.0, capacity: 80, requiredInputs: [{ commodityId: 'copper-ore', unitsRequired: 1 }, { commodityId: 'silicon-ore', unitsRequired: 1 }] },
+          { commodityId: 'machinery', baseRate: 20, efficiency: 1.0, capacity: 40, requiredInputs: [{ commodityId: 'iron-ore', unitsRequired: 2 }] },
+          { commodityId: 'ship-hulls', baseRate: 8, efficiency: 1.0, capacity: 16, requiredInputs: [{ commodityId: 'iron-ore', unitsRequired: 5 }, { commodityId: 'titanium-ore', unitsRequired: 2 }] },
+          { commodityId: 'fusion-drives', baseRate: 12, efficiency: 1.0, capacity: 24, requiredInputs: [{ commodityId: 'titanium-ore', unitsRequired: 2 }, { commodityId: 'rare-earth-elements', unitsRequired: 1 }] }
+        );
+        break;
+      case 'shipyard':
+        // Shipyards assemble complete ships from hulls, drives and components
+        productions.push(
+          {
+            commodityId: 'complete-ships', baseRate: 1, efficiency: 1.0, capacity: 2, requiredInputs: [
+              { commodityId: 'ship-hulls', unitsRequired: 1 },
+              { commodityId: 'fusion-drives', unitsRequired: 2 },
+              { commodityId: 'ship-components', unitsRequired: 10 },
+              { commodityId: 'advanced-electronics', unitsRequired: 5 }
+            ]
+          }
         );
         break;
       case 'research':
@@ -766,7 +1308,7 @@ export class EconomicSystem {
     };
     
     const base = baseCredits[station.type] || 500000;
-    return Math.round(base * (0.5 + Math.random()));
+    return Math.round(base * (0.5 + this.random.next()));
   }
 
   private getAvailableCommodities(_station: Station, system?: {securityLevel: number}): string[] {
@@ -789,7 +1331,7 @@ export class EconomicSystem {
         const commodity = getCommodity(id);
         if (!commodity) return false;
         if (commodity.legalStatus === 'restricted') {
-          return Math.random() < 0.3; // 30% chance
+          return this.random.next() < 0.3; // 30% chance
         }
         return true;
       });
@@ -799,7 +1341,7 @@ export class EconomicSystem {
   }
 
   private calculateInitialAvailability(commodity: Commodity, station: Station): number {
-    const baseAvailability = Math.random() * 100 + 50; // 50-150 units
+    const baseAvailability = this.random.next() * 100 + 50; // 50-150 units
     
     // Adjust based on station type
     let multiplier = 1.0;
@@ -811,7 +1353,7 @@ export class EconomicSystem {
   }
 
   private calculateInitialDemand(commodity: Commodity, station: Station): number {
-    const baseDemand = Math.random() * 50 + 25; // 25-75 units
+    const baseDemand = this.random.next() * 50 + 25; // 25-75 units
     
     // Adjust based on commodity type and station needs
     let multiplier = 1.0;
@@ -827,59 +1369,401 @@ export class EconomicSystem {
     return production ? production.baseRate * production.efficiency : 0;
   }
 
-  private updateProduction(deltaTime: number): void {
-    // Update production cycles for all stations
-    // Production logic is handled in updateMarket method
-    // deltaTime parameter is reserved for future production cycle implementation
-    void deltaTime;
+  /**
+   * Run one production cycle: ship inputs in from producing stations, then make
+   * goods. Stations with required inputs only produce what their stock of every
+   * input allows, so shortages upstream starve the stations further down the chain.
+   */
+  private updateProduction(deltaTime: number, routes: Map<string, boolean>): void {
+    const hours = deltaTime / 3600000; // Convert ms to hours
+
+    for (const economics of this.stationEconomics.values()) {
+      this.restockInputs(economics, hours, routes);
+    }
+
+    for (const economics of this.stationEconomics.values()) {
+      for (const production of economics.produces) {
+        this.runProduction(economics, production, hours);
+      }
+    }
+  }
+
+  private runProduction(economics: StationEconomics, production: Production, hours: number): void {
+    const output = economics.market.commodities.get(production.commodityId);
+    if (!output) return;
+
+    const hourlyRate = production.baseRate * production.efficiency * economics.economicFactors.efficiency *
+      this.getEventMultiplier(production.commodityId, economics.stationId, 'productionMultiplier');
+    let produced = hourlyRate * hours;
+
+    for (const input of production.requiredInputs ?? []) {
+      const stock = economics.market.commodities.get(input.commodityId)?.available ?? 0;
+      produced = Math.min(produced, stock / input.unitsRequired);
+    }
+    produced = Math.floor(produced);
+
+    for (const input of production.requiredInputs ?? []) {
+      const stock = economics.market.commodities.get(input.commodityId);
+      if (!stock) continue;
+      stock.available = Math.max(0, stock.available - Math.ceil(produced * input.unitsRequired));
+      // Inputs the station ran short of become demand it would pay for
+      const shortfall = Math.round((hourlyRate * hours - produced) * input.unitsRequired);
+      if (shortfall > 0) stock.demand += shortfall;
+    }
+
+    output.available += produced;
+    output.productionRate = hours > 0 ? produced / hours : hourlyRate;
+  }
+
+  /**
+   * Top up a station's production inputs from stations that produce them and can reach it
+   */
+  private restockInputs(economics: StationEconomics, hours: number, routes: Map<string, boolean>): void {
+    for (const production of economics.produces) {
+      const hourlyRate = production.baseRate * production.efficiency * economics.economicFactors.efficiency;
+
+      for (const input of production.requiredInputs ?? []) {
+        const stock = economics.market.commodities.get(input.commodityId);
+        if (!stock) continue;
+
+        const target = hourlyRate * input.unitsRequired * Math.max(hours, INPUT_STOCK_HOURS);
+        let needed = Math.ceil(target - stock.available);
+        if (needed <= 0) continue;
+
+        // Draw from the best-stocked producers first
+        const suppliers = Array.from(this.stationEconomics.values())
+          .filter(supplier =>
+            supplier !== economics &&
+            supplier.market.commodities.has(input.commodityId) &&
+            supplier.produces.some(p => p.commodityId === input.commodityId)
+          )
+          .sort((a, b) =>
+            b.market.commodities.get(input.commodityId)!.available - a.market.commodities.get(input.commodityId)!.available
+          );
+
+        for (const supplier of suppliers) {
+          if (needed <= 0) break;
+          if (!this.canShipBetween(supplier.stationId, economics.stationId, routes)) continue;
+
+          const supply = supplier.market.commodities.get(input.commodityId)!;
+          const shipped = Math.min(needed, Math.floor(supply.available * FREIGHT_SHARE));
+          if (shipped <= 0) continue;
+
+          supply.available -= shipped;
+          stock.available += shipped;
+          needed -= shipped;
+        }
+      }
+    }
   }
 
-  private updateEvents(deltaTime: number): void {
-    const currentTime = Date.now();
+  /**
+   * NPC traders haul each commodity from the cheapest stations with stock to spare
+   * to the dearest stations short of it, as long as the price gap pays for the trip.
+   * Deliveries are sold to the station, so they fill its demand as well as its stock.
+   */
+  private updateNPCTrade(hours: number, routes: Map<string, boolean>): void {
+    const haulLimit = Math.floor(NPC_HAUL_PER_HOUR * hours);
+    if (haulLimit <= 0) return;
+
+    for (const commodityId of Object.keys(COMMODITIES)) {
+      const sellers: MarketCommodity[] = [];
+      const buyers: MarketCommodity[] = [];
+      const stations = new Map<MarketCommodity, string>();
+
+      for (const market of this.markets.values()) {
+        const marketCommodity = market.commodities.get(commodityId);
+        if (!marketCommodity) continue;
+        stations.set(marketCommodity, market.stationId);
+        if (marketCommodity.available > marketCommodity.demand) sellers.push(marketCommodity);
+        else if (marketCommodity.demand > marketCommodity.available) buyers.push(marketCommodity);
+      }
+
+      sellers.sort((a, b) => a.currentPrice - b.currentPrice);
+      buyers.sort((a, b) => b.currentPrice - a.currentPrice);
+
+      for (const buyer of buyers) {
+        for (const seller of sellers) {
+          if (buyer.currentPrice < seller.currentPrice * NPC_TRADE_MARGIN) break;
+          if (!this.canShipBetween(stations.get(seller)!, stations.get(buyer)!, routes)) continue;
+
+          const quantity = Math.min(
+            haulLimit,
+            Math.floor((seller.available - seller.demand) * FREIGHT_SHARE),
+            buyer.demand - buyer.available
+          );
+          if (quantity <= 0) continue;
+
+          seller.available -= quantity;
+          buyer.available += quantity;
+          buyer.demand = Math.max(0, buyer.demand - quantity);
+          break;
+        }
+      }
+    }
+  }
+
+  private isProductionInput(economics: StationEconomics, commodityId: string): boolean {
+    return economics.produces.some(p => p.requiredInputs?.some(input => input.commodityId === commodityId));
+  }
+
+  /**
+   * Whether freight can move between two stations: the galaxy must connect their
+   * systems and no sector along the route may be blockaded. Without a world every
+   * station connects.
+   */
+  private canShipBetween(fromStationId: string, toStationId: string, routes: Map<string, boolean>): boolean {
+    if (!this.worldManager) return true;
+
+    const key = `${fromStationId}>${toStationId}`;
+    const cached = routes.get(key);
+    if (cached !== undefined) return cached;
+
+    const pathfinder = this.worldManager.getPathfinder();
+    const fromSystemId = pathfinder.getSystemIdForStation(fromStationId);
+    const toSystemId = pathfinder.getSystemIdForStation(toStationId);
+    const route = fromSystemId && toSystemId ? pathfinder.findRoute(fromSystemId, toSystemId) : null;
+    const connected = !!route &&
+      route.systemIds.every(systemId => !this.blockadedSectors.has(pathfinder.getSectorIdForSystem(systemId) ?? ''));
+
+    routes.set(key, connected);
+    return connected;
+  }
+
+  /**
+   * Cut a sector off from freight (e.g. a blockade) or reopen it
+   */
+  setSectorBlockade(sectorId: string, blockaded: boolean): void {
+    if (blockaded) {
+      this.blockadedSectors.add(sectorId);
+    } else {
+      this.blockadedSectors.delete(sectorId);
+    }
+  }
+
+  isSectorBlockaded(sectorId: string): boolean {
+    return this.blockadedSectors.has(sectorId);
+  }
+
+  /**
+   * Age the active events: ended events may lead to follow-ups, running ones
+   * spread to neighbouring systems, and now and then something new breaks out.
+   */
+  private updateEvents(hours: number): void {
+    const currentTime = this.now();
     
-    // Remove expired events
+    // Remove expired events, rolling for what they lead to
+    const ended = this.activeEvents.filter(event => currentTime >= event.endTime);
     this.activeEvents = this.activeEvents.filter(event => currentTime < event.endTime);
+    ended.forEach(event => this.triggerFollowUps(event));
+    for (const chainId of this.chainSystems.keys()) {
+      if (!this.activeEvents.some(event => event.chainId === chainId)) {
+        this.chainSystems.delete(chainId);
+      }
+    }
+
+    this.activeEvents
+      .filter(event => event.nextSpreadTime !== undefined && currentTime >= event.nextSpreadTime)
+      .forEach(event => this.spreadEvent(event));
     
-    // Randomly generate new events (low probability)
-    if (Math.random() < 0.01) { // 1% chance per update
+    // Randomly generate new events (low probability, scaled to the time simulated)
+    if (this.random.next() < 1 - Math.pow(1 - EVENT_CHANCE_PER_HOUR, hours)) {
       this.generateRandomEvent();
     }
-    
-    // deltaTime parameter is reserved for future event timing implementation
-    void deltaTime;
   }
 
+  /**
+   * Break out a new event with a named cause. A sector is picked first, then a
+   * station in it that fits the cause and trades the goods it hits, favouring
+   * stations of the factions most prone to it.
+   */
   private generateRandomEvent(): void {
-    // Simple random event generation - would be expanded
-    const eventTypes = ['supply-shortage', 'demand-spike', 'price-crash'] as const;
-    const type = eventTypes[Math.floor(Math.random() * eventTypes.length)];
-    
+    const outbreaks = Object.values(ECONOMIC_EVENT_CAUSES)
+      .filter(cause => cause.spontaneous)
+      .map(cause => ({
+        cause,
+        candidates: Array.from(this.stationEconomics.values()).filter(economics =>
+          cause.stationTypes.includes(economics.stationType) && this.tradesAnyOf(economics.stationId, cause.commodities)
+        )
+      }))
+      .filter(outbreak => outbreak.candidates.length > 0);
+    if (outbreaks.length === 0) return;
+
+    const { cause, candidates } = this.random.pick(outbreaks);
+    const sectors = new Map<string, StationEconomics[]>();
+    for (const economics of candidates) {
+      const sectorId = this.getStationSectorId(economics.stationId) ?? 'unknown';
+      sectors.set(sectorId, [...(sectors.get(sectorId) ?? []), economics]);
+    }
+    const inSector = this.random.pick(Array.from(sectors.values()));
+
+    // Factions prone to the cause are three times as likely to be hit
+    const weights = inSector.map(economics =>
+      cause.factions?.includes(this.getStationFaction(economics.stationId) ?? '') ? 3 : 1
+    );
+    let roll = this.random.next() * weights.reduce((sum, weight) => sum + weight, 0);
+    const origin = inSector.find((_, index) => (roll -= weights[index]) < 0) ?? inSector[inSector.length - 1];
+
+    this.startEconomicEvent(cause.id, origin.stationId, this.random.range(0.3, 0.8));
+  }
+
+  /**
+   * Break out an event of a given cause at a station. It hits every station in
+   * the same system that trades the goods involved.
+   */
+  startEconomicEvent(causeId: string, stationId: string, severity: number = 0.5): EconomicEvent | null {
+    const cause = getEconomicEventCause(causeId);
+    if (!cause || !this.markets.has(stationId)) return null;
+
+    const systemId = this.getStationSystemId(stationId);
+    const stationIds = systemId
+      ? this.getSystemStationIds(systemId).filter(id => this.tradesAnyOf(id, cause.commodities))
+      : [stationId];
+    return this.startEvent(cause, stationIds, systemId, severity, null, 0);
+  }
+
+  /**
+   * Start an event of the given cause at a set of stations and announce it.
+   * Effects scale with severity, so a mild outbreak moves prices less.
+   */
+  private startEvent(
+    cause: EconomicEventCause,
+    stationIds: string[],
+    systemId: string | null,
+    severity: number,
+    chainId: string | null,
+    spreadLevel: number
+  ): EconomicEvent | null {
+    const affectedCommodities = cause.commodities.filter(commodityId =>
+      stationIds.some(stationId => this.markets.get(stationId)?.commodities.has(commodityId))
+    );
+    if (stationIds.length === 0 || affectedCommodities.length === 0) return null;
+
+    const currentTime = this.now();
+    const [minHours, maxHours] = cause.durationHours;
+    const duration = this.random.range(minHours, maxHours);
+    const id = `event-${currentTime}-${this.random.next().toString(36).substr(2, 6)}`;
+    const effects: EconomicEvent['effects'] = {};
+    for (const [effect, multiplier] of Object.entries(cause.effects) as Array<[keyof EconomicEvent['effects'], number]>) {
+      effects[effect] = 1 + (multiplier - 1) * severity;
+    }
+    const canSpread = !!cause.spread && !!systemId && spreadLevel < cause.spread.maxLevel;
+    const location = (systemId && this.worldManager?.getSystemById(systemId)?.name) ?? stationIds[0];
+
     const event: EconomicEvent = {
-      id: `event-${Date.now()}`,
-      type,
-      affectedCommodities: [Object.keys(COMMODITIES)[Math.floor(Math.random() * Object.keys(COMMODITIES).length)]],
-      affectedStations: Array.from(this.stationEconomics.keys()).slice(0, 3),
-      severity: Math.random() * 0.5 + 0.3, // 0.3-0.8
-      duration: (4 + Math.random() * 20) * 3600000, // 4-24 hours
-      startTime: Date.now(),
-      endTime: Date.now() + (4 + Math.random() * 20) * 3600000,
-      description: `Market ${type} affecting regional trade`,
-      effects: {
-        priceMultiplier: type === 'price-crash' ? 0.5 : type === 'demand-spike' ? 1.5 : 1.0,
-        availabilityMultiplier: type === 'supply-shortage' ? 0.3 : 1.0
-      }
+      id,
+      type: cause.type,
+      affectedCommodities,
+      affectedStations: stationIds,
+      severity,
+      duration,
+      startTime: currentTime,
+      endTime: currentTime + Math.round(duration * 3600000),
+      description: cause.description.replace('{location}', location),
+      effects,
+      causeId: cause.id,
+      chainId: chainId ?? id,
+      ...(systemId && { originSystemId: systemId }),
+      spreadLevel,
+      ...(canSpread && { nextSpreadTime: currentTime + cause.spread!.intervalHours * 3600000 })
     };
-    
+
     this.activeEvents.push(event);
+    if (systemId) {
+      this.chainSystems.set(event.chainId!, (this.chainSystems.get(event.chainId!) ?? new Set()).add(systemId));
+    }
+    if (this.pendingAnnouncements) {
+      this.pendingAnnouncements.push({ event, title: cause.name, location });
+    } else {
+      this.eventManager?.announceEconomicEvent(event, cause.name, location);
+    }
+    return event;
+  }
+
+  /**
+   * Carry an event through the gate graph to the systems next to it. Each
+   * neighbour the chain has not reached yet, even where it has since died
+   * down, may catch it, more mildly.
+   */
+  private spreadEvent(event: EconomicEvent): void {
+    event.nextSpreadTime = undefined;
+    const cause = event.causeId ? getEconomicEventCause(event.causeId) : undefined;
+    if (!cause?.spread || !event.originSystemId || !this.worldManager) return;
+
+    const reached = this.chainSystems.get(event.chainId ?? event.id) ?? new Set<string>();
+    for (const systemId of this.worldManager.getPathfinder().getNeighbourSystemIds(event.originSystemId)) {
+      if (reached.has(systemId) || !this.random.chance(cause.spread.chance)) continue;
+
+      const stationIds = this.getSystemStationIds(systemId).filter(stationId => this.tradesAnyOf(stationId, cause.commodities));
+      this.startEvent(cause, stationIds, systemId, event.severity * 0.7, event.chainId ?? event.id, (event.spreadLevel ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Roll for the events an ended event leads to, in the same place
+   */
+  private triggerFollowUps(event: EconomicEvent): void {
+    const cause = event.causeId ? getEconomicEventCause(event.causeId) : undefined;
+    for (const followUp of cause?.followUps ?? []) {
+      const next = getEconomicEventCause(followUp.causeId);
+      if (!next || !this.random.chance(followUp.chance)) continue;
+
+      const stationIds = event.originSystemId
+        ? this.getSystemStationIds(event.originSystemId)
+        : event.affectedStations;
+      this.startEvent(
+        next,
+        stationIds.filter(stationId => this.tradesAnyOf(stationId, next.commodities)),
+        event.originSystemId ?? null,
+        event.severity * 0.8,
+        event.chainId ?? event.id,
+        0
+      );
+    }
+  }
+
+  private tradesAnyOf(stationId: string, commodityIds: string[]): boolean {
+    const market = this.markets.get(stationId);
+    return !!market && commodityIds.some(commodityId => market.commodities.has(commodityId));
+  }
+
+  private getStationSystemId(stationId: string): string | null {
+    return this.worldManager?.getPathfinder().getSystemIdForStation(stationId) ?? null;
+  }
+
+  private getStationSectorId(stationId: string): string | null {
+    const systemId = this.getStationSystemId(stationId);
+    return systemId ? this.worldManager?.getPathfinder().getSectorIdForSystem(systemId) ?? null : null;
+  }
+
+  private getStationFaction(stationId: string): string | null {
+    return this.worldManager?.getStationById(stationId)?.faction ?? null;
+  }
+
+  /**
+   * Stations with a market in a system
+   */
+  private getSystemStationIds(systemId: string): string[] {
+    const system = this.worldManager?.getSystemById(systemId);
+    return (system?.stations ?? [])
+      .map((station: Station) => station.id)
+      .filter((stationId: string) => this.markets.has(stationId));
   }
 
   private getEventPriceMultiplier(commodityId: string, stationId: string): number {
+    return this.getEventMultiplier(commodityId, stationId, 'priceMultiplier');
+  }
+
+  /**
+   * Combined multiplier active events apply to one effect on a commodity at a station
+   */
+  private getEventMultiplier(commodityId: string, stationId: string, effect: keyof EconomicEvent['effects']): number {
     let multiplier = 1.0;
     
     for (const event of this.activeEvents) {
       if (event.affectedCommodities.includes(commodityId) && 
           event.affectedStations.includes(stationId)) {
-        multiplier *= event.effects.priceMultiplier || 1.0;
+        multiplier *= event.effects[effect] || 1.0;
       }
     }
     
@@ -903,9 +1787,63 @@ export class EconomicSystem {
     return new Map(this.markets);
   }
 
-  // Test helper method to force updates
+  // Test helper method to force an update covering the given game time
   forceUpdate(deltaTime: number): void {
-    this.lastUpdateTime = 0; // Force next update to happen
-    this.update(deltaTime);
+    this.runEconomicCycle(deltaTime);
+    this.lastUpdateTime = this.timeManager.getCurrentTimestamp();
+  }
+
+  /**
+   * Serialize markets and station economies for saving
+   */
+  serialize(): EconomicSystemSaveData {
+    return {
+      markets: Array.from(this.markets.entries()).map(([stationId, market]) => [
+        stationId,
+        { ...market, commodities: Array.from(market.commodities.entries()) }
+      ]),
+      // Station economics share their market object with `markets`; it is re-linked on load
+      stationEconomics: Array.from(this.stationEconomics.entries()).map(([stationId, economics]) => {
+        const { market: _market, ...rest } = economics;
+        return [stationId, rest];
+      }),
+      activeEvents: [...this.activeEvents],
+      chainSystems: Array.from(this.chainSystems.entries()).map(([chainId, systemIds]) => [chainId, Array.from(systemIds)]),
+      lastUpdateTime: this.lastUpdateTime,
+      blockadedSectors: Array.from(this.blockadedSectors),
+      orderIdCounter: this.orderIdCounter,
+      playerTrades: [...this.playerTrades]
+    };
+  }
+
+  /**
+   * Restore markets and station economies from save data
+   */
+  deserialize(data: EconomicSystemSaveData): void {
+    if (data.markets) {
+      this.markets = new Map(data.markets.map(([stationId, market]) => [
+        stationId,
+        { ...market, orders: market.orders ?? [], commodities: new Map(market.commodities) }
+      ]));
+    }
+    if (data.stationEconomics) {
+      this.stationEconomics = new Map();
+      for (const [stationId, economics] of data.stationEconomics) {
+        const market = this.markets.get(stationId);
+        if (market) {
+          this.stationEconomics.set(stationId, { ...economics, market });
+        }
+      }
+    }
+    if (data.activeEvents) {
+      this.activeEvents = [...data.activeEvents];
+    }
+    this.chainSystems = new Map((data.chainSystems ?? []).map(([chainId, systemIds]) => [chainId, new Set(systemIds)]));
+    if (data.lastUpdateTime !== undefined) {
+      this.lastUpdateTime = data.lastUpdateTime;
+    }
+    this.blockadedSectors = new Set(data.blockadedSectors ?? []);
+    this.orderIdCounter = data.orderIdCounter ?? 1;
+    this.playerTrades = [...(data.playerTrades ?? [])];
   }
 }
\ No newline at end of file
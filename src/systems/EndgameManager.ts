@@ -0,0 +1,358 @@
+import {
+  PRESTIGE_SYSTEMS,
+  NEW_GAME_PLUS_FEATURES,
+  CHALLENGE_MODES,
+  PrestigeSystem,
+  NewGamePlusFeature,
+  ChallengeMode,
+  getAvailablePrestigeSystems,
+  calculateEndgameScore
+} from '../data/endgameContent';
+import {
+  ActiveChallenge,
+  ChallengeModifierCategory,
+  EarnedPrestige,
+  EndgameLegacy,
+  EndgameModifierSource
+} from '../types/endgame';
+import { CharacterSkills } from '../types/character';
+import { TimeManager } from './TimeManager';
+import { PlayerManager } from './PlayerManager';
+import { CharacterManager } from './CharacterManager';
+import { AchievementManager } from './AchievementManager';
+import { QuestManager } from './QuestManager';
+
+export interface EndgameManagerSaveData {
+  earnedPrestige: EarnedPrestige[];
+  legacy: EndgameLegacy;
+  activeChallenge: ActiveChallenge | null;
+}
+
+// Starting bonuses keyed '<skill>_skill' raise that character skill
+const SKILL_BONUS_SUFFIX = '_skill';
+// Starting bonuses keyed 'reputation_<factionId>' raise standing with that faction
+const REPUTATION_BONUS_PREFIX = 'reputation_';
+const CREDIT_BONUS_KEYS = ['credits', 'starting_credits'];
+
+/**
+ * Player progress in the shape read by the endgame content helpers
+ */
+export interface EndgamePlayerProgress {
+  level: number;
+  experience: number;
+  credits: number;
+  reputation: Record<string, number>;
+  achievements: string[];
+  completedQuests: string[];
+  prestige: string[];
+}
+
+const createFirstGeneration = (): EndgameLegacy => ({
+  generation: 1,
+  prestige: [],
+  features: [],
+  permanentBonuses: {},
+  bonuses: {}
+});
+
+const addBonuses = (target: Record<string, number>, bonuses: Record<string, number> = {}): void => {
+  Object.entries(bonuses).forEach(([key, value]) => {
+    target[key] = (target[key] ?? 0) + value;
+  });
+};
+
+/**
+ * EndgameManager runs prestige, New Game+ and challenge modes from the
+ * endgame content definitions.
+ *
+ * Responsibilities:
+ * - Granting prestige titles and bonuses once player, faction, achievement and quest state meets their requirements
+ * - Starting a New Game+ that resets the run but carries over legacy bonuses
+ * - Locking a challenge mode in for a whole run and serving its modifiers to the economy, combat, social and progression systems
+ */
+export class EndgameManager implements EndgameModifierSource {
+  private timeManager: TimeManager;
+  private playerManager: PlayerManager;
+  private characterManager: CharacterManager;
+  private achievementManager: AchievementManager;
+  private questManager: QuestManager | null = null;
+  private runResetCallback: (() => void) | null = null; // Resets the run-scoped systems this manager does not own
+
+  private earnedPrestige: EarnedPrestige[] = [];
+  private legacy: EndgameLegacy = createFirstGeneration();
+  private activeChallenge: ActiveChallenge | null = null;
+
+  constructor(
+    timeManager: TimeManager,
+    playerManager: PlayerManager,
+    characterManager: CharacterManager,
+    achievementManager: AchievementManager
+  ) {
+    this.timeManager = timeManager;
+    this.playerManager = playerManager;
+    this.characterManager = characterManager;
+    this.achievementManager = achievementManager;
+  }
+
+  /**
+   * Set the quest manager (dependency injection) - prestige can require completed quests
+   */
+  setQuestManager(questManager: QuestManager): void {
+    this.questManager = questManager;
+  }
+
+  /**
+   * Set the callback New Game+ uses to reset run-scoped systems outside the
+   * ones prestige is measured against (contracts, loans, open fights...)
+   */
+  setRunResetCallback(callback: () => void): void {
+    this.runResetCallback = callback;
+  }
+
+  update(): void {
+    this.checkPrestige();
+  }
+
+  /**
+   * Snapshot the player's progress for requirement checks and scoring
+   */
+  getPlayerProgress(): EndgamePlayerProgress {
+    const character = this.characterManager.getCharacter();
+    const reputation: Record<string, number> = {};
+    this.playerManager.getPlayerReputation().forEach((rep, factionId) => {
+      reputation[factionId] = rep.standing;
+    });
+
+    return {
+      level: character?.progression.level ?? 0,
+      experience: character?.progression.experience ?? 0,
+      credits: this.playerManager.getCredits(),
+      reputation,
+      achievements: [...this.achievementManager.getPlayerAchievements().unlocked],
+      completedQuests: this.questManager?.getCompletedQuests().map(quest => quest.id) ?? [],
+      prestige: this.earnedPrestige.map(earned => earned.prestigeId)
+    };
+  }
+
+  /**
+   * Grant every prestige whose requirements are now met
+   */
+  checkPrestige(): EarnedPrestige[] {
+    return getAvailablePrestigeSystems(this.getPlayerProgress())
+      .filter(system => !this.hasEarnedPrestige(system.id))
+      .map(system => this.grantPrestige(system));
+  }
+
+  private grantPrestige(system: PrestigeSystem): EarnedPrestige {
+    const earned: EarnedPrestige = {
+      prestigeId: system.id,
+      title: system.benefits.title,
+      earnedAt: this.timeManager.getCurrentTimestamp()
+    };
+    this.earnedPrestige.push(earned);
+
+    console.log(`Prestige earned: ${system.name}`);
+    return earned;
+  }
+
+  /**
+   * Whether the prestige was earned in the current run
+   */
+  hasEarnedPrestige(prestigeId: string): boolean {
+    return this.earnedPrestige.some(earned => earned.prestigeId === prestigeId);
+  }
+
+  /**
+   * Whether the prestige was earned in this run or by an earlier generation
+   */
+  hasPrestige(prestigeId: string): boolean {
+    return this.hasEarnedPrestige(prestigeId) || this.legacy.prestige.includes(prestigeId);
+  }
+
+  getEarnedPrestige(): EarnedPrestige[] {
+    return [...this.earnedPrestige];
+  }
+
+  /**
+   * Total bonus from prestige earned this run and bonuses inherited from earlier generations
+   */
+  getPrestigeBonus(key: string): number {
+    const prestigeBonus = this.earnedPrestige.reduce((sum, earned) =>
+      sum + (this.getPrestigeSystem(earned.prestigeId)?.benefits.bonuses?.[key] ?? 0), 0);
+    return prestigeBonus + (this.legacy.bonuses[key] ?? 0);
+  }
+
+  getLegacy(): EndgameLegacy {
+    return this.legacy;
+  }
+
+  /**
+   * Endgame score for the current run, scaled by the challenge mode being played
+   */
+  getEndgameScore(): number {
+    const multiplier = this.getActiveChallengeMode()?.rewards.prestigeMultiplier ?? 1;
+    return Math.floor(calculateEndgameScore(this.getPlayerProgress()) * multiplier);
+  }
+
+  /**
+   * New Game+ features unlocked by prestige from any generation, achievements and quests
+   */
+  getAvailableNewGamePlusFeatures(): NewGamePlusFeature[] {
+    const progress = this.getPlayerProgress();
+    return NEW_GAME_PLUS_FEATURES.filter(feature => {
+      const { prestige = [], achievements = [], completedQuests = [] } = feature.unlockRequirements;
+      return prestige.every(id => this.hasPrestige(id)) &&
+        achievements.every(id => progress.achievements.includes(id)) &&
+        completedQuests.every(id => progress.completedQuests.includes(id));
+    });
+  }
+
+  /**
+   * End the current run and start the next generation. Player, character,
+   * achievement and quest progress is reset; the chosen features' starting
+   * bonuses carry over, as do the permanent bonuses of every prestige earned.
+   * A challenge mode chosen here applies for the whole of the new run.
+   */
+  startNewGamePlus(featureIds: string[], challengeModeId?: string): { success: boolean; legacy?: EndgameLegacy; error?: string } {
+    if (this.earnedPrestige.length === 0) {
+      return { success: false, error: 'A prestige must be earned before starting New Game+' };
+    }
+
+    const available = this.getAvailableNewGamePlusFeatures();
+    const features = featureIds.map(id => available.find(feature => feature.id === id));
+    if (features.some(feature => !feature)) {
+      return { success: false, error: 'New Game+ feature is not unlocked' };
+    }
+
+    const challenge = challengeModeId ? this.getChallengeMode(challengeModeId) : null;
+    if (challengeModeId && !challenge) {
+      return { success: false, error: 'Unknown challenge mode' };
+    }
+
+    const earnedSystems = this.earnedPrestige.flatMap(earned => this.getPrestigeSystem(earned.prestigeId) ?? []);
+    const permanentBonuses = { ...this.legacy.permanentBonuses };
+    earnedSystems.forEach(system => addBonuses(permanentBonuses, system.legacyRewards.permanentBonuses));
+
+    const startingBonuses = { ...permanentBonuses };
+    features.forEach(feature => addBonuses(startingBonuses, feature!.benefits.startingBonuses));
+
+    this.resetRun();
+
+    const bonuses: Record<string, number> = {};
+    Object.entries(startingBonuses).forEach(([key, value]) => this.applyStartingBonus(key, value, bonuses));
+
+    this.legacy = {
+      generation: this.legacy.generation + 1,
+      prestige: Array.from(new Set([...this.legacy.prestige, ...earnedSystems.map(system => system.id)])),
+      features: [...featureIds],
+      permanentBonuses,
+      bonuses
+    };
+    this.earnedPrestige = [];
+    this.activeChallenge = challenge
+      ? { modeId: challenge.id, startedAt: this.timeManager.getCurrentTimestamp() }
+      : null;
+
+    console.log(`New Game+ generation ${this.legacy.generation} started${challenge ? ` in ${challenge.name}` : ''}`);
+    return { success: true, legacy: this.legacy };
+  }
+
+  /**
+   * Reset the progress a prestige is measured against, then every other
+   * system holding the last run's state
+   */
+  private resetRun(): void {
+    const player = this.playerManager.getPlayer();
+    this.playerManager.deserialize(new PlayerManager(player.id, player.name).serialize());
+    this.achievementManager.deserialize(new AchievementManager().serialize());
+    this.questManager?.deserialize({
+      activeQuests: [],
+      completedQuests: [],
+      failedQuests: [],
+      availableQuests: [],
+      questFlags: [],
+      storyArcs: [],
+      dialogueHistory: []
+    });
+
+    const character = this.characterManager.getCharacter();
+    if (character) {
+      this.characterManager.createCharacter(character.id, character.name, character.appearance, character.background.id);
+    }
+
+    this.runResetCallback?.();
+  }
+
+  /**
+   * Apply a starting bonus to the new run, or keep it as a legacy bonus when
+   * nothing in the starting state corresponds to it
+   */
+  private applyStartingBonus(key: string, value: number, bonuses: Record<string, number>): void {
+    const character = this.characterManager.getCharacter();
+    const skill = key.endsWith(SKILL_BONUS_SUFFIX) ? key.slice(0, -SKILL_BONUS_SUFFIX.length) : null;
+
+    if (CREDIT_BONUS_KEYS.includes(key)) {
+      this.playerManager.addCredits(value);
+    } else if (key.startsWith(REPUTATION_BONUS_PREFIX)) {
+      this.playerManager.modifyFactionReputation(key.slice(REPUTATION_BONUS_PREFIX.length), value, 'Family legacy');
+    } else if (character && skill && skill in character.skills) {
+      character.skills[skill as keyof CharacterSkills] += value;
+    } else {
+      bonuses[key] = (bonuses[key] ?? 0) + value;
+    }
+  }
+
+  getActiveChallenge(): ActiveChallenge | null {
+    return this.activeChallenge;
+  }
+
+  getActiveChallengeMode(): ChallengeMode | null {
+    return this.activeChallenge ? this.getChallengeMode(this.activeChallenge.modeId) : null;
+  }
+
+  /**
+   * Modifier the active challenge mode sets for a system, or the fallback outside challenge runs
+   */
+  getChallengeModifier(category: ChallengeModifierCategory, key: string, fallback: number = 1): number {
+    return this.getActiveChallengeMode()?.modifiers[category]?.[key] ?? fallback;
+  }
+
+  /**
+   * Experience multiplier the active challenge mode rewards, or 1 outside challenge runs
+   */
+  getExperienceMultiplier(): number {
+    return this.getActiveChallengeMode()?.rewards.experienceMultiplier ?? 1;
+  }
+
+  getPrestigeSystems(): PrestigeSystem[] {
+    return PRESTIGE_SYSTEMS;
+  }
+
+  getChallengeModes(): ChallengeMode[] {
+    return CHALLENGE_MODES;
+  }
+
+  private getPrestigeSystem(prestigeId: string): PrestigeSystem | null {
+    return PRESTIGE_SYSTEMS.find(system => system.id === prestigeId) ?? null;
+  }
+
+  private getChallengeMode(modeId: string): ChallengeMode | null {
+    return CHALLENGE_MODES.find(mode => mode.id === modeId) ?? null;
+  }
+
+  serialize(): EndgameManagerSaveData {
+    return {
+      earnedPrestige: this.earnedPrestige.map(earned => ({ ...earned })),
+      legacy: JSON.parse(JSON.stringify(this.legacy)),
+      activeChallenge: this.activeChallenge ? { ...this.activeChallenge } : null
+    };
+  }
+
+  deserialize(data: EndgameManagerSaveData): void {
+    if (!data) return;
+
+    this.earnedPrestige = (data.earnedPrestige || []).map(earned => ({ ...earned }));
+    this.legacy = { ...createFirstGeneration(), ...data.legacy };
+    this.activeChallenge = data.activeChallenge ? { ...data.activeChallenge } : null;
+  }
+}
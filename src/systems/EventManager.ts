@@ -15,6 +15,9 @@ import { TimeManager } from './TimeManager';
 import { WorldManager } from './WorldManager';
 import { PlayerManager } from './PlayerManager';
 import { FactionManager } from './FactionManager';
+import { EconomicEvent } from '../types/economy';
+import { SeededRandom } from '../utils/SeededRandom';
+import { FUEL_PRICE_PER_UNIT, getFuelCapacity } from '../utils/fuel';
 
 /**
  * EventManager handles all random events and dynamic content in the space game.
@@ -71,17 +74,20 @@ export class EventManager {
   private lastEventCheck: number = 0;
   private eventCounters: Map<EventType, number> = new Map();
   private eventCallbacks: Map<string, (event: GameEvent) => void> = new Map();
+  private random: SeededRandom;
   
   constructor(
     timeManager: TimeManager,
     _worldManager: WorldManager, // Will be used later for location-based events
     playerManager: PlayerManager,
-    factionManager: FactionManager
+    factionManager: FactionManager,
+    random: SeededRandom = new SeededRandom()
   ) {
     this.timeManager = timeManager;
     // this.worldManager = worldManager; // Will be used later for location-based events
     this.playerManager = playerManager;
     this.factionManager = factionManager;
+    this.random = random;
     
     // Initialize event counters
     this.initializeEventCounters();
@@ -103,6 +109,7 @@ export class EventManager {
     // Check for new events more frequently (every 10 seconds of game time) for better responsiveness
     if (currentTime - this.lastEventCheck >= 10000) { // 10 seconds in milliseconds
       this.checkForNewEvents();
+      this.checkForStrandedShip();
       this.lastEventCheck = currentTime;
     }
     
@@ -129,7 +136,7 @@ export class EventManager {
     
     // Try to trigger events
     for (const [eventType, probability] of eventProbabilities) {
-      if (Math.random() < probability && this.canTriggerEventType(eventType as EventType)) {
+      if (this.random.next() < probability && this.canTriggerEventType(eventType as EventType)) {
         const event = this.generateEvent(eventType as EventType);
         if (event) {
           this.triggerEvent(event);
@@ -175,7 +182,7 @@ export class EventManager {
     probabilities.set('system_crisis', adjustedBaseProbability * 0.4); // Increased from 0.2
     
     // Emergency contracts more likely in outer systems and for higher level players
-    const isOuterSystem = Math.random() > 0.6; // Adjusted probability
+    const isOuterSystem = this.random.next() > 0.6; // Adjusted probability
     const contractMultiplier = isOuterSystem ? 2.5 : 1.2; // Increased multipliers
     probabilities.set('emergency_contract', adjustedBaseProbability * contractMultiplier);
     
@@ -195,6 +202,93 @@ export class EventManager {
     return !lastTrigger || (currentTime - lastTrigger) >= (cooldown * 1000); // Convert cooldown to milliseconds
   }
   
+  /**
+   * Raise a distress call when the player's ship has run dry in open space.
+   * Only one call is active at a time.
+   */
+  private checkForStrandedShip(): void {
+    if (!this.playerManager.isStranded()) return;
+
+    const alreadyCalling = Array.from(this.activeEvents.values())
+      .some(event => event.tags?.includes('fuel_distress'));
+    if (alreadyCalling) return;
+
+    this.triggerEvent(this.generateFuelDistress());
+  }
+
+  /**
+   * Generate the distress call for a stranded player ship.
+   * A tanker sells half a tank at a premium; a passing patrol donates enough to limp home.
+   */
+  private generateFuelDistress(): SpaceEncounter {
+    const ship = this.playerManager.getCurrentShip();
+    const capacity = getFuelCapacity(ship);
+    const tankerFuel = Math.ceil(capacity * 0.5);
+    const tankerCost = Math.ceil(tankerFuel * FUEL_PRICE_PER_UNIT * 3);
+    const patrolFuel = Math.ceil(capacity * 0.15);
+
+    return {
+      id: this.generateEventId(),
+      type: 'space_encounter',
+      encounterType: 'distress',
+      title: 'Out of Fuel',
+      description: 'Your tanks are dry and the nearest fuel is out of reach. Your emergency beacon is broadcasting on all channels.',
+      priority: 'critical',
+      status: 'pending',
+      triggerTime: this.timeManager.getCurrentDate().getTime(),
+      baseProbability: 1,
+      choices: [
+        {
+          id: 'call_tanker',
+          text: '⛽ Call a Fuel Tanker',
+          description: `A commercial tanker delivers ${tankerFuel} units at emergency rates`,
+          requirements: { credits: tankerCost },
+          consequences: { credits: -tankerCost, fuel: tankerFuel }
+        },
+        {
+          id: 'wait_for_patrol',
+          text: '🛰️ Wait for a Patrol',
+          description: `A passing patrol shares ${patrolFuel} units from its own reserve`,
+          consequences: { fuel: patrolFuel }
+        }
+      ],
+      locationId: ship.location.systemId,
+      coordinates: ship.location.coordinates
+        ? { x: ship.location.coordinates.x, y: ship.location.coordinates.y }
+        : undefined,
+      tags: ['fuel_distress'],
+      isRepeatable: true
+    };
+  }
+
+  /**
+   * Tell the player about an upheaval in the markets. The notice lasts as long
+   * as the economic event itself.
+   */
+  public announceEconomicEvent(event: EconomicEvent, title: string, locationName: string): void {
+    this.triggerEvent({
+      id: this.generateEventId(),
+      type: 'market_fluctuation',
+      title: `${title}: ${locationName}`,
+      description: event.description,
+      priority: event.severity > 0.6 ? 'high' : 'normal',
+      status: 'active',
+      triggerTime: this.timeManager.getCurrentDate().getTime(),
+      expiryTime: event.endTime,
+      baseProbability: 1,
+      choices: [
+        {
+          id: 'acknowledge',
+          text: '📈 Noted',
+          description: 'Keep an eye on the markets'
+        }
+      ],
+      locationId: event.originSystemId ?? event.affectedStations[0],
+      tags: ['economic_event', ...(event.causeId ? [event.causeId] : [])],
+      isRepeatable: true
+    });
+  }
+
   /**
    * Generate a new event of the specified type.
    */
@@ -218,7 +312,7 @@ export class EventManager {
    */
   private generateSpaceEncounter(): SpaceEncounter {
     const encounterTypes = ['pirate', 'merchant', 'derelict', 'patrol', 'distress'] as const;
-    const encounterType = encounterTypes[Math.floor(Math.random() * encounterTypes.length)];
+    const encounterType = this.random.pick(encounterTypes);
     
     const event: SpaceEncounter = {
       id: this.generateEventId(),
@@ -231,7 +325,7 @@ export class EventManager {
       triggerTime: this.timeManager.getCurrentDate().getTime(),
       baseProbability: 0.1,
       choices: this.getEncounterChoices(encounterType),
-      coordinates: { x: Math.random() * 1000, y: Math.random() * 1000 }, // Placeholder coordinates
+      coordinates: { x: this.random.next() * 1000, y: this.random.next() * 1000 }, // Placeholder coordinates
       threatLevel: this.calculateThreatLevel(),
       shipData: this.generateEncounterShipData(encounterType)
     };
@@ -244,7 +338,7 @@ export class EventManager {
    */
   private generateStationEvent(): StationEvent {
     const eventTypes = ['social', 'commercial', 'technical', 'security'] as const;
-    const eventType = eventTypes[Math.floor(Math.random() * eventTypes.length)];
+    const eventType = this.random.pick(eventTypes);
     
     const event: StationEvent = {
       id: this.generateEventId(),
@@ -268,7 +362,7 @@ export class EventManager {
    */
   private generateSystemCrisis(): SystemCrisis {
     const crisisTypes = ['economic', 'political', 'environmental', 'military'] as const;
-    const crisisType = crisisTypes[Math.floor(Math.random() * crisisTypes.length)];
+    const crisisType = this.random.pick(crisisTypes);
     
     const event: SystemCrisis = {
       id: this.generateEventId(),
@@ -282,7 +376,7 @@ export class EventManager {
       baseProbability: 0.02,
       choices: this.getCrisisChoices(crisisType),
       affectedSystems: this.getAffectedSystems(),
-      severity: Math.floor(Math.random() * 10) + 1
+      severity: Math.floor(this.random.next() * 10) + 1
     };
     
     return event;
@@ -293,7 +387,7 @@ export class EventManager {
    */
   private generateEmergencyContract(): EmergencyContract {
     const contractTypes = ['rescue', 'supply', 'evacuation', 'repair'] as const;
-    const contractType = contractTypes[Math.floor(Math.random() * contractTypes.length)];
+    const contractType = this.random.pick(contractTypes);
     
     const currentTime = this.timeManager.getCurrentDate().getTime();
     
@@ -309,7 +403,7 @@ export class EventManager {
       expiryTime: currentTime + (1800 * 1000), // 30 minute expiry in milliseconds
       baseProbability: 0.03,
       choices: this.getContractChoices(contractType),
-      urgency: Math.floor(Math.random() * 10) + 1,
+      urgency: Math.floor(this.random.next() * 10) + 1,
       baseReward: this.calculateContractReward(),
       timeMultiplier: 2.0
     };
@@ -319,7 +413,7 @@ export class EventManager {
   
   // Helper methods for event generation
   private generateEventId(): string {
-    return `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `event_${Date.now()}_${this.random.next().toString(36).substr(2, 9)}`;
   }
   
   private getLastEventTime(eventType: EventType): number | null {
@@ -333,7 +427,7 @@ export class EventManager {
   private calculateThreatLevel(): number {
     const character = this.playerManager.getCharacter();
     const playerLevel = character ? character.progression.level : 1;
-    const baseLevel = Math.floor(Math.random() * 5) + 1;
+    const baseLevel = Math.floor(this.random.next() * 5) + 1;
     return Math.max(1, Math.min(10, baseLevel + Math.floor(playerLevel / 10)));
   }
   
@@ -341,17 +435,17 @@ export class EventManager {
     const character = this.playerManager.getCharacter();
     const playerLevel = character ? character.progression.level : 1;
     const baseReward = 5000;
-    return baseReward * (1 + playerLevel * 0.2) * (0.8 + Math.random() * 0.4);
+    return baseReward * (1 + playerLevel * 0.2) * (0.8 + this.random.next() * 0.4);
   }
   
   // Event content methods (enhanced for Phase 5.1)
   private getEncounterTitle(type: string): string {
     const titles = {
-      pirate: ['Pirate Ambush', 'Raider Intercept', 'Hostile Blockade', 'Pirate Squadron'][Math.floor(Math.random() * 4)],
-      merchant: ['Trading Vessel', 'Merchant Convoy', 'Commercial Freighter', 'Trade Opportunity'][Math.floor(Math.random() * 4)],
-      derelict: ['Derelict Discovery', 'Abandoned Hulk', 'Ghost Ship', 'Mysterious Wreckage'][Math.floor(Math.random() * 4)],
-      patrol: ['Security Patrol', 'Military Escort', 'Border Guard', 'System Defense'][Math.floor(Math.random() * 4)],
-      distress: ['Distress Signal', 'Emergency Beacon', 'Mayday Call', 'Rescue Request'][Math.floor(Math.random() * 4)]
+      pirate: ['Pirate Ambush', 'Raider Intercept', 'Hostile Blockade', 'Pirate Squadron'][Math.floor(this.random.next() * 4)],
+      merchant: ['Trading Vessel', 'Merchant Convoy', 'Commercial Freighter', 'Trade Opportunity'][Math.floor(this.random.next() * 4)],
+      derelict: ['Derelict Discovery', 'Abandoned Hulk', 'Ghost Ship', 'Mysterious Wreckage'][Math.floor(this.random.next() * 4)],
+      patrol: ['Security Patrol', 'Military Escort', 'Border Guard', 'System Defense'][Math.floor(this.random.next() * 4)],
+      distress: ['Distress Signal', 'Emergency Beacon', 'Mayday Call', 'Rescue Request'][Math.floor(this.random.next() * 4)]
     };
     return titles[type as keyof typeof titles] || 'Unknown Encounter';
   }
@@ -390,7 +484,7 @@ export class EventManager {
       ]
     };
     const typeDescriptions = descriptions[type as keyof typeof descriptions];
-    return typeDescriptions ? typeDescriptions[Math.floor(Math.random() * typeDescriptions.length)] : 'An unknown event occurs in space.';
+    return typeDescriptions ? this.random.pick(typeDescriptions) : 'An unknown event occurs in space.';
   }
   
   private getEncounterChoices(type: string): any[] {
@@ -570,10 +664,10 @@ export class EventManager {
   
   private getStationEventTitle(type: string): string {
     const titles = {
-      social: ['Cantina Gathering', 'Cultural Festival', 'Traders\' Social Hour', 'Diplomatic Reception'][Math.floor(Math.random() * 4)],
-      commercial: ['Business Partnership', 'Investment Opportunity', 'Market Speculation', 'Corporate Deal'][Math.floor(Math.random() * 4)],
-      technical: ['Equipment Malfunction', 'System Upgrade', 'Technical Challenge', 'Engineering Crisis'][Math.floor(Math.random() * 4)],
-      security: ['Security Alert', 'Suspicious Activity', 'Investigation Request', 'Safety Protocol'][Math.floor(Math.random() * 4)]
+      social: ['Cantina Gathering', 'Cultural Festival', 'Traders\' Social Hour', 'Diplomatic Reception'][Math.floor(this.random.next() * 4)],
+      commercial: ['Business Partnership', 'Investment Opportunity', 'Market Speculation', 'Corporate Deal'][Math.floor(this.random.next() * 4)],
+      technical: ['Equipment Malfunction', 'System Upgrade', 'Technical Challenge', 'Engineering Crisis'][Math.floor(this.random.next() * 4)],
+      security: ['Security Alert', 'Suspicious Activity', 'Investigation Request', 'Safety Protocol'][Math.floor(this.random.next() * 4)]
     };
     return titles[type as keyof typeof titles] || 'Station Event';
   }
@@ -606,7 +700,7 @@ export class EventManager {
       ]
     };
     const typeDescriptions = descriptions[type as keyof typeof descriptions];
-    return typeDescriptions ? typeDescriptions[Math.floor(Math.random() * typeDescriptions.length)] : 'Something is happening at the station.';
+    return typeDescriptions ? this.random.pick(typeDescriptions) : 'Something is happening at the station.';
   }
   
   private getStationEventChoices(type: string): any[] {
@@ -832,8 +926,8 @@ export class EventManager {
     // Simplified ship data generation
     return {
       class: 'Fighter',
-      condition: Math.random(),
-      credits: Math.floor(Math.random() * 10000)
+      condition: this.random.next(),
+      credits: Math.floor(this.random.next() * 10000)
     };
   }
   
@@ -1021,6 +1115,11 @@ export class EventManager {
       }
     }
     
+    // Apply fuel deliveries
+    if (choice.consequences.fuel) {
+      this.playerManager.addFuel(choice.consequences.fuel);
+    }
+    
     // Apply item rewards
     if (choice.consequences.items) {
       for (const itemId of choice.consequences.items) {
@@ -1,6 +1,7 @@
 import { FactionReputation } from '../types/player';
 import { FactionRelationship } from '../types/contacts';
-import { ContactManager, ContactFactory } from './ContactManager';
+import { ContactManager, ContactFactory, ContactManagerSaveData } from './ContactManager';
+import { EndgameModifierSource } from '../types/endgame';
 
 // Forward declaration to avoid circular dependency
 interface ICharacterProgressionSystem {
@@ -37,12 +38,19 @@ export interface FactionBenefits {
   serviceDiscount: number; // Discount on repairs/maintenance
 }
 
+export interface FactionManagerSaveData {
+  reputationHistory: ReputationChange[];
+  factionRelationships: Array<[string, FactionRelationship]>;
+  contactManager: ContactManagerSaveData;
+}
+
 export class FactionManager {
   private factions: Map<string, FactionInfo> = new Map();
   private reputationHistory: ReputationChange[] = [];
   private factionRelationships: Map<string, FactionRelationship> = new Map();
   private contactManager: ContactManager;
   private progressionSystem: ICharacterProgressionSystem | null = null;
+  private endgameManager: EndgameModifierSource | null = null;
 
   constructor() {
     this.contactManager = new ContactManager();
@@ -56,6 +64,15 @@ export class FactionManager {
     this.progressionSystem = progressionSystem;
   }
 
+  /**
+   * Set the endgame manager (dependency injection) - challenge modes can speed up reputation gains,
+   * harden mission failures and ease diplomacy with contacts
+   */
+  setEndgameManager(endgameManager: EndgameModifierSource): void {
+    this.endgameManager = endgameManager;
+    this.contactManager.setEndgameManager(endgameManager);
+  }
+
   /**
    * Initialize megacorporation factions with enhanced properties
    */
@@ -455,9 +472,11 @@ export class FactionManager {
   modifyReputation(
     playerReputation: Map<string, FactionReputation>,
     factionId: string,
-    change: number,
+    baseChange: number,
     reason: string
   ): { success: boolean; newReputation?: FactionReputation; error?: string } {
+    const gainMultiplier = this.endgameManager?.getChallengeModifier('social', 'reputation_gain_multiplier') ?? 1;
+    const change = baseChange > 0 ? Math.round(baseChange * gainMultiplier) : baseChange;
     const faction = this.factions.get(factionId);
     if (!faction) {
       return { success: false, error: 'Unknown faction' };
@@ -696,7 +715,8 @@ export class FactionManager {
       // Update mission count
       reputation.missions += 1;
     } else {
-      reputationChange = -5; // Penalty for mission failure
+      // Penalty for mission failure
+      reputationChange = Math.round(-5 * (this.endgameManager?.getChallengeModifier('economic', 'contract_failure_penalty') ?? 1));
     }
 
     const result = this.modifyReputation(
@@ -912,7 +932,7 @@ export class FactionManager {
   /**
    * Serialize faction manager state with enhanced data
    */
-  serialize(): any {
+  serialize(): FactionManagerSaveData {
     return {
       reputationHistory: this.reputationHistory,
       factionRelationships: Array.from(this.factionRelationships.entries()),
@@ -923,7 +943,7 @@ export class FactionManager {
   /**
    * Deserialize faction manager state with enhanced data
    */
-  deserialize(data: any): void {
+  deserialize(data: FactionManagerSaveData): void {
     if (data?.reputationHistory) {
       this.reputationHistory = data.reputationHistory;
     }
@@ -0,0 +1,510 @@
+import {
+  FinancialInstrument,
+  InstrumentHolding,
+  Loan,
+  LoanOffer,
+  EconomicIndicator
+} from '../types/investment';
+import { Station } from '../types/world';
+import { TimeManager } from './TimeManager';
+import { WorldManager } from './WorldManager';
+import { PlayerManager } from './PlayerManager';
+import { EconomicSystem } from './EconomicSystem';
+import { FactionInfo } from './FactionManager';
+
+export interface FinancialInstrumentManagerSaveData {
+  instruments: FinancialInstrument[];
+  holdings: InstrumentHolding[];
+  loans: Loan[];
+  indicators: Array<[string, EconomicIndicator]>;
+  lastRevaluation: number;
+  idCounter: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+// Game time between revaluations of every instrument
+const REVALUATION_INTERVAL = 60 * 60 * 1000;
+// Game time between coupon and dividend payments
+const PAYMENT_INTERVAL = 30 * DAY_MS;
+const BOND_FACE_VALUE = 1000;
+const BOND_TERM_DAYS = 180;
+const EQUITY_ISSUE_PRICE = 100;
+// Annual dividend paid on equity, as a share of its price
+const EQUITY_DIVIDEND_YIELD = 0.04;
+// Issuer health is cut to this share while one of its stations is caught in a war
+const WAR_DISCOUNT = 0.7;
+// Relationship between two factions at or below which their neighbouring stations are at war
+const HOSTILE_RELATIONSHIP = -0.5;
+// Issuer health below which a maturing bond defaults
+const DEFAULT_HEALTH = 0.35;
+// Share of face value bondholders get back when an issuer defaults
+const BOND_RECOVERY = 0.4;
+const LOAN_TERM_DAYS = 90;
+const LOAN_BASE_RATE = 0.08;
+// Standing with a faction below which it will not lend
+const MIN_LOAN_STANDING = -20;
+
+/**
+ * FinancialInstrumentManager runs the securities market that sits on top of
+ * the investment system.
+ *
+ * Responsibilities:
+ * - Issuing bonds and equity for factions and the stations they run
+ * - Pricing them from the health of the issuer's station economies and the wars they are caught in,
+ *   whether economic war events or hostile factions sharing a system
+ * - Paying coupons and dividends, and repaying (or defaulting on) bonds at maturity
+ * - Lending the player credits, charging interest on game time and punishing default with reputation
+ */
+export class FinancialInstrumentManager {
+  private timeManager: TimeManager;
+  private worldManager: WorldManager;
+  private playerManager: PlayerManager;
+  private economicSystem: EconomicSystem;
+
+  private instruments: Map<string, FinancialInstrument> = new Map();
+  private holdings: Map<string, InstrumentHolding> = new Map(); // Instrument ID -> player's position
+  private loans: Map<string, Loan> = new Map();
+  private indicators: Map<string, EconomicIndicator> = new Map(); // Issuer -> economic health
+  private lastRevaluation = 0;
+  private idCounter = 0;
+
+  constructor(
+    timeManager: TimeManager,
+    worldManager: WorldManager,
+    playerManager: PlayerManager,
+    economicSystem: EconomicSystem
+  ) {
+    this.timeManager = timeManager;
+    this.worldManager = worldManager;
+    this.playerManager = playerManager;
+    this.economicSystem = economicSystem;
+  }
+
+  /**
+   * Every station issues shares; factions running more than one station issue
+   * shares and bonds backed by all of them. Wealthy stations borrow too.
+   */
+  private issueInstruments(): void {
+    const stationsByFaction = new Map<string, Station[]>();
+
+    for (const station of this.worldManager.getAllStations()) {
+      this.issueEquity(station.id, 'station', `${station.name} Shares`, station.faction);
+      if (['wealthy', 'elite'].includes(this.economicSystem.getStationEconomics(station.id)?.wealthLevel ?? '')) {
+        this.issueBond(station.id, 'station', station.faction);
+      }
+      stationsByFaction.set(station.faction, [...(stationsByFaction.get(station.faction) ?? []), station]);
+    }
+
+    for (const [faction, stations] of stationsByFaction) {
+      if (stations.length < 2) continue;
+      this.issueEquity(faction, 'faction', `${faction} Holdings`, faction);
+      this.issueBond(faction, 'faction', faction);
+    }
+  }
+
+  private issueEquity(issuer: string, issuerType: FinancialInstrument['issuerType'], name: string, counterparty: string): void {
+    const price = this.calculateEquityPrice(this.getIssuerHealth(issuer, issuerType));
+    const instrument: FinancialInstrument = {
+      id: `equity-${this.idCounter++}`,
+      name,
+      type: 'equity',
+      underlyingAsset: issuer,
+      issuerType,
+      expirationDate: 0,
+      premium: price,
+      currentPrice: price,
+      payoff: 0,
+      lastPaymentDate: this.timeManager.getCurrentTimestamp(),
+      riskProfile: issuerType === 'station' ? 'high' : 'moderate',
+      liquidity: issuerType === 'station' ? 'low' : 'medium',
+      counterparty,
+      terms: [`Dividend of ${EQUITY_DIVIDEND_YIELD * 100}% a year, paid monthly while the issuer is healthy`]
+    };
+    this.instruments.set(instrument.id, instrument);
+  }
+
+  private issueBond(issuer: string, issuerType: FinancialInstrument['issuerType'], counterparty: string): void {
+    const now = this.timeManager.getCurrentTimestamp();
+    const couponRate = issuerType === 'station' ? 0.08 : 0.05;
+    const name = issuerType === 'station'
+      ? `${this.worldManager.getStationById(issuer)?.name ?? issuer} Bond`
+      : `${issuer} Bond`;
+    const price = this.calculateBondPrice(BOND_FACE_VALUE, this.getIssuerHealth(issuer, issuerType));
+    const instrument: FinancialInstrument = {
+      id: `bond-${this.idCounter++}`,
+      name,
+      type: 'bond',
+      underlyingAsset: issuer,
+      issuerType,
+      expirationDate: now + BOND_TERM_DAYS * DAY_MS,
+      premium: price,
+      currentPrice: price,
+      payoff: 0,
+      faceValue: BOND_FACE_VALUE,
+      couponRate,
+      lastPaymentDate: now,
+      riskProfile: issuerType === 'station' ? 'moderate' : 'low',
+      liquidity: issuerType === 'station' ? 'medium' : 'high',
+      counterparty,
+      terms: [
+        `${(couponRate * 100).toFixed(0)}% a year on ${BOND_FACE_VALUE} CR face value, paid monthly`,
+        `Matures after ${BOND_TERM_DAYS} days; pays back ${BOND_RECOVERY * 100}% if the issuer defaults`
+      ]
+    };
+    this.instruments.set(instrument.id, instrument);
+  }
+
+  /**
+   * Revalue instruments, pay out income, settle maturing bonds and charge
+   * interest on loans. Instruments are revalued once a game hour; loan
+   * interest follows game time however often this is called. The first
+   * update issues the instruments, once station economies are running.
+   */
+  update(): void {
+    const now = this.timeManager.getCurrentTimestamp();
+    if (this.instruments.size === 0) this.issueInstruments();
+
+    for (const loan of this.loans.values()) {
+      if (loan.status !== 'active') continue;
+      this.accrueInterest(loan, now);
+      if (now > loan.dueDate) this.defaultOnLoan(loan);
+    }
+
+    if (now - this.lastRevaluation < REVALUATION_INTERVAL) return;
+    this.lastRevaluation = now;
+
+    for (const instrument of Array.from(this.instruments.values())) {
+      const health = this.updateIndicator(instrument.underlyingAsset, instrument.issuerType, now);
+      instrument.currentPrice = instrument.type === 'bond'
+        ? this.calculateBondPrice(instrument.faceValue ?? BOND_FACE_VALUE, health)
+        : this.calculateEquityPrice(health);
+
+      while (now - instrument.lastPaymentDate >= PAYMENT_INTERVAL) {
+        instrument.lastPaymentDate += PAYMENT_INTERVAL;
+        if (instrument.type === 'bond' && instrument.lastPaymentDate > instrument.expirationDate) break;
+        this.payIncome(instrument, health);
+      }
+
+      if (instrument.type === 'bond' && now >= instrument.expirationDate) {
+        this.matureBond(instrument, health);
+      }
+    }
+  }
+
+  /**
+   * Pay one coupon or dividend to the player. Dividends shrink with the
+   * issuer's health and stop altogether while it is struggling.
+   */
+  private payIncome(instrument: FinancialInstrument, health: number): void {
+    const periodShare = PAYMENT_INTERVAL / YEAR_MS;
+    instrument.payoff = instrument.type === 'bond'
+      ? (instrument.faceValue ?? BOND_FACE_VALUE) * (instrument.couponRate ?? 0) * periodShare
+      : health < DEFAULT_HEALTH ? 0 : instrument.currentPrice * EQUITY_DIVIDEND_YIELD * periodShare * Math.min(1, health);
+
+    const holding = this.holdings.get(instrument.id);
+    if (!holding || instrument.payoff <= 0) return;
+
+    const income = Math.round(holding.units * instrument.payoff);
+    holding.incomeReceived += income;
+    this.playerManager.addCredits(income);
+  }
+
+  /**
+   * Repay a bond at maturity, or a fraction of it if the issuer can't, and
+   * issue a fresh bond in its place
+   */
+  private matureBond(instrument: FinancialInstrument, health: number): void {
+    const faceValue = instrument.faceValue ?? BOND_FACE_VALUE;
+    const repayment = health < DEFAULT_HEALTH ? faceValue * BOND_RECOVERY : faceValue;
+    const holding = this.holdings.get(instrument.id);
+    if (holding) {
+      this.playerManager.addCredits(Math.round(holding.units * repayment));
+      this.holdings.delete(instrument.id);
+    }
+    if (health < DEFAULT_HEALTH) {
+      console.log(`${instrument.name} defaulted at maturity, paying back ${BOND_RECOVERY * 100}%`);
+    }
+
+    this.instruments.delete(instrument.id);
+    this.issueBond(instrument.underlyingAsset, instrument.issuerType, instrument.counterparty);
+  }
+
+  private calculateEquityPrice(health: number): number {
+    return Math.max(1, Math.round(EQUITY_ISSUE_PRICE * health));
+  }
+
+  /**
+   * Healthy issuers' bonds trade at face value; the sicker the issuer, the
+   * closer the price falls to what holders would recover in a default.
+   */
+  private calculateBondPrice(faceValue: number, health: number): number {
+    const creditworthiness = Math.max(0, Math.min(1, health));
+    return Math.round(faceValue * (BOND_RECOVERY + (1 - BOND_RECOVERY) * creditworthiness));
+  }
+
+  /**
+   * Economic health of an issuer, around 1 in normal times: how much of its
+   * production capacity stations are running, how stable they are, and
+   * whether they are caught up in a war.
+   */
+  getIssuerHealth(issuer: string, issuerType: FinancialInstrument['issuerType']): number {
+    const stationIds = issuerType === 'station'
+      ? [issuer]
+      : this.worldManager.getAllStations().filter(station => station.faction === issuer).map(station => station.id);
+    if (stationIds.length === 0) return 1;
+
+    return stationIds.reduce((sum, stationId) => sum + this.getStationHealth(stationId), 0) / stationIds.length;
+  }
+
+  private getStationHealth(stationId: string): number {
+    const economics = this.economicSystem.getStationEconomics(stationId);
+    if (!economics) return 1;
+
+    const outputs = economics.produces.map(production => {
+      const capacity = production.baseRate * production.efficiency * economics.economicFactors.efficiency;
+      const rate = economics.market.commodities.get(production.commodityId)?.productionRate ?? 0;
+      return capacity > 0 ? Math.min(1.5, rate / capacity) : 1;
+    });
+    const output = outputs.length > 0 ? outputs.reduce((sum, value) => sum + value, 0) / outputs.length : 1;
+
+    const atWar = this.isInFactionWar(stationId) || this.economicSystem.getActiveEvents().some(event =>
+      event.causeId === 'war' && event.affectedStations.includes(stationId)
+    );
+
+    return output * (0.5 + economics.economicFactors.stability / 2) * (atWar ? WAR_DISCOUNT : 1);
+  }
+
+  /**
+   * Whether a station shares its system with a station run by a faction hostile to its own
+   */
+  private isInFactionWar(stationId: string): boolean {
+    const pathfinder = this.worldManager.getPathfinder();
+    const systemId = pathfinder.getSystemIdForStation(stationId);
+    const owner = this.getStationFaction(stationId);
+    if (!systemId || !owner) return false;
+
+    return this.worldManager.getAllStations().some(station => {
+      if (station.id === stationId || pathfinder.getSystemIdForStation(station.id) !== systemId) return false;
+      const neighbour = this.getStationFaction(station.id);
+      return !!neighbour && (owner.relationships[neighbour.id] ?? 0) <= HOSTILE_RELATIONSHIP;
+    });
+  }
+
+  /**
+   * The FactionManager faction running a station: named on the station, or holding it as territory
+   */
+  private getStationFaction(stationId: string): FactionInfo | null {
+    const faction = this.worldManager.getStationById(stationId)?.faction;
+    return this.playerManager.getFactionManager().getFactions().find(info =>
+      info.id === faction || info.name === faction || info.homeStation === stationId || info.territories.includes(stationId)
+    ) ?? null;
+  }
+
+  private updateIndicator(issuer: string, issuerType: FinancialInstrument['issuerType'], now: number): number {
+    const existing = this.indicators.get(issuer);
+    if (existing?.lastUpdate === now) return existing.value;
+
+    const value = this.getIssuerHealth(issuer, issuerType);
+    const change = existing ? value - existing.value : 0;
+    this.indicators.set(issuer, {
+      name: issuer,
+      category: 'coincident',
+      value,
+      trend: change > 0.01 ? 'improving' : change < -0.01 ? 'declining' : 'stable',
+      impact: {},
+      reliability: issuerType === 'faction' ? 0.8 : 0.6,
+      updateFrequency: REVALUATION_INTERVAL / DAY_MS,
+      lastUpdate: now
+    });
+    return value;
+  }
+
+  /**
+   * Buy units of an instrument at its current price
+   */
+  buyInstrument(instrumentId: string, units: number): { success: boolean; cost?: number; error?: string } {
+    const instrument = this.instruments.get(instrumentId);
+    if (!instrument) {
+      return { success: false, error: 'Instrument not found' };
+    }
+    if (!Number.isInteger(units) || units <= 0) {
+      return { success: false, error: 'Invalid quantity' };
+    }
+
+    const cost = instrument.currentPrice * units;
+    if (!this.playerManager.spendCredits(cost)) {
+      return { success: false, error: 'Insufficient credits' };
+    }
+
+    const holding = this.holdings.get(instrumentId) ?? { instrumentId, units: 0, averageCost: 0, incomeReceived: 0 };
+    holding.averageCost = (holding.averageCost * holding.units + cost) / (holding.units + units);
+    holding.units += units;
+    this.holdings.set(instrumentId, holding);
+    return { success: true, cost };
+  }
+
+  /**
+   * Sell units of an instrument back at its current price
+   */
+  sellInstrument(instrumentId: string, units: number): { success: boolean; proceeds?: number; error?: string } {
+    const instrument = this.instruments.get(instrumentId);
+    const holding = this.holdings.get(instrumentId);
+    if (!instrument || !holding) {
+      return { success: false, error: 'No position in this instrument' };
+    }
+    if (!Number.isInteger(units) || units <= 0 || units > holding.units) {
+      return { success: false, error: 'Invalid quantity' };
+    }
+
+    const proceeds = instrument.currentPrice * units;
+    this.playerManager.addCredits(proceeds);
+    holding.units -= units;
+    if (holding.units === 0) this.holdings.delete(instrumentId);
+    return { success: true, proceeds };
+  }
+
+  /**
+   * What a faction will lend the player. Better standing borrows more, more
+   * cheaply; factions the player has defaulted on, or who dislike them, won't lend.
+   */
+  getLoanOffer(factionId: string): LoanOffer | null {
+    const reputation = this.playerManager.getReputationForFaction(factionId);
+    if (!reputation || reputation.standing < MIN_LOAN_STANDING) return null;
+
+    const loans = Array.from(this.loans.values()).filter(loan => loan.lenderFactionId === factionId);
+    if (loans.some(loan => loan.status === 'defaulted')) return null;
+
+    const outstanding = loans.filter(loan => loan.status === 'active').reduce((sum, loan) => sum + loan.balance, 0);
+    const limit = 20000 + Math.max(0, reputation.standing) * 2000;
+    return {
+      lenderFactionId: factionId,
+      maxAmount: Math.max(0, Math.floor(limit - outstanding)),
+      annualRate: LOAN_BASE_RATE + (100 - reputation.standing) / 100 * 0.12,
+      termDays: LOAN_TERM_DAYS
+    };
+  }
+
+  getLoanOffers(): LoanOffer[] {
+    return this.playerManager.getFactionManager().getFactions()
+      .map(faction => this.getLoanOffer(faction.id))
+      .filter((offer): offer is LoanOffer => offer !== null && offer.maxAmount > 0);
+  }
+
+  /**
+   * Borrow credits from a faction on the terms it offers
+   */
+  takeLoan(factionId: string, amount: number): { success: boolean; loan?: Loan; error?: string } {
+    const offer = this.getLoanOffer(factionId);
+    if (!offer) {
+      return { success: false, error: 'This faction will not lend to you' };
+    }
+    if (!(amount > 0) || amount > offer.maxAmount) {
+      return { success: false, error: `You can borrow at most ${offer.maxAmount} CR` };
+    }
+
+    const now = this.timeManager.getCurrentTimestamp();
+    const loan: Loan = {
+      id: `loan-${this.idCounter++}`,
+      lenderFactionId: factionId,
+      principal: amount,
+      balance: amount,
+      annualRate: offer.annualRate,
+      takenAt: now,
+      dueDate: now + offer.termDays * DAY_MS,
+      lastInterestTime: now,
+      status: 'active'
+    };
+    this.loans.set(loan.id, loan);
+    this.playerManager.addCredits(amount);
+    return { success: true, loan };
+  }
+
+  /**
+   * Pay off some or all of a loan. Clearing it in full earns a little goodwill.
+   */
+  repayLoan(loanId: string, amount: number): { success: boolean; paid?: number; error?: string } {
+    const loan = this.loans.get(loanId);
+    if (!loan || loan.status !== 'active') {
+      return { success: false, error: 'No active loan' };
+    }
+
+    this.accrueInterest(loan, this.timeManager.getCurrentTimestamp());
+    const paid = Math.min(amount, Math.ceil(loan.balance));
+    if (!(paid > 0) || !this.playerManager.spendCredits(paid)) {
+      return { success: false, error: 'Insufficient credits' };
+    }
+
+    loan.balance = Math.max(0, loan.balance - paid);
+    if (loan.balance === 0) {
+      loan.status = 'repaid';
+      this.playerManager.modifyFactionReputation(loan.lenderFactionId, 2, 'Loan repaid');
+    }
+    return { success: true, paid };
+  }
+
+  private accrueInterest(loan: Loan, now: number): void {
+    if (now <= loan.lastInterestTime) return;
+    loan.balance *= Math.pow(1 + loan.annualRate, (now - loan.lastInterestTime) / YEAR_MS);
+    loan.lastInterestTime = now;
+  }
+
+  /**
+   * Mark an overdue loan as defaulted. The lender remembers: the bigger the
+   * unpaid balance, the worse the player's standing with it.
+   */
+  private defaultOnLoan(loan: Loan): void {
+    loan.status = 'defaulted';
+    const penalty = -Math.min(50, Math.round(10 + loan.balance / 2000));
+    this.playerManager.modifyFactionReputation(loan.lenderFactionId, penalty, 'Loan default');
+  }
+
+  getInstruments(): FinancialInstrument[] {
+    return Array.from(this.instruments.values());
+  }
+
+  getInstrument(instrumentId: string): FinancialInstrument | undefined {
+    return this.instruments.get(instrumentId);
+  }
+
+  getHoldings(): InstrumentHolding[] {
+    return Array.from(this.holdings.values());
+  }
+
+  /**
+   * Market value of everything the player holds
+   */
+  getHoldingsValue(): number {
+    return this.getHoldings().reduce((sum, holding) =>
+      sum + holding.units * (this.instruments.get(holding.instrumentId)?.currentPrice ?? 0), 0
+    );
+  }
+
+  getLoans(): Loan[] {
+    return Array.from(this.loans.values());
+  }
+
+  getEconomicIndicators(): EconomicIndicator[] {
+    return Array.from(this.indicators.values());
+  }
+
+  serialize(): FinancialInstrumentManagerSaveData {
+    return {
+      instruments: this.getInstruments(),
+      holdings: this.getHoldings(),
+      loans: this.getLoans(),
+      indicators: Array.from(this.indicators.entries()),
+      lastRevaluation: this.lastRevaluation,
+      idCounter: this.idCounter
+    };
+  }
+
+  deserialize(data: FinancialInstrumentManagerSaveData): void {
+    if (data.instruments) this.instruments = new Map(data.instruments.map(instrument => [instrument.id, instrument]));
+    if (data.holdings) this.holdings = new Map(data.holdings.map(holding => [holding.instrumentId, holding]));
+    if (data.loans) this.loans = new Map(data.loans.map(loan => [loan.id, loan]));
+    if (data.indicators) this.indicators = new Map(data.indicators);
+    this.lastRevaluation = data.lastRevaluation ?? 0;
+    this.idCounter = data.idCounter ?? this.idCounter;
+  }
+}
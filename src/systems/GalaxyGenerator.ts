@@ -0,0 +1,420 @@
+/**
+ * GalaxyGenerator - Builds seeded procedural galaxies
+ *
+ * Sectors are laid out on a jittered grid and filled with star systems,
+ * planets and stations that suit the sector's controlling faction. Sectors
+ * are linked by a gate network that always forms a connected graph: every
+ * sector joins its nearest already-placed neighbour, and extra links add loops.
+ * The same seed and options always produce the same galaxy.
+ */
+
+import { Coordinates, Galaxy, Gate, Planet, Sector, Station, StarSystem } from '../types/world';
+import { SeededRandom } from '../utils/SeededRandom';
+import { convertPlanetCoords, convertStationCoords, createSystemCoords } from '../utils/coordinates';
+
+export interface GalaxyGenerationOptions {
+  sectorCount: number;
+  systemsPerSector: { min: number; max: number };
+  planetsPerSystem: { min: number; max: number };
+  stationsPerSystem: { min: number; max: number };
+  extraGateChance: number; // Chance per sector of a second link, creating loops in the gate network
+  factions: string[]; // Controlling factions, assigned to sectors in order
+}
+
+export const DEFAULT_GALAXY_GENERATION_OPTIONS: GalaxyGenerationOptions = {
+  sectorCount: 6,
+  systemsPerSector: { min: 3, max: 5 },
+  planetsPerSystem: { min: 0, max: 4 },
+  stationsPerSystem: { min: 1, max: 3 },
+  extraGateChance: 0.3,
+  factions: [
+    'Earth Federation',
+    'Outer Colonies Coalition',
+    'Industrial Consortium',
+    'Mining Guild',
+    'Manufacturing Alliance',
+    'Expansion Fleet'
+  ]
+};
+
+/**
+ * One end of a gate link, as seen from the system the gate stands in
+ */
+export interface GateConnection {
+  destinationSectorId: string;
+  destinationSectorName: string;
+  destinationSystemId: string;
+  energyCost: number;
+}
+
+export type GateFactory = (systemId: string, systemPosition: Coordinates, connections: GateConnection[]) => Gate[];
+
+type StationType = Station['type'];
+type StarType = StarSystem['star']['type'];
+type PlanetType = Planet['type'];
+
+const SECTOR_SPACING = 500;
+const SECTOR_JITTER = 80;
+const SYSTEM_MARGIN = 80;
+const MIN_SYSTEM_DISTANCE = 70;
+
+const NAME_PREFIXES = ['Al', 'Bel', 'Cor', 'Dra', 'Eri', 'Fen', 'Gal', 'Hel', 'Ix', 'Kor', 'Lyr', 'Mar', 'Nov', 'Or', 'Pra', 'Qu', 'Rig', 'Sol', 'Tau', 'Vel', 'Zan'];
+const NAME_MIDDLES = ['', '', 'a', 'e', 'i', 'o', 'ar', 'en', 'ir', 'os'];
+const NAME_SUFFIXES = ['don', 'ris', 'tar', 'nix', 'lon', 'mir', 'thos', 'ven', 'cis', 'ra', 'dus', 'gan'];
+
+const STAR_TYPES: Array<{ type: StarType; weight: number; temperature: [number, number] }> = [
+  { type: 'red-dwarf', weight: 40, temperature: [2400, 3700] },
+  { type: 'yellow-dwarf', weight: 25, temperature: [5300, 6000] },
+  { type: 'red-giant', weight: 15, temperature: [3300, 5300] },
+  { type: 'white-dwarf', weight: 12, temperature: [8000, 40000] },
+  { type: 'blue-giant', weight: 8, temperature: [10000, 30000] }
+];
+
+const PLANET_TYPES: Record<PlanetType, { radius: [number, number]; habitableChance: number; description: string }> = {
+  'terrestrial': { radius: [10, 22], habitableChance: 0.5, description: 'Rocky world' },
+  'ocean': { radius: [14, 24], habitableChance: 0.6, description: 'Water-covered world' },
+  'desert': { radius: [8, 18], habitableChance: 0.1, description: 'Arid, mineral-rich world' },
+  'ice': { radius: [6, 16], habitableChance: 0, description: 'Frozen world' },
+  'gas-giant': { radius: [28, 40], habitableChance: 0, description: 'Massive gas giant' }
+};
+
+/**
+ * Station types each faction builds, most common first
+ */
+const FACTION_STATION_TYPES: Record<string, StationType[]> = {
+  'Earth Federation': ['trade', 'military', 'diplomatic', 'research', 'luxury'],
+  'Outer Colonies Coalition': ['colonial', 'agricultural', 'trade', 'exploration'],
+  'Industrial Consortium': ['industrial', 'refinery', 'foundry', 'mining'],
+  'Mining Guild': ['mining', 'refinery', 'industrial'],
+  'Manufacturing Alliance': ['manufacturing_hub', 'shipyard', 'foundry', 'industrial'],
+  'Expansion Fleet': ['exploration', 'colonial', 'military', 'trade']
+};
+const DEFAULT_STATION_TYPES: StationType[] = ['trade', 'habitat', 'industrial', 'mining'];
+
+interface StationTemplate {
+  suffix: string;
+  services: string[];
+  capacity: [number, number];
+  description: string;
+}
+
+const TRADE_STATION_TEMPLATE: StationTemplate = {
+  suffix: 'Trade Hub',
+  services: ['refuel', 'repair', 'trading', 'missions'],
+  capacity: [30, 50],
+  description: 'Busy trading station at the crossroads of local commerce.'
+};
+
+const STATION_TEMPLATES: Partial<Record<StationType, StationTemplate>> = {
+  trade: TRADE_STATION_TEMPLATE,
+  military: { suffix: 'Defense Platform', services: ['refuel', 'repair', 'military_contracts', 'weapons'], capacity: [25, 40], description: 'Fortified station guarding the system.' },
+  diplomatic: { suffix: 'Embassy', services: ['refuel', 'diplomatic_missions', 'trading'], capacity: [15, 25], description: 'Neutral ground where factions negotiate.' },
+  research: { suffix: 'Research Station', services: ['refuel', 'research', 'technology_trading'], capacity: [10, 20], description: 'Laboratory complex studying the local star.' },
+  luxury: { suffix: 'Resort', services: ['refuel', 'luxury_trading', 'entertainment'], capacity: [15, 30], description: 'Exclusive resort station for the wealthy.' },
+  colonial: { suffix: 'Colony Station', services: ['refuel', 'trading', 'colonial_supplies'], capacity: [15, 30], description: 'Young settlement importing everything it cannot yet make.' },
+  agricultural: { suffix: 'Agri-Dome', services: ['refuel', 'trading', 'food_production'], capacity: [15, 25], description: 'Hydroponic farms feeding the sector.' },
+  exploration: { suffix: 'Survey Base', services: ['refuel', 'exploration_missions', 'ship_resupply'], capacity: [10, 20], description: 'Staging post for surveys of uncharted space.' },
+  industrial: { suffix: 'Works', services: ['refuel', 'repair', 'trading', 'manufacturing'], capacity: [25, 40], description: 'Industrial complex turning raw materials into goods.' },
+  refinery: { suffix: 'Refinery', services: ['refuel', 'ore_processing', 'trading'], capacity: [20, 35], description: 'Refinery processing ore from nearby mines.' },
+  foundry: { suffix: 'Foundry', services: ['refuel', 'metal_processing', 'trading'], capacity: [20, 35], description: 'Foundry casting alloys for heavy industry.' },
+  mining: { suffix: 'Mining Outpost', services: ['refuel', 'trading', 'mining_contracts'], capacity: [15, 30], description: 'Mining station extracting ore from local bodies.' },
+  manufacturing_hub: { suffix: 'Assembly Hub', services: ['refuel', 'repair', 'component_manufacturing', 'trading'], capacity: [30, 50], description: 'Assembly plant producing components and equipment.' },
+  shipyard: { suffix: 'Shipyard', services: ['refuel', 'repair', 'ship_construction', 'ship_sales'], capacity: [30, 60], description: 'Orbital shipyard building hulls for the sector.' },
+  habitat: { suffix: 'Habitat', services: ['refuel', 'trading'], capacity: [15, 30], description: 'Residential habitat housing local workers.' },
+  pirate: { suffix: 'Hideout', services: ['black_market', 'refuel', 'smuggling'], capacity: [10, 20], description: 'Lawless den beyond the reach of patrols.' }
+};
+
+export class GalaxyGenerator {
+  private random: SeededRandom;
+  private createGates: GateFactory;
+  private usedNames: Set<string> = new Set();
+
+  constructor(random: SeededRandom, createGates: GateFactory) {
+    this.random = random;
+    this.createGates = createGates;
+  }
+
+  /**
+   * Generate a galaxy. Missing options fall back to the defaults.
+   */
+  generate(options: Partial<GalaxyGenerationOptions> = {}): Galaxy {
+    const config: GalaxyGenerationOptions = { ...DEFAULT_GALAXY_GENERATION_OPTIONS, ...options };
+    const sectorCount = Math.max(1, Math.floor(config.sectorCount));
+    this.usedNames.clear();
+
+    const sectors = this.layoutSectors(sectorCount, config.factions);
+    const links = this.linkSectors(sectors, config.extraGateChance);
+    const hops = this.countHops(sectors.length, links);
+
+    const galaxySectors: Sector[] = sectors.map((sector, index) => {
+      const systemCount = this.random.int(config.systemsPerSector.min, Math.max(config.systemsPerSector.min, config.systemsPerSector.max));
+      const positions = this.placeSystems(sector.position, Math.max(1, systemCount));
+
+      return {
+        ...sector,
+        systems: positions.map(position =>
+          this.createSystem(position, sector.controllingFaction, hops[index], config)
+        )
+      };
+    });
+
+    this.wireGates(galaxySectors, links);
+
+    const startSystem = galaxySectors[0].systems[0];
+    return {
+      sectors: galaxySectors,
+      currentPlayerLocation: {
+        sectorId: galaxySectors[0].id,
+        systemId: startSystem.id,
+        stationId: startSystem.stations[0]?.id
+      }
+    };
+  }
+
+  /**
+   * Place sectors row by row on a jittered grid
+   */
+  private layoutSectors(count: number, factions: string[]): Array<Omit<Sector, 'systems'> & { controllingFaction: string }> {
+    const columns = Math.ceil(Math.sqrt(count));
+
+    return Array.from({ length: count }, (_, index) => {
+      const faction = factions.length > 0 ? factions[index % factions.length] : 'Independent';
+      const name = this.createName();
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+
+      return {
+        id: `${this.slug(name)}-sector`,
+        name: `${name} Sector`,
+        position: createSystemCoords(
+          column * SECTOR_SPACING + this.random.range(-SECTOR_JITTER, SECTOR_JITTER),
+          row * SECTOR_SPACING + this.random.range(-SECTOR_JITTER, SECTOR_JITTER)
+        ),
+        controllingFaction: faction,
+        description: `${name} space, controlled by the ${faction}.`
+      };
+    });
+  }
+
+  /**
+   * Link sectors into a connected graph: each sector joins its nearest
+   * earlier sector, then some sectors gain a second link to form loops
+   */
+  private linkSectors(sectors: Array<{ position: Coordinates }>, extraGateChance: number): Array<[number, number]> {
+    const links: Array<[number, number]> = [];
+    const linked = (a: number, b: number) => links.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+    const nearest = (index: number, candidates: number[]) => candidates.reduce((best, candidate) =>
+      this.distance(sectors[index].position, sectors[candidate].position) <
+      this.distance(sectors[index].position, sectors[best].position) ? candidate : best
+    );
+
+    for (let i = 1; i < sectors.length; i++) {
+      links.push([nearest(i, Array.from({ length: i }, (_, j) => j)), i]);
+    }
+
+    for (let i = 0; i < sectors.length; i++) {
+      const candidates = sectors.map((_, j) => j).filter(j => j !== i && !linked(i, j));
+      if (candidates.length > 0 && this.random.chance(extraGateChance)) {
+        links.push([i, nearest(i, candidates)]);
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Gate hops from the first sector to every sector
+   */
+  private countHops(sectorCount: number, links: Array<[number, number]>): number[] {
+    const hops = new Array<number>(sectorCount).fill(Infinity);
+    hops[0] = 0;
+    const queue = [0];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as number;
+      for (const [a, b] of links) {
+        const next = a === current ? b : b === current ? a : -1;
+        if (next >= 0 && hops[next] === Infinity) {
+          hops[next] = hops[current] + 1;
+          queue.push(next);
+        }
+      }
+    }
+    return hops;
+  }
+
+  /**
+   * Scatter system positions inside a sector, keeping them apart
+   */
+  private placeSystems(sectorPosition: Coordinates, count: number): Coordinates[] {
+    const positions: Coordinates[] = [];
+    const extent = SECTOR_SPACING - SYSTEM_MARGIN * 2;
+
+    for (let i = 0; i < count; i++) {
+      let position = createSystemCoords(0, 0);
+      for (let attempt = 0; attempt < 20; attempt++) {
+        position = createSystemCoords(
+          Math.round(sectorPosition.x + SYSTEM_MARGIN + this.random.next() * extent),
+          Math.round(sectorPosition.y + SYSTEM_MARGIN + this.random.next() * extent)
+        );
+        if (positions.every(other => this.distance(other, position) >= MIN_SYSTEM_DISTANCE)) break;
+      }
+      positions.push(position);
+    }
+    return positions;
+  }
+
+  private createSystem(position: Coordinates, faction: string, hopsFromStart: number, config: GalaxyGenerationOptions): StarSystem {
+    const name = this.createName();
+    const id = this.slug(name);
+    const star = this.pickWeighted(STAR_TYPES);
+    // Security falls off with distance from the starting sector
+    const securityLevel = Math.max(0, Math.min(10, 9 - hopsFromStart * 2 + this.random.int(-1, 1)));
+
+    const planetCount = this.random.int(config.planetsPerSystem.min, Math.max(config.planetsPerSystem.min, config.planetsPerSystem.max));
+    const planets = Array.from({ length: planetCount }, (_, index) => this.createPlanet(id, name, position, index));
+
+    const stationCount = this.random.int(config.stationsPerSystem.min, Math.max(config.stationsPerSystem.min, config.stationsPerSystem.max));
+    const stations = Array.from({ length: Math.max(1, stationCount) }, (_, index) =>
+      this.createStation(id, name, position, faction, securityLevel, index)
+    );
+
+    return {
+      id,
+      name: `${name} System`,
+      position,
+      star: {
+        name,
+        type: star.type,
+        temperature: Math.round(this.random.range(star.temperature[0], star.temperature[1]))
+      },
+      stations,
+      planets,
+      gates: [],
+      securityLevel
+    };
+  }
+
+  private createPlanet(systemId: string, systemName: string, systemPosition: Coordinates, index: number): Planet {
+    const type = this.random.pick(Object.keys(PLANET_TYPES) as PlanetType[]);
+    const template = PLANET_TYPES[type];
+    const orbit = 300 + index * 250 + this.random.range(0, 150);
+    const angle = this.random.range(0, Math.PI * 2);
+    const habitable = this.random.chance(template.habitableChance);
+    const designation = String.fromCharCode(98 + index); // b, c, d... as for exoplanets
+
+    return {
+      id: `${systemId}-${designation}`,
+      name: `${systemName} ${designation}`,
+      type,
+      position: convertPlanetCoords({
+        x: Math.round(systemPosition.x + Math.cos(angle) * orbit),
+        y: Math.round(systemPosition.y + Math.sin(angle) * orbit)
+      }),
+      radius: this.random.int(template.radius[0], template.radius[1]),
+      habitable,
+      ...(habitable ? { population: this.random.int(1, 500) * 100000 } : {}),
+      description: `${template.description} orbiting ${systemName}.`
+    };
+  }
+
+  private createStation(
+    systemId: string,
+    systemName: string,
+    systemPosition: Coordinates,
+    faction: string,
+    securityLevel: number,
+    index: number
+  ): Station {
+    // Lawless systems attract pirates instead of faction stations
+    const isPirate = securityLevel <= 2 && index > 0 && this.random.chance(0.5);
+    const factionTypes = FACTION_STATION_TYPES[faction] ?? DEFAULT_STATION_TYPES;
+    // The first station in a system favours the faction's main station type
+    const type: StationType = isPirate ? 'pirate' : index === 0 ? factionTypes[0] : this.random.pick(factionTypes);
+    const template = STATION_TEMPLATES[type] ?? TRADE_STATION_TEMPLATE;
+    const distance = 150 + index * 100 + this.random.range(0, 100);
+    const angle = this.random.range(0, Math.PI * 2);
+
+    return {
+      id: `${systemId}-${type.replace(/_/g, '-')}-${index + 1}`,
+      name: `${systemName} ${template.suffix}`,
+      type,
+      position: convertStationCoords({
+        x: Math.round(systemPosition.x + Math.cos(angle) * distance),
+        y: Math.round(systemPosition.y + Math.sin(angle) * distance)
+      }),
+      faction: isPirate ? 'Independent' : faction,
+      dockingCapacity: this.random.int(template.capacity[0], template.capacity[1]),
+      services: [...template.services],
+      description: template.description
+    };
+  }
+
+  /**
+   * Give each linked pair of sectors a gate in each direction, placed in a
+   * random system of each sector
+   */
+  private wireGates(sectors: Sector[], links: Array<[number, number]>): void {
+    const connections = new Map<string, GateConnection[]>();
+    const addConnection = (from: StarSystem, to: StarSystem, toSector: Sector, energyCost: number) => {
+      const list = connections.get(from.id) ?? [];
+      list.push({
+        destinationSectorId: toSector.id,
+        destinationSectorName: toSector.name,
+        destinationSystemId: to.id,
+        energyCost
+      });
+      connections.set(from.id, list);
+    };
+
+    for (const [a, b] of links) {
+      const systemA = this.random.pick(sectors[a].systems);
+      const systemB = this.random.pick(sectors[b].systems);
+      const energyCost = Math.round(Math.max(30, Math.min(80, 20 + this.distance(systemA.position, systemB.position) / 15)));
+      addConnection(systemA, systemB, sectors[b], energyCost);
+      addConnection(systemB, systemA, sectors[a], energyCost);
+    }
+
+    for (const sector of sectors) {
+      for (const system of sector.systems) {
+        system.gates = this.createGates(system.id, system.position, connections.get(system.id) ?? []);
+      }
+    }
+  }
+
+  /**
+   * Create a unique pronounceable name
+   */
+  private createName(): string {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const name = this.random.pick(NAME_PREFIXES) + this.random.pick(NAME_MIDDLES) + this.random.pick(NAME_SUFFIXES);
+      if (!this.usedNames.has(name)) {
+        this.usedNames.add(name);
+        return name;
+      }
+    }
+
+    // Name space exhausted; number the names instead
+    const name = `${this.random.pick(NAME_PREFIXES)}${this.random.pick(NAME_SUFFIXES)} ${this.usedNames.size + 1}`;
+    this.usedNames.add(name);
+    return name;
+  }
+
+  private pickWeighted<T extends { weight: number }>(items: T[]): T {
+    const total = items.reduce((sum, item) => sum + item.weight, 0);
+    let roll = this.random.next() * total;
+    for (const item of items) {
+      roll -= item.weight;
+      if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+
+  private slug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  private distance(a: Coordinates, b: Coordinates): number {
+    return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * GalaxyLoader - Loads galaxy maps from JSON definitions
+ *
+ * Definitions follow src/data/galaxies/galaxy.schema.json, which mirrors the
+ * world types. Besides checking shapes, the loader resolves references: gates
+ * must lead to real sectors and systems, ids must be unique, factions must be
+ * known and the starting location must exist. Every problem is reported with
+ * its path (e.g. `sectors[1].systems[0].gates[2].destinationSystemId`) so map
+ * authors can fix a whole file in one pass.
+ */
+
+import { Coordinates, Galaxy, Gate, Planet, Sector, Station, StarSystem } from '../types/world';
+import { COORDINATE_LAYERS } from '../utils/coordinates';
+
+export interface GalaxyDefinitionError {
+  path: string;
+  message: string;
+}
+
+export interface GalaxyLoadResult {
+  success: boolean;
+  galaxy?: Galaxy;
+  errors: GalaxyDefinitionError[];
+}
+
+type DefinitionObject = Record<string, unknown>;
+
+const STAR_TYPES: ReadonlyArray<StarSystem['star']['type']> = ['red-dwarf', 'yellow-dwarf', 'blue-giant', 'red-giant', 'white-dwarf'];
+const PLANET_TYPES: ReadonlyArray<Planet['type']> = ['terrestrial', 'gas-giant', 'ice', 'desert', 'ocean'];
+const STATION_TYPES: ReadonlyArray<Station['type']> = [
+  'trade', 'industrial', 'military', 'research', 'mining', 'luxury', 'diplomatic',
+  'entertainment', 'pirate', 'agricultural', 'medical', 'exploration', 'colonial',
+  'salvage', 'observatory', 'foundry', 'habitat', 'security', 'prison', 'energy',
+  'shipyard', 'refinery', 'manufacturing_hub'
+];
+
+export class GalaxyLoader {
+  private knownFactions: Set<string> | null;
+  private errors: GalaxyDefinitionError[] = [];
+  private definedIds: Map<string, string> = new Map(); // "kind:id" -> path of first definition
+
+  /**
+   * @param knownFactions - Faction ids or names stations and sectors may use; omit to skip the check
+   */
+  constructor(knownFactions?: string[]) {
+    this.knownFactions = knownFactions ? new Set(knownFactions) : null;
+  }
+
+  /**
+   * Load a galaxy from JSON text
+   */
+  loadJSON(text: string): GalaxyLoadResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+    return this.load(data);
+  }
+
+  /**
+   * Load a galaxy from a parsed definition
+   */
+  load(data: unknown): GalaxyLoadResult {
+    this.errors = [];
+    this.definedIds.clear();
+
+    const root = this.readObject(data, '', ['$schema', 'sectors', 'currentPlayerLocation']);
+    if (!root) {
+      return { success: false, errors: this.errors };
+    }
+
+    const sectors = this.readArray(root, 'sectors', '', 1).map((value, index) => this.readSector(value, `sectors[${index}]`));
+    const location = this.readObject(root.currentPlayerLocation, 'currentPlayerLocation', ['sectorId', 'systemId', 'stationId']);
+    const galaxy: Galaxy = {
+      sectors: sectors.filter((sector): sector is Sector => sector !== null),
+      currentPlayerLocation: {
+        sectorId: location ? this.readString(location, 'sectorId', 'currentPlayerLocation', true) : '',
+        systemId: location ? this.readString(location, 'systemId', 'currentPlayerLocation', true) : ''
+      }
+    };
+    const stationId = location ? this.readOptionalString(location, 'stationId', 'currentPlayerLocation') : undefined;
+    if (stationId !== undefined) {
+      galaxy.currentPlayerLocation.stationId = stationId;
+    }
+
+    this.checkGateDestinations(galaxy);
+    if (location) {
+      this.checkStartingLocation(galaxy);
+    }
+
+    return this.errors.length === 0
+      ? { success: true, galaxy, errors: [] }
+      : { success: false, errors: this.errors };
+  }
+
+  private readSector(value: unknown, path: string): Sector | null {
+    const data = this.readObject(value, path, ['id', 'name', 'position', 'systems', 'controllingFaction', 'description']);
+    if (!data) return null;
+
+    const sector: Sector = {
+      id: this.readId(data, path, 'sector'),
+      name: this.readString(data, 'name', path),
+      position: this.readPosition(data, path, COORDINATE_LAYERS.STARS),
+      systems: this.readArray(data, 'systems', path)
+        .map((system, index) => this.readSystem(system, `${path}.systems[${index}]`))
+        .filter((system): system is StarSystem => system !== null),
+      description: this.readString(data, 'description', path)
+    };
+
+    const controllingFaction = this.readOptionalString(data, 'controllingFaction', path);
+    if (controllingFaction !== undefined) {
+      this.checkFaction(controllingFaction, `${path}.controllingFaction`);
+      sector.controllingFaction = controllingFaction;
+    }
+    return sector;
+  }
+
+  private readSystem(value: unknown, path: string): StarSystem | null {
+    const data = this.readObject(value, path, ['id', 'name', 'position', 'star', 'stations', 'planets', 'gates', 'securityLevel']);
+    if (!data) return null;
+
+    const starPath = `${path}.star`;
+    const star = this.readObject(data.star, starPath, ['name', 'type', 'temperature']);
+    const gateIds = new Map<string, string>();
+
+    return {
+      id: this.readId(data, path, 'system'),
+      name: this.readString(data, 'name', path),
+      position: this.readPosition(data, path, COORDINATE_LAYERS.STARS),
+      star: {
+        name: star ? this.readString(star, 'name', starPath) : '',
+        type: star ? this.readEnum(star, 'type', starPath, STAR_TYPES) : 'yellow-dwarf',
+        temperature: star ? this.readNumber(star, 'temperature', starPath, { exclusiveMin: 0 }) : 0
+      },
+      stations: this.readArray(data, 'stations', path)
+        .map((station, index) => this.readStation(station, `${path}.stations[${index}]`))
+        .filter((station): station is Station => station !== null),
+      planets: this.readOptionalArray(data, 'planets', path)
+        .map((planet, index) => this.readPlanet(planet, `${path}.planets[${index}]`))
+        .filter((planet): planet is Planet => planet !== null),
+      gates: this.readOptionalArray(data, 'gates', path)
+        .map((gate, index) => this.readGate(gate, `${path}.gates[${index}]`, gateIds))
+        .filter((gate): gate is Gate => gate !== null),
+      securityLevel: this.readNumber(data, 'securityLevel', path, { min: 0, max: 10 })
+    };
+  }
+
+  private readStation(value: unknown, path: string): Station | null {
+    const data = this.readObject(value, path, ['id', 'name', 'type', 'position', 'faction', 'dockingCapacity', 'services', 'description']);
+    if (!data) return null;
+
+    const faction = this.readString(data, 'faction', path);
+    this.checkFaction(faction, `${path}.faction`);
+
+    return {
+      id: this.readId(data, path, 'station'),
+      name: this.readString(data, 'name', path),
+      type: this.readEnum(data, 'type', path, STATION_TYPES),
+      position: this.readPosition(data, path, COORDINATE_LAYERS.STATIONS),
+      faction,
+      dockingCapacity: this.readNumber(data, 'dockingCapacity', path, { min: 0 }),
+      services: this.readArray(data, 'services', path).map((service, index) => {
+        if (typeof service !== 'string') {
+          this.addError(`${path}.services[${index}]`, 'must be a string');
+        }
+        return String(service);
+      }),
+      description: this.readString(data, 'description', path)
+    };
+  }
+
+  private readPlanet(value: unknown, path: string): Planet | null {
+    const data = this.readObject(value, path, ['id', 'name', 'type', 'position', 'radius', 'habitable', 'population', 'description']);
+    if (!data) return null;
+
+    const planet: Planet = {
+      id: this.readId(data, path, 'planet'),
+      name: this.readString(data, 'name', path),
+      type: this.readEnum(data, 'type', path, PLANET_TYPES),
+      position: this.readPosition(data, path, COORDINATE_LAYERS.PLANETS),
+      radius: this.readNumber(data, 'radius', path, { exclusiveMin: 0 }),
+      habitable: this.readBoolean(data, 'habitable', path),
+      description: this.readString(data, 'description', path)
+    };
+    if (data.population !== undefined) {
+      planet.population = this.readNumber(data, 'population', path, { min: 0 });
+    }
+    return planet;
+  }
+
+  private readGate(value: unknown, path: string, gateIds: Map<string, string>): Gate | null {
+    const data = this.readObject(value, path, [
+      'id', 'name', 'position', 'destinationSectorId', 'destinationSystemId', 'energyCost', 'isActive', 'description'
+    ]);
+    if (!data) return null;
+
+    // Gate ids only need to be unique within their system
+    const id = this.readString(data, 'id', path, true);
+    const firstPath = gateIds.get(id);
+    if (id && firstPath) {
+      this.addError(`${path}.id`, `duplicate gate id "${id}" (first defined at ${firstPath})`);
+    } else if (id) {
+      gateIds.set(id, path);
+    }
+
+    const gate: Gate = {
+      id,
+      name: this.readString(data, 'name', path),
+      position: this.readPosition(data, path, COORDINATE_LAYERS.STATIONS),
+      destinationSectorId: this.readString(data, 'destinationSectorId', path, true),
+      energyCost: this.readNumber(data, 'energyCost', path, { min: 0 }),
+      isActive: this.readBoolean(data, 'isActive', path),
+      description: this.readString(data, 'description', path)
+    };
+    const destinationSystemId = this.readOptionalString(data, 'destinationSystemId', path);
+    if (destinationSystemId !== undefined) {
+      gate.destinationSystemId = destinationSystemId;
+    }
+    return gate;
+  }
+
+  /**
+   * Every gate must lead to a real sector, and to a system inside that sector
+   */
+  private checkGateDestinations(galaxy: Galaxy): void {
+    galaxy.sectors.forEach((sector, sectorIndex) => {
+      sector.systems.forEach((system, systemIndex) => {
+        system.gates.forEach((gate, gateIndex) => {
+          const path = `sectors[${sectorIndex}].systems[${systemIndex}].gates[${gateIndex}]`;
+          const destinationSector = galaxy.sectors.find(s => s.id === gate.destinationSectorId);
+          if (!destinationSector) {
+            if (gate.destinationSectorId) {
+              this.addError(`${path}.destinationSectorId`, `unknown sector "${gate.destinationSectorId}"`);
+            }
+            return;
+          }
+          if (gate.destinationSystemId === undefined) return;
+
+          if (!destinationSector.systems.some(s => s.id === gate.destinationSystemId)) {
+            const elsewhere = galaxy.sectors.some(s => s.systems.some(sys => sys.id === gate.destinationSystemId));
+            this.addError(
+              `${path}.destinationSystemId`,
+              elsewhere
+                ? `system "${gate.destinationSystemId}" is not in sector "${destinationSector.id}"`
+                : `unknown system "${gate.destinationSystemId}"`
+            );
+          }
+        });
+      });
+    });
+  }
+
+  private checkStartingLocation(galaxy: Galaxy): void {
+    const { sectorId, systemId, stationId } = galaxy.currentPlayerLocation;
+    const path = 'currentPlayerLocation';
+
+    const sector = galaxy.sectors.find(s => s.id === sectorId);
+    if (!sector) {
+      if (sectorId) this.addError(`${path}.sectorId`, `unknown sector "${sectorId}"`);
+      return;
+    }
+
+    const system = sector.systems.find(s => s.id === systemId);
+    if (!system) {
+      if (systemId) this.addError(`${path}.systemId`, `system "${systemId}" is not in sector "${sectorId}"`);
+      return;
+    }
+
+    if (stationId !== undefined && !system.stations.some(s => s.id === stationId)) {
+      this.addError(`${path}.stationId`, `station "${stationId}" is not in system "${systemId}"`);
+    }
+  }
+
+  private checkFaction(faction: string, path: string): void {
+    if (faction && this.knownFactions && !this.knownFactions.has(faction)) {
+      this.addError(path, `unknown faction "${faction}"`);
+    }
+  }
+
+  /**
+   * Read an id that must be unique among all objects of its kind
+   */
+  private readId(data: DefinitionObject, path: string, kind: string): string {
+    const id = this.readString(data, 'id', path, true);
+    if (!id) return id;
+
+    const key = `${kind}:${id}`;
+    const firstPath = this.definedIds.get(key);
+    if (firstPath) {
+      this.addError(`${path}.id`, `duplicate ${kind} id "${id}" (first defined at ${firstPath})`);
+    } else {
+      this.definedIds.set(key, path);
+    }
+    return id;
+  }
+
+  private readObject(value: unknown, path: string, allowedKeys: string[]): DefinitionObject | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.addError(path, value === undefined ? 'is required' : 'must be an object');
+      return null;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!allowedKeys.includes(key)) {
+        this.addError(this.join(path, key), 'is not a known property');
+      }
+    }
+    return value as DefinitionObject;
+  }
+
+  private readArray(data: DefinitionObject, key: string, path: string, minItems = 0): unknown[] {
+    const value = data[key];
+    if (!Array.isArray(value)) {
+      this.addError(this.join(path, key), value === undefined ? 'is required' : 'must be an array');
+      return [];
+    }
+    if (value.length < minItems) {
+      this.addError(this.join(path, key), `must contain at least ${minItems} item${minItems === 1 ? '' : 's'}`);
+    }
+    return value;
+  }
+
+  private readOptionalArray(data: DefinitionObject, key: string, path: string): unknown[] {
+    return data[key] === undefined ? [] : this.readArray(data, key, path);
+  }
+
+  private readString(data: DefinitionObject, key: string, path: string, nonEmpty = false): string {
+    const value = data[key];
+    if (typeof value !== 'string') {
+      this.addError(this.join(path, key), value === undefined ? 'is required' : 'must be a string');
+      return '';
+    }
+    if (nonEmpty && value.length === 0) {
+      this.addError(this.join(path, key), 'must not be empty');
+    }
+    return value;
+  }
+
+  private readOptionalString(data: DefinitionObject, key: string, path: string): string | undefined {
+    return data[key] === undefined ? undefined : this.readString(data, key, path, true);
+  }
+
+  private readNumber(
+    data: DefinitionObject,
+    key: string,
+    path: string,
+    limits: { min?: number; max?: number; exclusiveMin?: number } = {}
+  ): number {
+    const value = data[key];
+    const fieldPath = this.join(path, key);
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.addError(fieldPath, value === undefined ? 'is required' : 'must be a number');
+      return 0;
+    }
+    if (limits.min !== undefined && value < limits.min) {
+      this.addError(fieldPath, `must be at least ${limits.min}`);
+    }
+    if (limits.max !== undefined && value > limits.max) {
+      this.addError(fieldPath, `must be at most ${limits.max}`);
+    }
+    if (limits.exclusiveMin !== undefined && value <= limits.exclusiveMin) {
+      this.addError(fieldPath, `must be greater than ${limits.exclusiveMin}`);
+    }
+    return value;
+  }
+
+  private readBoolean(data: DefinitionObject, key: string, path: string): boolean {
+    const value = data[key];
+    if (typeof value !== 'boolean') {
+      this.addError(this.join(path, key), value === undefined ? 'is required' : 'must be a boolean');
+      return false;
+    }
+    return value;
+  }
+
+  private readEnum<T extends string>(data: DefinitionObject, key: string, path: string, allowed: ReadonlyArray<T>): T {
+    const value = data[key];
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      this.addError(
+        this.join(path, key),
+        value === undefined ? 'is required' : `must be one of ${allowed.map(v => `"${v}"`).join(', ')}`
+      );
+      return allowed[0];
+    }
+    return value as T;
+  }
+
+  /**
+   * Read a position; z is optional and defaults to the object's render layer
+   */
+  private readPosition(data: DefinitionObject, path: string, layer: number): Coordinates {
+    const positionPath = this.join(path, 'position');
+    const position = this.readObject(data.position, positionPath, ['x', 'y', 'z']);
+    if (!position) return { x: 0, y: 0, z: layer };
+
+    return {
+      x: this.readNumber(position, 'x', positionPath),
+      y: this.readNumber(position, 'y', positionPath),
+      z: position.z === undefined ? layer : this.readNumber(position, 'z', positionPath)
+    };
+  }
+
+  private join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+
+  private addError(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * GalaxyPathfinder - Route finding across the galaxy's systems and gates
+ *
+ * Star systems are the nodes of the graph. Systems in the same sector are
+ * linked directly by in-sector jumps, and active gates link systems across
+ * sectors. Routes are found with Dijkstra's algorithm, weighted by distance
+ * for the shortest route or by distance and system security for the safest.
+ * Gates are read at query time, so switching a gate off reroutes immediately.
+ */
+
+import { Coordinates, Galaxy, Sector, StarSystem } from '../types/world';
+
+export type RoutePreference = 'shortest' | 'safest';
+
+export interface GalaxyRouteLeg {
+  type: 'system' | 'gate'; // In-sector jump or gate transit
+  fromSystemId: string;
+  toSystemId: string;
+  toSectorId: string;
+  gateId?: string;
+  distance: number; // From the centre of the origin system to the jump point
+  energyCost: number; // Gate fuel cost, 0 for in-sector jumps
+  securityLevel: number; // Security of the system the leg arrives in
+}
+
+export interface GalaxyRoute {
+  fromSystemId: string;
+  toSystemId: string;
+  systemIds: string[]; // Every system visited, origin and destination included
+  legs: GalaxyRouteLeg[];
+  totalDistance: number;
+  totalEnergyCost: number;
+  minSecurityLevel: number; // Most dangerous system on the way
+}
+
+// How much a lawless system multiplies the cost of entering it on the safest route
+const SECURITY_WEIGHT = 0.5;
+
+export class GalaxyPathfinder {
+  private galaxy: Galaxy;
+  private systems: Map<string, { system: StarSystem; sector: Sector }> = new Map();
+  private stationSystems: Map<string, string> = new Map();
+
+  constructor(galaxy: Galaxy) {
+    this.galaxy = galaxy;
+
+    for (const sector of galaxy.sectors) {
+      for (const system of sector.systems) {
+        this.systems.set(system.id, { system, sector });
+        for (const station of system.stations) {
+          this.stationSystems.set(station.id, system.id);
+        }
+      }
+    }
+  }
+
+  getGalaxy(): Galaxy {
+    return this.galaxy;
+  }
+
+  hasSystem(systemId: string): boolean {
+    return this.systems.has(systemId);
+  }
+
+  getSystemIdForStation(stationId: string): string | null {
+    return this.stationSystems.get(stationId) ?? null;
+  }
+
+  getSectorIdForSystem(systemId: string): string | null {
+    return this.systems.get(systemId)?.sector.id ?? null;
+  }
+
+  /**
+   * Systems one leg away: the rest of the sector and those behind active gates
+   */
+  getNeighbourSystemIds(systemId: string): string[] {
+    if (!this.systems.has(systemId)) return [];
+    return Array.from(new Set(this.getLegsFrom(systemId).map(leg => leg.toSystemId)));
+  }
+
+  /**
+   * Find a route between two systems, or null when they are not connected.
+   * A route from a system to itself has no legs.
+   */
+  findRoute(fromSystemId: string, toSystemId: string, preference: RoutePreference = 'shortest'): GalaxyRoute | null {
+    if (!this.systems.has(fromSystemId) || !this.systems.has(toSystemId)) return null;
+
+    const costs = new Map<string, number>([[fromSystemId, 0]]);
+    const arrivals = new Map<string, GalaxyRouteLeg>();
+    const visited = new Set<string>();
+
+    while (true) {
+      // The graph is small, so a linear scan stands in for a priority queue
+      let current: string | null = null;
+      for (const [systemId, cost] of costs) {
+        if (!visited.has(systemId) && (current === null || cost < costs.get(current)!)) {
+          current = systemId;
+        }
+      }
+      if (current === null) return null;
+      if (current === toSystemId) break;
+      visited.add(current);
+
+      for (const leg of this.getLegsFrom(current)) {
+        if (visited.has(leg.toSystemId)) continue;
+        const cost = costs.get(current)! + this.getLegWeight(leg, preference);
+        if (cost < (costs.get(leg.toSystemId) ?? Infinity)) {
+          costs.set(leg.toSystemId, cost);
+          arrivals.set(leg.toSystemId, leg);
+        }
+      }
+    }
+
+    const legs: GalaxyRouteLeg[] = [];
+    for (let systemId = toSystemId; systemId !== fromSystemId;) {
+      const leg = arrivals.get(systemId)!;
+      legs.unshift(leg);
+      systemId = leg.fromSystemId;
+    }
+
+    return {
+      fromSystemId,
+      toSystemId,
+      systemIds: [fromSystemId, ...legs.map(leg => leg.toSystemId)],
+      legs,
+      totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+      totalEnergyCost: legs.reduce((sum, leg) => sum + leg.energyCost, 0),
+      minSecurityLevel: Math.min(
+        this.systems.get(fromSystemId)!.system.securityLevel,
+        ...legs.map(leg => leg.securityLevel)
+      )
+    };
+  }
+
+  /**
+   * Find a route from a system to the system holding a station
+   */
+  findRouteToStation(fromSystemId: string, stationId: string, preference: RoutePreference = 'shortest'): GalaxyRoute | null {
+    const toSystemId = this.getSystemIdForStation(stationId);
+    return toSystemId ? this.findRoute(fromSystemId, toSystemId, preference) : null;
+  }
+
+  /**
+   * Full travel distance along a route: from a point in the origin system to
+   * its centre, along the route, then out to a point in the destination system
+   */
+  measureRoute(route: GalaxyRoute, from: Coordinates, to: Coordinates): number {
+    const origin = this.systems.get(route.fromSystemId)!.system.position;
+    const destination = this.systems.get(route.toSystemId)!.system.position;
+    return this.distance(from, origin) + route.totalDistance + this.distance(destination, to);
+  }
+
+  private getLegsFrom(systemId: string): GalaxyRouteLeg[] {
+    const { system, sector } = this.systems.get(systemId)!;
+    const legs: GalaxyRouteLeg[] = [];
+
+    for (const neighbour of sector.systems) {
+      if (neighbour.id === system.id) continue;
+      legs.push({
+        type: 'system',
+        fromSystemId: system.id,
+        toSystemId: neighbour.id,
+        toSectorId: sector.id,
+        distance: this.distance(system.position, neighbour.position),
+        energyCost: 0,
+        securityLevel: neighbour.securityLevel
+      });
+    }
+
+    for (const gate of system.gates) {
+      if (!gate.isActive) continue;
+      const destinationSector = this.galaxy.sectors.find(s => s.id === gate.destinationSectorId);
+      const destinationSystem = gate.destinationSystemId
+        ? this.systems.get(gate.destinationSystemId)?.system
+        : destinationSector?.systems[0];
+      if (!destinationSector || !destinationSystem) continue;
+
+      legs.push({
+        type: 'gate',
+        fromSystemId: system.id,
+        toSystemId: destinationSystem.id,
+        toSectorId: destinationSector.id,
+        gateId: gate.id,
+        distance: this.distance(system.position, gate.position),
+        energyCost: gate.energyCost,
+        securityLevel: destinationSystem.securityLevel
+      });
+    }
+
+    return legs;
+  }
+
+  private getLegWeight(leg: GalaxyRouteLeg, preference: RoutePreference): number {
+    // Every leg costs something, so fewer jumps win ties between equal distances
+    const distance = Math.max(1, leg.distance);
+    if (preference === 'shortest') return distance;
+    return distance * (1 + (10 - leg.securityLevel) * SECURITY_WEIGHT);
+  }
+
+  private distance(a: Coordinates, b: Coordinates): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
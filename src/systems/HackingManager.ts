@@ -19,7 +19,9 @@ import {
   Countermeasure,
   HackingPhase,
   AccessLevel,
-  AccessLevelInfo
+  AccessLevelInfo,
+  HackingMinigameMove,
+  HackingMoveResult
 } from '../types/hacking';
 import { TimeManager } from './TimeManager';
 import { WorldManager } from './WorldManager';
@@ -27,6 +29,29 @@ import { PlayerManager } from './PlayerManager';
 import { FactionManager } from './FactionManager';
 import { SecurityManager } from './SecurityManager';
 import { CharacterManager } from './CharacterManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { applyPuzzleMove, createPuzzle, scorePuzzle } from '../utils/hackingPuzzles';
+
+/**
+ * A minigame being played. Moves are applied to this puzzle and the seed never
+ * leaves the manager; callers only ever get copies.
+ */
+interface MinigameState {
+  minigame: HackingMinigame;
+  seed: number; // The puzzle and its solution are rebuilt from this
+}
+
+export interface HackingManagerSaveData {
+  hackingState: Omit<HackingState, 'activeAttempts' | 'activeSessions' | 'marketReputation'> & {
+    activeAttempts: Array<[string, HackingAttempt]>;
+    activeSessions: Array<[string, HackingSession]>;
+    marketReputation: Array<[string, number]>;
+  };
+  activeMinigames?: Array<[string, MinigameState]>;
+  nextAttemptId: number;
+  nextSessionId: number;
+  nextDataId: number;
+}
 
 /**
  * HackingManager handles all hacking and electronic warfare systems.
@@ -57,6 +82,7 @@ export class HackingManager {
 
   // System state
   private hackingState: HackingState;
+  private activeMinigames: Map<string, MinigameState> = new Map(); // By attempt
   private nextAttemptId = 1;
   private nextSessionId = 1;
   private nextDataId = 1;
@@ -67,6 +93,7 @@ export class HackingManager {
   private targetDatabase: Map<string, HackingTarget> = new Map();
   private dataMarkets: Map<string, DataMarket> = new Map();
   private countermeasuresDatabase: Map<string, Countermeasure> = new Map();
+  private random: SeededRandom;
 
   // Access level definitions
   private accessLevels: Map<AccessLevel, AccessLevelInfo> = new Map([
@@ -83,7 +110,8 @@ export class HackingManager {
     playerManager: PlayerManager,
     factionManager: FactionManager,
     securityManager: SecurityManager,
-    characterManager: CharacterManager
+    characterManager: CharacterManager,
+    random: SeededRandom = new SeededRandom()
   ) {
     this.timeManager = timeManager;
     this.worldManager = worldManager;
@@ -91,34 +119,10 @@ export class HackingManager {
     this.factionManager = factionManager;
     this.securityManager = securityManager;
     this.characterManager = characterManager;
+    this.random = random;
 
     // Initialize hacking state
-    this.hackingState = {
-      activeAttempts: new Map(),
-      activeSessions: new Map(),
-      ownedEquipment: [],
-      ownedSoftware: [],
-      stolenData: [],
-      systemAccess: [],
-      stats: {
-        attemptsTotal: 0,
-        attemptsSuccessful: 0,
-        timesDetected: 0,
-        dataStolen: 0,
-        creditsEarned: 0,
-        systemsCompromised: 0,
-        skillLevel: 1,
-        experience: 0,
-        specializations: [],
-        highestAccessLevel: 0,
-        mostValuableDataStolen: 0,
-        longestSessionDuration: 0
-      },
-      knownMarkets: [],
-      marketReputation: new Map(),
-      activeWarrants: [],
-      criminalRecord: []
-    };
+    this.hackingState = this.createHackingState();
 
     this.initializeEquipment();
     this.initializeSoftware();
@@ -503,7 +507,7 @@ export class HackingManager {
   }
 
   /**
-   * Generate a minigame for the current hacking phase
+   * Generate a minigame for the current hacking phase; the caller gets a copy to display
    */
   generateMinigame(attemptId: string): HackingMinigame | null {
     const session = this.hackingState.activeSessions.get(attemptId);
@@ -512,6 +516,12 @@ export class HackingManager {
     const attempt = this.hackingState.activeAttempts.get(attemptId);
     if (!attempt) return null;
 
+    // A puzzle being played cannot be rerolled for an easier one
+    const current = this.activeMinigames.get(attemptId);
+    if (current?.minigame.puzzle.status === 'in_progress') {
+      return structuredClone(current.minigame);
+    }
+
     const difficulty = this.calculateDifficulty(session.target, session.equipment, attempt.phase);
     
     // Choose minigame type based on phase
@@ -533,37 +543,91 @@ export class HackingManager {
         minigameType = 'password-crack';
     }
 
+    const parameters = this.generateMinigameParameters(minigameType, difficulty);
+    const seed = this.random.int(0, 0x7fffffff);
+    const startedAt = Date.now();
     const minigame: HackingMinigame = {
       type: minigameType,
       difficulty,
       timeLimit: Math.max(30, 120 - difficulty * 10), // 30-120 seconds based on difficulty
-      parameters: this.generateMinigameParameters(minigameType, difficulty),
+      parameters,
+      startedAt,
+      puzzle: createPuzzle(minigameType, parameters, seed, startedAt).puzzle,
       success: false,
       score: 0
     };
 
-    session.currentMinigame = minigame;
-    return minigame;
+    this.activeMinigames.set(attemptId, { minigame, seed });
+    return structuredClone(minigame);
+  }
+
+  /**
+   * Play a move in the current minigame; the phase completes by itself once the puzzle is solved or failed
+   */
+  submitMinigameMove(attemptId: string, move: HackingMinigameMove): HackingMoveResult {
+    const state = this.activeMinigames.get(attemptId);
+    if (!state || !this.hackingState.activeAttempts.has(attemptId)) {
+      return { valid: false, error: 'No minigame in progress', finished: false };
+    }
+
+    const { minigame, seed } = state;
+    let message: string | undefined;
+    const now = Date.now();
+    if (minigame.timeLimit && now - minigame.startedAt > minigame.timeLimit * 1000) {
+      minigame.puzzle.status = 'failed';
+      message = 'Time ran out';
+    } else {
+      // The solution is never stored, so it is dealt again from the seed
+      const { solution } = createPuzzle(minigame.type, minigame.parameters, seed, minigame.startedAt);
+      const outcome = applyPuzzleMove(minigame.puzzle, solution, move, now);
+      if (!outcome.valid) {
+        return { valid: false, error: outcome.error, puzzle: structuredClone(minigame.puzzle), finished: false };
+      }
+      message = outcome.message;
+    }
+
+    const puzzle = structuredClone(minigame.puzzle);
+    if (puzzle.status === 'in_progress') {
+      return { valid: true, message, puzzle, finished: false };
+    }
+
+    const score = scorePuzzle(puzzle);
+    this.completeMinigame(attemptId);
+    return { valid: true, message, puzzle, finished: true, success: puzzle.status === 'solved', score };
   }
 
   /**
-   * Process minigame completion
+   * Give up the current minigame, failing its phase
    */
-  completeMinigame(attemptId: string, success: boolean, score: number): boolean {
+  forfeitMinigame(attemptId: string): boolean {
+    const state = this.activeMinigames.get(attemptId);
+    if (!state || state.minigame.puzzle.status !== 'in_progress') {
+      return false;
+    }
+
+    state.minigame.puzzle.status = 'failed';
+    return this.completeMinigame(attemptId);
+  }
+
+  /**
+   * Process minigame completion, scored by the puzzle engine
+   */
+  private completeMinigame(attemptId: string): boolean {
     const session = this.hackingState.activeSessions.get(attemptId);
     const attempt = this.hackingState.activeAttempts.get(attemptId);
+    const state = this.activeMinigames.get(attemptId);
     
-    if (!session || !attempt || !session.currentMinigame) {
+    if (!session || !attempt || !state) {
       return false;
     }
 
-    const minigame = session.currentMinigame;
-    minigame.success = success;
-    minigame.score = score;
+    this.activeMinigames.delete(attemptId);
+    const success = state.minigame.puzzle.status === 'solved';
+    const score = scorePuzzle(state.minigame.puzzle);
 
     // Calculate detection risk based on performance
     const baseRisk = this.calculateBaseDetectionRisk(session.target, attempt.phase);
-    const performanceModifier = success ? (score / 100) : 1.5; // Good performance reduces risk
+    const performanceModifier = success ? 1 - score / 200 : 1.5; // Good performance reduces risk; a perfect solve halves it
     const stealthBonus = session.equipment.capabilities.stealthBonus;
     
     const detectionRisk = Math.max(0, baseRisk * performanceModifier * (1 - stealthBonus));
@@ -579,7 +643,7 @@ export class HackingManager {
     attempt.detection.riskAccumulated = session.totalDetectionRisk;
 
     // Check for detection
-    if (session.totalDetectionRisk > 75 && Math.random() < 0.3) {
+    if (session.totalDetectionRisk > 75 && this.random.next() < 0.3) {
       attempt.detection.detected = true;
       attempt.status = 'detected';
       this.handleDetection(attemptId);
@@ -608,7 +672,6 @@ export class HackingManager {
       this.failHackingAttempt(attemptId);
     }
 
-    session.currentMinigame = undefined;
     return true;
   }
 
@@ -663,6 +726,7 @@ export class HackingManager {
     // Clean up
     this.hackingState.activeAttempts.delete(attemptId);
     this.hackingState.activeSessions.delete(attemptId);
+    this.activeMinigames.delete(attemptId);
   }
 
   /**
@@ -680,6 +744,7 @@ export class HackingManager {
     // Clean up
     this.hackingState.activeAttempts.delete(attemptId);
     this.hackingState.activeSessions.delete(attemptId);
+    this.activeMinigames.delete(attemptId);
   }
 
   /**
@@ -714,6 +779,7 @@ export class HackingManager {
     // Clean up
     this.hackingState.activeAttempts.delete(attemptId);
     this.hackingState.activeSessions.delete(attemptId);
+    this.activeMinigames.delete(attemptId);
   }
 
   /**
@@ -727,13 +793,13 @@ export class HackingManager {
     // Generate stolen data based on target type
     const dataTypes = this.getDataTypesForTarget(target.type);
     dataTypes.forEach(dataType => {
-      if (Math.random() < 0.7) { // 70% chance for each data type
+      if (this.random.next() < 0.7) { // 70% chance for each data type
         const hackedData: HackedData = {
           id: `data-${this.nextDataId++}`,
           type: dataType,
           sourceTargetId: target.id,
-          quality: Math.floor(Math.random() * 3) + 3, // 3-5 quality
-          freshness: Math.floor(Math.random() * 48), // 0-48 hours old
+          quality: Math.floor(this.random.next() * 3) + 3, // 3-5 quality
+          freshness: Math.floor(this.random.next() * 48), // 0-48 hours old
           marketValue: this.calculateDataValue(dataType, target),
           content: {
             title: this.generateDataTitle(dataType, target),
@@ -755,8 +821,8 @@ export class HackingManager {
       targetId: target.id,
       accessLevel: target.security.accessLevel,
       capabilities: this.getCapabilitiesForAccessLevel(target.type, target.security.accessLevel),
-      duration: 60 + Math.random() * 180, // 1-4 hours
-      persistent: Math.random() < 0.3 // 30% chance for persistent access
+      duration: 60 + this.random.next() * 180, // 1-4 hours
+      persistent: this.random.next() < 0.3 // 30% chance for persistent access
     });
 
     return {
@@ -797,8 +863,8 @@ export class HackingManager {
     const warfare: ElectronicWarfare = {
       type: warfareType,
       targetId,
-      duration: 30 + Math.random() * 120, // 30 seconds to 2.5 minutes
-      effectiveness: Math.min(95, hackingSkill + Math.random() * 30),
+      duration: 30 + this.random.next() * 120, // 30 seconds to 2.5 minutes
+      effectiveness: Math.min(95, hackingSkill + this.random.next() * 30),
       detectability: 0.8 - (hackingSkill / 200), // Higher skill reduces detection
       reversible: warfareType !== 'life-support-sabotage' // Life support sabotage is permanent
     };
@@ -817,7 +883,7 @@ export class HackingManager {
     console.log(`Electronic warfare attack: ${warfare.type} on ${warfare.targetId} (${warfare.effectiveness}% effective)`);
     
     // Report crime if detected
-    if (Math.random() < warfare.detectability) {
+    if (this.random.next() < warfare.detectability) {
       this.securityManager.reportCrime(
         'cyber-warfare',
         warfare.targetId,
@@ -888,6 +954,7 @@ export class HackingManager {
         attempt.status = 'aborted';
         this.hackingState.activeAttempts.delete(attemptId);
         this.hackingState.activeSessions.delete(attemptId);
+        this.activeMinigames.delete(attemptId);
       }
     }
 
@@ -1005,7 +1072,7 @@ export class HackingManager {
     };
     
     const options = templates[dataType] || ['Data File'];
-    return options[Math.floor(Math.random() * options.length)];
+    return this.random.pick(options);
   }
 
   private generateDataDescription(dataType: DataType, target: HackingTarget): string {
@@ -1049,7 +1116,7 @@ export class HackingManager {
 
   private awardHackingExperience(accessLevel: AccessLevel, strategicValue: number): void {
     const baseExperience = accessLevel * 50 + strategicValue * 10;
-    const experience = Math.floor(baseExperience * (1 + Math.random() * 0.5));
+    const experience = Math.floor(baseExperience * (1 + this.random.next() * 0.5));
     
     this.hackingState.stats.experience += experience;
     
@@ -1187,10 +1254,50 @@ export class HackingManager {
     return this.hackingState.stats;
   }
 
+  /**
+   * Drop the current run's gear, stolen data, access, warrants and statistics
+   */
+  reset(): void {
+    this.hackingState = this.createHackingState();
+    this.activeMinigames.clear();
+    this.nextAttemptId = 1;
+    this.nextSessionId = 1;
+    this.nextDataId = 1;
+  }
+
+  private createHackingState(): HackingState {
+    return {
+      activeAttempts: new Map(),
+      activeSessions: new Map(),
+      ownedEquipment: [],
+      ownedSoftware: [],
+      stolenData: [],
+      systemAccess: [],
+      stats: {
+        attemptsTotal: 0,
+        attemptsSuccessful: 0,
+        timesDetected: 0,
+        dataStolen: 0,
+        creditsEarned: 0,
+        systemsCompromised: 0,
+        skillLevel: 1,
+        experience: 0,
+        specializations: [],
+        highestAccessLevel: 0,
+        mostValuableDataStolen: 0,
+        longestSessionDuration: 0
+      },
+      knownMarkets: [],
+      marketReputation: new Map(),
+      activeWarrants: [],
+      criminalRecord: []
+    };
+  }
+
   /**
    * Serialize hacking state for save system
    */
-  serialize(): any {
+  serialize(): HackingManagerSaveData {
     return {
       hackingState: {
         ...this.hackingState,
@@ -1198,6 +1305,7 @@ export class HackingManager {
         activeSessions: Array.from(this.hackingState.activeSessions.entries()),
         marketReputation: Array.from(this.hackingState.marketReputation.entries())
       },
+      activeMinigames: Array.from(this.activeMinigames.entries()),
       nextAttemptId: this.nextAttemptId,
       nextSessionId: this.nextSessionId,
       nextDataId: this.nextDataId
@@ -1207,7 +1315,7 @@ export class HackingManager {
   /**
    * Deserialize hacking state from save system
    */
-  deserialize(data: any): void {
+  deserialize(data: HackingManagerSaveData): void {
     if (data.hackingState) {
       this.hackingState = {
         ...data.hackingState,
@@ -1215,7 +1323,13 @@ export class HackingManager {
         activeSessions: new Map(data.hackingState.activeSessions || []),
         marketReputation: new Map(data.hackingState.marketReputation || [])
       };
+
+      // Minigames used to be saved on their session, where the player could read them; a fresh one is dealt on resume
+      this.hackingState.activeSessions.forEach(session => {
+        delete (session as HackingSession & { currentMinigame?: unknown }).currentMinigame;
+      });
     }
+    this.activeMinigames = new Map(data.activeMinigames || []);
     
     if (data.nextAttemptId) this.nextAttemptId = data.nextAttemptId;
     if (data.nextSessionId) this.nextSessionId = data.nextSessionId;
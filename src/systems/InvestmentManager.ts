@@ -5,13 +5,37 @@ import {
   SupplyChainNode,
   SupplyChainDependency,
   MarketInfluenceEvent,
-  EconomicWarfareAction
+  MarketInfluenceType,
+  EconomicWarfareAction,
+  ManipulationAlert,
+  RiskLevel
 } from '../types/investment';
+import { MarketPressure, PlayerTrade } from '../types/economy';
 import { TimeManager } from './TimeManager';
 import { WorldManager } from './WorldManager';
 import { PlayerManager } from './PlayerManager';
 import { FactionManager } from './FactionManager';
 import { EconomicSystem } from './EconomicSystem';
+import { SecurityManager } from './SecurityManager';
+import { FinancialInstrumentManager, FinancialInstrumentManagerSaveData } from './FinancialInstrumentManager';
+import { SeededRandom } from '../utils/SeededRandom';
+
+export interface InvestmentManagerSaveData {
+  playerPortfolio: InvestmentPortfolio;
+  availableInvestments: Array<[string, Investment]>;
+  activeSpeculations: Array<[string, MarketSpeculation]>;
+  supplyChains: Array<[string, SupplyChainNode[]]>;
+  chainDependencies: Array<[string, SupplyChainDependency[]]>;
+  marketInfluenceHistory: MarketInfluenceEvent[];
+  playerMarketPower: Array<[string, number]>;
+  manipulationAlerts?: ManipulationAlert[];
+  financialInstruments?: FinancialInstrumentManagerSaveData;
+}
+
+// Span of recent trading that counts towards market influence
+const INFLUENCE_WINDOW = 7 * 24 * 60 * 60 * 1000;
+// Chance market regulators notice an economic warfare action, before station security is factored in
+const DETECTION_CHANCE: Record<RiskLevel, number> = { low: 0.2, moderate: 0.4, high: 0.7 };
 
 /**
  * InvestmentManager handles advanced economic features including investments,
@@ -63,24 +87,38 @@ export class InvestmentManager {
   // Market Influence State
   private marketInfluenceHistory: MarketInfluenceEvent[] = [];
   private playerMarketPower: Map<string, number> = new Map(); // Market ID -> influence level (0-1)
+  private manipulationAlerts: Map<string, ManipulationAlert> = new Map();
+  private securityManager: SecurityManager | null = null;
+  private financialInstruments: FinancialInstrumentManager;
+  private random: SeededRandom;
 
   constructor(
     timeManager: TimeManager,
     worldManager: WorldManager,
     playerManager: PlayerManager,
     _factionManager: FactionManager,
-    economicSystem: EconomicSystem
+    economicSystem: EconomicSystem,
+    random: SeededRandom = new SeededRandom()
   ) {
     this.timeManager = timeManager;
     this.worldManager = worldManager;
     this.playerManager = playerManager;
     this.economicSystem = economicSystem;
+    this.random = random;
+    this.financialInstruments = new FinancialInstrumentManager(timeManager, worldManager, playerManager, economicSystem);
 
     this.initializePlayerPortfolio();
     this.generateInvestmentOpportunities();
     this.initializeSupplyChains();
   }
 
+  /**
+   * Set the security manager (dependency injection) - manipulation alerts are investigated by it
+   */
+  public setSecurityManager(securityManager: SecurityManager): void {
+    this.securityManager = securityManager;
+  }
+
   /**
    * Initialize the player's investment portfolio
    */
@@ -111,7 +149,7 @@ export class InvestmentManager {
    */
   private createStationInvestment(station: any): void {
     const investmentId = `station_${station.id}_${Date.now()}`;
-    const baseValue = 50000 + Math.random() * 200000; // 50k-250k credits
+    const baseValue = 50000 + this.random.next() * 200000; // 50k-250k credits
     
     const investment: Investment = {
       id: investmentId,
@@ -119,20 +157,20 @@ export class InvestmentManager {
       name: `${station.name} Infrastructure Development`,
       description: `Invest in upgrading ${station.name}'s infrastructure to improve production efficiency and reduce operational costs.`,
       requiredCapital: baseValue,
-      expectedReturn: 0.08 + Math.random() * 0.12, // 8-20% annual return
+      expectedReturn: 0.08 + this.random.next() * 0.12, // 8-20% annual return
       riskLevel: this.calculateStationRiskLevel(station),
-      duration: 180 + Math.random() * 180, // 6-12 months
+      duration: 180 + this.random.next() * 180, // 6-12 months
       sector: this.getStationSector(station),
       minimumInvestment: Math.floor(baseValue * 0.1),
       maximumInvestment: baseValue * 2,
-      currentInvestors: Math.floor(Math.random() * 10),
-      totalRaised: Math.floor(baseValue * (0.3 + Math.random() * 0.4)),
+      currentInvestors: Math.floor(this.random.next() * 10),
+      totalRaised: Math.floor(baseValue * (0.3 + this.random.next() * 0.4)),
       targetAmount: baseValue,
-      deadline: this.timeManager.getCurrentTimestamp() + (30 + Math.random() * 60) * 24 * 60 * 60 * 1000, // 30-90 days
+      deadline: this.timeManager.getCurrentTimestamp() + (30 + this.random.next() * 60) * 24 * 60 * 60 * 1000, // 30-90 days
       status: 'active',
       faction: station.faction,
       requirements: {
-        minimumReputation: 10 + Math.random() * 40,
+        minimumReputation: 10 + this.random.next() * 40,
         requiredLicenses: [],
         minimumCredits: Math.floor(baseValue * 0.1)
       }
@@ -146,7 +184,7 @@ export class InvestmentManager {
    */
   private createCommoditySpeculation(station: any): void {
     const commodities = ['electronics', 'rare_metals', 'food', 'medical_supplies', 'luxury_goods'];
-    const commodity = commodities[Math.floor(Math.random() * commodities.length)];
+    const commodity = this.random.pick(commodities);
     const speculationId = `spec_${commodity}_${station.id}_${Date.now()}`;
     
     const speculation: MarketSpeculation = {
@@ -154,21 +192,21 @@ export class InvestmentManager {
       type: 'commodity_futures',
       commodity,
       market: station.id,
-      position: Math.random() > 0.5 ? 'long' : 'short',
-      leverage: 1 + Math.random() * 4, // 1x to 5x leverage
+      position: this.random.next() > 0.5 ? 'long' : 'short',
+      leverage: 1 + this.random.next() * 4, // 1x to 5x leverage
       entryPrice: 0, // Will be set when position is opened
       currentPrice: 0,
-      quantity: Math.floor(100 + Math.random() * 500),
+      quantity: Math.floor(100 + this.random.next() * 500),
       margin: 0,
       profitLoss: 0,
-      confidence: Math.random(),
+      confidence: this.random.next(),
       marketSentiment: this.getMarketSentiment(commodity, station.id),
-      expirationDate: this.timeManager.getCurrentTimestamp() + (7 + Math.random() * 23) * 24 * 60 * 60 * 1000, // 1-4 weeks
+      expirationDate: this.timeManager.getCurrentTimestamp() + (7 + this.random.next() * 23) * 24 * 60 * 60 * 1000, // 1-4 weeks
       riskMetrics: {
-        volatility: Math.random() * 0.5,
-        beta: 0.5 + Math.random() * 1.5,
+        volatility: this.random.next() * 0.5,
+        beta: 0.5 + this.random.next() * 1.5,
         maxLoss: 0,
-        probabilityOfProfit: 0.3 + Math.random() * 0.4
+        probabilityOfProfit: 0.3 + this.random.next() * 0.4
       }
     };
 
@@ -187,9 +225,9 @@ export class InvestmentManager {
       'exploration_mission'
     ];
     
-    const venture = ventures[Math.floor(Math.random() * ventures.length)];
+    const venture = this.random.pick(ventures);
     const investmentId = `faction_${station.faction}_${venture}_${Date.now()}`;
-    const baseValue = 100000 + Math.random() * 500000; // 100k-600k credits
+    const baseValue = 100000 + this.random.next() * 500000; // 100k-600k credits
     
     const investment: Investment = {
       id: investmentId,
@@ -197,20 +235,20 @@ export class InvestmentManager {
       name: `${station.faction} ${venture.replace('_', ' ')}`,
       description: this.getFactionVentureDescription(station.faction, venture),
       requiredCapital: baseValue,
-      expectedReturn: 0.12 + Math.random() * 0.18, // 12-30% return (higher risk)
+      expectedReturn: 0.12 + this.random.next() * 0.18, // 12-30% return (higher risk)
       riskLevel: 'high',
-      duration: 90 + Math.random() * 270, // 3-12 months
+      duration: 90 + this.random.next() * 270, // 3-12 months
       sector: venture,
       minimumInvestment: Math.floor(baseValue * 0.05),
       maximumInvestment: baseValue,
-      currentInvestors: Math.floor(Math.random() * 5),
-      totalRaised: Math.floor(baseValue * (0.1 + Math.random() * 0.3)),
+      currentInvestors: Math.floor(this.random.next() * 5),
+      totalRaised: Math.floor(baseValue * (0.1 + this.random.next() * 0.3)),
       targetAmount: baseValue,
-      deadline: this.timeManager.getCurrentTimestamp() + (14 + Math.random() * 28) * 24 * 60 * 60 * 1000, // 2-6 weeks
+      deadline: this.timeManager.getCurrentTimestamp() + (14 + this.random.next() * 28) * 24 * 60 * 60 * 1000, // 2-6 weeks
       status: 'active',
       faction: station.faction,
       requirements: {
-        minimumReputation: 25 + Math.random() * 50,
+        minimumReputation: 25 + this.random.next() * 50,
         requiredLicenses: [],
         minimumCredits: Math.floor(baseValue * 0.05)
       }
@@ -245,13 +283,13 @@ export class InvestmentManager {
         type: 'raw_material',
         commodity: material,
         tier: 0,
-        productionCapacity: 1000 + Math.random() * 2000,
+        productionCapacity: 1000 + this.random.next() * 2000,
         currentProduction: 0,
-        efficiency: 0.8 + Math.random() * 0.2,
+        efficiency: 0.8 + this.random.next() * 0.2,
         suppliers: [],
         consumers: [],
         location: this.getRandomLocation(),
-        operatingCosts: 100 + Math.random() * 200
+        operatingCosts: 100 + this.random.next() * 200
       });
     }
     
@@ -261,13 +299,13 @@ export class InvestmentManager {
       type: 'processing',
       commodity,
       tier: 1,
-      productionCapacity: 500 + Math.random() * 1000,
+      productionCapacity: 500 + this.random.next() * 1000,
       currentProduction: 0,
-      efficiency: 0.7 + Math.random() * 0.3,
+      efficiency: 0.7 + this.random.next() * 0.3,
       suppliers: rawMaterials.map(mat => `raw_${mat}`),
       consumers: [],
       location: this.getRandomLocation(),
-      operatingCosts: 200 + Math.random() * 400
+      operatingCosts: 200 + this.random.next() * 400
     });
     
     // Manufacturing level
@@ -276,13 +314,13 @@ export class InvestmentManager {
       type: 'manufacturing',
       commodity,
       tier: 2,
-      productionCapacity: 200 + Math.random() * 500,
+      productionCapacity: 200 + this.random.next() * 500,
       currentProduction: 0,
-      efficiency: 0.6 + Math.random() * 0.4,
+      efficiency: 0.6 + this.random.next() * 0.4,
       suppliers: [`process_${commodity}`],
       consumers: [],
       location: this.getRandomLocation(),
-      operatingCosts: 500 + Math.random() * 1000
+      operatingCosts: 500 + this.random.next() * 1000
     });
     
     // Create dependencies between tiers
@@ -291,11 +329,11 @@ export class InvestmentManager {
         supplierId: chain[i].id,
         consumerId: chain[i + 1].id,
         commodity: chain[i].commodity,
-        requiredRatio: 1.5 + Math.random() * 2.5, // How much raw material per unit of output
-        flexibility: Math.random() * 0.5, // How easily substitutions can be made
-        transportCost: 10 + Math.random() * 50,
-        leadTime: 1 + Math.random() * 14, // Days
-        reliability: 0.8 + Math.random() * 0.2
+        requiredRatio: 1.5 + this.random.next() * 2.5, // How much raw material per unit of output
+        flexibility: this.random.next() * 0.5, // How easily substitutions can be made
+        transportCost: 10 + this.random.next() * 50,
+        leadTime: 1 + this.random.next() * 14, // Days
+        reliability: 0.8 + this.random.next() * 0.2
       });
     }
     
@@ -381,7 +419,7 @@ export class InvestmentManager {
     if (!chain) return;
     
     // Randomly select nodes to disrupt
-    const disruptedNodes = chain.filter(() => Math.random() < severity * 0.3);
+    const disruptedNodes = chain.filter(() => this.random.next() < severity * 0.3);
     
     for (const node of disruptedNodes) {
       node.efficiency *= (1 - severity);
@@ -399,12 +437,13 @@ export class InvestmentManager {
    * Calculate player's market influence in a specific market
    */
   public calculateMarketInfluence(marketId: string): number {
-    const tradeHistory = this.getPlayerTradeHistory(marketId);
-    const totalVolume = this.getMarketTotalVolume(marketId);
+    const since = this.timeManager.getCurrentTimestamp() - INFLUENCE_WINDOW;
+    const tradeHistory = this.getPlayerTradeHistory(marketId, since);
+    const totalVolume = this.getMarketTotalVolume(marketId, since);
     
     if (totalVolume === 0) return 0;
     
-    const playerVolume = tradeHistory.reduce((sum, trade) => sum + trade.volume, 0);
+    const playerVolume = tradeHistory.reduce((sum, trade) => sum + trade.quantity, 0);
     const influence = Math.min(playerVolume / totalVolume, 0.3); // Cap at 30% influence
     
     this.playerMarketPower.set(marketId, influence);
@@ -412,7 +451,8 @@ export class InvestmentManager {
   }
 
   /**
-   * Execute economic warfare action
+   * Execute economic warfare action. Credits are only spent if the action
+   * goes through; it always costs reputation with the factions it hurts.
    */
   public executeEconomicWarfare(action: EconomicWarfareAction): boolean {
     // Check if player has sufficient influence
@@ -422,18 +462,33 @@ export class InvestmentManager {
     // Check costs
     if (!this.playerManager.spendCredits(action.cost)) return false;
     
+    let executed: boolean;
     switch (action.type) {
       case 'market_corner':
-        return this.executeMarketCorner(action);
+        executed = this.executeMarketCorner(action, influence);
+        break;
       case 'supply_disruption':
-        return this.executeSupplyDisruption(action);
+        executed = this.executeSupplyDisruption(action, influence);
+        break;
       case 'price_manipulation':
-        return this.executePriceManipulation(action);
+        executed = this.executePriceManipulation(action, influence);
+        break;
       case 'trade_embargo':
-        return this.executeTradeEmbargo(action);
+        executed = this.executeTradeEmbargo(action, influence);
+        break;
       default:
-        return false;
+        executed = false;
+    }
+
+    if (!executed) {
+      this.playerManager.addCredits(action.cost); // Refund
+      return false;
+    }
+
+    for (const [factionId, change] of Object.entries(action.reputationImpact)) {
+      this.playerManager.modifyFactionReputation(factionId, change, `Economic warfare: ${action.type.replace(/_/g, ' ')}`);
     }
+    return true;
   }
 
   /**
@@ -450,7 +505,7 @@ export class InvestmentManager {
       const expectedDailyReturn = investment.expectedReturn / 365;
       
       // Add some volatility to returns
-      const volatility = Math.random() * 0.1 - 0.05; // ±5%
+      const volatility = this.random.next() * 0.1 - 0.05; // ±5%
       const actualDailyReturn = expectedDailyReturn + volatility;
       
       investment.actualReturn = investment.amount * actualDailyReturn * daysSinceInvestment;
@@ -464,6 +519,9 @@ export class InvestmentManager {
     
     // Update supply chains
     this.updateSupplyChains();
+
+    // Update bonds, shares and loans
+    this.financialInstruments.update();
   }
 
   // Helper methods
@@ -480,11 +538,11 @@ export class InvestmentManager {
 
   private getStationSector(_station: any): string {
     const sectors = ['mining', 'manufacturing', 'trade', 'research', 'defense'];
-    return sectors[Math.floor(Math.random() * sectors.length)];
+    return this.random.pick(sectors);
   }
 
   private getMarketSentiment(_commodity: string, _marketId: string): 'bullish' | 'bearish' | 'neutral' {
-    const sentiment = Math.random();
+    const sentiment = this.random.next();
     if (sentiment < 0.33) return 'bearish';
     if (sentiment < 0.66) return 'neutral';
     return 'bullish';
@@ -514,7 +572,7 @@ export class InvestmentManager {
 
   private getRandomLocation(): string {
     const stations = this.worldManager.getAllStations();
-    return stations[Math.floor(Math.random() * stations.length)]?.id || 'unknown';
+    return this.random.pick(stations)?.id || 'unknown';
   }
 
   private cascadeSupplyEffects(node: SupplyChainNode, severity: number): void {
@@ -541,37 +599,168 @@ export class InvestmentManager {
     // economicSystem.adjustCommodityPrice(commodity, priceIncrease);
   }
 
-  private getPlayerTradeHistory(_marketId: string): any[] {
-    // This would fetch actual trade history from the player manager
-    return [];
+  private getPlayerTradeHistory(marketId: string, since: number): PlayerTrade[] {
+    return this.economicSystem.getPlayerTradeHistory(marketId, since);
   }
 
-  private getMarketTotalVolume(_marketId: string): number {
-    // This would fetch total market volume from economic system
-    return 10000 + Math.random() * 50000;
+  private getMarketTotalVolume(marketId: string, since: number): number {
+    return this.economicSystem.getMarketVolume(marketId, since);
   }
 
-  private executeMarketCorner(_action: EconomicWarfareAction): boolean {
-    // Implementation for cornering a market
-    return true;
+  /**
+   * Buy up most of a market's stock and hold it off the market. With the
+   * shelves empty the price soars, the more so the bigger the player's grip.
+   */
+  private executeMarketCorner(action: EconomicWarfareAction, influence: number): boolean {
+    if (!action.targetCommodity) return false;
+
+    const targets = [{ stationId: action.targetMarket, commodityId: action.targetCommodity }];
+    return this.pressureMarkets(action, 'market_cornering', influence, targets, () => ({
+      type: 'supply-shortage',
+      supplyChange: -0.8,
+      priceMultiplier: 1.3 + influence,
+      durationHours: 72,
+      description: `Someone has bought up nearly all the ${action.targetCommodity} on sale`
+    }), ['Bulk buy-up of the station\'s stock', 'Goods withheld from resale']);
   }
 
-  private executeSupplyDisruption(action: EconomicWarfareAction): boolean {
-    // Implementation for disrupting supply chains
-    this.simulateSupplyDisruption(action.targetCommodity || 'electronics', 0.7);
-    return true;
+  /**
+   * Sabotage everyone who makes a commodity. Output drops at each producer,
+   * and the target market runs short as deliveries dry up.
+   */
+  private executeSupplyDisruption(action: EconomicWarfareAction, influence: number): boolean {
+    const commodityId = action.targetCommodity;
+    if (!commodityId) return false;
+
+    const producers = this.worldManager.getAllStations()
+      .filter(station => this.economicSystem.getStationEconomics(station.id)?.produces.some(production => production.commodityId === commodityId))
+      .map(station => station.id);
+    const targets = Array.from(new Set([action.targetMarket, ...producers])).map(stationId => ({ stationId, commodityId }));
+
+    const disrupted = this.pressureMarkets(action, 'supply_manipulation', influence, targets, () => ({
+      type: 'supply-shortage',
+      supplyChange: -0.6,
+      priceMultiplier: 1.2 + influence,
+      durationHours: 96,
+      description: `Breakdowns at ${commodityId} producers have cut supplies`
+    }), ['Unexplained breakdowns at producers', 'Shipments lost in transit']);
+    if (disrupted) {
+      this.simulateSupplyDisruption(commodityId, 0.7);
+    }
+    return disrupted;
   }
 
-  private executePriceManipulation(_action: EconomicWarfareAction): boolean {
-    // Implementation for manipulating prices
-    return true;
+  /**
+   * Talk a price up with rumours and wash trades: buyers pile in on demand that
+   * isn't really there, and the price holds until the story falls apart.
+   */
+  private executePriceManipulation(action: EconomicWarfareAction, influence: number): boolean {
+    if (!action.targetCommodity) return false;
+
+    const targets = [{ stationId: action.targetMarket, commodityId: action.targetCommodity }];
+    return this.pressureMarkets(action, 'price_manipulation', influence, targets, () => ({
+      type: 'demand-spike',
+      demandChange: 0.5 + influence,
+      priceMultiplier: 1.15 + influence / 2,
+      durationHours: 24,
+      description: `Rumours of a ${action.targetCommodity} shortage are driving buyers wild`
+    }), ['Matched trades between related accounts', 'Coordinated rumours ahead of price moves']);
+  }
+
+  /**
+   * Choke off imports to every station of the target faction (or just the
+   * target market) - the target commodity, or everything the stations consume.
+   */
+  private executeTradeEmbargo(action: EconomicWarfareAction, influence: number): boolean {
+    const stationIds = action.targetFaction
+      ? this.worldManager.getAllStations().filter(station => station.faction === action.targetFaction).map(station => station.id)
+      : [action.targetMarket];
+
+    const targets = stationIds.flatMap(stationId =>
+      (action.targetCommodity
+        ? [action.targetCommodity]
+        : this.economicSystem.getStationEconomics(stationId)?.consumes.map(consumption => consumption.commodityId) ?? []
+      ).map(commodityId => ({ stationId, commodityId }))
+    );
+
+    return this.pressureMarkets(action, 'supply_manipulation', influence, targets, commodityId => ({
+      type: 'trade-disruption',
+      supplyChange: -0.5,
+      priceMultiplier: 1.4,
+      durationHours: 168,
+      description: `An embargo has cut off ${commodityId} deliveries`
+    }), ['Freight contracts cancelled en masse', 'Shippers pressured to refuse the route']);
   }
 
-  private executeTradeEmbargo(_action: EconomicWarfareAction): boolean {
-    // Implementation for trade embargos
+  /**
+   * Put pressure on a set of commodities in a set of markets, record the
+   * player's hand in it and give the regulators their chance.
+   */
+  private pressureMarkets(
+    action: EconomicWarfareAction,
+    type: MarketInfluenceType,
+    influence: number,
+    targets: Array<{ stationId: string; commodityId: string }>,
+    getPressure: (commodityId: string) => MarketPressure,
+    suspiciousActivity: string[]
+  ): boolean {
+    let volumeAffected = 0;
+    let priceImpact = 0;
+    let pressured = 0;
+    for (const { stationId, commodityId } of targets) {
+      const marketCommodity = this.economicSystem.getMarket(stationId)?.commodities.get(commodityId);
+      const stockBefore = marketCommodity?.available ?? 0;
+      const result = this.economicSystem.applyMarketPressure(stationId, commodityId, getPressure(commodityId));
+      if (!marketCommodity || !result) continue;
+
+      pressured++;
+      volumeAffected += Math.abs(stockBefore - marketCommodity.available);
+      priceImpact += (result.priceAfter - result.priceBefore) / Math.max(1, result.priceBefore) * 100;
+    }
+    if (pressured === 0) return false;
+
+    const event: MarketInfluenceEvent = {
+      id: `influence-${this.timeManager.getCurrentTimestamp()}-${this.random.next().toString(36).substr(2, 6)}`,
+      type,
+      market: action.targetMarket,
+      commodity: action.targetCommodity ?? 'all',
+      timestamp: this.timeManager.getCurrentTimestamp(),
+      playerInfluence: influence,
+      volumeAffected,
+      priceImpact: priceImpact / pressured,
+      duration: action.executionTime,
+      consequences: action.legalConsequences
+    };
+    this.marketInfluenceHistory.push(event);
+    this.detectManipulation(action, event, suspiciousActivity);
     return true;
   }
 
+  /**
+   * Roll whether market regulators notice an action. Riskier actions and
+   * better-policed stations are more likely to raise an alert, which is handed
+   * to station security to investigate as a financial crime.
+   */
+  private detectManipulation(action: EconomicWarfareAction, event: MarketInfluenceEvent, suspiciousActivity: string[]): void {
+    const securityLevel = this.economicSystem.getMarket(action.targetMarket)?.demandFactors.securityLevel ?? 0.5;
+    const confidence = DETECTION_CHANCE[action.riskLevel] * (0.5 + securityLevel / 2);
+    if (!this.random.chance(confidence)) return;
+
+    const alert: ManipulationAlert = {
+      id: `alert-${event.id}`,
+      market: event.market,
+      commodity: event.commodity,
+      suspiciousActivity,
+      confidenceLevel: confidence,
+      timestamp: event.timestamp,
+      playerImplication: Math.min(1, 0.5 + event.playerInfluence),
+      investigationStatus: 'pending',
+      consequences: action.legalConsequences
+    };
+    this.manipulationAlerts.set(alert.id, alert);
+    this.securityManager?.investigateManipulationAlert(alert);
+  }
+
   private updateSpeculations(): void {
     const currentTime = this.timeManager.getCurrentTimestamp();
     
@@ -701,8 +890,48 @@ export class InvestmentManager {
     return this.playerMarketPower.get(marketId) || 0;
   }
 
+  public getMarketInfluenceHistory(): MarketInfluenceEvent[] {
+    return this.marketInfluenceHistory;
+  }
+
+  public getFinancialInstruments(): FinancialInstrumentManager {
+    return this.financialInstruments;
+  }
+
+  public getManipulationAlerts(): ManipulationAlert[] {
+    return Array.from(this.manipulationAlerts.values());
+  }
+
+  /**
+   * Close out everything the player holds or owes for a new run: portfolio,
+   * speculations, market influence, securities and loans. The opportunities
+   * and securities on offer stay.
+   */
+  public resetPlayerHoldings(): void {
+    this.playerPortfolio = {
+      totalValue: 0,
+      totalInvested: 0,
+      totalReturns: 0,
+      riskLevel: 'moderate',
+      diversificationScore: 0,
+      investments: [],
+      speculationHistory: [],
+      performanceMetrics: {
+        roi: 0,
+        volatility: 0,
+        sharpeRatio: 0,
+        maxDrawdown: 0
+      }
+    };
+    this.activeSpeculations.clear();
+    this.marketInfluenceHistory = [];
+    this.playerMarketPower.clear();
+    this.manipulationAlerts.clear();
+    this.financialInstruments.deserialize({ ...this.financialInstruments.serialize(), holdings: [], loans: [] });
+  }
+
   // Save/Load functionality
-  public serialize(): any {
+  public serialize(): InvestmentManagerSaveData {
     return {
       playerPortfolio: this.playerPortfolio,
       availableInvestments: Array.from(this.availableInvestments.entries()),
@@ -710,11 +939,13 @@ export class InvestmentManager {
       supplyChains: Array.from(this.supplyChains.entries()),
       chainDependencies: Array.from(this.chainDependencies.entries()),
       marketInfluenceHistory: this.marketInfluenceHistory,
-      playerMarketPower: Array.from(this.playerMarketPower.entries())
+      playerMarketPower: Array.from(this.playerMarketPower.entries()),
+      manipulationAlerts: Array.from(this.manipulationAlerts.values()),
+      financialInstruments: this.financialInstruments.serialize()
     };
   }
 
-  public deserialize(data: any): void {
+  public deserialize(data: InvestmentManagerSaveData): void {
     if (data.playerPortfolio) this.playerPortfolio = data.playerPortfolio;
     if (data.availableInvestments) this.availableInvestments = new Map(data.availableInvestments);
     if (data.activeSpeculations) this.activeSpeculations = new Map(data.activeSpeculations);
@@ -722,5 +953,7 @@ export class InvestmentManager {
     if (data.chainDependencies) this.chainDependencies = new Map(data.chainDependencies);
     if (data.marketInfluenceHistory) this.marketInfluenceHistory = data.marketInfluenceHistory;
     if (data.playerMarketPower) this.playerMarketPower = new Map(data.playerMarketPower);
+    if (data.manipulationAlerts) this.manipulationAlerts = new Map(data.manipulationAlerts.map(alert => [alert.id, alert]));
+    if (data.financialInstruments) this.financialInstruments.deserialize(data.financialInstruments);
   }
 }
\ No newline at end of file
@@ -43,6 +43,10 @@ export interface MaintenanceQuoteItem {
   priority: 'low' | 'medium' | 'high' | 'critical';
 }
 
+export interface MaintenanceManagerSaveData {
+  maintenanceHistory: Array<[string, MaintenanceRecord[]]>;
+}
+
 export class MaintenanceManager {
   private maintenanceHistory: Map<string, MaintenanceRecord[]> = new Map(); // shipId -> records
   private timeManager: TimeManager;
@@ -533,10 +537,17 @@ export class MaintenanceManager {
     };
   }
 
+  /**
+   * Forget every ship's maintenance history
+   */
+  reset(): void {
+    this.maintenanceHistory.clear();
+  }
+
   /**
    * Serialize maintenance data for saving
    */
-  serialize(): { maintenanceHistory: Array<[string, MaintenanceRecord[]]> } {
+  serialize(): MaintenanceManagerSaveData {
     return {
       maintenanceHistory: Array.from(this.maintenanceHistory.entries())
     };
@@ -545,7 +556,7 @@ export class MaintenanceManager {
   /**
    * Load maintenance data from save
    */
-  deserialize(data: { maintenanceHistory: Array<[string, MaintenanceRecord[]]> }): void {
+  deserialize(data: MaintenanceManagerSaveData): void {
     if (data.maintenanceHistory) {
       this.maintenanceHistory = new Map(data.maintenanceHistory);
     }
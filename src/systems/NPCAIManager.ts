@@ -7,20 +7,46 @@ import {
   ConversationNode,
   NPCMarketBehavior,
   NPCFleet,
+  FleetFormation,
+  FleetRole,
   TradeDecision,
   CombatDecision,
-  AvoidanceTarget
+  AvoidanceTarget,
+  ConversationChoice,
+  ConversationCondition,
+  ConversationEffect,
+  ConversationTree
 } from '../types/npc';
+import { CharacterSkills } from '../types/character';
 import { TimeManager } from './TimeManager';
 import { WorldManager } from './WorldManager';
 import { PlayerManager } from './PlayerManager';
 import { NavigationManager } from './NavigationManager';
 import { RouteAnalyzer } from './RouteAnalyzer';
+import { EconomicSystem } from './EconomicSystem';
+import { QuestManager } from './QuestManager';
+import { CharacterManager } from './CharacterManager';
+import { ContactFactory } from './ContactManager';
 import { Station, StarSystem } from '../types/world';
 import { SceneManager } from '../engine/SceneManager';
 import { NPCActor } from '../engine/NPCActor';
 import { NPCScheduleManager } from './NPCScheduleManager';
+import { getCommodity } from '../data/commodities';
+import { CONVERSATION_TREES } from '../data/conversations';
+import { isShortLived } from '../utils/spoilage';
 import { createLayeredPosition } from '../utils/coordinates';
+import { FUEL_PRICE_PER_UNIT, calculateNPCTravelFuelCost, consumeNPCFuel } from '../utils/fuel';
+import { SeededRandom } from '../utils/SeededRandom';
+
+export interface NPCAIManagerSaveData {
+  npcShips: Array<[string, NPCShip]>;
+  marketBehaviors: Array<[string, NPCMarketBehavior]>;
+  npcFleets: Array<[string, NPCFleet]>;
+  activeConversations?: Array<[string, NPCConversation]>; // Absent in older saves
+  lastUpdateTime: number;
+  lastSpawnTime: number;
+  lastMarketUpdateTime: number;
+}
 
 /**
  * NPCAIManager handles all NPC ship behavior, AI decision-making, and interactions.
@@ -49,21 +75,30 @@ export class NPCAIManager {
   private sceneManager: SceneManager | null = null;
   private scheduleManager: NPCScheduleManager;
   private routeAnalyzer: RouteAnalyzer;
+  private economicSystem: EconomicSystem | null = null;
+  private questManager: QuestManager | null = null;
+  private characterManager: CharacterManager | null = null;
   // These will be used in future updates
   // private factionManager: FactionManager;
-  // private economicSystem: EconomicSystem;
   
   private npcShips: Map<string, NPCShip> = new Map();
   private npcActors: Map<string, NPCActor> = new Map(); // New: Actor-based NPCs
   private activeConversations: Map<string, NPCConversation> = new Map();
   private marketBehaviors: Map<string, NPCMarketBehavior> = new Map();
   private npcFleets: Map<string, NPCFleet> = new Map();
+  private fuelTrackedPositions: Map<string, { systemId: string; x: number; y: number }> = new Map(); // Where each NPC was last charged fuel from
+  private strandedSince: Map<string, number> = new Map(); // When each NPC's tank ran dry, until a patrol reaches it
   
   // AI configuration
   private readonly AI_UPDATE_INTERVAL = 5000; // 5 seconds between AI decisions
   private readonly MAX_NPCS_PER_SYSTEM = 8; // Limit for performance
   private readonly NPC_SPAWN_PROBABILITY = 0.1; // 10% chance per update cycle
   private readonly MARKET_PARTICIPATION_FREQUENCY = 300000; // 5 minutes
+  private readonly FLEET_SPAWN_PROBABILITY = 0.25; // Chance per system of forming a fleet
+  private readonly FLEET_REGROUP_MORALE = 50; // Average risk tolerance survivors need to regroup after losing their leader
+  private readonly FORMATION_TOLERANCE = 15; // Distance from its slot before a fleet member corrects course
+  private readonly NPC_RESCUE_DELAY = 60 * 60 * 1000; // 1 hour adrift before a patrol answers a stranded NPC
+  private readonly NPC_RESCUE_FUEL_FRACTION = 0.15; // Share of the tank a patrol donates, as it does for the player
   
   // Personality templates for different NPC types
   private personalityTemplates: Map<string, NPCPersonality> = new Map();
@@ -71,15 +106,18 @@ export class NPCAIManager {
   private lastUpdateTime = 0;
   private lastSpawnTime = 0;
   private lastMarketUpdateTime = 0;
+  private random: SeededRandom;
 
   constructor(
     timeManager: TimeManager,
     worldManager: WorldManager,
-    playerManager: PlayerManager
+    playerManager: PlayerManager,
+    random: SeededRandom = new SeededRandom()
   ) {
     this.timeManager = timeManager;
     this.worldManager = worldManager;
     this.playerManager = playerManager;
+    this.random = random;
     
     // Initialize the schedule manager
     this.scheduleManager = new NPCScheduleManager(timeManager, worldManager);
@@ -99,6 +137,27 @@ export class NPCAIManager {
     this.navigationManager = navigationManager;
   }
 
+  /**
+   * Set the economic system so trader NPCs can post orders on station markets (optional)
+   */
+  setEconomicSystem(economicSystem: EconomicSystem): void {
+    this.economicSystem = economicSystem;
+  }
+
+  /**
+   * Set the quest manager so conversations can check quest flags and start quests (optional)
+   */
+  setQuestManager(questManager: QuestManager): void {
+    this.questManager = questManager;
+  }
+
+  /**
+   * Set the character manager so conversations can check the player's skills (optional)
+   */
+  setCharacterManager(characterManager: CharacterManager): void {
+    this.characterManager = characterManager;
+  }
+
   /**
    * Set the scene manager for actor-based NPC management
    */
@@ -168,11 +227,16 @@ export class NPCAIManager {
     for (const sector of galaxy.sectors) {
       for (const system of sector.systems) {
         // Add 2-4 NPCs per system initially
-        const npcCount = Math.floor(Math.random() * 3) + 2;
+        const npcCount = Math.floor(this.random.next() * 3) + 2;
         
         for (let i = 0; i < npcCount; i++) {
           this.spawnNPCInSystem(system, this.getRandomNPCType());
         }
+
+        // Some systems also start with a convoy, wolf pack or task force
+        if (this.random.chance(this.FLEET_SPAWN_PROBABILITY)) {
+          this.formFleetInSystem(system, this.getRandomFleetFormation());
+        }
       }
     }
   }
@@ -184,7 +248,7 @@ export class NPCAIManager {
     const types = ['trader', 'civilian', 'patrol', 'pirate', 'transport'];
     const weights = [0.4, 0.3, 0.15, 0.1, 0.05]; // Weighted distribution
     
-    const random = Math.random();
+    const random = this.random.next();
     let cumulative = 0;
     
     for (let i = 0; i < types.length; i++) {
@@ -214,8 +278,8 @@ export class NPCAIManager {
       return null;
     }
 
-    const spawnStation = system.stations[Math.floor(Math.random() * system.stations.length)];
-    const npcId = `npc_${npcType}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const spawnStation = this.random.pick(system.stations);
+    const npcId = `npc_${npcType}_${Date.now()}_${this.random.next().toString(36).substr(2, 9)}`;
     
     const npc: NPCShip = {
       id: npcId,
@@ -234,7 +298,7 @@ export class NPCAIManager {
         pathfindingWaypoints: [],
         currentWaypoint: 0,
         avoidanceVector: { x: 0, y: 0 },
-        maneuverability: Math.floor(Math.random() * 40) + 40, // 40-80
+        maneuverability: Math.floor(this.random.next() * 40) + 40, // 40-80
         maxAcceleration: this.getBaseSpeed(npcType) * 0.5, // Half of max speed per second
         brakingDistance: this.getBaseSpeed(npcType) * 2 // Distance needed to stop
       },
@@ -281,8 +345,8 @@ export class NPCAIManager {
     const suffixes = ['Alpha', 'Beta', 'Prime', 'One', 'Two', 'Seven', 'Nine', 'X', 'Z'];
     
     const prefix = prefixes[npcType as keyof typeof prefixes] || prefixes.civilian;
-    const selectedPrefix = prefix[Math.floor(Math.random() * prefix.length)];
-    const selectedSuffix = suffixes[Math.floor(Math.random() * suffixes.length)];
+    const selectedPrefix = this.random.pick(prefix);
+    const selectedSuffix = this.random.pick(suffixes);
     
     return `${selectedPrefix} ${selectedSuffix}`;
   }
@@ -313,15 +377,15 @@ export class NPCAIManager {
       currentGoal: this.generateInitialGoal(npcType),
       goalHistory: [],
       decisionCooldown: 0,
-      riskTolerance: Math.floor(Math.random() * 50) + 25, // 25-75
-      aggressiveness: Math.floor(Math.random() * 50) + (npcType === 'pirate' ? 50 : 10), // Pirates: 50-99, Others: 10-59
-      tradingSkill: Math.floor(Math.random() * 50) + (npcType === 'trader' ? 40 : 25),
+      riskTolerance: Math.floor(this.random.next() * 50) + 25, // 25-75
+      aggressiveness: Math.floor(this.random.next() * 50) + (npcType === 'pirate' ? 50 : 10), // Pirates: 50-99, Others: 10-59
+      tradingSkill: Math.floor(this.random.next() * 50) + (npcType === 'trader' ? 40 : 25),
       lastInteraction: null,
       // Enhanced AI properties for Phase 5.2
-      combatSkill: Math.floor(Math.random() * 50) + (npcType === 'pirate' ? 30 : 15),
-      navigationSkill: Math.floor(Math.random() * 40) + 30, // 30-70
-      socialSkill: Math.floor(Math.random() * 40) + (npcType === 'civilian' ? 40 : 20),
-      marketKnowledge: Math.floor(Math.random() * 50) + (npcType === 'trader' ? 35 : 15),
+      combatSkill: Math.floor(this.random.next() * 50) + (npcType === 'pirate' ? 30 : 15),
+      navigationSkill: Math.floor(this.random.next() * 40) + 30, // 30-70
+      socialSkill: Math.floor(this.random.next() * 40) + (npcType === 'civilian' ? 40 : 20),
+      marketKnowledge: Math.floor(this.random.next() * 50) + (npcType === 'trader' ? 35 : 15),
       threatAssessment: {
         nearbyThreats: [],
         currentThreatLevel: 0,
@@ -339,7 +403,7 @@ export class NPCAIManager {
    * Generate initial goal for NPC based on type
    */
   private generateInitialGoal(npcType: string): NPCGoal {
-    const goalId = `goal_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    const goalId = `goal_${Date.now()}_${this.random.next().toString(36).substr(2, 6)}`;
     const currentTime = this.timeManager.getCurrentTimestamp();
     
     switch (npcType) {
@@ -403,10 +467,10 @@ export class NPCAIManager {
         'consumer-goods', 'fusion-cells', 'protein-rations'
       ];
       
-      const numItems = Math.floor(Math.random() * 3) + 1; // 1-3 different items
+      const numItems = Math.floor(this.random.next() * 3) + 1; // 1-3 different items
       for (let i = 0; i < numItems; i++) {
-        const commodity = possibleCargo[Math.floor(Math.random() * possibleCargo.length)];
-        const quantity = Math.floor(Math.random() * 20) + 5; // 5-24 units
+        const commodity = this.random.pick(possibleCargo);
+        const quantity = Math.floor(this.random.next() * 20) + 5; // 5-24 units
         currentCargo.set(commodity, quantity);
       }
     }
@@ -433,7 +497,7 @@ export class NPCAIManager {
       default: {
         // Traders and civilians can be from various factions
         const factions = ['Traders Guild', 'Independent', station.faction];
-        return factions[Math.floor(Math.random() * factions.length)];
+        return this.random.pick(factions);
       }
     }
   }
@@ -442,7 +506,7 @@ export class NPCAIManager {
    * Get initial reputation with player
    */
   private getInitialReputation(): number {
-    return Math.floor(Math.random() * 21) - 10; // -10 to +10
+    return Math.floor(this.random.next() * 21) - 10; // -10 to +10
   }
 
   /**
@@ -458,7 +522,7 @@ export class NPCAIManager {
     };
 
     const range = creditRanges[npcType as keyof typeof creditRanges] || creditRanges.civilian;
-    return Math.floor(Math.random() * (range[1] - range[0])) + range[0];
+    return Math.floor(this.random.next() * (range[1] - range[0])) + range[0];
   }
 
   /**
@@ -475,16 +539,16 @@ export class NPCAIManager {
       stationId: station.id,
       commodityPreferences: new Map([
         ['electronics', 80],
-        ['medical_supplies', 70],
-        ['luxury_goods', 85],
+        ['medical-supplies', 70],
+        ['exotic-spices', 85],
         ['machinery', 60]
       ]),
       buyingBehavior: {
         priceThreshold: 1.2, // Won't buy above 120% of base price
         quantityLimits: new Map([
           ['electronics', 50],
-          ['medical_supplies', 30],
-          ['luxury_goods', 20]
+          ['medical-supplies', 30],
+          ['exotic-spices', 20]
         ]),
         frequency: 600000 // 10 minutes
       },
@@ -492,7 +556,8 @@ export class NPCAIManager {
         priceThreshold: 0.9, // Won't sell below 90% of base price
         stockLimits: new Map([
           ['electronics', 100],
-          ['medical_supplies', 80]
+          ['medical-supplies', 80],
+          ['machinery', 40]
         ]),
         frequency: 900000 // 15 minutes
       },
@@ -527,6 +592,9 @@ export class NPCAIManager {
       this.lastMarketUpdateTime = currentTime;
     }
     
+    // Keep fleets in formation and on a shared target
+    this.updateFleets();
+    
     // Update NPC movement and positions
     this.updateNPCMovement(deltaTime);
     
@@ -544,11 +612,14 @@ export class NPCAIManager {
       // Skip if NPC is on cooldown
       if (currentTime < npc.ai.decisionCooldown) continue;
       
+      this.refuelAtStation(npc);
+      this.rescueStrandedNPC(npc, currentTime);
+      
       // Make AI decision based on current goal and situation
       this.makeAIDecision(npc);
       
       // Set next decision cooldown
-      npc.ai.decisionCooldown = currentTime + (Math.random() * 10000) + 15000; // 15-25 seconds
+      npc.ai.decisionCooldown = currentTime + (this.random.next() * 10000) + 15000; // 15-25 seconds
     }
   }
 
@@ -567,6 +638,12 @@ export class NPCAIManager {
       }
     }
     
+    // Fleet members fight together and followers hold formation
+    const fleet = this.getFleetForNPC(npc.id);
+    if (fleet && this.processFleetDecision(npc, fleet)) {
+      return;
+    }
+    
     // Fallback to original AI decision making for non-scheduled NPCs
     const currentGoal = npc.ai.currentGoal;
     
@@ -654,11 +731,8 @@ export class NPCAIManager {
     
     switch (tradeDecision.action) {
       case 'travel':
-        if (tradeDecision.requiresGate) {
-          // Handle cross-sector travel via gate
-          this.executeGateTravel(npc, tradeDecision.requiresGate, tradeDecision.targetStationId!);
-        } else if (tradeDecision.targetStationId) {
-          // Normal intra-system travel
+        if (tradeDecision.targetStationId) {
+          // Cross-sector targets are reached hop by hop along a galaxy route
           this.setNPCDestination(npc, tradeDecision.targetStationId);
         }
         break;
@@ -776,8 +850,17 @@ export class NPCAIManager {
     
     if (system) {
       const targetStation = this.findStationById(system, targetStationId);
-      if (targetStation) {
+      if (!targetStation) {
+        // Station is in another system: take the next hop of the route towards it
+        this.travelTowardsStation(npc, targetStationId);
+      } else {
         // Use NPCActor if available, otherwise fallback to old system
+        // Stay put rather than set out on a trip the tank cannot cover
+        const distance = this.calculateDistance(npc.position.coordinates, targetStation.position);
+        if (npc.ship.fuel < calculateNPCTravelFuelCost(npc.ship, distance)) {
+          return;
+        }
+
         const npcActor = this.npcActors.get(npc.id);
         if (npcActor) {
           // Use actor-based movement with station target
@@ -797,6 +880,26 @@ export class NPCAIManager {
     }
   }
 
+  /**
+   * Take the first hop of the galaxy route to a station in another system.
+   * Arriving in the next system sets the destination again, so routes are
+   * followed one hop at a time. Traders and civilians prefer safe routes.
+   */
+  private travelTowardsStation(npc: NPCShip, targetStationId: string): void {
+    const preference = npc.type === 'trader' || npc.type === 'civilian' || npc.type === 'transport'
+      ? 'safest'
+      : 'shortest';
+    const route = this.worldManager.getPathfinder().findRouteToStation(npc.position.systemId, targetStationId, preference);
+    const leg = route?.legs[0];
+    if (!leg) return;
+
+    if (leg.type === 'gate' && leg.gateId) {
+      this.executeGateTravel(npc, leg.gateId, targetStationId);
+    } else {
+      this.executeSystemJump(npc, leg.toSystemId, targetStationId);
+    }
+  }
+
   /**
    * Enhanced NPC destination setting with optional time-based travel
    * Currently unused - kept for future feature development
@@ -962,7 +1065,7 @@ export class NPCAIManager {
       const availableStations = system.stations.filter(s => s.id !== currentStation);
       
       if (availableStations.length > 0) {
-        const targetStation = availableStations[Math.floor(Math.random() * availableStations.length)];
+        const targetStation = this.random.pick(availableStations);
         
         // Use the new destination system which will handle Actor vs legacy movement
         this.setNPCDestination(npc, targetStation.id);
@@ -1019,9 +1122,23 @@ export class NPCAIManager {
       };
     }
     
+    // Fleet members join the attack on their fleet's shared target
+    const fleet = this.getFleetForNPC(npc.id);
+    const fleetTarget = fleet ? this.resolveFleetTarget(fleet, npc) : null;
+    if (fleet && fleetTarget) {
+      return {
+        action: 'engage',
+        targetId: fleetTarget.id,
+        tacticalPosition: this.calculateTacticalPosition(npc, fleetTarget),
+        confidence: Math.min(90, ai.combatSkill + fleet.ships.length * 10),
+        reasoning: `Joining ${fleet.name} attack on ${fleetTarget.type}`
+      };
+    }
+    
     // Assess threat level and decide on response
     const threatLevel = ai.threatAssessment.currentThreatLevel;
-    const combatSkill = ai.combatSkill / 100;
+    // Each wingman makes the ship a quarter more effective
+    const combatSkill = Math.min(1, (ai.combatSkill / 100) * (1 + 0.25 * ((fleet?.ships.length || 1) - 1)));
     const aggressiveness = ai.aggressiveness / 100;
     const riskTolerance = ai.riskTolerance / 100;
     
@@ -1069,6 +1186,9 @@ export class NPCAIManager {
     // High aggressiveness and decent combat skill means engage
     if (aggressiveness > 0.6 && combatSkill > 0.3) {
       const tacticalPosition = this.calculateTacticalPosition(npc, bestTarget);
+      if (fleet) {
+        fleet.fleetGoal.parameters.set('target', bestTarget.id);
+      }
       return {
         action: 'engage',
         targetId: bestTarget.id,
@@ -1205,7 +1325,7 @@ export class NPCAIManager {
     const distance = Math.sqrt(dx * dx + dy * dy);
     
     if (distance > 0) {
-      const angle = Math.atan2(dy, dx) + (Math.PI / 4) * (0.5 - Math.random()) * navigationSkill;
+      const angle = Math.atan2(dy, dx) + (Math.PI / 4) * (0.5 - this.random.next()) * navigationSkill;
       const tacticalDistance = 50 + navigationSkill * 30; // Closer with better navigation
       
       return {
@@ -1229,8 +1349,10 @@ export class NPCAIManager {
     );
     pirate.movement.currentWaypoint = 0;
     
-    // Update goal to reflect combat engagement
-    pirate.ai.currentGoal.type = 'pirate';
+    // Update goal to reflect combat engagement; escorts keep their own goal while fighting for their fleet
+    if (pirate.type === 'pirate') {
+      pirate.ai.currentGoal.type = 'pirate';
+    }
     pirate.ai.currentGoal.parameters.set('target', targetId);
     pirate.ai.currentGoal.parameters.set('combatMode', 'engage');
     
@@ -1283,7 +1405,7 @@ export class NPCAIManager {
       const intimidationPower = pirate.ai.aggressiveness + pirate.ai.combatSkill;
       const targetResistance = target.ai.riskTolerance + (target.ai.combatSkill || 0);
       
-      const intimidationSuccess = intimidationPower > targetResistance + Math.random() * 50;
+      const intimidationSuccess = intimidationPower > targetResistance + this.random.next() * 50;
       
       if (intimidationSuccess) {
         // Target flees or complies
@@ -1335,7 +1457,7 @@ export class NPCAIManager {
     const system = this.findSystemById(galaxy, pirate.position.systemId);
     
     if (system && system.stations.length > 0) {
-      const randomStation = system.stations[Math.floor(Math.random() * system.stations.length)];
+      const randomStation = this.random.pick(system.stations);
       this.setNPCDestination(pirate, randomStation.id);
     }
   }
@@ -1345,7 +1467,7 @@ export class NPCAIManager {
    */
   private processIdleGoal(npc: NPCShip): void {
     // Occasionally choose a new goal based on personality
-    if (Math.random() < 0.1) { // 10% chance
+    if (this.random.next() < 0.1) { // 10% chance
       const newGoal = this.generateInitialGoal(npc.type);
       npc.ai.currentGoal = newGoal;
       npc.ai.goalHistory.push(newGoal);
@@ -1357,6 +1479,363 @@ export class NPCAIManager {
     }
   }
 
+  /**
+   * Get random fleet formation: trade convoys, pirate wolf packs or faction task forces
+   */
+  private getRandomFleetFormation(): FleetFormation['type'] {
+    const formations: FleetFormation['type'][] = ['convoy', 'attack', 'patrol'];
+    const weights = [0.5, 0.3, 0.2];
+    
+    const random = this.random.next();
+    let cumulative = 0;
+    
+    for (let i = 0; i < formations.length; i++) {
+      cumulative += weights[i];
+      if (random <= cumulative) {
+        return formations[i];
+      }
+    }
+    
+    return 'convoy'; // Fallback
+  }
+
+  /**
+   * Spawn a fleet's ships together at its leader's station and put them in formation
+   */
+  private formFleetInSystem(system: StarSystem, formationType: FleetFormation['type']): NPCFleet | null {
+    const compositions: Partial<Record<FleetFormation['type'], string[]>> = {
+      convoy: ['trader', 'transport', 'patrol', 'patrol'], // Traders with an escort patrol
+      attack: ['pirate', 'pirate', 'pirate'], // Wolf pack
+      patrol: ['patrol', 'patrol', 'patrol'] // Faction task force
+    };
+    const spacing: Partial<Record<FleetFormation['type'], number>> = { convoy: 60, attack: 40, patrol: 50 };
+    
+    const members = (compositions[formationType] || [])
+      .map(npcType => this.spawnNPCInSystem(system, npcType))
+      .filter((npc): npc is NPCShip => npc !== null);
+    
+    // Ships that did spawn carry on alone if the system is too full for a fleet
+    if (members.length < 2) {
+      return null;
+    }
+    
+    const leader = members[0];
+    // Patrols belong to their station's faction, so a fleet with escorts flies the station's flag
+    const faction = (members.find(npc => npc.type === 'patrol') ?? leader).faction;
+    const currentTime = this.timeManager.getCurrentTimestamp();
+    const fleet: NPCFleet = {
+      id: `fleet_${formationType}_${Date.now()}_${this.random.next().toString(36).substr(2, 9)}`,
+      name: this.generateFleetName(formationType, leader),
+      faction,
+      ships: members.map(npc => npc.id),
+      fleetGoal: {
+        id: `goal_${Date.now()}_${this.random.next().toString(36).substr(2, 6)}`,
+        type: leader.ai.currentGoal.type,
+        priority: leader.ai.currentGoal.priority,
+        startTime: currentTime,
+        parameters: new Map()
+      },
+      formation: {
+        type: formationType,
+        spacing: spacing[formationType] || 50,
+        roles: new Map()
+      },
+      commandShipId: leader.id,
+      lastUpdateTime: currentTime
+    };
+    this.assignFleetRoles(fleet);
+    
+    // Muster at the leader's station under one flag
+    members.forEach(npc => { npc.faction = faction; });
+    for (const npc of members.slice(1)) {
+      const offset = fleet.formation.roles.get(npc.id)!.position;
+      npc.position.stationId = leader.position.stationId;
+      npc.position.coordinates = {
+        ...leader.position.coordinates,
+        x: leader.position.coordinates.x + offset.x,
+        y: leader.position.coordinates.y + offset.y
+      };
+      this.npcActors.get(npc.id)?.setPosition(npc.position.coordinates);
+    }
+    
+    this.npcFleets.set(fleet.id, fleet);
+    return fleet;
+  }
+
+  /**
+   * Generate appropriate name for a fleet
+   */
+  private generateFleetName(formationType: FleetFormation['type'], leader: NPCShip): string {
+    switch (formationType) {
+      case 'convoy':
+        return `${leader.name} Convoy`;
+      case 'attack':
+        return `${leader.name} Wolf Pack`;
+      default:
+        return `${leader.faction} Task Force`;
+    }
+  }
+
+  /**
+   * Assign roles and formation slots to every ship in a fleet.
+   * Offsets are relative to the leader's heading: +x ahead, +y to the left.
+   */
+  private assignFleetRoles(fleet: NPCFleet): void {
+    const spacing = fleet.formation.spacing;
+    const leaderBehavior: FleetRole['behavior'] = fleet.formation.type === 'convoy' ? 'defensive' : 'aggressive';
+    let escortCount = 0;
+    let transportCount = 0;
+    
+    fleet.formation.roles.clear();
+    
+    for (const shipId of fleet.ships) {
+      const npc = this.npcShips.get(shipId);
+      if (!npc) continue;
+      
+      if (shipId === fleet.commandShipId) {
+        fleet.formation.roles.set(shipId, { type: 'leader', position: { x: 0, y: 0 }, behavior: leaderBehavior });
+        npc.movement.formation = { position: 'lead', offset: { x: 0, y: 0 } };
+        continue;
+      }
+      
+      let role: FleetRole;
+      let slot: 'follow_left' | 'follow_right' | 'follow_rear';
+      
+      if (fleet.formation.type === 'convoy' && npc.type !== 'patrol') {
+        // Cargo ships follow in column behind the leader
+        transportCount++;
+        role = { type: 'transport', position: { x: -transportCount * spacing, y: 0 }, behavior: 'support' };
+        slot = 'follow_rear';
+      } else {
+        // Escorts fly a wedge on alternating flanks
+        escortCount++;
+        const rank = Math.ceil(escortCount / 2);
+        const side = escortCount % 2 === 1 ? 1 : -1;
+        role = { type: 'escort', position: { x: -rank * spacing, y: side * rank * spacing }, behavior: 'aggressive' };
+        slot = side === 1 ? 'follow_left' : 'follow_right';
+      }
+      
+      fleet.formation.roles.set(shipId, role);
+      npc.movement.formation = { leaderId: fleet.commandShipId, position: slot, offset: { ...role.position } };
+    }
+  }
+
+  /**
+   * Make a fleet-level decision for a member. Returns true if the fleet handled it.
+   */
+  private processFleetDecision(npc: NPCShip, fleet: NPCFleet): boolean {
+    const isLeader = fleet.commandShipId === npc.id;
+    const leader = this.npcShips.get(fleet.commandShipId);
+    
+    // Followers left behind in another system travel after their leader
+    if (!isLeader && leader && leader.position.systemId !== npc.position.systemId) {
+      const leaderStationId = leader.movement.targetStationId || leader.position.stationId;
+      if (leaderStationId) {
+        this.setNPCDestination(npc, leaderStationId);
+      }
+      return true;
+    }
+    
+    // Fighting ships join the attack on the shared target
+    const role = fleet.formation.roles.get(npc.id);
+    if (fleet.fleetGoal.parameters.has('target') && role?.behavior === 'aggressive') {
+      const combatDecision = this.makeCombatDecision(npc);
+      if (combatDecision.action === 'engage' && combatDecision.targetId && combatDecision.tacticalPosition) {
+        this.initiateNPCCombat(npc, combatDecision.targetId, combatDecision.tacticalPosition);
+        return true;
+      }
+    }
+    
+    // Followers hold formation; leaders carry on with their own goal
+    return !isLeader;
+  }
+
+  /**
+   * Resolve a fleet's shared target if it is still in the member's system
+   */
+  private resolveFleetTarget(fleet: NPCFleet, npc: NPCShip): { id: string; type: string; position: { x: number; y: number }; threatLevel: number; value: number } | null {
+    const targetId = fleet.fleetGoal.parameters.get('target');
+    if (!targetId) return null;
+    
+    if (targetId === 'player') {
+      const playerLocation = this.playerManager.getPlayer().currentStationId;
+      const playerSystem = playerLocation ? this.findSystemContainingStation(playerLocation) : null;
+      const playerStation = playerSystem && playerSystem.id === npc.position.systemId
+        ? this.findStationById(playerSystem, playerLocation)
+        : null;
+      return playerStation
+        ? { id: 'player', type: 'player', position: playerStation.position, threatLevel: 50, value: 500 }
+        : null;
+    }
+    
+    const target = this.npcShips.get(targetId);
+    if (!target || target.position.systemId !== npc.position.systemId) {
+      return null;
+    }
+    
+    return {
+      id: target.id,
+      type: target.type,
+      position: target.position.coordinates,
+      threatLevel: target.ai.combatSkill + target.ai.aggressiveness,
+      value: 0
+    };
+  }
+
+  /**
+   * Keep fleets on a shared target and their members in formation
+   */
+  private updateFleets(): void {
+    for (const fleet of Array.from(this.npcFleets.values())) {
+      const leader = this.npcShips.get(fleet.commandShipId);
+      if (!leader) {
+        this.handleFleetLoss(fleet, fleet.commandShipId);
+        continue;
+      }
+      
+      this.updateFleetTarget(fleet, leader);
+      
+      const heading = this.getFleetHeading(fleet, leader);
+      const cos = Math.cos(heading);
+      const sin = Math.sin(heading);
+      
+      for (const shipId of fleet.ships) {
+        const npc = this.npcShips.get(shipId);
+        const role = fleet.formation.roles.get(shipId);
+        if (!npc || !role || shipId === fleet.commandShipId) continue;
+        
+        // Members fighting or still catching up across systems are out of formation
+        if (npc.position.systemId !== leader.position.systemId || npc.ai.currentGoal.parameters.get('combatMode') === 'engage') {
+          continue;
+        }
+        
+        const slot = {
+          x: leader.position.coordinates.x + role.position.x * cos - role.position.y * sin,
+          y: leader.position.coordinates.y + role.position.x * sin + role.position.y * cos
+        };
+        
+        if (this.calculateDistance(npc.position.coordinates, slot) > this.FORMATION_TOLERANCE) {
+          const npcActor = this.npcActors.get(npc.id);
+          if (npcActor) {
+            npcActor.setWaypointTarget([slot]);
+          } else {
+            npc.movement.pathfindingWaypoints = [slot];
+            npc.movement.currentWaypoint = 0;
+          }
+        }
+      }
+      
+      fleet.lastUpdateTime = this.timeManager.getCurrentTimestamp();
+    }
+  }
+
+  /**
+   * Drop a fleet target that has gone, and let escorts pick up pirates threatening the fleet
+   */
+  private updateFleetTarget(fleet: NPCFleet, leader: NPCShip): void {
+    if (fleet.fleetGoal.parameters.has('target') && !this.resolveFleetTarget(fleet, leader)) {
+      fleet.fleetGoal.parameters.delete('target');
+      
+      // Regroup on the leader
+      for (const shipId of fleet.ships) {
+        const npc = this.npcShips.get(shipId);
+        if (npc) {
+          npc.ai.currentGoal.parameters.delete('target');
+          npc.ai.currentGoal.parameters.delete('combatMode');
+        }
+      }
+    }
+    
+    if (fleet.fleetGoal.parameters.has('target') || fleet.formation.type === 'attack') {
+      return;
+    }
+    
+    for (const shipId of fleet.ships) {
+      const threatId = this.npcShips.get(shipId)?.ai.threatAssessment.nearbyThreats
+        .find(id => this.npcShips.get(id)?.type === 'pirate');
+      if (threatId) {
+        fleet.fleetGoal.parameters.set('target', threatId);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Direction the fleet is flying in, kept while the leader is stopped
+   */
+  private getFleetHeading(fleet: NPCFleet, leader: NPCShip): number {
+    const velocity = this.npcActors.get(leader.id)?.getVelocity() || leader.movement.currentVelocity;
+    
+    if (Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y) > 1) {
+      fleet.fleetGoal.parameters.set('heading', Math.atan2(velocity.y, velocity.x));
+    }
+    
+    return fleet.fleetGoal.parameters.get('heading') || 0;
+  }
+
+  /**
+   * Remove a lost ship from its fleet. Losing the leader makes the survivors
+   * regroup under a new one if their morale holds, or scatter if it breaks.
+   */
+  private handleFleetLoss(fleet: NPCFleet, npcId: string): void {
+    fleet.ships = fleet.ships.filter(shipId => shipId !== npcId && this.npcShips.has(shipId));
+    fleet.formation.roles.delete(npcId);
+    
+    const survivors = fleet.ships.map(shipId => this.npcShips.get(shipId)!);
+    
+    if (npcId !== fleet.commandShipId) {
+      if (survivors.length < 2) {
+        this.disbandFleet(fleet, false);
+      } else {
+        this.assignFleetRoles(fleet);
+      }
+      return;
+    }
+    
+    const morale = survivors.reduce((sum, npc) => sum + npc.ai.riskTolerance, 0) / Math.max(1, survivors.length);
+    
+    if (survivors.length < 2 || morale < this.FLEET_REGROUP_MORALE) {
+      console.log(`${fleet.name} scattered after losing its leader`);
+      this.disbandFleet(fleet, true);
+      return;
+    }
+    
+    // The most capable fighter takes command
+    const newLeader = survivors.reduce((best, npc) => npc.ai.combatSkill > best.ai.combatSkill ? npc : best);
+    fleet.commandShipId = newLeader.id;
+    fleet.fleetGoal.parameters.delete('target');
+    this.assignFleetRoles(fleet);
+    
+    for (const npc of survivors) {
+      npc.ai.currentGoal.parameters.delete('target');
+      npc.ai.currentGoal.parameters.delete('combatMode');
+    }
+    
+    console.log(`${fleet.name} regrouped under ${newLeader.name}`);
+  }
+
+  /**
+   * Break up a fleet, optionally sending its ships fleeing
+   */
+  private disbandFleet(fleet: NPCFleet, scatter: boolean): void {
+    fleet.formation.type = 'dispersed';
+    
+    for (const shipId of fleet.ships) {
+      const npc = this.npcShips.get(shipId);
+      if (!npc) continue;
+      
+      npc.movement.formation = undefined;
+      npc.ai.currentGoal.parameters.delete('target');
+      npc.ai.currentGoal.parameters.delete('combatMode');
+      
+      if (scatter) {
+        this.initiateNPCFlee(npc);
+      }
+    }
+    
+    this.npcFleets.delete(fleet.id);
+  }
+
   /**
    * Update NPC movement and positions using Actor system
    */
@@ -1382,7 +1861,69 @@ export class NPCAIManager {
         this.updateAvoidanceVector(npc);
         this.updateNPCPositionEnhanced(npc, deltaTime, currentTime);
       }
+
+      this.burnTravelFuel(npc);
+    }
+  }
+
+  /**
+   * Charge an NPC fuel for the distance it flew since the last update; an empty tank leaves it adrift
+   */
+  private burnTravelFuel(npc: NPCShip): void {
+    const { systemId, coordinates } = npc.position;
+    const last = this.fuelTrackedPositions.get(npc.id);
+    this.fuelTrackedPositions.set(npc.id, { systemId, x: coordinates.x, y: coordinates.y });
+    // Jumps between systems are charged when they are made
+    if (!last || last.systemId !== systemId) return;
+
+    const distance = Math.hypot(coordinates.x - last.x, coordinates.y - last.y);
+    if (distance === 0 || consumeNPCFuel(npc.ship, calculateNPCTravelFuelCost(npc.ship, distance))) return;
+
+    npc.ship.fuel = 0;
+    npc.movement.targetStationId = undefined;
+    npc.movement.targetCoordinates = undefined;
+    npc.movement.pathfindingWaypoints = [];
+    npc.movement.currentWaypoint = 0;
+    npc.movement.currentVelocity = { x: 0, y: 0 };
+    this.npcActors.get(npc.id)?.stopMovement();
+    console.log(`NPC ${npc.name} ran out of fuel in ${systemId}`);
+  }
+
+  /**
+   * Top up a docked NPC's tank with what it can afford, at the same price the player pays
+   */
+  private refuelAtStation(npc: NPCShip): void {
+    const missing = npc.ship.fuelCapacity - npc.ship.fuel;
+    if (!npc.position.stationId || missing <= 0) return;
+
+    const system = this.findSystemById(this.worldManager.getGalaxy(), npc.position.systemId);
+    const station = system ? this.findStationById(system, npc.position.stationId) : null;
+    if (!station?.services.includes('refuel')) return;
+
+    const amount = Math.max(0, Math.min(missing, npc.credits / FUEL_PRICE_PER_UNIT));
+    npc.ship.fuel += amount;
+    npc.credits -= amount * FUEL_PRICE_PER_UNIT;
+  }
+
+  /**
+   * Once an NPC has sat with an empty tank long enough, a passing patrol shares enough fuel to limp to a station
+   */
+  private rescueStrandedNPC(npc: NPCShip, currentTime: number): void {
+    if (npc.ship.fuel > 0) {
+      this.strandedSince.delete(npc.id);
+      return;
     }
+
+    const since = this.strandedSince.get(npc.id);
+    if (since === undefined) {
+      this.strandedSince.set(npc.id, currentTime);
+      return;
+    }
+    if (currentTime - since < this.NPC_RESCUE_DELAY) return;
+
+    npc.ship.fuel = Math.ceil(npc.ship.fuelCapacity * this.NPC_RESCUE_FUEL_FRACTION);
+    this.strandedSince.delete(npc.id);
+    console.log(`NPC ${npc.name} was refuelled by a patrol in ${npc.position.systemId}`);
   }
 
   /**
@@ -1775,7 +2316,7 @@ export class NPCAIManager {
     
     if (supplyChainCommodities.produces.length > 0) {
       // Buy what this station produces (should be cheaper here)
-      const commodity = supplyChainCommodities.produces[Math.floor(Math.random() * supplyChainCommodities.produces.length)];
+      const commodity = this.random.pick(supplyChainCommodities.produces);
       return {
         commodity,
         targetPrice: this.estimateCommodityValue(commodity) * (0.7 + 0.2 * marketKnowledge), // Buy cheaper
@@ -1785,7 +2326,7 @@ export class NPCAIManager {
     
     // Fallback to original logic if no supply chain match
     const availableCommodities = ['electronics', 'medical_supplies', 'machinery', 'steel-alloys', 'consumer-goods'];
-    const commodityIndex = Math.floor(Math.random() * availableCommodities.length * (0.5 + 0.5 * tradingSkill));
+    const commodityIndex = Math.floor(this.random.next() * availableCommodities.length * (0.5 + 0.5 * tradingSkill));
     const selectedCommodity = availableCommodities[Math.min(commodityIndex, availableCommodities.length - 1)];
     
     return {
@@ -1882,7 +2423,7 @@ export class NPCAIManager {
     // Fallback to random station in current system
     const availableStations = currentSystem.stations.filter((s: any) => s.id !== npc.position.stationId);
     if (availableStations.length > 0) {
-      const randomStation = availableStations[Math.floor(Math.random() * availableStations.length)];
+      const randomStation = availableStations[Math.floor(this.random.next() * availableStations.length)];
       return {
         targetStation: randomStation.id,
         confidence: 30
@@ -1934,6 +2475,11 @@ export class NPCAIManager {
     if (npc.type !== 'trader' || npc.ship.fuel < 50) {
       return null;
     }
+
+    // Food and other short-lived cargo would spoil on a multi-sector haul
+    if (Array.from(npc.ship.currentCargo.keys()).some(commodity => isShortLived(getCommodity(commodity)))) {
+      return null;
+    }
     
     // Check if current system has active gates
     const availableGates = currentSystem.gates?.filter((gate: any) => gate.isActive) || [];
@@ -1971,7 +2517,8 @@ export class NPCAIManager {
       const crossSectorRoutes = analysis.topRoutes.filter(route => 
         route.origin === npc.position.stationId && 
         route.requiresGate &&
-        route.gateCost! <= npc.ship.fuel
+        route.gateCost! <= npc.ship.fuel &&
+        !isShortLived(getCommodity(route.commodity))
       );
 
       if (crossSectorRoutes.length > 0) {
@@ -2104,9 +2651,9 @@ export class NPCAIManager {
     for (const producedCommodity of supplyChain.produces) {
       commodities.set(producedCommodity, {
         commodityId: producedCommodity,
-        available: Math.floor(Math.random() * 50) + 10, // 10-60 units available
-        demand: Math.floor(Math.random() * 20) + 5,
-        currentPrice: this.estimateCommodityValue(producedCommodity) * (0.8 + Math.random() * 0.4), // ±20% price variation
+        available: Math.floor(this.random.next() * 50) + 10, // 10-60 units available
+        demand: Math.floor(this.random.next() * 20) + 5,
+        currentPrice: this.estimateCommodityValue(producedCommodity) * (0.8 + this.random.next() * 0.4), // ±20% price variation
         priceHistory: [],
         supplyLevel: 'normal',
         demandLevel: 'low',
@@ -2119,9 +2666,9 @@ export class NPCAIManager {
     for (const consumedCommodity of supplyChain.consumes) {
       commodities.set(consumedCommodity, {
         commodityId: consumedCommodity,
-        available: Math.floor(Math.random() * 10) + 1, // 1-11 units available (buying station has less)
-        demand: Math.floor(Math.random() * 40) + 20, // 20-60 units in demand
-        currentPrice: this.estimateCommodityValue(consumedCommodity) * (1.1 + Math.random() * 0.3), // +10-40% price markup for buying
+        available: Math.floor(this.random.next() * 10) + 1, // 1-11 units available (buying station has less)
+        demand: Math.floor(this.random.next() * 40) + 20, // 20-60 units in demand
+        currentPrice: this.estimateCommodityValue(consumedCommodity) * (1.1 + this.random.next() * 0.3), // +10-40% price markup for buying
         priceHistory: [],
         supplyLevel: 'shortage',
         demandLevel: 'high',
@@ -2276,7 +2823,7 @@ export class NPCAIManager {
     const actualQuantity = Math.min(quantity, currentQuantity);
     
     if (actualQuantity > 0) {
-      const revenue = this.estimateCommodityValue(commodity) * actualQuantity * (1.1 + Math.random() * 0.3);
+      const revenue = this.estimateCommodityValue(commodity) * actualQuantity * (1.1 + this.random.next() * 0.3);
       npc.credits += revenue;
       npc.ship.currentCargo.set(commodity, currentQuantity - actualQuantity);
       
@@ -2305,7 +2852,7 @@ export class NPCAIManager {
    * Maybe spawn new NPCs to maintain population
    */
   private maybeSpawnNewNPCs(): void {
-    if (Math.random() > this.NPC_SPAWN_PROBABILITY) return;
+    if (this.random.next() > this.NPC_SPAWN_PROBABILITY) return;
     
     const galaxy = this.worldManager.getGalaxy();
     
@@ -2341,16 +2888,48 @@ export class NPCAIManager {
     const shouldTrade = timeSinceTrade >= behavior.buyingBehavior.frequency;
     
     if (!shouldTrade) return;
-    
-    // Simulate market participation by affecting economic system
-    // This is a simplified version - full implementation would involve actual trades
-    for (const [, preference] of behavior.commodityPreferences) {
-      if (Math.random() * 100 < preference) {
-        // Simulate buy/sell decision affecting market prices
-        // Future: implement actual market impact
-        // const impact = (Math.random() - 0.5) * 0.02; // ±1% price impact
-        // We would call economicSystem.adjustPrice(commodityId, impact) if that method existed
-      }
+
+    // Forget orders that have expired off the book
+    behavior.currentOrders = behavior.currentOrders.filter(order => order.expirationTime > currentTime);
+    
+    // Post resting orders on the station's book for the commodities this trader likes
+    for (const [commodityId, preference] of behavior.commodityPreferences) {
+      if (!this.economicSystem || this.random.next() * 100 >= preference) continue;
+
+      const commodity = getCommodity(commodityId);
+      const buyLimit = behavior.buyingBehavior.quantityLimits.get(commodityId) ?? 0;
+      const stockLimit = behavior.sellingBehavior.stockLimits.get(commodityId) ?? 0;
+      if (!commodity || (buyLimit <= 0 && stockLimit <= 0)) continue;
+
+      const side = stockLimit <= 0 || (buyLimit > 0 && this.random.next() < 0.5) ? 'buy' : 'sell';
+      const behaviorSettings = side === 'buy' ? behavior.buyingBehavior : behavior.sellingBehavior;
+      // Bid up to the threshold, ask from the threshold up to 30% above it
+      const price = Math.round(commodity.basePrice * behaviorSettings.priceThreshold *
+        (side === 'buy' ? 0.8 + this.random.next() * 0.2 : 1 + this.random.next() * 0.3));
+      const quantity = Math.max(1, Math.floor((side === 'buy' ? buyLimit : stockLimit) * (0.2 + this.random.next() * 0.3)));
+      const expirationTime = currentTime + behaviorSettings.frequency;
+
+      const order = this.economicSystem.placeOrder(behavior.stationId, {
+        commodityId,
+        side,
+        owner: 'npc',
+        ownerId: behavior.npcId,
+        price,
+        quantity,
+        expiresAt: expirationTime
+      });
+      if (!order || order.quantity <= 0) continue;
+
+      behavior.currentOrders.push({
+        id: order.id,
+        type: side,
+        commodityId,
+        quantity: order.quantity,
+        ...(side === 'buy' ? { maxPrice: price } : { minPrice: price }),
+        expirationTime,
+        systemId: behavior.systemId,
+        stationId: behavior.stationId
+      });
     }
     
     behavior.lastTradeTime = currentTime;
@@ -2403,6 +2982,89 @@ export class NPCAIManager {
     return this.npcShips.get(npcId) || null;
   }
 
+  /**
+   * Get all active NPC fleets
+   */
+  getFleets(): NPCFleet[] {
+    return Array.from(this.npcFleets.values());
+  }
+
+  /**
+   * Get specific fleet by ID
+   */
+  getFleet(fleetId: string): NPCFleet | null {
+    return this.npcFleets.get(fleetId) || null;
+  }
+
+  /**
+   * Get the fleet an NPC flies with, if any
+   */
+  getFleetForNPC(npcId: string): NPCFleet | null {
+    for (const fleet of this.npcFleets.values()) {
+      if (fleet.ships.includes(npcId)) {
+        return fleet;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Replace every NPC with a fresh population for the current galaxy, e.g. once a
+   * different galaxy has been installed and the old NPCs' stations are gone
+   */
+  respawnNPCs(): void {
+    for (const npc of this.npcShips.values()) {
+      if (npc.movement.isInTransit) {
+        this.navigationManager?.cancelTravel(npc.id);
+      }
+    }
+    if (this.sceneManager) {
+      for (const npcActor of this.npcActors.values()) {
+        this.sceneManager.getCurrentScene().removeActor(npcActor.id);
+      }
+    }
+
+    this.npcShips.clear();
+    this.npcActors.clear();
+    this.activeConversations.clear();
+    this.marketBehaviors.clear();
+    this.npcFleets.clear();
+    this.fuelTrackedPositions.clear();
+    this.strandedSince.clear();
+    this.initializeStartingNPCs();
+  }
+
+  /**
+   * Remove a destroyed NPC from the game, breaking up or regrouping its fleet
+   */
+  destroyNPC(npcId: string): boolean {
+    const npc = this.npcShips.get(npcId);
+    if (!npc) return false;
+    
+    this.npcShips.delete(npcId);
+    this.activeConversations.delete(npcId);
+    this.strandedSince.delete(npcId);
+    for (const [key, behavior] of this.marketBehaviors) {
+      if (behavior.npcId === npcId) {
+        this.marketBehaviors.delete(key);
+      }
+    }
+    
+    const npcActor = this.npcActors.get(npcId);
+    if (npcActor && this.sceneManager) {
+      this.sceneManager.getCurrentScene().removeActor(npcActor.id);
+    }
+    this.npcActors.delete(npcId);
+    
+    const fleet = this.getFleetForNPC(npcId);
+    if (fleet) {
+      this.handleFleetLoss(fleet, npcId);
+    }
+    
+    console.log(`NPC ${npc.name} destroyed`);
+    return true;
+  }
+
   /**
    * Start conversation with NPC
    */
@@ -2410,17 +3072,32 @@ export class NPCAIManager {
     const npc = this.npcShips.get(npcId);
     if (!npc) return null;
 
-    // Create conversation based on NPC type and current state
-    const conversation = this.createConversation(npc);
+    const tree = this.selectConversationTree(npc);
+    if (!tree) return null;
+
+    // Create conversation from the authored tree and enter its first node
+    const conversation = this.createConversation(npc, tree);
     this.activeConversations.set(npcId, conversation);
+    this.enterConversationNode(npc, conversation, tree.startNodeId);
     
     return conversation;
   }
 
+  /**
+   * Pick the highest-priority conversation tree authored for this NPC
+   */
+  private selectConversationTree(npc: NPCShip): ConversationTree | null {
+    const candidates = CONVERSATION_TREES
+      .filter(tree => tree.npcTypes.includes(npc.type) && this.meetsConversationConditions(npc, tree.conditions))
+      .sort((a, b) => b.priority - a.priority);
+    
+    return candidates[0] || null;
+  }
+
   /**
    * Create conversation for NPC
    */
-  private createConversation(npc: NPCShip): NPCConversation {
+  private createConversation(npc: NPCShip, tree: ConversationTree): NPCConversation {
     const playerReputation = npc.reputation;
     
     return {
@@ -2429,137 +3106,245 @@ export class NPCAIManager {
       type: 'greeting',
       context: {
         playerReputation,
-        npcMood: Math.floor(Math.random() * 201) - 100, // -100 to +100
+        npcMood: Math.floor(this.random.next() * 201) - 100, // -100 to +100
         systemSecurity: 5, // Default security level
         recentEvents: []
       },
-      dialogue: this.createDialogueNodes(npc),
-      currentNodeId: 'greeting',
+      treeId: tree.id,
+      dialogue: tree.nodes,
+      currentNodeId: tree.startNodeId,
+      nodeRoll: this.random.next() * 100,
+      history: [],
       startTime: this.timeManager.getCurrentTimestamp()
     };
   }
 
   /**
-   * Create dialogue nodes for NPC conversation
+   * Get the node currently shown in a conversation
    */
-  private createDialogueNodes(npc: NPCShip): ConversationNode[] {
-    const nodes: ConversationNode[] = [];
-    
-    // Greeting node
-    nodes.push({
-      id: 'greeting',
-      text: this.getGreetingText(npc),
-      speakerType: 'npc',
-      choices: [
-        {
-          id: 'ask_trade',
-          text: 'Looking to do some trading?',
-          consequences: [],
-          nextNodeId: 'trade_response'
-        },
-        {
-          id: 'ask_info',
-          text: 'Any interesting news?',
-          consequences: [],
-          nextNodeId: 'info_response'
-        },
-        {
-          id: 'farewell',
-          text: 'Safe travels.',
-          consequences: [],
-          nextNodeId: 'end'
-        }
-      ]
-    });
-    
-    // Trade response node
-    nodes.push({
-      id: 'trade_response',
-      text: this.getTradeResponseText(npc),
-      speakerType: 'npc',
-      nextNodeId: 'end'
-    });
-    
-    // Info response node
-    nodes.push({
-      id: 'info_response',
-      text: this.getInfoResponseText(),
-      speakerType: 'npc',
-      nextNodeId: 'end'
-    });
-    
-    // End node
-    nodes.push({
-      id: 'end',
-      text: 'Conversation ended.',
-      speakerType: 'npc'
-    });
-    
-    return nodes;
-  }
-
-  /**
-   * Get greeting text based on NPC type and disposition
-   */
-  private getGreetingText(npc: NPCShip): string {
-    const greetings = {
-      trader: [
-        "Greetings, fellow space trader! Looking for good deals?",
-        "Hello there! I've got some quality goods if you're interested.",
-        "Welcome! Always happy to meet another entrepreneur."
-      ],
-      pirate: [
-        "Well, well... what have we here?",
-        "You picked the wrong system to fly through, friend.",
-        "Nice ship you've got there... shame if something happened to it."
-      ],
-      patrol: [
-        "Citizen, please state your business in this system.",
-        "This is system patrol. Everything looks in order.",
-        "Safe travels, and remember to follow all trade regulations."
-      ],
-      civilian: [
-        "Oh, hello there! Don't see many independent traders around here.",
-        "Greetings! How are things in the shipping business?",
-        "Good to see another friendly face out here."
-      ],
-      transport: [
-        "Another hauler, eh? The routes are getting crowded these days.",
-        "Hope you're not running the same cargo route as me!",
-        "Safe flying out there - pirates have been active lately."
-      ]
-    };
-    
-    const typeGreetings = greetings[npc.type] || greetings.civilian;
-    return typeGreetings[Math.floor(Math.random() * typeGreetings.length)];
+  getConversationNode(npcId: string): ConversationNode | null {
+    const conversation = this.activeConversations.get(npcId);
+    const npc = this.npcShips.get(npcId);
+    if (!conversation || !npc) return null;
+
+    const roll = this.getNodeRoll(conversation);
+    return conversation.dialogue.find(node =>
+      node.id === conversation.currentNodeId && this.meetsConversationConditions(npc, node.conditions, roll)
+    ) || null;
   }
 
   /**
-   * Get trade response text
+   * Get the choices the player can currently make
    */
-  private getTradeResponseText(npc: NPCShip): string {
-    if (npc.type === 'trader') {
-      return "Always! I specialize in high-value goods. Check the local markets - I might have left some good deals behind.";
-    } else if (npc.type === 'pirate') {
-      return "Trade? Hah! The only trading I do is your cargo for your life!";
-    } else {
-      return "I'm not much of a trader myself, but the local stations usually have what you need.";
+  getAvailableChoices(npcId: string): ConversationChoice[] {
+    const conversation = this.activeConversations.get(npcId);
+    const npc = this.npcShips.get(npcId);
+    const node = this.getConversationNode(npcId);
+    if (!conversation || !npc || !node?.choices) return [];
+
+    const roll = this.getNodeRoll(conversation);
+    return node.choices.filter(choice => this.meetsConversationConditions(npc, choice.conditions, roll));
+  }
+
+  /**
+   * The roll 'random' conditions on the current node use, so a node and its
+   * choices stay the same however often they are read
+   */
+  private getNodeRoll(conversation: NPCConversation): number {
+    // Conversations saved before nodes were rolled get their roll on first read
+    conversation.nodeRoll ??= this.random.next() * 100;
+    return conversation.nodeRoll;
+  }
+
+  /**
+   * Check whether a conversation has reached a node with nowhere left to go
+   */
+  isConversationOver(npcId: string): boolean {
+    const node = this.getConversationNode(npcId);
+    return !node || (!node.nextNodeId && this.getAvailableChoices(npcId).length === 0);
+  }
+
+  /**
+   * Make a conversation choice, applying its consequences and moving to the next node
+   */
+  selectConversationChoice(npcId: string, choiceId: string): { success: boolean; error?: string; messages?: string[] } {
+    const conversation = this.activeConversations.get(npcId);
+    const npc = this.npcShips.get(npcId);
+    if (!conversation || !npc) {
+      return { success: false, error: 'No active conversation with this NPC' };
     }
+
+    const choice = this.getAvailableChoices(npcId).find(c => c.id === choiceId);
+    if (!choice) {
+      return { success: false, error: 'That choice is not available' };
+    }
+
+    conversation.history.push({ speaker: 'player', text: choice.text, timestamp: this.timeManager.getCurrentTimestamp() });
+    const messages = this.applyConversationEffects(npc, choice.consequences);
+    messages.push(...this.enterConversationNode(npc, conversation, choice.nextNodeId));
+
+    return { success: true, messages };
   }
 
   /**
-   * Get info response text
+   * Move past a node that has no choices
    */
-  private getInfoResponseText(): string {
-    const infoResponses = [
-      "I heard there's been some unusual activity in the outer systems.",
-      "Commodity prices have been fluctuating wildly lately.",
-      "The security forces have been cracking down on smuggling routes.",
-      "Some traders have been reporting equipment failures - might be sabotage.",
-      "Word is there's a new faction moving into this sector."
-    ];
+  advanceConversation(npcId: string): { success: boolean; error?: string; messages?: string[] } {
+    const conversation = this.activeConversations.get(npcId);
+    const npc = this.npcShips.get(npcId);
+    const node = this.getConversationNode(npcId);
+    if (!conversation || !npc || !node) {
+      return { success: false, error: 'No active conversation with this NPC' };
+    }
+    if (!node.nextNodeId || this.getAvailableChoices(npcId).length > 0) {
+      return { success: false, error: 'The conversation is waiting on a choice' };
+    }
+
+    return { success: true, messages: this.enterConversationNode(npc, conversation, node.nextNodeId) };
+  }
+
+  /**
+   * Enter a conversation node, recording it and applying its effects
+   */
+  private enterConversationNode(npc: NPCShip, conversation: NPCConversation, nodeId: string): string[] {
+    conversation.currentNodeId = nodeId;
+    conversation.nodeRoll = this.random.next() * 100;
+
+    const node = this.getConversationNode(npc.id);
+    if (!node) {
+      console.log(`Conversation ${conversation.treeId} has no node ${nodeId} for ${npc.name}`);
+      return [];
+    }
+
+    conversation.history.push({ speaker: node.speakerType, text: node.text, timestamp: this.timeManager.getCurrentTimestamp() });
+    return this.applyConversationEffects(npc, node.effects || []);
+  }
+
+  /**
+   * Check conversation conditions against the player and the NPC. 'random'
+   * conditions use the given roll, or a fresh one when there is none.
+   */
+  private meetsConversationConditions(npc: NPCShip, conditions: ConversationCondition[] = [], roll?: number): boolean {
+    return conditions.every(condition => {
+      const actual = this.getConversationConditionValue(npc, condition, roll);
+      
+      switch (condition.operator) {
+        case '>': return Number(actual ?? 0) > Number(condition.value);
+        case '<': return Number(actual ?? 0) < Number(condition.value);
+        case '>=': return Number(actual ?? 0) >= Number(condition.value);
+        case '<=': return Number(actual ?? 0) <= Number(condition.value);
+        case '==': return actual === condition.value;
+        case '!=': return actual !== condition.value;
+        default: return false;
+      }
+    });
+  }
+
+  /**
+   * Get the current value a conversation condition is compared against
+   */
+  private getConversationConditionValue(npc: NPCShip, condition: ConversationCondition, roll?: number): number | string | boolean | undefined {
+    switch (condition.type) {
+      case 'reputation':
+        // Faction standing, or this NPC's own attitude when no faction is given
+        return condition.target
+          ? this.playerManager.getReputationForFaction(condition.target)?.standing ?? 0
+          : npc.reputation;
+      case 'credits':
+        return this.playerManager.getCredits();
+      case 'cargo':
+      case 'item':
+        return this.playerManager.getCommodityQuantity(condition.target || '');
+      case 'skill': {
+        const character = this.characterManager?.getCharacter();
+        return character?.skills[condition.target as keyof CharacterSkills] ?? 0;
+      }
+      case 'quest_flag':
+        return this.questManager?.getFlag(condition.target || '');
+      case 'faction':
+        return npc.faction;
+      case 'random':
+        return roll ?? this.random.next() * 100;
+    }
+  }
+
+  /**
+   * Apply conversation effects, returning messages for the player
+   */
+  private applyConversationEffects(npc: NPCShip, effects: ConversationEffect[]): string[] {
+    const messages: string[] = [];
+    
+    for (const effect of effects) {
+      switch (effect.type) {
+        case 'reputation':
+          if (effect.target) {
+            this.playerManager.modifyFactionReputation(effect.target, Number(effect.value), `Conversation with ${npc.name}`);
+          } else {
+            npc.reputation = Math.max(-100, Math.min(100, npc.reputation + Number(effect.value)));
+          }
+          break;
+          
+        case 'credits': {
+          const amount = Number(effect.value);
+          if (amount >= 0) {
+            this.playerManager.addCredits(amount);
+          } else if (!this.playerManager.spendCredits(-amount)) {
+            console.log(`Conversation with ${npc.name}: cannot pay ${-amount} credits`);
+            continue;
+          }
+          break;
+        }
+          
+        case 'cargo': {
+          const quantity = Number(effect.value);
+          const result = quantity >= 0
+            ? this.playerManager.addCommodity(effect.target || '', quantity, 0)
+            : this.playerManager.removeCommodity(effect.target || '', -quantity);
+          if (!result.success) {
+            console.log(`Conversation with ${npc.name}: ${result.error}`);
+            continue;
+          }
+          break;
+        }
+          
+        case 'mission':
+          if (!this.questManager?.startQuest(String(effect.value))) {
+            continue;
+          }
+          break;
+          
+        case 'quest_flag':
+          this.questManager?.setFlag(effect.target || '', effect.value);
+          break;
+          
+        case 'contact': {
+          const contact = this.playerManager.getFactionManager().getContactManager().meetContact(
+            ContactFactory.createStationContact(
+              npc.position.stationId || '',
+              effect.target || '',
+              effect.value as 'commander' | 'trade_liaison' | 'quartermaster' | 'dock_supervisor'
+            )
+          );
+          messages.push(effect.message || `New contact: ${contact.name} (${contact.role.name})`);
+          continue;
+        }
+          
+        case 'combat':
+          // The NPC turns hostile and goes after the player
+          npc.reputation = Math.min(npc.reputation, -50);
+          npc.ai.currentGoal.parameters.set('target', 'player');
+          break;
+          
+        case 'information':
+          break;
+      }
+      
+      if (effect.message) {
+        messages.push(effect.message);
+      }
+    }
     
-    return infoResponses[Math.floor(Math.random() * infoResponses.length)];
+    return messages;
   }
 
   /**
@@ -2579,11 +3364,12 @@ export class NPCAIManager {
   /**
    * Get serializable state for saving
    */
-  getState(): any {
+  getState(): NPCAIManagerSaveData {
     return {
       npcShips: Array.from(this.npcShips.entries()),
       marketBehaviors: Array.from(this.marketBehaviors.entries()),
       npcFleets: Array.from(this.npcFleets.entries()),
+      activeConversations: Array.from(this.activeConversations.entries()),
       lastUpdateTime: this.lastUpdateTime,
       lastSpawnTime: this.lastSpawnTime,
       lastMarketUpdateTime: this.lastMarketUpdateTime
@@ -2593,7 +3379,7 @@ export class NPCAIManager {
   /**
    * Load state from save data
    */
-  loadState(state: any): void {
+  loadState(state: NPCAIManagerSaveData): void {
     if (state.npcShips) {
       this.npcShips = new Map(state.npcShips);
     }
@@ -2603,6 +3389,9 @@ export class NPCAIManager {
     if (state.npcFleets) {
       this.npcFleets = new Map(state.npcFleets);
     }
+    if (state.activeConversations) {
+      this.activeConversations = new Map(state.activeConversations);
+    }
     if (state.lastUpdateTime !== undefined) {
       this.lastUpdateTime = state.lastUpdateTime;
     }
@@ -2630,14 +3419,6 @@ export class NPCAIManager {
       return;
     }
 
-    // Check if NPC has enough fuel
-    if (npc.ship.fuel < gate.energyCost) {
-      return;
-    }
-
-    // Deduct fuel cost
-    npc.ship.fuel -= gate.energyCost;
-
     // Find destination sector
     const destinationSector = galaxy.sectors.find(s => s.id === gate.destinationSectorId);
     if (!destinationSector) {
@@ -2654,12 +3435,44 @@ export class NPCAIManager {
       return;
     }
 
+    // Gate jumps cost the gate's energy in fuel
+    if (!consumeNPCFuel(npc.ship, gate.energyCost)) {
+      return;
+    }
+
+    this.arriveInSystem(npc, destinationSystemId, finalTargetStationId);
+  }
+
+  /**
+   * Jump an NPC to another system in the same sector, on the way to a station
+   */
+  private executeSystemJump(npc: NPCShip, systemId: string, finalTargetStationId: string): void {
+    const galaxy = this.worldManager.getGalaxy();
+    const currentSystem = this.findSystemById(galaxy, npc.position.systemId);
+    const destinationSystem = this.findSystemById(galaxy, systemId);
+    if (!currentSystem || !destinationSystem) {
+      return;
+    }
+
+    // In-sector jumps burn fuel for the distance between the systems, as the player's do
+    const distance = this.calculateDistance(currentSystem.position, destinationSystem.position);
+    if (!consumeNPCFuel(npc.ship, calculateNPCTravelFuelCost(npc.ship, distance))) {
+      return;
+    }
+
+    this.arriveInSystem(npc, systemId, finalTargetStationId);
+  }
+
+  /**
+   * Place an NPC at the centre of the system it jumped to and continue to its target station
+   */
+  private arriveInSystem(npc: NPCShip, systemId: string, finalTargetStationId: string): void {
     // Update NPC position to destination system
-    npc.position.systemId = destinationSystemId;
+    npc.position.systemId = systemId;
     npc.position.stationId = undefined; // Arrive in space
     
     // Set coordinates to destination system center
-    const destinationSystem = destinationSector.systems.find(s => s.id === destinationSystemId);
+    const destinationSystem = this.findSystemById(this.worldManager.getGalaxy(), systemId);
     if (destinationSystem) {
       npc.position.coordinates = {
         x: destinationSystem.position.x,
@@ -2682,9 +3495,9 @@ export class NPCAIManager {
       npcActor.setPosition(npc.position.coordinates);
     }
 
-    // Now set destination to the final target station in the new sector
+    // Now continue towards the final target station from the new system
     setTimeout(() => {
       this.setNPCDestination(npc, finalTargetStationId);
-    }, 1000); // Small delay to simulate gate travel time
+    }, 1000); // Small delay to simulate jump travel time
   }
 }
\ No newline at end of file
@@ -11,6 +11,8 @@
 import { Ship, ShipLocation } from '../types/player';
 import { Coordinates, NavigationTarget } from '../types/world';
 import { TimeManager } from './TimeManager';
+import { calculateTravelFuelCost, consumeFuel, getCurrentFuel } from '../utils/fuel';
+import { GalaxyPathfinder, GalaxyRoute, RoutePreference } from './GalaxyPathfinder';
 
 export interface TravelPlan {
   id: string;
@@ -21,6 +23,8 @@ export interface TravelPlan {
   estimatedArrivalTime: Date;
   actualTravelTime: number; // in milliseconds
   travelSpeed: number; // units per hour
+  fuelCost: number; // fuel units burned for the trip, gate jumps included
+  route?: GalaxyRoute; // systems and gates passed through when leaving the current system
   status: 'planning' | 'in-transit' | 'completed' | 'cancelled';
 }
 
@@ -31,23 +35,45 @@ export interface TravelProgress {
   currentPosition?: Coordinates;
 }
 
+export interface NavigationManagerSaveData {
+  activeTravels: TravelPlan[];
+  travelHistory: TravelPlan[];
+}
+
 export class NavigationManager {
   private timeManager: TimeManager;
   private activeTravels: Map<string, TravelPlan> = new Map();
   private travelHistory: TravelPlan[] = [];
   private defaultSpeed: number = 25; // units per hour
+  private worldManager: any = null; // WorldManager reference for galaxy routes
+  private arrivalListeners: ((travelPlan: TravelPlan) => void)[] = [];
 
   constructor(timeManager: TimeManager) {
     this.timeManager = timeManager;
   }
 
+  /**
+   * Set the world manager (dependency injection) - needed to route trips between systems
+   */
+  setWorldManager(worldManager: any): void {
+    this.worldManager = worldManager;
+  }
+
+  /**
+   * Register a listener called once for every trip that reaches its destination
+   */
+  onArrival(listener: (travelPlan: TravelPlan) => void): void {
+    this.arrivalListeners.push(listener);
+  }
+
   /**
    * Start travel between two locations
    */
   startTravel(
     ship: Ship,
     destination: NavigationTarget,
-    origin?: NavigationTarget
+    origin?: NavigationTarget,
+    preference: RoutePreference = 'shortest'
   ): { success: boolean; travelPlan?: TravelPlan; error?: string } {
     // Validate ship can travel (not already in transit)
     if (ship.location.isInTransit) {
@@ -66,12 +92,32 @@ export class NavigationManager {
       };
     }
 
+    // Trips to other systems follow a galaxy route through in-sector jumps and gates
+    const route = this.findRoute(ship, destination, preference);
+    if (route === null) {
+      return {
+        success: false,
+        error: `No route to ${destination.name}`
+      };
+    }
+
     // Calculate travel distance and time
-    const distance = this.calculateDistance(actualOrigin.position, destination.position);
+    const distance = route
+      ? this.getPathfinder()!.measureRoute(route, actualOrigin.position, destination.position)
+      : this.calculateDistance(actualOrigin.position, destination.position);
     const travelSpeed = this.calculateShipSpeed(ship);
     const travelTimeHours = Math.max(0.01, distance / travelSpeed); // Minimum 0.01 hours (36 seconds) for any travel
     const travelTimeMs = travelTimeHours * 60 * 60 * 1000; // Convert to milliseconds
 
+    // Burn fuel for the trip up front; a ship that cannot cover the distance stays put
+    const fuelCost = calculateTravelFuelCost(ship, distance) + (route?.totalEnergyCost ?? 0);
+    if (!consumeFuel(ship, fuelCost)) {
+      return {
+        success: false,
+        error: `Insufficient fuel. Need ${fuelCost.toFixed(1)}, have ${getCurrentFuel(ship).toFixed(1)}`
+      };
+    }
+
     // Create travel plan
     const currentTime = this.timeManager.getCurrentDate();
     const travelPlan: TravelPlan = {
@@ -83,6 +129,8 @@ export class NavigationManager {
       estimatedArrivalTime: new Date(currentTime.getTime() + travelTimeMs),
       actualTravelTime: travelTimeMs,
       travelSpeed,
+      fuelCost,
+      ...(route && { route }),
       status: 'in-transit'
     };
 
@@ -172,7 +220,7 @@ export class NavigationManager {
     // Check for completed travels
     for (const [travelId, travelPlan] of this.activeTravels) {
       if (currentTime >= travelPlan.estimatedArrivalTime && travelPlan.status === 'in-transit') {
-        travelPlan.status = 'completed';
+        this.markArrived(travelPlan);
         completedTravels.push(travelId);
         this.travelHistory.push(travelPlan);
       }
@@ -184,6 +232,27 @@ export class NavigationManager {
     });
   }
 
+  private getPathfinder(): GalaxyPathfinder | null {
+    return this.worldManager ? this.worldManager.getPathfinder() : null;
+  }
+
+  /**
+   * Find the galaxy route for a trip that leaves the ship's current system.
+   * Returns undefined for trips within the system (or without galaxy data)
+   * and null when the destination system cannot be reached.
+   */
+  private findRoute(ship: Ship, destination: NavigationTarget, preference: RoutePreference): GalaxyRoute | null | undefined {
+    const pathfinder = this.getPathfinder();
+    if (!pathfinder || !pathfinder.hasSystem(ship.location.systemId)) return undefined;
+
+    const destinationSystemId = destination.type === 'station'
+      ? pathfinder.getSystemIdForStation(destination.id)
+      : destination.type === 'system' ? destination.id : null;
+    if (!destinationSystemId || destinationSystemId === ship.location.systemId) return undefined;
+
+    return pathfinder.findRoute(ship.location.systemId, destinationSystemId, preference);
+  }
+
   /**
    * Calculate ship speed based on ship class and equipment
    */
@@ -255,12 +324,18 @@ export class NavigationManager {
       .find(plan => plan.shipId === shipId && plan.status === 'in-transit');
 
     if (travelPlan) {
-      travelPlan.status = 'completed';
-      // Note: Actual ship location update would need to be handled by PlayerManager
-      // This method serves as a callback notification that travel is complete
+      this.markArrived(travelPlan);
     }
   }
 
+  /**
+   * Mark a trip complete and let listeners (PlayerManager) move the ship
+   */
+  private markArrived(travelPlan: TravelPlan): void {
+    travelPlan.status = 'completed';
+    this.arrivalListeners.forEach(listener => listener(travelPlan));
+  }
+
   /**
    * Interpolate position between two points
    */
@@ -294,13 +369,17 @@ export class NavigationManager {
     return (distance / speed) * 60 * 60 * 1000; // Return in milliseconds
   }
 
+  /**
+   * Estimate the fuel a ship would burn between two targets
+   */
+  estimateFuelCost(ship: Ship, origin: NavigationTarget, destination: NavigationTarget): number {
+    return calculateTravelFuelCost(ship, this.calculateDistance(origin.position, destination.position));
+  }
+
   /**
    * Get navigation manager state for save/load
    */
-  getState(): {
-    activeTravels: TravelPlan[];
-    travelHistory: TravelPlan[];
-  } {
+  getState(): NavigationManagerSaveData {
     return {
       activeTravels: Array.from(this.activeTravels.values()),
       travelHistory: [...this.travelHistory]
@@ -310,10 +389,7 @@ export class NavigationManager {
   /**
    * Restore navigation manager state
    */
-  setState(state: {
-    activeTravels: TravelPlan[];
-    travelHistory: TravelPlan[];
-  }): void {
+  setState(state: NavigationManagerSaveData): void {
     this.activeTravels.clear();
     state.activeTravels.forEach(plan => {
       // Restore dates from serialized data
@@ -35,7 +35,7 @@ export interface EquipmentCatalog {
   [itemId: string]: PersonalItem;
 }
 
-interface PersonalEquipmentManagerSaveData {
+export interface PersonalEquipmentManagerSaveData {
   personalEquipment: PersonalEquipment;
   equipmentCatalog: EquipmentCatalog;
 }
@@ -592,6 +592,20 @@ export class PersonalEquipmentManager {
     listeners.forEach(callback => callback(data));
   }
 
+  /**
+   * Unequip everything and restock the catalog
+   */
+  reset(): void {
+    this.personalEquipment = {
+      suit: null,
+      tool: null,
+      datapad: null,
+      accessory: null
+    };
+    this.equipmentCatalog = {};
+    this.initializeEquipmentCatalog();
+  }
+
   /**
    * Serialize equipment data for save/load
    */
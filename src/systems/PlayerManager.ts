@@ -2,29 +2,66 @@ import {
   Player, 
   PlayerWithCurrentShip,
   Ship, 
+  CargoHold,
   CargoItem, 
   ShipClass, 
   TradeTransaction, 
   InventoryManager,
   PlayerStatistics,
-  EquipmentItem
+  EquipmentItem,
+  FactionReputation
 } from '../types/player';
 import { getCommodity } from '../data/commodities';
-import { ShipStorageManager } from './ShipStorageManager';
-import { FactionManager, ReputationChange } from './FactionManager';
+import { ShipStorageManager, ShipStorageManagerSaveData } from './ShipStorageManager';
+import { FactionManager, FactionManagerSaveData, ReputationChange } from './FactionManager';
 import { ContactFactory } from './ContactManager';
-import { CharacterManager } from './CharacterManager';
+import { CharacterManager, CharacterManagerSaveData } from './CharacterManager';
 import { Character } from '../types/character';
 import { Contact } from '../types/contacts';
 import { NavigationManager, TravelPlan, TravelProgress } from './NavigationManager';
-import { NavigationTarget } from '../types/world';
+import { Coordinates, Gate, NavigationTarget, Station } from '../types/world';
 import { createLayeredPosition } from '../utils/coordinates';
+import {
+  FUEL_PRICE_PER_UNIT,
+  addFuel,
+  calculateTravelFuelCost,
+  getCurrentFuel,
+  getFuelCapacity,
+  hasFuel
+} from '../utils/fuel';
+import { calculateExpirationTime, getSpoilageValueMultiplier, isSpoiled } from '../utils/spoilage';
+import { TimeManager } from './TimeManager';
 
 // Forward declaration to avoid circular dependency
 interface ICharacterProgressionSystem {
   awardTradingExperience(activity: string, data: {value?: number; profitMargin?: number}): boolean;
 }
 
+/**
+ * Ship as stored in a save file: the cargo Map is flattened to entries.
+ */
+export type SavedShip = Omit<Ship, 'cargo'> & {
+  cargo: Omit<CargoHold, 'items'> & {
+    items: Array<[string, CargoItem]>;
+  };
+};
+
+export interface PlayerManagerSaveData {
+  player: Omit<Player, 'ownedShips' | 'reputation' | 'statistics'> & {
+    ownedShips: Array<[string, SavedShip]>;
+    reputation: Array<[string, FactionReputation]>;
+    statistics: Omit<PlayerStatistics, 'stationsVisited' | 'commoditiesTraded'> & {
+      stationsVisited: string[];
+      commoditiesTraded: string[];
+    };
+  };
+  transactions: TradeTransaction[];
+  equipmentInventory: EquipmentItem[];
+  shipStorage: ShipStorageManagerSaveData;
+  factionManager: FactionManagerSaveData;
+  characterManager: CharacterManagerSaveData | null;
+}
+
 export class PlayerManager implements InventoryManager {
   private player: Player;
   private transactions: TradeTransaction[] = [];
@@ -33,6 +70,7 @@ export class PlayerManager implements InventoryManager {
   private characterManager: CharacterManager;
   private navigationManager: NavigationManager | null = null;
   private worldManager: any = null; // WorldManager reference for navigation
+  private timeManager: TimeManager | null = null; // Game clock for cargo spoilage
   private progressionSystem: ICharacterProgressionSystem | null = null;
   private equipmentInventory: EquipmentItem[] = []; // Store uninstalled equipment
 
@@ -55,6 +93,11 @@ export class PlayerManager implements InventoryManager {
    */
   setNavigationManager(navigationManager: NavigationManager): void {
     this.navigationManager = navigationManager;
+    navigationManager.onArrival(travelPlan => {
+      if (travelPlan.shipId === this.getCurrentShip().id) {
+        this.completeTravelArrival();
+      }
+    });
   }
 
   /**
@@ -64,13 +107,24 @@ export class PlayerManager implements InventoryManager {
     this.worldManager = worldManager;
   }
 
+  /**
+   * Set the time manager (dependency injection) - perishable cargo ages on game time
+   */
+  setTimeManager(timeManager: TimeManager): void {
+    this.timeManager = timeManager;
+  }
+
+  private getGameTime(): number {
+    return this.timeManager ? this.timeManager.getCurrentTimestamp() : Date.now();
+  }
+
   private createDefaultPlayer(id: string, name: string): Player {
     const defaultShipClass: ShipClass = {
       id: 'light-freighter',
       name: 'Light Freighter',
       category: 'transport',
       baseCargoCapacity: 100,
-      baseFuelCapacity: 50,
+      baseFuelCapacity: 150,
       baseSpeed: 120,
       baseShields: 25,
       equipmentSlots: {
@@ -237,6 +291,19 @@ export class PlayerManager implements InventoryManager {
     return result;
   }
 
+  addCapturedShip(shipClassId: string, name: string, condition: number): { success: boolean; ship?: Ship; error?: string } {
+    const ship = this.shipStorage.createCapturedShip(shipClassId, name, this.player.currentStationId, this.player.id, condition);
+    if (!ship) {
+      return { success: false, error: `Unknown ship class: ${shipClassId}` };
+    }
+
+    // Prize crews bring captured ships to the player's current station
+    ship.location.systemId = this.getCurrentShip().location.systemId;
+    this.player.ownedShips.set(ship.id, ship);
+
+    return { success: true, ship };
+  }
+
   storeShip(shipId: string): { success: boolean; dailyFee?: number; error?: string } {
     if (shipId === this.player.currentShipId) {
       return { success: false, error: 'Cannot store your current ship. Switch to another ship first.' };
@@ -325,20 +392,28 @@ export class PlayerManager implements InventoryManager {
     const cargo = currentShip.cargo;
     const existingItem = cargo.items.get(commodityId);
 
+    const now = this.getGameTime();
+    const expirationTime = calculateExpirationTime(currentShip, commodity, now);
+
     if (existingItem) {
       // Calculate weighted average price
       const totalQuantity = existingItem.quantity + quantity;
       const totalValue = (existingItem.quantity * existingItem.averagePurchasePrice) + 
                         (quantity * purchasePrice);
       existingItem.averagePurchasePrice = totalValue / totalQuantity;
+      // Mixing fresh goods into a stack averages its age the same way
+      if (existingItem.expirationTime !== undefined && expirationTime !== undefined) {
+        existingItem.acquiredAt = (existingItem.quantity * existingItem.acquiredAt + quantity * now) / totalQuantity;
+        existingItem.expirationTime = (existingItem.quantity * existingItem.expirationTime + quantity * expirationTime) / totalQuantity;
+      }
       existingItem.quantity = totalQuantity;
     } else {
       const newItem: CargoItem = {
         commodityId,
         quantity,
         averagePurchasePrice: purchasePrice,
-        acquiredAt: Date.now(),
-        expirationTime: commodity.perishable ? Date.now() + (commodity.shelfLife! * 24 * 60 * 60 * 1000) : undefined
+        acquiredAt: now,
+        expirationTime
       };
       cargo.items.set(commodityId, newItem);
     }
@@ -388,12 +463,44 @@ export class PlayerManager implements InventoryManager {
   getCargoValue(): number {
     let totalValue = 0;
     const currentShip = this.getCurrentShip();
+    const now = this.getGameTime();
     for (const item of currentShip.cargo.items.values()) {
-      totalValue += item.quantity * item.averagePurchasePrice;
+      totalValue += item.quantity * item.averagePurchasePrice * getSpoilageValueMultiplier(item, now);
     }
     return totalValue;
   }
 
+  /**
+   * Fraction of market value a cargo item still fetches, 1.0 unless it is spoiling
+   */
+  getCargoValueMultiplier(commodityId: string): number {
+    const item = this.getCurrentShip().cargo.items.get(commodityId);
+    return item ? getSpoilageValueMultiplier(item, this.getGameTime()) : 1;
+  }
+
+  /**
+   * Destroy perishable cargo that has passed its expiration time on every owned ship.
+   * Returns what was lost.
+   */
+  updateCargoSpoilage(): Array<{ shipId: string; commodityId: string; quantity: number }> {
+    const now = this.getGameTime();
+    const spoiled: Array<{ shipId: string; commodityId: string; quantity: number }> = [];
+
+    for (const ship of this.player.ownedShips.values()) {
+      for (const item of Array.from(ship.cargo.items.values())) {
+        if (!isSpoiled(item, now)) continue;
+
+        const commodity = getCommodity(item.commodityId);
+        ship.cargo.used = Math.max(0, ship.cargo.used - item.quantity * (commodity?.unitSize ?? 1));
+        ship.cargo.items.delete(item.commodityId);
+        spoiled.push({ shipId: ship.id, commodityId: item.commodityId, quantity: item.quantity });
+        console.log(`${item.quantity} units of ${commodity?.name ?? item.commodityId} spoiled aboard ${ship.name}`);
+      }
+    }
+
+    return spoiled;
+  }
+
   getCommodityQuantity(commodityId: string): number {
     const currentShip = this.getCurrentShip();
     const item = currentShip.cargo.items.get(commodityId);
@@ -660,6 +767,88 @@ export class PlayerManager implements InventoryManager {
     });
   }
 
+  // Fuel management
+  getFuel(): number {
+    return getCurrentFuel(this.getCurrentShip());
+  }
+
+  getFuelCapacity(): number {
+    return getFuelCapacity(this.getCurrentShip());
+  }
+
+  /**
+   * Add fuel to the current ship's tank (emergency deliveries, rewards).
+   * Returns the amount that fit in the tank.
+   */
+  addFuel(amount: number): number {
+    return addFuel(this.getCurrentShip(), amount);
+  }
+
+  getRefuelCost(amount: number = this.getFuelCapacity() - this.getFuel()): number {
+    return Math.ceil(Math.max(0, amount) * FUEL_PRICE_PER_UNIT);
+  }
+
+  /**
+   * Buy fuel at the docked station. Fills the tank unless an amount is given.
+   */
+  refuel(amount?: number): { success: boolean; amount: number; cost: number; error?: string } {
+    if (!this.worldManager) {
+      return { success: false, amount: 0, cost: 0, error: 'World manager not available' };
+    }
+
+    const stationId = this.player.currentStationId;
+    if (!stationId) {
+      return { success: false, amount: 0, cost: 0, error: 'Ship must be docked to refuel' };
+    }
+
+    const station = this.worldManager.getStationById(stationId);
+    if (!station || !station.services.includes('refuel')) {
+      return { success: false, amount: 0, cost: 0, error: 'This station does not offer refueling' };
+    }
+
+    const missing = this.getFuelCapacity() - this.getFuel();
+    const fuelAmount = Math.min(missing, amount ?? missing);
+    if (fuelAmount <= 0) {
+      return { success: false, amount: 0, cost: 0, error: 'Fuel tank is already full' };
+    }
+
+    const cost = this.getRefuelCost(fuelAmount);
+    if (!this.spendCredits(cost)) {
+      return { success: false, amount: 0, cost, error: `Insufficient credits. Need ${cost}, have ${this.player.credits}` };
+    }
+
+    this.addFuel(fuelAmount);
+    return { success: true, amount: fuelAmount, cost };
+  }
+
+  /**
+   * Whether the current ship is adrift: undocked, not travelling, and without
+   * the fuel to reach a refuel station or jump out of the system.
+   */
+  isStranded(): boolean {
+    const ship = this.getCurrentShip();
+    if (ship.location.stationId || ship.location.isInTransit) return false;
+
+    const position = ship.location.coordinates;
+    const system = this.worldManager?.getCurrentSystem();
+    if (!position || !system) return getCurrentFuel(ship) <= 0;
+
+    const fuelToReach = (target: Coordinates): number => {
+      const dx = target.x - position.x;
+      const dy = target.y - position.y;
+      return calculateTravelFuelCost(ship, Math.sqrt(dx * dx + dy * dy));
+    };
+
+    const canReachRefuel = system.stations.some((station: Station) =>
+      station.services.includes('refuel') && hasFuel(ship, fuelToReach(station.position))
+    );
+    const canJumpOut = system.gates.some((gate: Gate) =>
+      gate.isActive && hasFuel(ship, fuelToReach(gate.position) + gate.energyCost)
+    );
+
+    return !canReachRefuel && !canJumpOut;
+  }
+
   // Testing/debugging methods
   simulateShipDamage(damageAmount: number = 0.3): void {
     const currentShip = this.getCurrentShip();
@@ -781,7 +970,7 @@ export class PlayerManager implements InventoryManager {
   }
 
   // Save/load support
-  serialize(): any {
+  serialize(): PlayerManagerSaveData {
     return {
       player: {
         ...this.player,
@@ -791,7 +980,7 @@ export class PlayerManager implements InventoryManager {
           stationsVisited: Array.from(this.player.statistics.stationsVisited),
           commoditiesTraded: Array.from(this.player.statistics.commoditiesTraded)
         },
-        ownedShips: Array.from(this.player.ownedShips.entries()).map(([shipId, ship]) => [
+        ownedShips: Array.from(this.player.ownedShips.entries()).map(([shipId, ship]): [string, SavedShip] => [
           shipId,
           {
             ...ship,
@@ -803,18 +992,20 @@ export class PlayerManager implements InventoryManager {
         ])
       },
       transactions: this.transactions,
+      equipmentInventory: [...this.equipmentInventory],
       shipStorage: this.shipStorage.serialize(),
       factionManager: this.factionManager.serialize(),
       characterManager: this.characterManager.serialize()
     };
   }
 
-  deserialize(data: any): void {
+  deserialize(data: PlayerManagerSaveData): void {
     if (data.player) {
       // Handle owned ships conversion
       const ownedShips = new Map<string, Ship>();
+      const legacyShipData = (data.player as { ship?: SavedShip }).ship;
       if (data.player.ownedShips) {
-        data.player.ownedShips.forEach(([shipId, shipData]: [string, any]) => {
+        data.player.ownedShips.forEach(([shipId, shipData]) => {
           ownedShips.set(shipId, {
             ...shipData,
             cargo: {
@@ -823,13 +1014,13 @@ export class PlayerManager implements InventoryManager {
             }
           });
         });
-      } else if (data.player.ship) {
+      } else if (legacyShipData) {
         // Backward compatibility: convert old single ship to multi-ship format
         const legacyShip = {
-          ...data.player.ship,
+          ...legacyShipData,
           cargo: {
-            ...data.player.ship.cargo,
-            items: new Map(data.player.ship.cargo?.items || [])
+            ...legacyShipData.cargo,
+            items: new Map(legacyShipData.cargo?.items || [])
           }
         };
         ownedShips.set(legacyShip.id, legacyShip);
@@ -855,6 +1046,10 @@ export class PlayerManager implements InventoryManager {
       this.transactions = data.transactions;
     }
 
+    if (data.equipmentInventory) {
+      this.equipmentInventory = [...data.equipmentInventory];
+    }
+
     if (data.shipStorage) {
       this.shipStorage.deserialize(data.shipStorage);
     }
@@ -1056,17 +1251,26 @@ export class PlayerManager implements InventoryManager {
    */
   completeTravelArrival(): void {
     const currentShip = this.getCurrentShip();
-    if (currentShip.location.isInTransit && currentShip.location.destination) {
+    const destination = currentShip.location.destination;
+    if (currentShip.location.isInTransit && destination) {
       // Update ship location
       currentShip.location.isInTransit = false;
-      
-      // For station travel, update station ID
-      if (currentShip.location.destination.startsWith('station:') || 
-          currentShip.location.destination.includes('-station')) {
-        currentShip.location.stationId = currentShip.location.destination;
+
+      // Trips routed through other systems end in the destination's system
+      const pathfinder = this.worldManager?.getPathfinder();
+      const stationSystemId = pathfinder?.getSystemIdForStation(destination) ?? null;
+      if (stationSystemId) {
+        currentShip.location.systemId = stationSystemId;
         currentShip.location.coordinates = undefined;
+        this.setCurrentStation(destination);
+      } else if (pathfinder?.hasSystem(destination)) {
+        currentShip.location.systemId = destination;
+        this.setCurrentStation(null);
       }
-      
+
+      // Keep the world's idea of where the player is in step with the ship
+      this.worldManager?.setPlayerLocation(currentShip.location.systemId, currentShip.location.stationId);
+
       // Clear travel data
       currentShip.location.destination = undefined;
       currentShip.location.arrivalTime = undefined;
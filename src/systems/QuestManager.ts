@@ -5,6 +5,7 @@ import {
   FactionStoryline,
   SeasonalContent,
   Dialogue,
+  QuestFlag,
 } from '../types/quests';
 import { FactionManager } from './FactionManager';
 import { CharacterManager } from './CharacterManager';
@@ -15,6 +16,16 @@ import { RAIJIN_CORP_STORYLINES, INDEPENDENT_SYSTEMS_STORYLINES, PIRATES_STORYLI
 import { ENHANCED_SEASONAL_EVENTS } from '../data/seasonalEvents';
 import { ENDGAME_QUESTS } from '../data/endgameContent';
 
+export interface QuestManagerSaveData {
+  activeQuests: Array<[string, StoryQuest]>;
+  completedQuests: string[];
+  failedQuests: string[];
+  availableQuests: string[];
+  questFlags: Array<[string, QuestFlag]>;
+  storyArcs: Array<[string, StoryArc]>;
+  dialogueHistory: Array<[string, number]>;
+}
+
 /**
  * QuestManager handles faction storylines, major questlines, and narrative content.
  * 
@@ -1938,7 +1949,7 @@ export class QuestManager {
   /**
    * Serialize quest system state for saving
    */
-  serialize(): any {
+  serialize(): QuestManagerSaveData {
     return {
       activeQuests: Array.from(this.questSystemState.activeQuests.entries()),
       completedQuests: this.questSystemState.completedQuests,
@@ -1953,7 +1964,7 @@ export class QuestManager {
   /**
    * Deserialize quest system state for loading
    */
-  deserialize(data: any): void {
+  deserialize(data: QuestManagerSaveData): void {
     if (!data) return;
 
     this.questSystemState.activeQuests = new Map(data.activeQuests || []);
@@ -1,6 +1,8 @@
 import { TradeRoute, RouteAnalysis, Market } from '../types/economy';
-import { Station, Sector, StarSystem } from '../types/world';
+import { Station, Sector } from '../types/world';
 import { getCommodity } from '../data/commodities';
+import { FUEL_DISTANCE_PER_UNIT, FUEL_PRICE_PER_UNIT } from '../utils/fuel';
+import { GalaxyPathfinder } from './GalaxyPathfinder';
 
 export class RouteAnalyzer {
   private analysisCache: Map<string, RouteAnalysis> = new Map();
@@ -119,6 +121,9 @@ export class RouteAnalyzer {
       }
     }
 
+    // Fuel for the trip at stock engine efficiency, plus the gate jump
+    const fuelCost = (distance / FUEL_DISTANCE_PER_UNIT + gateCost) * FUEL_PRICE_PER_UNIT;
+
     // Check each commodity that's available at origin and in demand at destination
     for (const [commodityId, originCommodity] of originMarket.commodities) {
       const destinationCommodity = destinationMarket.commodities.get(commodityId);
@@ -133,15 +138,15 @@ export class RouteAnalyzer {
       const buyPrice = originCommodity.currentPrice;
       const sellPrice = destinationCommodity.currentPrice;
       const profitPerUnit = sellPrice - buyPrice;
+      const volume = Math.min(originCommodity.available, destinationCommodity.demand || 100);
       
-      // Subtract gate costs from profit for cross-sector routes
-      const adjustedProfitPerUnit = profitPerUnit - (gateCost / Math.max(1, originCommodity.available));
+      // Spread the trip's fuel bill over the cargo carried
+      const adjustedProfitPerUnit = profitPerUnit - (fuelCost / Math.max(1, volume));
       
-      // Only profitable routes (accounting for gate costs)
+      // Only profitable routes (accounting for fuel and gate costs)
       if (adjustedProfitPerUnit <= 0) continue;
 
       const profitMargin = (adjustedProfitPerUnit / buyPrice) * 100;
-      const volume = Math.min(originCommodity.available, destinationCommodity.demand || 100);
       const totalProfit = adjustedProfitPerUnit * volume;
       const profitPerHour = totalProfit / Math.max(1, travelTime);
 
@@ -158,6 +163,7 @@ export class RouteAnalyzer {
         profitPerHour,
         risk,
         volume,
+        fuelCost,
         lastCalculated: Date.now(),
         // Add gate information for cross-sector routes
         ...(gateId && { 
@@ -327,7 +333,9 @@ export class RouteAnalyzer {
   }
 
   /**
-   * Find the best gate route between two stations in different sectors
+   * Find the shortest gate route between two stations in different sectors.
+   * Routes may pass through any number of gates; gateCost totals every jump
+   * and gateId is the first gate to take.
    */
   private findGateRoute(station1: Station, station2: Station): { 
     totalDistance: number; 
@@ -336,81 +344,19 @@ export class RouteAnalyzer {
   } | null {
     if (!this.worldManager) return null;
 
-    const galaxy = this.worldManager.getGalaxy();
-    
-    // Find systems containing these stations
-    let system1: StarSystem | undefined;
-    let system2: StarSystem | undefined;
-    let sector1: Sector | undefined;
-    let sector2: Sector | undefined;
-
-    for (const sector of galaxy.sectors) {
-      for (const system of sector.systems) {
-        if (system.stations.some((s: Station) => s.id === station1.id)) {
-          system1 = system;
-          sector1 = sector;
-        }
-        if (system.stations.some((s: Station) => s.id === station2.id)) {
-          system2 = system;
-          sector2 = sector;
-        }
-      }
-    }
-
-    if (!system1 || !system2 || !sector1 || !sector2) return null;
-    if (sector1.id === sector2.id) return null; // Same sector, shouldn't use gates
+    const pathfinder: GalaxyPathfinder = this.worldManager.getPathfinder();
+    const system1 = pathfinder.getSystemIdForStation(station1.id);
+    const system2 = pathfinder.getSystemIdForStation(station2.id);
+    if (!system1 || !system2) return null;
 
-    // Find a gate that can take us to the destination sector
-    let bestRoute: { totalDistance: number; gateCost: number; gateId: string } | null = null;
+    const route = pathfinder.findRoute(system1, system2);
+    const firstGate = route?.legs.find(leg => leg.type === 'gate');
+    if (!route || !firstGate) return null; // Same sector, shouldn't use gates
 
-    for (const sector of galaxy.sectors) {
-      for (const system of sector.systems) {
-        for (const gate of system.gates) {
-          if (gate.destinationSectorId === sector2.id && gate.isActive) {
-            // Calculate total distance: station1 → gate → destination system → station2
-            const distanceToGate = this.calculateDirectDistance(station1.position, gate.position);
-            const distanceFromGate = this.calculateDirectDistance(
-              this.findSystemById(gate.destinationSystemId || sector2.systems[0]?.id)?.position || { x: 0, y: 0, z: 0 },
-              station2.position
-            );
-            
-            const totalDistance = distanceToGate + distanceFromGate;
-            
-            if (!bestRoute || totalDistance < bestRoute.totalDistance) {
-              bestRoute = {
-                totalDistance,
-                gateCost: gate.energyCost,
-                gateId: gate.id
-              };
-            }
-          }
-        }
-      }
-    }
-
-    return bestRoute;
-  }
-
-  /**
-   * Calculate direct distance between two coordinate points
-   */
-  private calculateDirectDistance(pos1: { x: number; y: number; z?: number }, pos2: { x: number; y: number; z?: number }): number {
-    const dx = pos2.x - pos1.x;
-    const dy = pos2.y - pos1.y;
-    return Math.sqrt(dx * dx + dy * dy);
-  }
-
-  /**
-   * Find system by ID across all sectors
-   */
-  private findSystemById(systemId?: string): StarSystem | undefined {
-    if (!this.worldManager || !systemId) return undefined;
-
-    const galaxy = this.worldManager.getGalaxy();
-    for (const sector of galaxy.sectors) {
-      const system = sector.systems.find((s: StarSystem) => s.id === systemId);
-      if (system) return system;
-    }
-    return undefined;
+    return {
+      totalDistance: pathfinder.measureRoute(route, station1.position, station2.position),
+      gateCost: route.totalEnergyCost,
+      gateId: firstGate.gateId ?? null
+    };
   }
 }
\ No newline at end of file
@@ -2,22 +2,80 @@
  * SaveManager - Handles save/load functionality for the game
  * 
  * This system provides:
- * - Local storage save/load
+ * - Save/load through a pluggable storage backend (localStorage, IndexedDB, memory)
  * - Multiple save slots
  * - Auto-save functionality
  * - Import/export functionality
  * - Save validation and error recovery
  */
 
+import { Galaxy } from '../types/world';
+import { EventSystemState } from '../types/events';
+import { TimeEvent } from './TimeManager';
+import { EconomicSystemSaveData } from './EconomicSystem';
+import { ContractManagerSaveData } from './ContractManager';
+import { PlayerManagerSaveData } from './PlayerManager';
+import { CharacterManagerSaveData } from './CharacterManager';
+import { SkillSpecializationManagerSaveData } from './SkillSpecializationManager';
+import { AchievementManagerSaveData } from './AchievementManager';
+import { PersonalEquipmentManagerSaveData } from './PersonalEquipmentManager';
+import { MaintenanceManagerSaveData } from './MaintenanceManager';
+import { NPCAIManagerSaveData } from './NPCAIManager';
+import { SecurityManagerSaveData } from './SecurityManager';
+import { HackingManagerSaveData } from './HackingManager';
+import { CombatManagerSaveData } from './CombatManager';
+import { InvestmentManagerSaveData } from './InvestmentManager';
+import { QuestManagerSaveData } from './QuestManager';
+import { NavigationManagerSaveData } from './NavigationManager';
+import { EndgameManagerSaveData } from './EndgameManager';
+import { migrateSave, SaveDocument } from './SaveMigrations';
+import { compressToUTF16, decompressFromUTF16, checksum } from '../utils/compression';
+import { SaveStorageBackend, createSaveStorageBackend } from './SaveStorage';
+import { SeededRandomState } from '../utils/SeededRandom';
+
+/**
+ * Scheduled time event as stored in a save. Callbacks belong to the system
+ * that scheduled them and are not persisted.
+ */
+export type SavedTimeEvent = Omit<TimeEvent, 'callback'>;
+
+/**
+ * Serialized state of every game system, keyed by system.
+ * Ship storage, factions and contacts are nested inside `player`.
+ */
+export interface GameSystemsSaveData {
+  economy: EconomicSystemSaveData;
+  contracts: ContractManagerSaveData;
+  player: PlayerManagerSaveData;
+  character: CharacterManagerSaveData | null;
+  skillSpecializations: SkillSpecializationManagerSaveData;
+  achievements: AchievementManagerSaveData;
+  personalEquipment: PersonalEquipmentManagerSaveData;
+  maintenance: MaintenanceManagerSaveData;
+  events: EventSystemState;
+  npcAI: NPCAIManagerSaveData;
+  security: SecurityManagerSaveData;
+  hacking: HackingManagerSaveData;
+  combat: CombatManagerSaveData;
+  investment: InvestmentManagerSaveData;
+  quests: QuestManagerSaveData;
+  navigation: NavigationManagerSaveData;
+  // Absent in saves from builds before prestige and New Game+
+  endgame?: EndgameManagerSaveData;
+}
+
 export interface GameSaveData {
   version: string;
   timestamp: Date;
   playerName: string;
   playtimeMs: number;
+
+  // Shared random generator seed and position, absent in saves from older builds
+  random?: SeededRandomState;
   
   // Core game state
   world: {
-    galaxy: unknown; // Will be properly typed later
+    galaxy: Galaxy;
     playerLocation: {
       sectorId: string;
       systemId: string;
@@ -30,10 +88,10 @@ export interface GameSaveData {
     gameStartTime: Date;
     accumulatedTime: number;
     timeAcceleration: number;
-    scheduledEvents: unknown[]; // Will be properly typed later
+    scheduledEvents: SavedTimeEvent[];
   };
   
-  // Player state (to be expanded in later phases)
+  // Player summary shown in slot listings; full state lives in `systems.player`
   player: {
     name: string;
     credits: number;
@@ -41,6 +99,9 @@ export interface GameSaveData {
     skills: Record<string, number>;
     reputation: Record<string, number>;
   };
+
+  // Full state of every game system, absent in summary-only saves
+  systems?: GameSystemsSaveData;
   
   // Game settings
   settings: {
@@ -69,6 +130,53 @@ export interface GameSaveData {
   };
 }
 
+/**
+ * Tagged JSON form of values that plain JSON would lose
+ */
+type TaggedSaveValue =
+  | { __saveType: 'Map'; entries: Array<[unknown, unknown]> }
+  | { __saveType: 'Set'; values: unknown[] }
+  | { __saveType: 'Date'; iso: string | null };
+
+/**
+ * JSON replacer that keeps Maps, Sets and Dates nested anywhere in the save.
+ * Reads `this[key]` because Date.toJSON has already run on `value`.
+ */
+function saveDataReplacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (raw instanceof Map) {
+    return { __saveType: 'Map', entries: Array.from(raw.entries()) };
+  }
+  if (raw instanceof Set) {
+    return { __saveType: 'Set', values: Array.from(raw.values()) };
+  }
+  if (raw instanceof Date) {
+    return { __saveType: 'Date', iso: isNaN(raw.getTime()) ? null : raw.toISOString() };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver matching saveDataReplacer
+ */
+function saveDataReviver(_key: string, value: unknown): unknown {
+  if (!value || typeof value !== 'object' || !('__saveType' in value)) {
+    return value;
+  }
+
+  const tagged = value as TaggedSaveValue;
+  switch (tagged.__saveType) {
+    case 'Map':
+      return new Map(tagged.entries);
+    case 'Set':
+      return new Set(tagged.values);
+    case 'Date':
+      return new Date(tagged.iso ?? NaN);
+    default:
+      return value;
+  }
+}
+
 export interface SaveSlot {
   id: string;
   name: string;
@@ -78,22 +186,35 @@ export interface SaveSlot {
   playerName: string;
   screenshot?: string; // Base64 encoded screenshot
   isAutoSave: boolean;
+  checksum?: string; // Checksum of the uncompressed save, absent for legacy saves
+  sizeBytes?: number; // Stored (compressed) size
 }
 
 export class SaveManager {
   private static readonly STORAGE_KEY_PREFIX = 'space_game_save_';
   private static readonly SETTINGS_KEY = 'space_game_settings';
-  private static readonly CURRENT_VERSION = '1.0.0';
+  private static readonly CURRENT_VERSION = '2.1.0';
   private static readonly MAX_SAVE_SLOTS = 10;
   private static readonly AUTO_SAVE_SLOT_ID = 'auto_save';
+  private static readonly COMPRESSED_FORMAT_PREFIX = 'lz1:';
   
   private autoSaveInterval: number = 5 * 60 * 1000; // 5 minutes default
   private autoSaveTimer: number | null = null;
+  private lastError: string | null = null;
+  private storage: SaveStorageBackend;
 
-  constructor() {
+  constructor(storage: SaveStorageBackend = createSaveStorageBackend()) {
+    this.storage = storage;
     this.loadSettings();
   }
 
+  /**
+   * Get the storage backend saves are written to
+   */
+  getStorage(): SaveStorageBackend {
+    return this.storage;
+  }
+
   /**
    * Save the current game state to a specific slot
    */
@@ -111,9 +232,13 @@ export class SaveManager {
         timestamp: new Date(),
         playerName: gameData.playerName || 'Unknown Player',
         playtimeMs: gameData.playtimeMs || 0,
+        random: gameData.random,
         
         world: gameData.world || {
-          galaxy: null,
+          galaxy: {
+            sectors: [],
+            currentPlayerLocation: { sectorId: '', systemId: '' }
+          },
           playerLocation: { sectorId: '', systemId: '' }
         },
         
@@ -132,6 +257,8 @@ export class SaveManager {
           reputation: {}
         },
         
+        systems: gameData.systems,
+        
         settings: gameData.settings || this.getDefaultSettings()
       };
 
@@ -144,6 +271,10 @@ export class SaveManager {
 
       progressCallback?.(0.5); // 50% - Validated data
 
+      // Compress before writing metadata so the slot can record the checksum
+      const compressed = await this.compressSaveData(saveData);
+      progressCallback?.(0.7); // 70% - Compressed data
+
       // Create save slot metadata
       const saveSlot: SaveSlot = {
         id: slotId,
@@ -152,20 +283,19 @@ export class SaveManager {
         playtime: this.formatPlaytime(saveData.playtimeMs),
         location: this.getLocationString(saveData.world.playerLocation),
         playerName: saveData.playerName,
-        isAutoSave: slotId === SaveManager.AUTO_SAVE_SLOT_ID
+        isAutoSave: slotId === SaveManager.AUTO_SAVE_SLOT_ID,
+        checksum: compressed.checksum,
+        sizeBytes: compressed.data.length * 2
       };
 
-      progressCallback?.(0.7); // 70% - Created metadata
+      progressCallback?.(0.9); // 90% - Created metadata
 
-      // Compress and save to localStorage
+      // Write to the storage backend
       const saveKey = SaveManager.STORAGE_KEY_PREFIX + slotId;
       const slotKey = SaveManager.STORAGE_KEY_PREFIX + 'slot_' + slotId;
       
-      const compressedData = await this.compressSaveData(saveData);
-      progressCallback?.(0.9); // 90% - Compressed data
-      
-      localStorage.setItem(saveKey, compressedData);
-      localStorage.setItem(slotKey, JSON.stringify(saveSlot));
+      await this.storage.setItem(saveKey, compressed.data);
+      await this.storage.setItem(slotKey, JSON.stringify(saveSlot));
       
       progressCallback?.(1.0); // 100% - Complete
       
@@ -182,11 +312,12 @@ export class SaveManager {
    * Load game state from a specific slot
    */
   async loadGame(slotId: string, progressCallback?: (progress: number) => void): Promise<GameSaveData | null> {
+    this.lastError = null;
     try {
       progressCallback?.(0.1); // 10% - Started loading
       
       const saveKey = SaveManager.STORAGE_KEY_PREFIX + slotId;
-      const savedData = localStorage.getItem(saveKey);
+      const savedData = await this.storage.getItem(saveKey);
       
       if (!savedData) {
         throw new Error(`No save data found for slot ${slotId}`);
@@ -194,13 +325,11 @@ export class SaveManager {
 
       progressCallback?.(0.3); // 30% - Retrieved data
 
-      const saveData = await this.decompressSaveData(savedData);
+      const rawSaveData = await this.decompressSaveData(savedData, await this.getSlotChecksum(slotId));
       progressCallback?.(0.7); // 70% - Decompressed data
       
-      // Validate loaded data
-      if (!this.validateSaveData(saveData)) {
-        throw new Error('Invalid save data format');
-      }
+      // Upgrade older formats, then validate against the current one
+      const saveData = this.migrateSaveData(rawSaveData);
 
       progressCallback?.(0.9); // 90% - Validated data
 
@@ -214,22 +343,29 @@ export class SaveManager {
       return saveData;
       
     } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
       console.error('Failed to load game:', error);
       return null;
     }
   }
 
+  /**
+   * Get the reason the last load or import failed, if it did
+   */
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
   /**
    * Get all available save slots
    */
-  getSaveSlots(): SaveSlot[] {
+  async getSaveSlots(): Promise<SaveSlot[]> {
     const slots: SaveSlot[] = [];
     
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(SaveManager.STORAGE_KEY_PREFIX + 'slot_')) {
+    for (const key of await this.storage.keys()) {
+      if (key.startsWith(SaveManager.STORAGE_KEY_PREFIX + 'slot_')) {
         try {
-          const slotData = localStorage.getItem(key);
+          const slotData = await this.storage.getItem(key);
           if (slotData) {
             const slot: SaveSlot = JSON.parse(slotData);
             slot.timestamp = new Date(slot.timestamp);
@@ -248,13 +384,13 @@ export class SaveManager {
   /**
    * Delete a save slot
    */
-  deleteSave(slotId: string): boolean {
+  async deleteSave(slotId: string): Promise<boolean> {
     try {
       const saveKey = SaveManager.STORAGE_KEY_PREFIX + slotId;
       const slotKey = SaveManager.STORAGE_KEY_PREFIX + 'slot_' + slotId;
       
-      localStorage.removeItem(saveKey);
-      localStorage.removeItem(slotKey);
+      await this.storage.removeItem(saveKey);
+      await this.storage.removeItem(slotKey);
       
       console.log(`Save slot ${slotId} deleted`);
       return true;
@@ -309,7 +445,7 @@ export class SaveManager {
       const saveData = await this.loadGame(slotId);
       if (!saveData) return null;
       
-      return JSON.stringify(saveData, null, 2);
+      return JSON.stringify(saveData, saveDataReplacer, 2);
       
     } catch (error) {
       console.error('Failed to export save:', error);
@@ -321,53 +457,42 @@ export class SaveManager {
    * Import save data from text
    */
   async importSave(saveDataText: string, slotId?: string): Promise<boolean> {
+    this.lastError = null;
     try {
-      const saveData: GameSaveData = JSON.parse(saveDataText);
+      const saveData = this.migrateSaveData(JSON.parse(saveDataText, saveDataReviver));
       
-      if (!this.validateSaveData(saveData)) {
-        throw new Error('Invalid save data format');
-      }
-      
-      const targetSlotId = slotId || this.findEmptySlot() || 'imported_' + Date.now();
+      const targetSlotId = slotId || await this.findEmptySlot() || 'imported_' + Date.now();
       return await this.saveGame(targetSlotId, saveData, 'Imported Save');
       
     } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
       console.error('Failed to import save:', error);
       return false;
     }
   }
 
   /**
-   * Check if localStorage is available
+   * Check if the storage backend is available
    */
-  isStorageAvailable(): boolean {
-    try {
-      const test = '__storage_test__';
-      localStorage.setItem(test, test);
-      localStorage.removeItem(test);
-      return true;
-    } catch {
-      return false;
-    }
+  async isStorageAvailable(): Promise<boolean> {
+    return this.storage.isAvailable();
   }
 
   /**
    * Get storage usage information
    */
-  getStorageInfo(): { used: number; available: number; percentage: number } {
+  async getStorageInfo(): Promise<{ used: number; available: number; percentage: number }> {
     try {
-      // Rough estimation of localStorage usage
+      // Rough estimation of save storage usage
       let used = 0;
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(SaveManager.STORAGE_KEY_PREFIX)) {
-          const value = localStorage.getItem(key);
+      for (const key of await this.storage.keys()) {
+        if (key.startsWith(SaveManager.STORAGE_KEY_PREFIX)) {
+          const value = await this.storage.getItem(key);
           used += (key.length + (value?.length || 0)) * 2; // Rough byte estimation
         }
       }
       
-      // Most browsers allow ~5-10MB for localStorage
-      const estimated = 5 * 1024 * 1024; // 5MB estimate
+      const estimated = this.storage.capacityBytes;
       
       return {
         used,
@@ -382,19 +507,19 @@ export class SaveManager {
   /**
    * Clean up old saves if storage is getting full
    */
-  cleanupOldSaves(): void {
-    const storageInfo = this.getStorageInfo();
+  async cleanupOldSaves(): Promise<void> {
+    const storageInfo = await this.getStorageInfo();
     if (storageInfo.percentage > 80) {
-      const slots = this.getSaveSlots();
+      const slots = await this.getSaveSlots();
       const oldSlots = slots
         .filter(slot => !slot.isAutoSave)
         .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
       
       // Delete oldest saves until we're under 60% storage
-      while (oldSlots.length > 0 && this.getStorageInfo().percentage > 60) {
+      while (oldSlots.length > 0 && (await this.getStorageInfo()).percentage > 60) {
         const oldestSlot = oldSlots.shift();
         if (oldestSlot) {
-          this.deleteSave(oldestSlot.id);
+          await this.deleteSave(oldestSlot.id);
         }
       }
     }
@@ -417,6 +542,21 @@ export class SaveManager {
            saveData.settings);
   }
 
+  /**
+   * Upgrade a loaded save to the current format and validate it
+   */
+  private migrateSaveData(data: unknown): GameSaveData {
+    if (!data || typeof data !== 'object' || typeof (data as Record<string, unknown>).version !== 'string') {
+      throw new Error('Invalid save data format');
+    }
+
+    const migrated = migrateSave(data as SaveDocument, SaveManager.CURRENT_VERSION);
+    if (!this.validateSaveData(migrated)) {
+      throw new Error('Invalid save data format');
+    }
+    return migrated;
+  }
+
   /**
    * Get default game settings
    */
@@ -457,11 +597,11 @@ export class SaveManager {
   }
 
   /**
-   * Load settings from localStorage
+   * Load settings from the storage backend
    */
-  private loadSettings(): void {
+  private async loadSettings(): Promise<void> {
     try {
-      const settingsData = localStorage.getItem(SaveManager.SETTINGS_KEY);
+      const settingsData = await this.storage.getItem(SaveManager.SETTINGS_KEY);
       if (settingsData) {
         // Settings loading logic would go here
         // For now, just verify it's valid JSON
@@ -499,8 +639,8 @@ export class SaveManager {
   /**
    * Find an empty save slot
    */
-  private findEmptySlot(): string | null {
-    const existingSlots = this.getSaveSlots();
+  private async findEmptySlot(): Promise<string | null> {
+    const existingSlots = await this.getSaveSlots();
     for (let i = 1; i <= SaveManager.MAX_SAVE_SLOTS; i++) {
       const slotId = `slot_${i}`;
       if (!existingSlots.find(slot => slot.id === slotId)) {
@@ -513,21 +653,56 @@ export class SaveManager {
   /**
    * Compress save data for efficient storage
    */
-  private async compressSaveData(saveData: GameSaveData): Promise<string> {
-    // Simple text compression - reduce JSON size by removing unnecessary whitespace
-    // and using a more compact format
-    const jsonString = JSON.stringify(saveData);
-    
-    // For larger saves, we could implement LZW compression or similar
-    // For now, we'll use efficient JSON stringification
-    return jsonString;
+  private async compressSaveData(saveData: GameSaveData): Promise<{ data: string; checksum: string }> {
+    const jsonString = JSON.stringify(saveData, saveDataReplacer);
+    const dataChecksum = checksum(jsonString);
+
+    // Header carries the checksum and length so truncation and corruption are caught on load
+    const data = `${SaveManager.COMPRESSED_FORMAT_PREFIX}${dataChecksum}:${jsonString.length}:${compressToUTF16(jsonString)}`;
+    return { data, checksum: dataChecksum };
+  }
+
+  /**
+   * Decompress save data and verify its integrity
+   */
+  private async decompressSaveData(compressedData: string, expectedChecksum?: string): Promise<GameSaveData> {
+    // Saves written before compression are plain JSON
+    if (!compressedData.startsWith(SaveManager.COMPRESSED_FORMAT_PREFIX)) {
+      return JSON.parse(compressedData, saveDataReviver);
+    }
+
+    const header = compressedData.slice(SaveManager.COMPRESSED_FORMAT_PREFIX.length);
+    const [storedChecksum = '', lengthText = ''] = header.split(':', 2);
+    const payloadStart = storedChecksum.length + lengthText.length + 2;
+    const expectedLength = Number(lengthText);
+    if (!/^[0-9a-f]{8}$/.test(storedChecksum) || !Number.isInteger(expectedLength) || header.length < payloadStart) {
+      throw new Error('Save data is corrupted: unreadable header');
+    }
+
+    if (expectedChecksum && expectedChecksum !== storedChecksum) {
+      throw new Error('Save data is corrupted: checksum does not match the save slot record');
+    }
+
+    const jsonString = decompressFromUTF16(header.slice(payloadStart));
+    if (jsonString === null || jsonString.length !== expectedLength) {
+      throw new Error('Save data is truncated or corrupted: decompressed size does not match');
+    }
+    if (checksum(jsonString) !== storedChecksum) {
+      throw new Error('Save data is corrupted: checksum mismatch');
+    }
+
+    return JSON.parse(jsonString, saveDataReviver);
   }
 
   /**
-   * Decompress save data
+   * Get the checksum recorded in a slot's metadata, if any
    */
-  private async decompressSaveData(compressedData: string): Promise<GameSaveData> {
-    // For now, this is just JSON parsing, but could be extended with decompression
-    return JSON.parse(compressedData);
+  private async getSlotChecksum(slotId: string): Promise<string | undefined> {
+    try {
+      const slotData = await this.storage.getItem(SaveManager.STORAGE_KEY_PREFIX + 'slot_' + slotId);
+      return slotData ? (JSON.parse(slotData) as SaveSlot).checksum : undefined;
+    } catch {
+      return undefined;
+    }
   }
 }
\ No newline at end of file
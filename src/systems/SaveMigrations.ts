@@ -0,0 +1,164 @@
+/**
+ * SaveMigrations - Upgrades save documents written by older builds
+ *
+ * Each migration moves a save from one format version to the next. Migrations
+ * run in order until the save reaches the current version, so every old
+ * version only needs a step to its immediate successor.
+ */
+
+/**
+ * Save document before it has been validated against the current format
+ */
+export type SaveDocument = Record<string, unknown> & { version: string };
+
+export interface SaveMigration {
+  fromVersion: string;
+  toVersion: string;
+  description: string;
+  migrate: (save: SaveDocument) => SaveDocument;
+}
+
+/**
+ * Registered migrations, one per format version step
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    fromVersion: '1.0.0',
+    toVersion: '2.0.0',
+    description: 'Galaxy is always an object and scheduled events carry no callbacks',
+    migrate: (save) => {
+      const world = (save.world ?? {}) as Record<string, unknown>;
+      const playerLocation = (world.playerLocation ?? { sectorId: '', systemId: '' }) as Record<string, unknown>;
+      const galaxy = world.galaxy && typeof world.galaxy === 'object'
+        ? world.galaxy as Record<string, unknown>
+        : {};
+
+      const time = (save.time ?? {}) as Record<string, unknown>;
+      const scheduledEvents = Array.isArray(time.scheduledEvents) ? time.scheduledEvents : [];
+
+      return {
+        ...save,
+        version: '2.0.0',
+        world: {
+          ...world,
+          playerLocation,
+          galaxy: {
+            ...galaxy,
+            sectors: Array.isArray(galaxy.sectors) ? galaxy.sectors : [],
+            currentPlayerLocation: galaxy.currentPlayerLocation ?? { ...playerLocation }
+          }
+        },
+        time: {
+          ...time,
+          scheduledEvents: scheduledEvents
+            .filter((event): event is Record<string, unknown> => !!event && typeof event === 'object')
+            .map(({ callback: _callback, ...event }) => event)
+        }
+      };
+    }
+  },
+  {
+    fromVersion: '2.0.0',
+    toVersion: '2.1.0',
+    description: 'Economy and contract timestamps run on game time instead of the wall clock',
+    migrate: (save) => {
+      const time = (save.time ?? {}) as Record<string, unknown>;
+      const systems = save.systems as Record<string, Record<string, unknown> | undefined> | undefined;
+      const savedAt = new Date(save.timestamp as string).getTime();
+      const gameNow = new Date(time.gameStartTime as string).getTime() + (Number(time.accumulatedTime) || 0);
+      if (!systems || !Number.isFinite(savedAt) || !Number.isFinite(gameNow)) {
+        return { ...save, version: '2.1.0' };
+      }
+
+      // Keep every timestamp the same distance from "now" as when the save was written
+      const offset = gameNow - savedAt;
+      const shift = (value: unknown) => typeof value === 'number' ? value + offset : value;
+      const entries = (value: unknown) => Array.isArray(value) ? value as Array<[string, Record<string, unknown>]> : [];
+
+      const economy = systems.economy;
+      const contracts = systems.contracts;
+
+      return {
+        ...save,
+        version: '2.1.0',
+        systems: {
+          ...systems,
+          ...(economy && {
+            economy: {
+              ...economy,
+              lastUpdateTime: shift(economy.lastUpdateTime),
+              markets: entries(economy.markets).map(([stationId, market]) => [stationId, {
+                ...market,
+                lastUpdate: shift(market.lastUpdate),
+                commodities: entries(market.commodities).map(([commodityId, commodity]) => [commodityId, {
+                  ...commodity,
+                  priceHistory: (Array.isArray(commodity.priceHistory) ? commodity.priceHistory : [])
+                    .map((point: Record<string, unknown>) => ({ ...point, timestamp: shift(point.timestamp) }))
+                }])
+              }]),
+              activeEvents: (Array.isArray(economy.activeEvents) ? economy.activeEvents : [])
+                .map((event: Record<string, unknown>) => ({ ...event, startTime: shift(event.startTime), endTime: shift(event.endTime) }))
+            }
+          }),
+          ...(contracts && {
+            contracts: {
+              ...contracts,
+              lastGenerationTime: shift(contracts.lastGenerationTime),
+              contracts: entries(contracts.contracts).map(([contractId, contract]) => [contractId, {
+                ...contract,
+                deadline: shift(contract.deadline),
+                ...(contract.completedAt !== undefined && { completedAt: shift(contract.completedAt) })
+              }])
+            }
+          })
+        }
+      };
+    }
+  }
+];
+
+/**
+ * Compare two dotted version strings, returning <0, 0 or >0
+ */
+export function compareSaveVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Run migrations until the save reaches the target version.
+ * Throws if the save is newer than the target or no migration path exists.
+ */
+export function migrateSave(
+  save: SaveDocument,
+  targetVersion: string,
+  migrations: SaveMigration[] = SAVE_MIGRATIONS
+): SaveDocument {
+  if (compareSaveVersions(save.version, targetVersion) > 0) {
+    throw new Error(
+      `Save version ${save.version} is newer than this build supports (${targetVersion}). Update the game to load it.`
+    );
+  }
+
+  let migrated = save;
+  while (compareSaveVersions(migrated.version, targetVersion) < 0) {
+    const migration = migrations.find(m => m.fromVersion === migrated.version);
+    if (!migration) {
+      throw new Error(`No migration path from save version ${migrated.version} to ${targetVersion}`);
+    }
+
+    migrated = migration.migrate(migrated);
+    if (migrated.version !== migration.toVersion) {
+      migrated = { ...migrated, version: migration.toVersion };
+    }
+  }
+
+  return migrated;
+}
@@ -0,0 +1,272 @@
+/**
+ * SaveStorage - Storage backends for save data
+ *
+ * SaveManager reads and writes through a SaveStorageBackend so saves can live
+ * in localStorage, IndexedDB (no 5MB cap), files on disk (desktop builds and
+ * headless tools running under Node) or memory (tests and environments without
+ * persistent storage). The backend is chosen once at startup.
+ */
+
+export type SaveStorageType = 'localStorage' | 'indexedDB' | 'file' | 'memory';
+
+// Directory file saves go in when none is given
+const DEFAULT_SAVE_DIRECTORY = 'saves';
+
+// Extension of each file written by the file backend
+const SAVE_FILE_EXTENSION = '.save';
+
+export interface SaveStorageBackend {
+  readonly type: SaveStorageType;
+  readonly capacityBytes: number; // Rough capacity used for storage usage reporting
+
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  isAvailable(): Promise<boolean>;
+}
+
+/**
+ * Keeps saves in memory for the lifetime of the backend
+ */
+export class MemorySaveStorage implements SaveStorageBackend {
+  readonly type = 'memory';
+  readonly capacityBytes = 50 * 1024 * 1024;
+
+  private items: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Remove every stored item
+   */
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+/**
+ * Keeps saves in window.localStorage
+ */
+export class LocalSaveStorage implements SaveStorageBackend {
+  readonly type = 'localStorage';
+  readonly capacityBytes = 5 * 1024 * 1024; // Most browsers allow ~5-10MB for localStorage
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key) keys.push(key);
+    }
+    return keys;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const test = '__storage_test__';
+      localStorage.setItem(test, test);
+      localStorage.removeItem(test);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Keeps saves in an IndexedDB object store
+ */
+export class IndexedDBSaveStorage implements SaveStorageBackend {
+  private static readonly DATABASE_NAME = 'space_game_saves';
+  private static readonly STORE_NAME = 'saves';
+  private static readonly DATABASE_VERSION = 1;
+
+  readonly type = 'indexedDB';
+  readonly capacityBytes = 50 * 1024 * 1024; // Browsers usually allow far more; keep the estimate conservative
+
+  private database: Promise<IDBDatabase> | null = null;
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.filter((key): key is string => typeof key === 'string');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (typeof indexedDB === 'undefined') return false;
+    try {
+      await this.openDatabase();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IndexedDBSaveStorage.DATABASE_NAME, IndexedDBSaveStorage.DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(IndexedDBSaveStorage.STORE_NAME)) {
+            request.result.createObjectStore(IndexedDBSaveStorage.STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if opening failed
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(IndexedDBSaveStorage.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(IndexedDBSaveStorage.STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Save storage transaction aborted'));
+    });
+  }
+}
+
+/**
+ * Keeps each save as a file in a directory. Only available under Node, so the
+ * file system modules are loaded on first use rather than bundled for the browser.
+ */
+export class FileSaveStorage implements SaveStorageBackend {
+  readonly type = 'file';
+  readonly capacityBytes = 500 * 1024 * 1024; // Disk space is rarely the limit; keep the estimate generous but finite
+
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_SAVE_DIRECTORY) {
+    this.directory = directory;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const fs = await import('node:fs/promises');
+    try {
+      return await fs.readFile(await this.getPath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const path = await this.getPath(key);
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write beside the save and swap it in, so a crash mid-write never leaves half a save
+    await fs.writeFile(`${path}.tmp`, value, 'utf8');
+    await fs.rename(`${path}.tmp`, path);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this.getPath(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await import('node:fs/promises');
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.endsWith(SAVE_FILE_EXTENSION))
+        .map(file => decodeURIComponent(file.slice(0, -SAVE_FILE_EXTENSION.length)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (typeof process === 'undefined' || !process.versions?.node) return false;
+    try {
+      const fs = await import('node:fs/promises');
+      await fs.mkdir(this.directory, { recursive: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Keys become file names, escaped so slot names cannot reach outside the directory
+   */
+  private async getPath(key: string): Promise<string> {
+    const { join } = await import('node:path');
+    return join(this.directory, `${encodeURIComponent(key)}${SAVE_FILE_EXTENSION}`);
+  }
+}
+
+/**
+ * Create the storage backend to use for this session.
+ * Falls back to localStorage when IndexedDB or Node's file system is missing, and to memory when
+ * neither browser store exists (saves then last only until reload).
+ */
+export function createSaveStorageBackend(
+  preferred: SaveStorageType = 'localStorage',
+  fileDirectory: string = DEFAULT_SAVE_DIRECTORY
+): SaveStorageBackend {
+  if (preferred === 'indexedDB' && typeof indexedDB !== 'undefined') {
+    return new IndexedDBSaveStorage();
+  }
+  if (preferred === 'file' && typeof process !== 'undefined' && process.versions?.node) {
+    return new FileSaveStorage(fileDirectory);
+  }
+  if (preferred !== 'memory' && typeof localStorage !== 'undefined') {
+    return new LocalSaveStorage();
+  }
+  if (preferred !== 'memory') {
+    console.warn(`Save storage "${preferred}" is not available, saves will not persist`);
+  }
+  return new MemorySaveStorage();
+}
@@ -16,13 +16,34 @@ import {
   SecurityScan,
   SecurityScanResult,
   SecurityEvent,
-  SecurityState
+  SecurityState,
+  PatrolRoute,
+  License
 } from '../types/security';
+import { ManipulationAlert } from '../types/investment';
 import { TimeManager } from './TimeManager';
 import { WorldManager } from './WorldManager';
 import { PlayerManager } from './PlayerManager';
 import { FactionManager } from './FactionManager';
 import { NPCAIManager } from './NPCAIManager';
+import { SeededRandom } from '../utils/SeededRandom';
+
+export interface SecurityManagerSaveData {
+  zones: Array<[string, SecurityZone]>;
+  agencies: Array<[string, LawEnforcementAgency]>;
+  units: Array<[string, LawEnforcementUnit]>;
+  criminalRecords: Array<[string, CriminalRecord]>;
+  activeInvestigations: Array<[string, InvestigationResult]>;
+  patrolRoutes: PatrolRoute[];
+  crimeDatabase: Array<[string, CrimeType]>;
+  licenses: Array<[string, License]>;
+  securityEvents: SecurityEvent[];
+  counters: {
+    crimeIdCounter: number;
+    warrantIdCounter: number;
+    eventIdCounter: number;
+  };
+}
 
 /**
  * SecurityManager handles all security and law enforcement systems in the galaxy.
@@ -63,19 +84,22 @@ export class SecurityManager {
   private lastPatrolUpdate = 0;
   private lastInvestigationUpdate = 0;
   private lastCrimeDetectionUpdate = 0;
+  private random: SeededRandom;
 
   constructor(
     timeManager: TimeManager,
     worldManager: WorldManager,
     playerManager: PlayerManager,
     factionManager: FactionManager,
-    npcManager: NPCAIManager
+    npcManager: NPCAIManager,
+    random: SeededRandom = new SeededRandom()
   ) {
     this.timeManager = timeManager;
     this.worldManager = worldManager;
     this.playerManager = playerManager;
     this.factionManager = factionManager;
     this.npcManager = npcManager;
+    this.random = random;
     
     this.state = this.initializeSecurityState();
     this.initializeSecurityZones();
@@ -586,6 +610,18 @@ export class SecurityManager {
         },
         factionReputationImpact: { 'traders-guild': -25, 'security-forces': -10 }
       },
+      {
+        id: 'market-manipulation',
+        name: 'Market Manipulation',
+        category: 'economic',
+        severity: 6,
+        description: 'Rigging prices, supply or demand in a station market',
+        basePenalty: {
+          fine: 50000,
+          reputationLoss: { 'traders-guild': -30, 'security-forces': -10 }
+        },
+        factionReputationImpact: { 'traders-guild': -20, 'security-forces': -5 }
+      },
       {
         id: 'weapon-violation',
         name: 'Illegal Weapons',
@@ -653,10 +689,10 @@ export class SecurityManager {
       if (unit.status === 'patrolling') {
         // Simple patrol behavior - could be expanded
         const zone = this.state.zones.get(unit.currentLocation);
-        if (zone && Math.random() < 0.1) { // 10% chance to change location
+        if (zone && this.random.next() < 0.1) { // 10% chance to change location
           const nearbyZones = this.getNearbyZones(unit.currentLocation);
           if (nearbyZones.length > 0) {
-            unit.currentLocation = nearbyZones[Math.floor(Math.random() * nearbyZones.length)];
+            unit.currentLocation = this.random.pick(nearbyZones);
           }
         }
       }
@@ -684,7 +720,7 @@ export class SecurityManager {
     
     this.state.activeInvestigations.forEach((investigation, crimeId) => {
       // Progress investigations over time
-      if (Math.random() < 0.3) { // 30% chance to make progress
+      if (this.random.next() < 0.3) { // 30% chance to make progress
         investigation.confidence = Math.min(100, investigation.confidence + 5);
         
         if (investigation.confidence >= 80) {
@@ -771,7 +807,7 @@ export class SecurityManager {
    * Calculate bounty amount based on crime severity
    */
   private calculateBounty(severity: number): number {
-    return severity * 5000 + Math.floor(Math.random() * 10000);
+    return severity * 5000 + Math.floor(this.random.next() * 10000);
   }
 
   /**
@@ -830,7 +866,7 @@ export class SecurityManager {
     
     if (!zone) return;
     
-    if (Math.random() * 100 < zone.securityLevel.inspectionChance) {
+    if (this.random.next() * 100 < zone.securityLevel.inspectionChance) {
       this.performSecurityScan(playerLocation);
     }
   }
@@ -995,6 +1031,26 @@ export class SecurityManager {
     return crimeId;
   }
 
+  /**
+   * Open a financial crime case from a market manipulation alert. The trading
+   * records are the evidence, as reliable as the alert is sure of the player.
+   */
+  investigateManipulationAlert(alert: ManipulationAlert): string | null {
+    if (alert.investigationStatus !== 'pending') return null;
+
+    const reliability = Math.round(alert.confidenceLevel * alert.playerImplication * 100);
+    const evidence: Evidence[] = alert.suspiciousActivity.map(activity => ({
+      type: 'digital',
+      reliability,
+      description: activity,
+      source: `market-records:${alert.market}`
+    }));
+    const location = this.worldManager.getPathfinder().getSystemIdForStation(alert.market) ?? alert.market;
+
+    alert.investigationStatus = 'investigating';
+    return this.reportCrime('market-manipulation', location, evidence);
+  }
+
   /**
    * Find witnesses at a location
    */
@@ -1121,6 +1177,18 @@ export class SecurityManager {
     return record?.crimes || [];
   }
 
+  /**
+   * Clear a suspect's criminal record and close the investigations naming them
+   */
+  clearCriminalRecord(suspectId: string): void {
+    this.state.criminalRecords.delete(suspectId);
+    this.state.activeInvestigations.forEach((investigation, crimeId) => {
+      if (investigation.suspects.includes(suspectId)) {
+        this.state.activeInvestigations.delete(crimeId);
+      }
+    });
+  }
+
   /**
    * Get recent security events
    */
@@ -1164,7 +1232,7 @@ export class SecurityManager {
   /**
    * Serialize security state for saving
    */
-  serialize(): any {
+  serialize(): SecurityManagerSaveData {
     return {
       zones: Array.from(this.state.zones.entries()),
       agencies: Array.from(this.state.agencies.entries()),
@@ -1186,7 +1254,7 @@ export class SecurityManager {
   /**
    * Deserialize security state from save data
    */
-  deserialize(data: any): void {
+  deserialize(data: SecurityManagerSaveData): void {
     if (data.zones) {
       this.state.zones = new Map(data.zones);
     }
@@ -18,7 +18,7 @@ export interface ShipYardOffer {
   availableCount: number;
 }
 
-interface ShipStorageManagerSaveData {
+export interface ShipStorageManagerSaveData {
   storedShips: Array<[string, ShipStorageSlot]>;
   shipYards: Array<[string, ShipYardOffer[]]>;
   lastStorageFeesCollected: number;
@@ -165,6 +165,20 @@ export class ShipStorageManager {
     return { success: true, ship, cost: totalCost };
   }
 
+  /**
+   * Create a ship taken in combat, crewed to the given station
+   */
+  createCapturedShip(shipClassId: string, name: string, stationId: string, playerId: string, condition: number): Ship | null {
+    const shipClass = SHIP_CLASSES[shipClassId];
+    if (!shipClass) {
+      return null;
+    }
+
+    const ship = this.createNewShip(shipClass, stationId, playerId, condition);
+    ship.name = name;
+    return ship;
+  }
+
   /**
    * Create a new ship instance
    */
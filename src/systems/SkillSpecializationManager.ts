@@ -16,7 +16,7 @@ import {
 } from '../types/skillTrees';
 import { CharacterSkills } from '../types/character';
 
-interface SkillSpecializationManagerSaveData {
+export interface SkillSpecializationManagerSaveData {
   playerSkillTrees: PlayerSkillTrees;
 }
 
@@ -28,12 +28,7 @@ export class SkillSpecializationManager {
   private eventListeners: Map<string, ((notification: SkillAdvancementNotification) => void)[]> = new Map();
 
   constructor() {
-    this.playerSkillTrees = {
-      unlockedNodes: new Map(),
-      specializations: [],
-      availableSkillPoints: 0,
-      totalSkillPointsSpent: 0
-    };
+    this.playerSkillTrees = this.createPlayerSkillTrees();
     
     this.skillPointCosts = {
       tier1: 1,
@@ -761,6 +756,25 @@ export class SkillSpecializationManager {
     listeners.forEach(callback => callback(notification));
   }
 
+  /**
+   * Forget every node and specialization the player unlocked
+   */
+  reset(): void {
+    this.playerSkillTrees = this.createPlayerSkillTrees();
+    // Nodes and specializations carry their own rank and unlock state
+    this.initializeSkillTrees();
+    this.initializeSpecializations();
+  }
+
+  private createPlayerSkillTrees(): PlayerSkillTrees {
+    return {
+      unlockedNodes: new Map(),
+      specializations: [],
+      availableSkillPoints: 0,
+      totalSkillPointsSpent: 0
+    };
+  }
+
   /**
    * Serialize skill tree data for save/load
    */
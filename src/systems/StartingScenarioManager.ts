@@ -206,7 +206,7 @@ export class StartingScenarioManager {
         name: 'Courier Ship',
         category: 'courier',
         baseCargoCapacity: 50,
-        baseFuelCapacity: 40,
+        baseFuelCapacity: 120,
         baseSpeed: 200,
         baseShields: 15,
         equipmentSlots: { engines: 1, cargo: 1, shields: 1, weapons: 1, utility: 1 }
@@ -216,7 +216,7 @@ export class StartingScenarioManager {
         name: 'Light Freighter',
         category: 'transport',
         baseCargoCapacity: 100,
-        baseFuelCapacity: 50,
+        baseFuelCapacity: 150,
         baseSpeed: 120,
         baseShields: 25,
         equipmentSlots: { engines: 1, cargo: 2, shields: 1, weapons: 1, utility: 1 }
@@ -226,7 +226,7 @@ export class StartingScenarioManager {
         name: 'Heavy Freighter',
         category: 'heavy-freight',
         baseCargoCapacity: 250,
-        baseFuelCapacity: 80,
+        baseFuelCapacity: 240,
         baseSpeed: 80,
         baseShields: 40,
         equipmentSlots: { engines: 2, cargo: 4, shields: 2, weapons: 2, utility: 2 }
@@ -2,6 +2,10 @@ import { Galaxy, Sector, StarSystem, Station, Planet, Coordinates, NavigationTar
 import { Ship } from '../types/player';
 import { SceneManager } from '../engine/SceneManager';
 import { convertPlanetCoords, convertStationCoords, createSystemCoords, createShipCoords } from '../utils/coordinates';
+import { SeededRandom } from '../utils/SeededRandom';
+import { calculateTravelFuelCost, consumeFuel, getCurrentFuel, hasFuel } from '../utils/fuel';
+import { GalaxyGenerator, GalaxyGenerationOptions, GateConnection } from './GalaxyGenerator';
+import { GalaxyPathfinder, GalaxyRoute, RoutePreference } from './GalaxyPathfinder';
 
 export class WorldManager {
   private galaxy: Galaxy;
@@ -17,9 +21,10 @@ export class WorldManager {
   private sceneManager: SceneManager | null = null;
   private pendingDockingTarget: string | null = null;
   private npcAIManager: any = null; // NPCAIManager reference for getting NPC ships
+  private pathfinder: GalaxyPathfinder | null = null;
 
   constructor() {
-    this.galaxy = this.generateInitialGalaxy();
+    this.galaxy = this.createPresetGalaxy();
   }
 
   /**
@@ -112,7 +117,10 @@ export class WorldManager {
     }
   }
 
-  private generateInitialGalaxy(): Galaxy {
+  /**
+   * Build the hand-made Core Worlds galaxy used for new games
+   */
+  createPresetGalaxy(): Galaxy {
     // Create a rich galaxy with multiple sectors and diverse systems
     const coreSector: Sector = {
       id: 'core-sector',
@@ -920,10 +928,43 @@ export class WorldManager {
   }
 
   /**
-   * Create gates for a system to enable inter-sector travel
+   * Generate a procedural galaxy from the given generator and make it current
+   */
+  generateGalaxy(random: SeededRandom, options: Partial<GalaxyGenerationOptions> = {}): Galaxy {
+    const generator = new GalaxyGenerator(random, (systemId, systemPosition, connections) =>
+      this.createGatesForSystem(systemId, systemPosition, connections)
+    );
+    this.setGalaxy(generator.generate(options));
+    return this.galaxy;
+  }
+
+  /**
+   * Create gates for a system to enable inter-sector travel.
+   * Generated systems pass their gate connections; preset systems use the
+   * hand-placed network below.
    */
-  private createGatesForSystem(systemId: string, systemPosition: Coordinates): Gate[] {
+  private createGatesForSystem(systemId: string, systemPosition: Coordinates, connections: GateConnection[] = []): Gate[] {
     const gates: Gate[] = [];
+
+    if (connections.length > 0) {
+      // Spread gates evenly around the star, well outside the station orbits
+      return connections.map((connection, index) => {
+        const angle = (index / connections.length) * Math.PI * 2;
+        return {
+          id: `gate-to-${connection.destinationSystemId}`,
+          name: `${connection.destinationSectorName} Gate`,
+          position: convertStationCoords({
+            x: Math.round(systemPosition.x + Math.cos(angle) * 450),
+            y: Math.round(systemPosition.y + Math.sin(angle) * 450)
+          }),
+          destinationSectorId: connection.destinationSectorId,
+          destinationSystemId: connection.destinationSystemId,
+          energyCost: connection.energyCost,
+          isActive: true,
+          description: `Ancient alien gateway leading to the ${connection.destinationSectorName}. Ships require ${connection.energyCost} fuel units to transit.`
+        };
+      });
+    }
     
     // Create bidirectional gate network for cross-sector navigation
     switch (systemId) {
@@ -1125,6 +1166,47 @@ export class WorldManager {
     return this.galaxy;
   }
 
+  /**
+   * Replace the galaxy, e.g. when restoring a saved game
+   */
+  setGalaxy(galaxy: Galaxy): void {
+    this.galaxy = galaxy;
+    this.shipMovement = null;
+    this.pendingDockingTarget = null;
+  }
+
+  /**
+   * Route finder for the current galaxy, rebuilt whenever the galaxy is replaced
+   */
+  getPathfinder(): GalaxyPathfinder {
+    const galaxy = this.getGalaxy();
+    if (!this.pathfinder || this.pathfinder.getGalaxy() !== galaxy) {
+      this.pathfinder = new GalaxyPathfinder(galaxy);
+    }
+    return this.pathfinder;
+  }
+
+  /**
+   * Plan a route from the player's current system to any station in the galaxy
+   */
+  findRouteToStation(stationId: string, preference: RoutePreference = 'shortest'): GalaxyRoute | null {
+    return this.getPathfinder().findRouteToStation(this.galaxy.currentPlayerLocation.systemId, stationId, preference);
+  }
+
+  /**
+   * Place the player in a system (and optionally docked at one of its stations)
+   * after a timed trip arrives. Returns false for systems outside the galaxy.
+   */
+  setPlayerLocation(systemId: string, stationId?: string): boolean {
+    const sectorId = this.getPathfinder().getSectorIdForSystem(systemId);
+    if (!sectorId) return false;
+
+    this.galaxy.currentPlayerLocation.sectorId = sectorId;
+    this.galaxy.currentPlayerLocation.systemId = systemId;
+    this.galaxy.currentPlayerLocation.stationId = stationId;
+    return true;
+  }
+
   getCurrentSector(): Sector | undefined {
     return this.galaxy.sectors.find(s => s.id === this.galaxy.currentPlayerLocation.sectorId);
   }
@@ -1218,7 +1300,10 @@ export class WorldManager {
     const targets = this.getAvailableTargets();
     const target = targets.find(t => t.id === targetId);
     
-    if (!target) return false;
+    if (!target) {
+      // Stations elsewhere in the galaxy are reached by following a route to their system
+      return this.getStationById(targetId) ? this.navigateToDistantStation(targetId) : false;
+    }
 
     if (target.type === 'system') {
       this.galaxy.currentPlayerLocation.systemId = target.id;
@@ -1244,6 +1329,90 @@ export class WorldManager {
     return true;
   }
 
+  /**
+   * Jump along the route to a station's system, then fly to the station.
+   * Every leg and the fuel for the whole trip are checked before leaving, so
+   * the ship either completes the route or stays where it is.
+   */
+  private navigateToDistantStation(stationId: string, preference: RoutePreference = 'shortest'): boolean {
+    const route = this.findRouteToStation(stationId, preference);
+    if (!route) return false;
+
+    const fuelCost = this.calculateRouteFuelCost(route, stationId);
+    if (fuelCost === null) {
+      console.log(`Route to ${stationId} cannot be flown`);
+      return false;
+    }
+
+    if (this.playerShip && !hasFuel(this.playerShip, fuelCost)) {
+      console.log(`Not enough fuel for the route to ${stationId}: need ${fuelCost.toFixed(1)}, have ${getCurrentFuel(this.playerShip).toFixed(1)}`);
+      return false;
+    }
+
+    for (const leg of route.legs) {
+      if (leg.type === 'gate' && leg.gateId) {
+        if (!this.useGate(leg.gateId)) return false;
+        continue;
+      }
+
+      // In-sector jumps arrive at the system centre, like gate transits
+      const system = this.getSystemById(leg.toSystemId)!;
+      this.galaxy.currentPlayerLocation.systemId = system.id;
+      this.galaxy.currentPlayerLocation.stationId = undefined;
+      if (this.playerManager) {
+        this.playerManager.setCurrentStation(null);
+      }
+      if (this.playerShip) {
+        consumeFuel(this.playerShip, calculateTravelFuelCost(this.playerShip, leg.distance));
+        this.playerShip.location.systemId = system.id;
+        this.playerShip.location.stationId = undefined;
+        this.playerShip.location.coordinates = createShipCoords(system.position.x, system.position.y);
+      }
+    }
+
+    return this.navigateToTarget(stationId);
+  }
+
+  /**
+   * Fuel needed to fly a route and then on to the station, or null when a leg
+   * cannot be flown from where the previous one arrives.
+   */
+  private calculateRouteFuelCost(route: GalaxyRoute, stationId: string): number | null {
+    let sectorId = this.galaxy.currentPlayerLocation.sectorId;
+    let system = this.getCurrentSystem();
+    let fuelCost = 0;
+
+    for (const leg of route.legs) {
+      if (!system || system.id !== leg.fromSystemId) return null;
+
+      if (leg.type === 'gate') {
+        const gate = system.gates.find(g => g.id === leg.gateId);
+        const destinationSector = gate && this.galaxy.sectors.find(s => s.id === gate.destinationSectorId);
+        if (!gate || !gate.isActive || !destinationSector) return null;
+
+        sectorId = destinationSector.id;
+        system = destinationSector.systems.find(s => s.id === (gate.destinationSystemId ?? destinationSector.systems[0]?.id));
+        fuelCost += gate.energyCost;
+      } else {
+        const sector = this.galaxy.sectors.find(s => s.id === sectorId);
+        system = sector?.systems.find(s => s.id === leg.toSystemId);
+        if (this.playerShip) {
+          fuelCost += calculateTravelFuelCost(this.playerShip, leg.distance);
+        }
+      }
+
+      if (!system || system.id !== leg.toSystemId) return null;
+    }
+
+    const station = system?.stations.find(s => s.id === stationId);
+    if (!system || !station) return null;
+
+    if (this.playerShip) {
+      fuelCost += calculateTravelFuelCost(this.playerShip, this.calculateDistance(system.position, station.position));
+    }
+    return fuelCost;
+  }
+
   /**
    * Use a gate to teleport to another sector
    */
@@ -1254,20 +1423,10 @@ export class WorldManager {
     const gate = currentSystem.gates.find(g => g.id === gateId);
     if (!gate || !gate.isActive) return false;
 
-    // Check if player has enough fuel
-    if (this.playerShip) {
-      // For now, we'll assume fuel is stored in ship equipment or a separate fuel system
-      // Since the current ship structure doesn't explicitly have fuel, we'll check
-      // if the player has the required credits to "buy" fuel for the gate
-      if (this.playerManager) {
-        const player = this.playerManager.getPlayer();
-        if (player.credits < gate.energyCost) {
-          return false;
-        }
-        
-        // Deduct fuel cost
-        this.playerManager.spendCredits(gate.energyCost);
-      }
+    // Check if the ship has enough fuel for the jump
+    if (this.playerShip && !hasFuel(this.playerShip, gate.energyCost)) {
+      console.log(`Not enough fuel for ${gate.name}: need ${gate.energyCost}, have ${getCurrentFuel(this.playerShip).toFixed(1)}`);
+      return false;
     }
 
     // Find destination sector
@@ -1287,6 +1446,11 @@ export class WorldManager {
       return false;
     }
 
+    // Pay the jump in fuel
+    if (this.playerShip) {
+      consumeFuel(this.playerShip, gate.energyCost);
+    }
+
     // Perform the teleportation
     this.galaxy.currentPlayerLocation.sectorId = gate.destinationSectorId;
     this.galaxy.currentPlayerLocation.systemId = destinationSystemId;
@@ -1391,6 +1555,16 @@ export class WorldManager {
       worldY = boundedY;
     }
 
+    // Ships need fuel for the whole flight before they set off
+    const fuelCost = calculateTravelFuelCost(
+      this.playerShip,
+      this.calculateDistance(this.playerShip.location.coordinates, createShipCoords(worldX, worldY))
+    );
+    if (!hasFuel(this.playerShip, fuelCost)) {
+      console.log(`Not enough fuel to move: need ${fuelCost.toFixed(1)}, have ${getCurrentFuel(this.playerShip).toFixed(1)}`);
+      return false;
+    }
+
     // Use scene manager for actor-based movement if available
     if (this.sceneManager) {
       // Set up movement completion callback for docking and gate collision
@@ -1409,9 +1583,14 @@ export class WorldManager {
         // Check for gate collisions at final destination
         this.checkGateCollisions();
       });
+      if (success) {
+        consumeFuel(this.playerShip, fuelCost);
+      }
       return success;
     }
 
+    consumeFuel(this.playerShip, fuelCost);
+
     // Fallback to legacy movement system
     this.shipMovement = {
       isMoving: true,
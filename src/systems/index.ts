@@ -2,6 +2,7 @@ export { InputManager } from './InputManager';
 export { WorldManager } from './WorldManager';
 export { TimeManager } from './TimeManager';
 export { SaveManager } from './SaveManager';
+export { LocalSaveStorage, IndexedDBSaveStorage, FileSaveStorage, MemorySaveStorage, createSaveStorageBackend } from './SaveStorage';
 export { EconomicSystem } from './EconomicSystem';
 export { ContractManager } from './ContractManager';
 export { RouteAnalyzer } from './RouteAnalyzer';
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { createEquipmentItem } from '../data/equipment';
+import { getCommodity } from '../data/commodities';
+import { getShelfLifeMultiplier, isShortLived } from '../utils/spoilage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Cargo spoilage', () => {
+  let playerManager: PlayerManager;
+  let timeManager: TimeManager;
+
+  beforeEach(() => {
+    playerManager = new PlayerManager();
+    timeManager = new TimeManager();
+    playerManager.setTimeManager(timeManager);
+  });
+
+  it('should date perishable cargo on game time', () => {
+    playerManager.addCommodity('hydroponic-produce', 5, 85);
+    playerManager.addCommodity('steel-alloys', 5, 100);
+
+    const produce = playerManager.getCargoManifest().find(item => item.commodityId === 'hydroponic-produce')!;
+    const steel = playerManager.getCargoManifest().find(item => item.commodityId === 'steel-alloys')!;
+
+    expect(produce.acquiredAt).toBe(timeManager.getCurrentTimestamp());
+    expect(produce.expirationTime).toBe(timeManager.getCurrentTimestamp() + 14 * DAY_MS);
+    expect(steel.expirationTime).toBeUndefined();
+  });
+
+  it('should keep full value while fresh and lose value near expiry', () => {
+    playerManager.addCommodity('hydroponic-produce', 5, 85);
+
+    timeManager.addTime(7 * DAY_MS);
+    expect(playerManager.getCargoValueMultiplier('hydroponic-produce')).toBe(1);
+
+    timeManager.addTime(5 * DAY_MS);
+    const multiplier = playerManager.getCargoValueMultiplier('hydroponic-produce');
+    expect(multiplier).toBeLessThan(1);
+    expect(multiplier).toBeGreaterThan(0.5);
+    expect(playerManager.getCargoValue()).toBeCloseTo(5 * 85 * multiplier);
+  });
+
+  it('should destroy expired cargo and free its space', () => {
+    playerManager.addCommodity('hydroponic-produce', 5, 85);
+    playerManager.addCommodity('steel-alloys', 5, 100);
+    const usedBefore = playerManager.getCargoUsed();
+
+    expect(playerManager.updateCargoSpoilage()).toHaveLength(0);
+
+    timeManager.addTime(15 * DAY_MS);
+    const spoiled = playerManager.updateCargoSpoilage();
+
+    expect(spoiled).toEqual([{ shipId: playerManager.getCurrentShipId(), commodityId: 'hydroponic-produce', quantity: 5 }]);
+    expect(playerManager.getCommodityQuantity('hydroponic-produce')).toBe(0);
+    expect(playerManager.getCommodityQuantity('steel-alloys')).toBe(5);
+    expect(playerManager.getCargoUsed()).toBe(usedBefore - 5 * getCommodity('hydroponic-produce')!.unitSize);
+  });
+
+  it('should average the age of a stack topped up with fresh goods', () => {
+    playerManager.addCommodity('hydroponic-produce', 5, 85);
+    const loadedAt = timeManager.getCurrentTimestamp();
+
+    timeManager.addTime(10 * DAY_MS);
+    playerManager.addCommodity('hydroponic-produce', 5, 85);
+
+    const produce = playerManager.getCargoManifest()[0];
+    expect(produce.acquiredAt).toBe(loadedAt + 5 * DAY_MS);
+    expect(produce.expirationTime).toBe(loadedAt + 19 * DAY_MS);
+  });
+
+  it('should keep goods longer in refrigerated cargo modules', () => {
+    const ship = playerManager.getCurrentShip();
+    ship.equipment.cargo.push(createEquipmentItem('refrigerated-cargo-module')!);
+
+    expect(getShelfLifeMultiplier(ship)).toBe(2);
+
+    playerManager.addCommodity('hydroponic-produce', 5, 85);
+    timeManager.addTime(15 * DAY_MS);
+
+    expect(playerManager.updateCargoSpoilage()).toHaveLength(0);
+    expect(playerManager.getCommodityQuantity('hydroponic-produce')).toBe(5);
+  });
+
+  it('should flag only short-lived goods as unfit for long hauls', () => {
+    expect(isShortLived(getCommodity('hydroponic-produce'))).toBe(true);
+    expect(isShortLived(getCommodity('protein-rations'))).toBe(false);
+    expect(isShortLived(getCommodity('steel-alloys'))).toBe(false);
+  });
+});
@@ -36,6 +36,19 @@ const mockPlayerManager = {
     maxHull: 100,
     shields: 50,
     maxShields: 50
+  })),
+  getCurrentShip: vi.fn(() => ({
+    id: 'player-ship',
+    name: 'Player Ship',
+    class: { id: 'courier-ship', baseShields: 50 },
+    equipment: {
+      engines: [],
+      cargo: [],
+      shields: [],
+      weapons: [{ id: 'pulse-laser', name: 'Pulse Laser', type: 'Energy Weapon', effects: { weaponDamage: 20, accuracy: 0.8 }, condition: 1 }],
+      utility: []
+    },
+    condition: { hull: 1, engines: 1, cargo: 1, shields: 1, lastMaintenance: 0 }
   }))
 } as unknown as PlayerManager;
 
@@ -52,6 +65,7 @@ const mockSecurityManager = {
 
 const mockNPCAIManager = {
   getNPCs: vi.fn(() => []),
+  getNPCsInSystem: vi.fn(() => []),
   update: vi.fn()
 } as unknown as NPCAIManager;
 
@@ -216,12 +230,20 @@ describe('CombatManager', () => {
       };
 
       const result = combatManager.executeCombatAction(retreatAction);
-      
+
       expect(result).toBeDefined();
       expect(result.success).toBe(true);
-      expect(result.message).toContain('fled');
-      
-      // Check that participant status changed
+      expect(result.message).toContain('breaking away');
+      expect(playerParticipant.status).toBe('active');
+
+      // Once every hostile is past jump distance the ship gets away
+      encounter.participants
+        .filter((p: any) => p.type === 'ai')
+        .forEach((p: any) => { p.position = { x: 100000, y: 0 }; });
+      // A battlefield tick of game time later
+      (mockTimeManager.getCurrentTimestamp as any).mockReturnValueOnce(encounter.startTime + 1000);
+      combatManager.update();
+
       expect(playerParticipant.status).toBe('fled');
     });
 
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CombatSimulator } from '../systems/CombatSimulator';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { SecurityManager } from '../systems/SecurityManager';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { EventManager } from '../systems/EventManager';
+import { FleetLoadout } from '../types/combat';
+
+const raiders: FleetLoadout = {
+  name: 'Raiders',
+  ships: [
+    { name: 'Raider One', shipType: 'light-combat' },
+    { name: 'Raider Two', shipType: 'light-combat' }
+  ]
+};
+
+const gunship: FleetLoadout = {
+  name: 'Navy',
+  ships: [{ name: 'Gunship', shipType: 'heavy-combat', behaviour: 'patrol' }]
+};
+
+describe('CombatSimulator', () => {
+  let playerManager: PlayerManager;
+  let simulator: CombatSimulator;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    playerManager = new PlayerManager();
+    simulator = new CombatSimulator(
+      new TimeManager(),
+      {} as unknown as WorldManager,
+      playerManager,
+      playerManager.getFactionManager(),
+      {} as unknown as SecurityManager,
+      {} as unknown as NPCAIManager,
+      {} as unknown as EventManager
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should replay the same battle from the same seed', () => {
+    const first = simulator.simulate({ fleets: [raiders, gunship], seed: 42 })!;
+    const replay = simulator.simulate({ fleets: [raiders, gunship], seed: 42 })!;
+    const other = simulator.simulate({ fleets: [raiders, gunship], seed: 43 })!;
+
+    expect(first.log.length).toBeGreaterThan(0);
+    expect(replay).toEqual(first);
+    expect(other.log).not.toEqual(first.log);
+  });
+
+  it('should fight to the end and summarise each side from the log', () => {
+    const result = simulator.simulate({ fleets: [raiders, gunship], seed: 7 })!;
+
+    expect(result.winner).not.toBeNull();
+    const [raiderStats, navyStats] = result.fleets;
+    const loser = result.winner === 'Navy' ? raiderStats : navyStats;
+    expect(loser.shipsRemaining).toBe(0);
+    expect(loser.shipsLost + loser.shipsFled).toBe(loser.name === 'Navy' ? 1 : 2);
+
+    const raiderShots = result.log.filter(event => event.type === 'attack' && event.actorId.startsWith('fleet-0'));
+    expect(raiderStats.shotsFired).toBe(raiderShots.length);
+    expect(raiderStats.damageDealt).toBe(raiderShots.reduce((total, event) => total + (event.damage ?? 0), 0));
+
+    // Ships knocked out of the fight are logged on the tick it happened
+    const knockedOut = result.log.filter(event => ['disabled', 'destroyed', 'fled'].includes(event.type));
+    expect(knockedOut.length).toBe(result.fleets.reduce((total, fleet) => total + fleet.shipsLost + fleet.shipsFled, 0));
+    expect(knockedOut.every(event => event.tick <= result.ticks)).toBe(true);
+  });
+
+  it('should give identical fleets even odds whichever is listed first', () => {
+    const mirror = (name: string): FleetLoadout => ({
+      name,
+      ships: [{ name: `${name} One`, shipType: 'light-combat' }, { name: `${name} Two`, shipType: 'light-combat' }]
+    });
+
+    const report = simulator.runBatch({ fleets: [mirror('Red'), mirror('Blue')], seed: 1 }, 400)!;
+
+    expect(report.winRates.Red).toBeGreaterThan(0.42);
+    expect(report.winRates.Red).toBeLessThan(0.58);
+  });
+
+  it('should call a battle nobody can win a draw', () => {
+    const unarmed = (name: string): FleetLoadout => ({
+      name,
+      ships: [{ name: `${name} Hauler`, shipType: 'light-freighter', loadout: { hull: 100, shields: 50, shieldType: 'magnetic', weapons: [] } }]
+    });
+
+    const result = simulator.simulate({ fleets: [unarmed('Red'), unarmed('Blue')], seed: 1, maxTicks: 25 })!;
+
+    expect(result).toMatchObject({ winner: null, ticks: 25, log: [] });
+  });
+
+  it('should reject unknown weapons and fleets that share a name', () => {
+    const broken: FleetLoadout = {
+      name: 'Broken',
+      ships: [{ name: 'Prototype', shipType: 'light-combat', loadout: { hull: 80, shields: 60, shieldType: 'magnetic', weapons: ['death-ray'] } }]
+    };
+
+    expect(simulator.simulate({ fleets: [raiders, broken], seed: 1 })).toBeNull();
+    expect(simulator.simulate({ fleets: [raiders, raiders], seed: 1 })).toBeNull();
+  });
+
+  it('should report win rates and weapon performance over a batch of fights', () => {
+    const loneRaider: FleetLoadout = { name: 'Raiders', ships: [raiders.ships[0]] };
+    const report = simulator.runBatch({ fleets: [loneRaider, gunship], seed: 100, maxTicks: 150 }, 40)!;
+
+    expect(report.fights).toBe(40);
+    expect(report.wins.Raiders + report.wins.Navy + report.draws).toBe(40);
+    expect(report.winRates.Navy).toBeGreaterThan(0.5);
+
+    const laser = report.weapons['pulse-laser-mk1'];
+    expect(laser.shotsFired).toBeGreaterThan(0);
+    expect(laser.hits).toBeLessThanOrEqual(laser.shotsFired);
+    expect(laser.damagePerShot).toBeCloseTo(laser.damageDealt / laser.shotsFired);
+    expect(Object.keys(report.weapons)).toEqual(expect.arrayContaining(['plasma-cannon-mk2', 'torpedo-launcher-mk3']));
+  });
+
+  it('should leave no simulated encounters behind', () => {
+    simulator.runBatch({ fleets: [raiders, gunship], seed: 5 }, 3);
+
+    expect((simulator as any).combatManager.getActiveEncounters()).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { compressToUTF16, decompressFromUTF16, checksum } from '../utils/compression';
+
+describe('compression', () => {
+  describe('compressToUTF16 / decompressFromUTF16', () => {
+    it('should round-trip empty and short strings', () => {
+      for (const input of ['', 'a', 'ab', 'aaaaaaaaaaaaaaaa']) {
+        expect(decompressFromUTF16(compressToUTF16(input))).toBe(input);
+      }
+    });
+
+    it('should round-trip non-latin characters', () => {
+      const input = 'Credits: 1000 ¢ — 雷神 Raijin — 🚀 launch';
+
+      expect(decompressFromUTF16(compressToUTF16(input))).toBe(input);
+    });
+
+    it('should shrink repetitive save JSON', () => {
+      const input = JSON.stringify({
+        markets: Array.from({ length: 200 }, (_, i) => ({
+          stationId: `station-${i % 20}`,
+          commodityId: 'iron-ore',
+          currentPrice: 100 + (i % 7),
+          supplyLevel: 'normal',
+          demandLevel: 'normal'
+        }))
+      });
+
+      const compressed = compressToUTF16(input);
+
+      expect(compressed.length).toBeLessThan(input.length / 4);
+      expect(decompressFromUTF16(compressed)).toBe(input);
+    });
+
+    it('should never produce surrogate or control characters', () => {
+      const input = Array.from({ length: 2000 }, (_, i) => String.fromCharCode((i * 7919) % 65000)).join('');
+      const compressed = compressToUTF16(input);
+
+      for (let i = 0; i < compressed.length; i++) {
+        const code = compressed.charCodeAt(i);
+        expect(code).toBeGreaterThanOrEqual(32);
+        expect(code < 0xd800 || code > 0xdfff).toBe(true);
+      }
+      expect(decompressFromUTF16(compressed)).toBe(input);
+    });
+
+    it('should return null for truncated data', () => {
+      const compressed = compressToUTF16(JSON.stringify({ player: 'Test Player', credits: 5000, history: 'x'.repeat(500) }));
+
+      expect(decompressFromUTF16(compressed.slice(0, Math.floor(compressed.length / 2)))).toBe(null);
+    });
+  });
+
+  describe('checksum', () => {
+    it('should be stable and 8 hex digits', () => {
+      expect(checksum('')).toBe('811c9dc5');
+      expect(checksum('save data')).toMatch(/^[0-9a-f]{8}$/);
+      expect(checksum('save data')).toBe(checksum('save data'));
+    });
+
+    it('should change when a single character changes', () => {
+      expect(checksum('{"credits":5000}')).not.toBe(checksum('{"credits":5001}'));
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EconomicSystem } from '../systems/EconomicSystem';
+import { WorldManager } from '../systems/WorldManager';
+import { TimeManager } from '../systems/TimeManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { HOUR_MS, createStation, initializeGalaxyEconomy, stock } from './testUtils/economy';
+
+const DAY_MS = 24 * HOUR_MS;
+
+describe('Economic catch-up', () => {
+  let timeManager: TimeManager;
+
+  beforeEach(() => {
+    timeManager = new TimeManager();
+  });
+
+  it('should catch up a jump in game time on the next update', () => {
+    const economicSystem = new EconomicSystem(new SeededRandom(7), timeManager);
+    economicSystem.initializeStationEconomics(createStation('mine', 'mining'));
+    const startTime = timeManager.getCurrentTimestamp();
+    const ore = stock(economicSystem, 'mine', 'iron-ore');
+    const oreBefore = ore.available;
+
+    timeManager.addTime(3 * DAY_MS);
+    economicSystem.update(16);
+
+    const timestamps = ore.priceHistory.slice(1).map(point => point.timestamp);
+    expect(timestamps).toHaveLength(12);
+    expect(timestamps[0]).toBe(startTime + 6 * HOUR_MS);
+    expect(timestamps[timestamps.length - 1]).toBe(timeManager.getCurrentTimestamp());
+    expect(ore.available).toBeGreaterThan(oreBefore);
+    expect(economicSystem.getMarket('mine')!.lastUpdate).toBe(timeManager.getCurrentTimestamp());
+  });
+
+  it('should produce about as much in one catch-up as hour by hour', () => {
+    const run = (hourly: boolean) => {
+      const clock = new TimeManager();
+      const economicSystem = new EconomicSystem(new SeededRandom(5), clock);
+      economicSystem.initializeStationEconomics(createStation('mine', 'mining'));
+      economicSystem.initializeStationEconomics(createStation('refinery', 'refinery'));
+      stock(economicSystem, 'refinery', 'iron-ore').available = 0;
+      const steelBefore = stock(economicSystem, 'refinery', 'steel-alloys').available;
+
+      if (hourly) {
+        for (let hour = 0; hour < 48; hour++) {
+          clock.addTime(HOUR_MS);
+          economicSystem.update(16);
+        }
+      } else {
+        clock.addTime(48 * HOUR_MS);
+        economicSystem.update(16);
+      }
+      return stock(economicSystem, 'refinery', 'steel-alloys').available - steelBefore;
+    };
+
+    const hourly = run(true);
+    const caughtUp = run(false);
+
+    expect(hourly).toBeGreaterThan(0);
+    expect(caughtUp).toBeGreaterThan(hourly * 0.8);
+    expect(caughtUp).toBeLessThan(hourly * 1.2);
+  });
+
+  it('should expire events at the time they end during a catch-up', () => {
+    const economicSystem = new EconomicSystem(new SeededRandom(3), timeManager);
+    economicSystem.initializeStationEconomics(createStation('trade-hub', 'trade'));
+
+    timeManager.addTime(60 * DAY_MS);
+    economicSystem.update(16);
+
+    const now = timeManager.getCurrentTimestamp();
+    economicSystem.getActiveEvents().forEach(event => {
+      expect(event.endTime).toBeGreaterThan(now);
+      expect(event.startTime).toBeLessThanOrEqual(now);
+    });
+  });
+
+  it('should let NPC traders haul surplus to stations that pay more', () => {
+    const economicSystem = new EconomicSystem(new SeededRandom(9), timeManager);
+    economicSystem.initializeStationEconomics(createStation('seller', 'trade'));
+    economicSystem.initializeStationEconomics(createStation('buyer', 'trade'));
+
+    const surplus = stock(economicSystem, 'seller', 'medical-supplies');
+    const shortage = stock(economicSystem, 'buyer', 'medical-supplies');
+    Object.assign(surplus, { available: 1000, demand: 0, currentPrice: 100 });
+    Object.assign(shortage, { available: 0, demand: 500, currentPrice: 300 });
+
+    economicSystem.catchUp(6 * HOUR_MS);
+
+    expect(surplus.available).toBeLessThan(1000);
+    expect(shortage.available).toBeGreaterThan(0);
+    expect(shortage.demand).toBeLessThan(500);
+  });
+
+  it('should catch up weeks of the whole galaxy in well under a second', () => {
+    const worldManager = new WorldManager();
+    const economicSystem = new EconomicSystem(new SeededRandom(11), timeManager);
+    initializeGalaxyEconomy(economicSystem, worldManager);
+
+    timeManager.addTime(28 * DAY_MS);
+    const started = performance.now();
+    const steps = economicSystem.catchUp(28 * DAY_MS);
+    const duration = performance.now() - started;
+
+    expect(steps).toBe(112);
+    expect(duration).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EconomicSystem } from '../systems/EconomicSystem';
+import { WorldManager } from '../systems/WorldManager';
+import { TimeManager } from '../systems/TimeManager';
+import { EventManager } from '../systems/EventManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { ECONOMIC_EVENT_CAUSES } from '../data/economicEvents';
+import { Station } from '../types/world';
+import { HOUR_MS, createStation, initializeGalaxyEconomy } from './testUtils/economy';
+
+describe('Economic events', () => {
+  let timeManager: TimeManager;
+  let worldManager: WorldManager;
+  let economicSystem: EconomicSystem;
+
+  beforeEach(() => {
+    timeManager = new TimeManager();
+    worldManager = new WorldManager();
+    economicSystem = new EconomicSystem(new SeededRandom(17), timeManager);
+    initializeGalaxyEconomy(economicSystem, worldManager);
+  });
+
+  const stationOfType = (types: Station['type'][]): Station => {
+    for (const sector of worldManager.getGalaxy().sectors) {
+      for (const system of sector.systems) {
+        const station = system.stations.find(s => types.includes(s.type));
+        if (station) return station;
+      }
+    }
+    throw new Error(`No station of type ${types.join(', ')}`);
+  };
+
+  it('should break out at stations that fit the cause and trade its goods', () => {
+    economicSystem.forceUpdate(500 * HOUR_MS);
+
+    const [event] = economicSystem.getActiveEvents();
+    const cause = ECONOMIC_EVENT_CAUSES[event.causeId!];
+    const pathfinder = worldManager.getPathfinder();
+
+    expect(cause.spontaneous).toBe(true);
+    expect(event.affectedStations.length).toBeGreaterThan(0);
+    expect(event.affectedStations.some(id => cause.stationTypes.includes(worldManager.getStationById(id)!.type))).toBe(true);
+    event.affectedStations.forEach(id => {
+      expect(pathfinder.getSystemIdForStation(id)).toBe(event.originSystemId);
+      expect(cause.commodities.some(c => economicSystem.getMarket(id)!.commodities.has(c))).toBe(true);
+    });
+    event.affectedCommodities.forEach(c => expect(cause.commodities).toContain(c));
+  });
+
+  it('should scale effects with severity and apply them to prices and output', () => {
+    const mine = stationOfType(['mining']);
+    const baseline = new EconomicSystem(new SeededRandom(17), timeManager);
+    baseline.setWorldManager(worldManager);
+    baseline.initializeStationEconomics(mine);
+    const boomed = new EconomicSystem(new SeededRandom(17), timeManager);
+    boomed.setWorldManager(worldManager);
+    boomed.initializeStationEconomics(mine);
+
+    const event = boomed.startEconomicEvent('mining-boom', mine.id, 0.5)!;
+    expect(event.effects.productionMultiplier).toBeCloseTo(1.25);
+    expect(event.effects.priceMultiplier).toBeCloseTo(0.9);
+
+    const commodityId = event.affectedCommodities.find(c =>
+      baseline.getStationEconomics(mine.id)!.produces.some(p => p.commodityId === c)
+    )!;
+    const before = baseline.getMarket(mine.id)!.commodities.get(commodityId)!.available;
+    baseline.forceUpdate(HOUR_MS);
+    boomed.forceUpdate(HOUR_MS);
+
+    const produced = (system: EconomicSystem) => system.getMarket(mine.id)!.commodities.get(commodityId)!.available - before;
+    expect(produced(boomed)).toBeGreaterThan(produced(baseline));
+  });
+
+  it('should spread to neighbouring systems through the gate graph', () => {
+    const origin = stationOfType(['trade', 'habitat', 'colonial', 'agricultural', 'medical']);
+    const event = economicSystem.startEconomicEvent('plague', origin.id, 1)!;
+    const neighbours = worldManager.getPathfinder().getNeighbourSystemIds(event.originSystemId!);
+
+    timeManager.addTime(12 * HOUR_MS);
+    economicSystem.forceUpdate(HOUR_MS);
+
+    const spread = economicSystem.getActiveEvents().filter(e => e.chainId === event.id && e !== event);
+    expect(spread.length).toBeGreaterThan(0);
+    spread.forEach(e => {
+      expect(neighbours).toContain(e.originSystemId);
+      expect(e.spreadLevel).toBe(1);
+      expect(e.severity).toBeLessThan(event.severity);
+    });
+    expect(new Set(spread.map(e => e.originSystemId)).size).toBe(spread.length);
+    expect(event.nextSpreadTime).toBeUndefined();
+  });
+
+  it('should not spread back into a system the chain has already passed through', () => {
+    const origin = stationOfType(['trade', 'habitat', 'colonial', 'agricultural', 'medical']);
+    const event = economicSystem.startEconomicEvent('plague', origin.id, 1)!;
+    const chance = vi.spyOn(SeededRandom.prototype, 'chance').mockReturnValue(true);
+
+    timeManager.addTime(12 * HOUR_MS);
+    economicSystem.forceUpdate(HOUR_MS);
+    // The outbreak dies down at its origin without leading anywhere
+    (economicSystem as any).activeEvents = economicSystem.getActiveEvents().filter(e => e !== event);
+    timeManager.addTime(12 * HOUR_MS);
+    economicSystem.forceUpdate(HOUR_MS);
+    chance.mockRestore();
+
+    const plague = economicSystem.getActiveEvents().filter(e => e.chainId === event.id && e.causeId === 'plague');
+    expect(plague.some(e => e.spreadLevel === 2)).toBe(true);
+    expect(plague.map(e => e.originSystemId)).not.toContain(event.originSystemId);
+  });
+
+  it('should lead to follow-up events in the same system when it ends', () => {
+    const origin = stationOfType(['trade', 'habitat', 'colonial', 'agricultural', 'medical']);
+    const event = economicSystem.startEconomicEvent('plague', origin.id, 1)!;
+    const chance = vi.spyOn(SeededRandom.prototype, 'chance').mockReturnValue(true);
+
+    timeManager.addTime(event.endTime - timeManager.getCurrentTimestamp());
+    economicSystem.forceUpdate(HOUR_MS);
+    chance.mockRestore();
+
+    const followUp = economicSystem.getActiveEvents().find(e => e.causeId === 'quarantine');
+    expect(economicSystem.getActiveEvents()).not.toContain(event);
+    expect(followUp?.originSystemId).toBe(event.originSystemId);
+    expect(followUp?.chainId).toBe(event.id);
+  });
+
+  it('should announce events through the event manager', () => {
+    const eventManager = { announceEconomicEvent: vi.fn() } as unknown as EventManager;
+    economicSystem.setEventManager(eventManager);
+    const mine = stationOfType(['mining']);
+
+    const event = economicSystem.startEconomicEvent('mining-boom', mine.id, 0.7)!;
+
+    const systemName = worldManager.getSystemById(event.originSystemId!)!.name;
+    expect(eventManager.announceEconomicEvent).toHaveBeenCalledWith(event, 'Mining Boom', systemName);
+    expect(event.description).toContain(systemName);
+  });
+
+  it('should announce a chain that spread during a catch-up only once', () => {
+    const eventManager = { announceEconomicEvent: vi.fn() } as unknown as EventManager;
+    economicSystem.setEventManager(eventManager);
+    const origin = stationOfType(['trade', 'habitat', 'colonial', 'agricultural', 'medical']);
+    const event = economicSystem.startEconomicEvent('plague', origin.id, 1)!;
+    const chance = vi.spyOn(SeededRandom.prototype, 'chance').mockReturnValue(true);
+
+    timeManager.addTime(40 * HOUR_MS);
+    economicSystem.update(0);
+    chance.mockRestore();
+
+    const announced = vi.mocked(eventManager.announceEconomicEvent).mock.calls.slice(1).map(([e]) => e);
+    expect(economicSystem.getActiveEvents().filter(e => e.chainId === event.id).length).toBeGreaterThan(1);
+    expect(announced.filter(e => e.chainId === event.id)).toHaveLength(1);
+    announced.forEach(e => expect(economicSystem.getActiveEvents()).toContain(e));
+  });
+
+  it('should stay at the station when there is no galaxy to spread through', () => {
+    const standalone = new EconomicSystem(new SeededRandom(3), timeManager);
+    standalone.initializeStationEconomics(createStation('clinic', 'medical'));
+
+    const event = standalone.startEconomicEvent('plague', 'clinic')!;
+
+    expect(event.affectedStations).toEqual(['clinic']);
+    expect(event.nextSpreadTime).toBeUndefined();
+  });
+});
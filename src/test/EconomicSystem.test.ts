@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { EconomicSystem } from '../systems/EconomicSystem';
 import { Station } from '../types/world';
 import { COMMODITIES } from '../data/commodities';
+import { TimeManager } from '../systems/TimeManager';
+import { SeededRandom } from '../utils/SeededRandom';
 
 describe('EconomicSystem', () => {
   let economicSystem: EconomicSystem;
@@ -194,18 +196,42 @@ describe('EconomicSystem', () => {
       economicSystem.initializeStationEconomics(testStation, testSystem);
     });
 
-    it('should update markets over time', async () => {
-      const market = economicSystem.getMarket(testStation.id);
-      const initialTimestamp = market!.lastUpdate;
-      
-      // Add a small delay to ensure different timestamps
-      await new Promise(resolve => setTimeout(resolve, 10));
-      
-      // Use the test helper to force an update
-      (economicSystem as unknown as { forceUpdate: (deltaTime: number) => void }).forceUpdate(3600000);
-      
-      const updatedMarket = economicSystem.getMarket(testStation.id);
-      expect(updatedMarket!.lastUpdate).toBeGreaterThan(initialTimestamp);
+    it('should update markets over game time', () => {
+      const timeManager = new TimeManager();
+      economicSystem = new EconomicSystem(new SeededRandom(1), timeManager);
+      economicSystem.initializeStationEconomics(testStation, testSystem);
+      const initialTimestamp = economicSystem.getMarket(testStation.id)!.lastUpdate;
+
+      // Less than a game hour passes: no market cycle yet
+      timeManager.addTime(1800000);
+      economicSystem.update(16);
+      expect(economicSystem.getMarket(testStation.id)!.lastUpdate).toBe(initialTimestamp);
+
+      timeManager.addTime(1800000);
+      economicSystem.update(16);
+      expect(economicSystem.getMarket(testStation.id)!.lastUpdate).toBe(initialTimestamp + 3600000);
+    });
+
+    it('should scale production with time acceleration', () => {
+      const produced = (acceleration: number): number => {
+        const timeManager = new TimeManager();
+        const system = new EconomicSystem(new SeededRandom(1), timeManager);
+        const economics = system.initializeStationEconomics({ ...testStation, type: 'mining' }, testSystem);
+        const ironOre = economics.market.commodities.get('iron-ore')!;
+        const before = ironOre.available;
+
+        timeManager.setTimeAcceleration(acceleration);
+        timeManager.start();
+        for (let frame = 0; frame < 60; frame++) {
+          timeManager.update(60); // One real minute per frame
+          system.update(60000);
+        }
+        return ironOre.available - before;
+      };
+
+      // An hour of real time is one game hour at 1x and ten at 10x
+      expect(produced(0)).toBe(0);
+      expect(produced(10)).toBeGreaterThan(produced(1) * 5);
     });
 
     it('should track price history', () => {
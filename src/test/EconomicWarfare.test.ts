@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InvestmentManager } from '../systems/InvestmentManager';
+import { EconomicSystem } from '../systems/EconomicSystem';
+import { SecurityManager } from '../systems/SecurityManager';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { EconomicWarfareAction } from '../types/investment';
+import { initializeGalaxyEconomy } from './testUtils/economy';
+
+const HOUR_MS = 3600000;
+
+describe('Economic warfare', () => {
+  let timeManager: TimeManager;
+  let worldManager: WorldManager;
+  let playerManager: PlayerManager;
+  let economicSystem: EconomicSystem;
+  let investmentManager: InvestmentManager;
+  let stationId: string;
+  let commodityId: string;
+
+  beforeEach(() => {
+    timeManager = new TimeManager();
+    worldManager = new WorldManager();
+    playerManager = new PlayerManager();
+    playerManager.addCredits(1000000);
+    economicSystem = new EconomicSystem(new SeededRandom(5), timeManager);
+    initializeGalaxyEconomy(economicSystem, worldManager);
+    investmentManager = new InvestmentManager(
+      timeManager,
+      worldManager,
+      playerManager,
+      playerManager.getFactionManager(),
+      economicSystem,
+      new SeededRandom(5)
+    );
+
+    stationId = worldManager.getAllStations()[0].id;
+    commodityId = Array.from(economicSystem.getMarket(stationId)!.commodities.values())
+      .find(commodity => commodity.available >= 50)!.commodityId;
+  });
+
+  const stock = (id: string = stationId, commodity: string = commodityId) =>
+    economicSystem.getMarket(id)!.commodities.get(commodity)!;
+
+  const trade = () => {
+    const result = economicSystem.executeTradeWithPlayer(stationId, commodityId, 10, true, playerManager);
+    expect(result.success).toBe(true);
+  };
+
+  const action = (overrides: Partial<EconomicWarfareAction> = {}): EconomicWarfareAction => ({
+    type: 'market_corner',
+    targetMarket: stationId,
+    targetCommodity: commodityId,
+    requiredInfluence: 0.1,
+    cost: 50000,
+    riskLevel: 'low',
+    potentialReward: 100000,
+    legalConsequences: ['market_manipulation'],
+    reputationImpact: { independents: -10 },
+    executionTime: 24,
+    ...overrides
+  });
+
+  it('should measure influence from the player\'s share of recent trading', () => {
+    expect(investmentManager.calculateMarketInfluence(stationId)).toBe(0);
+
+    trade();
+
+    const influence = investmentManager.calculateMarketInfluence(stationId);
+    expect(influence).toBeGreaterThan(0);
+    expect(influence).toBeLessThanOrEqual(0.3);
+    expect(economicSystem.getPlayerTradeHistory(stationId)).toHaveLength(1);
+  });
+
+  it('should need influence and credits before cornering a market', () => {
+    const credits = playerManager.getCredits();
+
+    expect(investmentManager.executeEconomicWarfare(action())).toBe(false);
+    expect(playerManager.getCredits()).toBe(credits);
+  });
+
+  it('should corner a market by buying up its stock', () => {
+    trade();
+    const credits = playerManager.getCredits();
+    const available = stock().available;
+    const price = stock().currentPrice;
+    const standing = playerManager.getReputationForFaction('independents')!.standing;
+
+    expect(investmentManager.executeEconomicWarfare(action())).toBe(true);
+
+    expect(playerManager.getCredits()).toBe(credits - 50000);
+    expect(stock().available).toBe(Math.round(available * 0.2));
+    expect(stock().currentPrice).toBeGreaterThan(price);
+    expect(playerManager.getReputationForFaction('independents')!.standing).toBeLessThan(standing);
+    expect(investmentManager.getMarketInfluenceHistory()[0]).toMatchObject({ type: 'market_cornering', market: stationId });
+  });
+
+  it('should hold a manipulated price up through market updates', () => {
+    trade();
+    const demand = stock().demand;
+    const price = stock().currentPrice;
+
+    expect(investmentManager.executeEconomicWarfare(action({ type: 'price_manipulation' }))).toBe(true);
+    economicSystem.forceUpdate(HOUR_MS);
+
+    expect(stock().demand).toBeGreaterThan(demand);
+    expect(stock().currentPrice).toBeGreaterThan(price);
+  });
+
+  it('should choke off supplies to every station of an embargoed faction', () => {
+    trade();
+    const targets = worldManager.getAllStations().filter(station => station.faction === 'Mining Guild');
+    const consumed = targets.flatMap(station =>
+      economicSystem.getStationEconomics(station.id)!.consumes.map(c => ({ stationId: station.id, commodityId: c.commodityId }))
+    ).filter(({ stationId: id, commodityId: c }) => stock(id, c).available > 10);
+    const before = consumed.map(({ stationId: id, commodityId: c }) => stock(id, c).available);
+
+    const embargo = action({ type: 'trade_embargo', targetCommodity: undefined, targetFaction: 'Mining Guild' });
+    expect(investmentManager.executeEconomicWarfare(embargo)).toBe(true);
+
+    expect(consumed.length).toBeGreaterThan(0);
+    consumed.forEach(({ stationId: id, commodityId: c }, index) => {
+      expect(stock(id, c).available).toBeLessThan(before[index]);
+    });
+  });
+
+  it('should cut supplies at every producer of a disrupted commodity', () => {
+    trade();
+    const producers = worldManager.getAllStations()
+      .filter(station => economicSystem.getStationEconomics(station.id)!.produces.some(p => p.commodityId === commodityId))
+      .map(station => station.id)
+      .filter(id => stock(id).available > 10);
+    const before = producers.map(id => stock(id).available);
+    const available = stock().available;
+
+    expect(investmentManager.executeEconomicWarfare(action({ type: 'supply_disruption' }))).toBe(true);
+
+    expect(producers.length).toBeGreaterThan(0);
+    producers.forEach((id, index) => expect(stock(id).available).toBeLessThan(before[index]));
+    expect(stock().available).toBeLessThan(available);
+    expect(investmentManager.getMarketInfluenceHistory()[0]).toMatchObject({ type: 'supply_manipulation', commodity: commodityId });
+  });
+
+  it('should refund a supply disruption with no commodity to disrupt', () => {
+    trade();
+    const credits = playerManager.getCredits();
+
+    expect(investmentManager.executeEconomicWarfare(action({ type: 'supply_disruption', targetCommodity: undefined }))).toBe(false);
+    expect(playerManager.getCredits()).toBe(credits);
+  });
+
+  it('should refund an action that has nothing to act on', () => {
+    trade();
+    const credits = playerManager.getCredits();
+
+    expect(investmentManager.executeEconomicWarfare(action({ targetCommodity: undefined }))).toBe(false);
+    expect(playerManager.getCredits()).toBe(credits);
+  });
+
+  it('should raise an alert that security investigates as a financial crime', () => {
+    const npcManager = { getNPCsInSystem: vi.fn(() => []) } as unknown as NPCAIManager;
+    const securityManager = new SecurityManager(timeManager, worldManager, playerManager, playerManager.getFactionManager(), npcManager);
+    investmentManager.setSecurityManager(securityManager);
+    trade();
+
+    const chance = vi.spyOn(SeededRandom.prototype, 'chance').mockReturnValue(true);
+    investmentManager.executeEconomicWarfare(action({ riskLevel: 'high' }));
+    chance.mockRestore();
+
+    const [alert] = investmentManager.getManipulationAlerts();
+    expect(alert).toMatchObject({ market: stationId, commodity: commodityId, investigationStatus: 'investigating' });
+    expect(securityManager.getPlayerCrimeHistory().map(crime => crime.crimeType)).toContain('market-manipulation');
+
+    const restored = new InvestmentManager(timeManager, worldManager, playerManager, playerManager.getFactionManager(), economicSystem);
+    restored.deserialize(JSON.parse(JSON.stringify(investmentManager.serialize())));
+    expect(restored.getManipulationAlerts()).toEqual([alert]);
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EndgameManager } from '../systems/EndgameManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { CharacterManager } from '../systems/CharacterManager';
+import { AchievementManager } from '../systems/AchievementManager';
+import { QuestManager } from '../systems/QuestManager';
+import { EconomicSystem } from '../systems/EconomicSystem';
+import { CombatManager } from '../systems/CombatManager';
+import { WorldManager } from '../systems/WorldManager';
+import { TimeManager } from '../systems/TimeManager';
+import { EventManager } from '../systems/EventManager';
+import { ContactManager } from '../systems/ContactManager';
+import { SecurityManager } from '../systems/SecurityManager';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { SystemManager } from '../engine/SystemManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { CharacterAppearance } from '../types/character';
+import { Station } from '../types/world';
+import { CONTACT_ROLES } from '../types/contacts';
+
+const appearance: CharacterAppearance = {
+  gender: 'female',
+  skinTone: 'medium',
+  hairColor: 'black',
+  eyeColor: 'brown',
+  age: 30,
+  portrait: 'default-female'
+};
+
+const station: Station = {
+  id: 'exchange',
+  name: 'Exchange',
+  type: 'trade',
+  position: { x: 0, y: 0 },
+  faction: 'Independent',
+  dockingCapacity: 10,
+  services: ['refuel'],
+  description: ''
+};
+
+describe('EndgameManager', () => {
+  let timeManager: TimeManager;
+  let playerManager: PlayerManager;
+  let characterManager: CharacterManager;
+  let achievementManager: AchievementManager;
+  let questManager: QuestManager;
+  let endgameManager: EndgameManager;
+
+  beforeEach(() => {
+    timeManager = new TimeManager();
+    playerManager = new PlayerManager();
+    characterManager = new CharacterManager();
+    characterManager.createCharacter('heir', 'Heir', appearance, 'merchant');
+    achievementManager = new AchievementManager();
+    questManager = new QuestManager(
+      playerManager.getFactionManager(),
+      characterManager,
+      playerManager,
+      timeManager,
+      {} as unknown as EventManager
+    );
+    endgameManager = new EndgameManager(timeManager, playerManager, characterManager, achievementManager);
+    endgameManager.setQuestManager(questManager);
+    playerManager.getFactionManager().setEndgameManager(endgameManager);
+    characterManager.setEndgameManager(endgameManager);
+  });
+
+  const qualifyForMerchantEmperor = (completedQuests = ['endgame_trade_emperor', 'gcg_trade_route_expansion', 'gcg_financial_crisis']) => {
+    characterManager.awardExperience(10000000, 'Test', 'trading');
+    playerManager.addCredits(10000000);
+    playerManager.modifyFactionReputation('volans-corp', 67, 'Test');
+    playerManager.modifyFactionReputation('tekton-corp', 50, 'Test');
+    questManager.deserialize({ ...questManager.serialize(), completedQuests });
+  };
+
+  const sellAtDoublePrice = (economicSystem: EconomicSystem) => {
+    const commodityId = Array.from(economicSystem.getMarket(station.id)!.commodities.values())
+      .find(commodity => commodity.available >= 10)!.commodityId;
+    const commodity = economicSystem.getMarket(station.id)!.commodities.get(commodityId)!;
+    const cost = commodity.currentPrice;
+    economicSystem.executeTradeWithPlayer(station.id, commodityId, 10, true, playerManager);
+    commodity.currentPrice = cost * 2;
+    const sale = economicSystem.executeTradeWithPlayer(station.id, commodityId, 10, false, playerManager);
+    return { cost, pricePerUnit: sale.pricePerUnit! };
+  };
+
+  it('should grant a prestige title and bonuses only once every requirement is met', () => {
+    qualifyForMerchantEmperor(['gcg_trade_route_expansion', 'gcg_financial_crisis']);
+    expect(endgameManager.checkPrestige()).toEqual([]);
+
+    qualifyForMerchantEmperor();
+    const [earned] = endgameManager.checkPrestige();
+
+    expect(earned).toMatchObject({ prestigeId: 'merchant_emperor', title: 'Merchant Emperor of the Galaxy' });
+    expect(endgameManager.getPrestigeBonus('trading_profit')).toBe(0.5);
+    expect(endgameManager.checkPrestige()).toEqual([]);
+  });
+
+  it('should raise the profit on sales by the prestige trading bonus', () => {
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+    const economicSystem = new EconomicSystem(new SeededRandom(4), timeManager);
+    economicSystem.initializeStationEconomics(station);
+    economicSystem.setEndgameManager(endgameManager);
+
+    const { cost, pricePerUnit } = sellAtDoublePrice(economicSystem);
+
+    expect(pricePerUnit).toBeCloseTo(cost + cost * 1.5);
+  });
+
+  it('should only start New Game+ with prestige and unlocked features', () => {
+    expect(endgameManager.startNewGamePlus([]).success).toBe(false);
+
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+
+    expect(endgameManager.getAvailableNewGamePlusFeatures().map(feature => feature.id)).toEqual(['merchant_legacy']);
+    expect(endgameManager.startNewGamePlus(['hero_bloodline']).success).toBe(false);
+    expect(endgameManager.startNewGamePlus(['merchant_legacy'], 'speedrun').success).toBe(false);
+  });
+
+  it('should reset the run and carry the legacy into New Game+', () => {
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+    const startingCredits = new PlayerManager().getCredits();
+    const startingTrading = new CharacterManager().createCharacter('heir', 'Heir', appearance, 'merchant').skills.trading;
+
+    const result = endgameManager.startNewGamePlus(['merchant_legacy']);
+
+    expect(result.success).toBe(true);
+    expect(playerManager.getCredits()).toBe(startingCredits + 100000 + 500000);
+    expect(playerManager.getReputationForFaction('volans-corp')!.standing).toBe(15);
+    expect(playerManager.getReputationForFaction('tekton-corp')!.standing).toBe(0);
+    expect(characterManager.getCharacter()!.progression.level).toBe(1);
+    expect(characterManager.getCharacter()!.skills.trading).toBe(startingTrading + 25 + 25);
+    expect(achievementManager.getPlayerAchievements().unlocked).toEqual([]);
+    expect(questManager.getCompletedQuests()).toEqual([]);
+
+    expect(endgameManager.getEarnedPrestige()).toEqual([]);
+    expect(endgameManager.hasPrestige('merchant_emperor')).toBe(true);
+    expect(endgameManager.getLegacy()).toMatchObject({ generation: 2, features: ['merchant_legacy'] });
+    expect(endgameManager.getAvailableNewGamePlusFeatures().map(feature => feature.id)).toEqual(['merchant_legacy']);
+  });
+
+  it('should close out the last run\'s contracts, loans and trips in a full game', () => {
+    const systemManager = new SystemManager(document.createElement('canvas'), undefined, 21);
+    const playerId = systemManager.getPlayerManager().getPlayer().id;
+    const contractManager = systemManager.getContractManager();
+    const financialInstruments = systemManager.getInvestmentManager().getFinancialInstruments();
+    financialInstruments.update();
+
+    contractManager.acceptContract(contractManager.getAvailableContracts()[0].id, playerId);
+    expect(financialInstruments.takeLoan('volans-corp', 1000).success).toBe(true);
+
+    (systemManager.getEndgameManager() as any).resetRun();
+
+    expect(contractManager.getPlayerContracts(playerId)).toEqual([]);
+    expect(financialInstruments.getLoans()).toEqual([]);
+    expect(financialInstruments.getInstruments().length).toBeGreaterThan(0);
+    expect(systemManager.getNavigationManager().getActiveTravels()).toEqual([]);
+  });
+
+  it('should discard the last run\'s market orders and fights without drawing on the shared random', () => {
+    const systemManager = new SystemManager(document.createElement('canvas'), undefined, 21);
+    const playerManager = systemManager.getPlayerManager();
+    const economicSystem = systemManager.getEconomicSystem();
+    const combatManager = systemManager.getCombatManager();
+    const stationId = playerManager.getPlayer().currentStationId;
+    const commodityId = Array.from(economicSystem.getMarket(stationId)!.commodities.keys())[0];
+    expect(economicSystem.placePlayerOrder(stationId, commodityId, 'buy', 3, 1, playerManager).success).toBe(true);
+    combatManager.generateEncounter('pirate-attack', systemManager.getWorldManager().getGalaxy().currentPlayerLocation.systemId);
+    const startingCredits = new PlayerManager().getCredits();
+
+    (systemManager.getEndgameManager() as any).resetRun();
+
+    expect(economicSystem.getPlayerOrders()).toEqual([]);
+    expect(playerManager.getCredits()).toBe(startingCredits);
+    expect(combatManager.getActiveEncounters()).toEqual([]);
+
+    const random = systemManager.getRandom().getState();
+    combatManager.reset();
+    systemManager.getHackingManager().reset();
+    expect(systemManager.getRandom().getState()).toEqual(random);
+  });
+
+  it('should narrow trading margins for the whole of an Iron Trader run', () => {
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+    endgameManager.startNewGamePlus([], 'iron_trader');
+    const economicSystem = new EconomicSystem(new SeededRandom(4), timeManager);
+    economicSystem.initializeStationEconomics(station);
+    economicSystem.setEndgameManager(endgameManager);
+
+    const { cost, pricePerUnit } = sellAtDoublePrice(economicSystem);
+
+    expect(endgameManager.getChallengeModifier('economic', 'market_volatility')).toBe(1.5);
+    expect(pricePerUnit).toBeCloseTo(cost + cost * 0.7);
+  });
+
+  it('should double mission failure penalties and experience in an Iron Trader run', () => {
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+    endgameManager.startNewGamePlus([], 'iron_trader');
+    const experience = characterManager.getCharacter()!.progression.experience;
+
+    playerManager.handleMissionReputation('volans-corp', 'delivery', false);
+    characterManager.awardExperience(50, 'Test', 'trading');
+
+    expect(playerManager.getReputationForFaction('volans-corp')!.standing).toBe(-10);
+    expect(characterManager.getCharacter()!.progression.experience).toBe(experience + 100);
+  });
+
+  it('should stop the player attacking and speed up reputation gains in a Pacifist run', () => {
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+    endgameManager.startNewGamePlus([], 'pacifist_run');
+    const worldManager = new WorldManager();
+    const combatManager = new CombatManager(
+      timeManager,
+      worldManager,
+      playerManager,
+      playerManager.getFactionManager(),
+      {} as unknown as SecurityManager,
+      { getNPCsInSystem: vi.fn(() => []) } as unknown as NPCAIManager,
+      {} as unknown as EventManager,
+      new SeededRandom(2)
+    );
+    combatManager.setEndgameManager(endgameManager);
+    const encounter = combatManager.generateEncounter('pirate-attack', worldManager.getGalaxy().currentPlayerLocation.systemId);
+    const pirate = encounter.participants.find(participant => participant.type === 'ai')!;
+
+    const result = combatManager.executeCombatAction({
+      id: 'attack',
+      actorId: 'player',
+      type: 'attack',
+      targetId: pirate.id,
+      parameters: {},
+      timestamp: 0,
+      resolved: false
+    });
+
+    expect(result.success).toBe(false);
+    expect(pirate.ship.hull.current).toBe(pirate.ship.hull.maximum);
+
+    playerManager.modifyFactionReputation('independents', 10, 'Test');
+    expect(playerManager.getReputationForFaction('independents')!.standing).toBe(13);
+  });
+
+  it('should make deals with contacts easier to land in a Pacifist run', () => {
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+    endgameManager.startNewGamePlus([], 'pacifist_run');
+    const negotiate = (contactManager: ContactManager) => {
+      const contact = contactManager.meetContact({
+        name: 'Broker',
+        factionId: 'independents',
+        stationId: 'exchange',
+        role: CONTACT_ROLES[0],
+        specialties: ['Trade'],
+        personalityTraits: [],
+        services: [],
+        biography: ''
+      });
+      return contactManager.performAdvancedInteraction(contact.id, 'business_deal').outcome;
+    };
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.6);
+
+    try {
+      expect(negotiate(new ContactManager())).toBe('neutral');
+      expect(negotiate(playerManager.getFactionManager().getContactManager())).toBe('success');
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it('should keep prestige, legacy and challenge across save and load', () => {
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+    endgameManager.startNewGamePlus(['merchant_legacy'], 'iron_trader');
+    qualifyForMerchantEmperor();
+    endgameManager.update();
+
+    const restored = new EndgameManager(timeManager, playerManager, characterManager, achievementManager);
+    restored.setQuestManager(questManager);
+    restored.deserialize(JSON.parse(JSON.stringify(endgameManager.serialize())));
+
+    expect(restored.getEarnedPrestige()).toEqual(endgameManager.getEarnedPrestige());
+    expect(restored.getLegacy()).toEqual(endgameManager.getLegacy());
+    expect(restored.getActiveChallengeMode()?.id).toBe('iron_trader');
+    expect(restored.getEndgameScore()).toBe(endgameManager.getEndgameScore());
+  });
+});
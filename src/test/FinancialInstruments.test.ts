@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InvestmentManager } from '../systems/InvestmentManager';
+import { FinancialInstrumentManager } from '../systems/FinancialInstrumentManager';
+import { EconomicSystem } from '../systems/EconomicSystem';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { initializeGalaxyEconomy } from './testUtils/economy';
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('Financial instruments', () => {
+  let timeManager: TimeManager;
+  let worldManager: WorldManager;
+  let playerManager: PlayerManager;
+  let economicSystem: EconomicSystem;
+  let investmentManager: InvestmentManager;
+  let financialInstruments: FinancialInstrumentManager;
+
+  beforeEach(() => {
+    timeManager = new TimeManager();
+    worldManager = new WorldManager();
+    playerManager = new PlayerManager();
+    playerManager.addCredits(1000000);
+    economicSystem = new EconomicSystem(new SeededRandom(8), timeManager);
+    initializeGalaxyEconomy(economicSystem, worldManager);
+    investmentManager = new InvestmentManager(
+      timeManager,
+      worldManager,
+      playerManager,
+      playerManager.getFactionManager(),
+      economicSystem,
+      new SeededRandom(8)
+    );
+    financialInstruments = investmentManager.getFinancialInstruments();
+    financialInstruments.update();
+  });
+
+  const advance = (ms: number) => {
+    timeManager.addTime(ms);
+    financialInstruments.update();
+  };
+
+  const stationEquity = (stationId: string) =>
+    financialInstruments.getInstruments().find(i => i.type === 'equity' && i.underlyingAsset === stationId)!;
+
+  it('should issue shares for stations and shares and bonds for factions', () => {
+    const instruments = financialInstruments.getInstruments();
+
+    worldManager.getAllStations().forEach(station => expect(stationEquity(station.id)).toBeDefined());
+    const factionBonds = instruments.filter(i => i.type === 'bond' && i.issuerType === 'faction');
+    expect(factionBonds.length).toBeGreaterThan(0);
+    factionBonds.forEach(bond => {
+      expect(bond.faceValue).toBe(1000);
+      expect(bond.expirationDate).toBeGreaterThan(timeManager.getCurrentTimestamp());
+    });
+  });
+
+  it('should mark a station\'s shares down when its production stalls', () => {
+    const station = worldManager.getAllStations().find(s => economicSystem.getStationEconomics(s.id)!.produces.length > 0)!;
+    const economics = economicSystem.getStationEconomics(station.id)!;
+    economics.produces.forEach(production => {
+      const capacity = production.baseRate * production.efficiency * economics.economicFactors.efficiency;
+      economics.market.commodities.get(production.commodityId)!.productionRate = capacity;
+    });
+    advance(HOUR_MS);
+    const healthyPrice = stationEquity(station.id).currentPrice;
+
+    economics.produces.forEach(production => {
+      economics.market.commodities.get(production.commodityId)!.productionRate = 0;
+    });
+    advance(HOUR_MS);
+
+    expect(stationEquity(station.id).currentPrice).toBeLessThan(healthyPrice);
+    expect(financialInstruments.getEconomicIndicators().find(i => i.name === station.id)?.trend).toBe('declining');
+  });
+
+  it('should mark shares down while the issuer is caught in a war', () => {
+    const station = worldManager.getAllStations().find(s => s.type === 'military')!;
+    advance(HOUR_MS);
+    const peacetimePrice = stationEquity(station.id).currentPrice;
+
+    economicSystem.startEconomicEvent('war', station.id, 0.8);
+    advance(HOUR_MS);
+
+    expect(stationEquity(station.id).currentPrice).toBeLessThan(peacetimePrice);
+  });
+
+  it('should mark shares down while a hostile faction runs a station in the same system', () => {
+    const [station, neighbour] = worldManager.getSystemById('sol-system')!.stations;
+    station.faction = 'raijin-corp';
+    advance(HOUR_MS);
+    const peacetimePrice = stationEquity(station.id).currentPrice;
+
+    neighbour.faction = 'pirates';
+    advance(HOUR_MS);
+
+    expect(stationEquity(station.id).currentPrice).toBeLessThan(peacetimePrice);
+  });
+
+  it('should pay coupons and repay bonds at maturity', () => {
+    const bond = financialInstruments.getInstruments().find(i => i.type === 'bond' && i.issuerType === 'faction')!;
+    expect(financialInstruments.buyInstrument(bond.id, 5).success).toBe(true);
+
+    const credits = playerManager.getCredits();
+    advance(30 * DAY_MS);
+    const coupon = Math.round(5 * 1000 * bond.couponRate! * 30 / 365);
+    expect(playerManager.getCredits()).toBe(credits + coupon);
+
+    advance(bond.expirationDate - timeManager.getCurrentTimestamp());
+    expect(financialInstruments.getInstrument(bond.id)).toBeUndefined();
+    expect(financialInstruments.getHoldings()).toHaveLength(0);
+    expect(playerManager.getCredits()).toBeGreaterThanOrEqual(credits + 5 * 1000 * 0.4);
+    expect(financialInstruments.getInstruments().some(i => i.type === 'bond' && i.underlyingAsset === bond.underlyingAsset)).toBe(true);
+  });
+
+  it('should buy and sell shares at their current price', () => {
+    const equity = financialInstruments.getInstruments().find(i => i.type === 'equity')!;
+    const credits = playerManager.getCredits();
+
+    expect(financialInstruments.buyInstrument(equity.id, 10)).toEqual({ success: true, cost: equity.currentPrice * 10 });
+    expect(financialInstruments.sellInstrument(equity.id, 11).success).toBe(false);
+    expect(financialInstruments.sellInstrument(equity.id, 10).success).toBe(true);
+
+    expect(playerManager.getCredits()).toBe(credits);
+    expect(financialInstruments.getHoldings()).toHaveLength(0);
+  });
+
+  it('should charge loan interest on game time', () => {
+    const offer = financialInstruments.getLoanOffer('independents')!;
+    const { loan } = financialInstruments.takeLoan('independents', 10000);
+
+    advance(45 * DAY_MS);
+
+    expect(loan!.balance).toBeCloseTo(10000 * Math.pow(1 + offer.annualRate, 45 / 365));
+    const result = financialInstruments.repayLoan(loan!.id, 1000000);
+    expect(result.success).toBe(true);
+    expect(loan!.status).toBe('repaid');
+  });
+
+  it('should hurt reputation with a lender the player defaults on', () => {
+    const standing = playerManager.getReputationForFaction('independents')!.standing;
+    const { loan } = financialInstruments.takeLoan('independents', 10000);
+    expect(financialInstruments.takeLoan('independents', 1000000).success).toBe(false);
+
+    advance(91 * DAY_MS);
+
+    expect(loan!.status).toBe('defaulted');
+    expect(playerManager.getReputationForFaction('independents')!.standing).toBeLessThan(standing);
+    expect(financialInstruments.getLoanOffer('independents')).toBeNull();
+  });
+
+  it('should keep positions and loans across save and load', () => {
+    const equity = financialInstruments.getInstruments().find(i => i.type === 'equity')!;
+    financialInstruments.buyInstrument(equity.id, 3);
+    financialInstruments.takeLoan('independents', 5000);
+
+    const restored = new InvestmentManager(timeManager, worldManager, playerManager, playerManager.getFactionManager(), economicSystem);
+    restored.deserialize(JSON.parse(JSON.stringify(investmentManager.serialize())));
+
+    expect(restored.getFinancialInstruments().getHoldings()).toEqual(financialInstruments.getHoldings());
+    expect(restored.getFinancialInstruments().getLoans()).toEqual(financialInstruments.getLoans());
+    expect(restored.getFinancialInstruments().getInstruments()).toHaveLength(financialInstruments.getInstruments().length);
+  });
+});
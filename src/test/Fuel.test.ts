@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PlayerManager } from '../systems/PlayerManager';
+import { WorldManager } from '../systems/WorldManager';
+import { TimeManager } from '../systems/TimeManager';
+import { EventManager } from '../systems/EventManager';
+import { FactionManager } from '../systems/FactionManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { NPCShip } from '../types/npc';
+import { createLayeredPosition } from '../utils/coordinates';
+import { FUEL_PRICE_PER_UNIT, addFuel, consumeFuel, getCurrentFuel, getFuelEfficiency } from '../utils/fuel';
+
+describe('Fuel', () => {
+  let playerManager: PlayerManager;
+  let worldManager: WorldManager;
+
+  beforeEach(() => {
+    playerManager = new PlayerManager();
+    worldManager = new WorldManager();
+    playerManager.setWorldManager(worldManager);
+    worldManager.setPlayerManager(playerManager);
+    worldManager.setPlayerShip(playerManager.getCurrentShip());
+  });
+
+  describe('tank', () => {
+    it('should treat ships without a fuel level as full', () => {
+      const ship = playerManager.getCurrentShip();
+      expect(ship.fuel).toBeUndefined();
+      expect(getCurrentFuel(ship)).toBe(ship.class.baseFuelCapacity);
+    });
+
+    it('should never burn more than is in the tank or fill past capacity', () => {
+      const ship = playerManager.getCurrentShip();
+      ship.fuel = 10;
+
+      expect(consumeFuel(ship, 11)).toBe(false);
+      expect(ship.fuel).toBe(10);
+      expect(consumeFuel(ship, 4)).toBe(true);
+      expect(ship.fuel).toBe(6);
+      expect(addFuel(ship, 1000)).toBe(ship.class.baseFuelCapacity - 6);
+      expect(ship.fuel).toBe(ship.class.baseFuelCapacity);
+    });
+
+    it('should lose efficiency as the ship wears', () => {
+      const ship = playerManager.getCurrentShip();
+      const healthy = getFuelEfficiency(ship);
+
+      ship.condition.engines = 0.2;
+      ship.condition.hull = 0.2;
+
+      expect(getFuelEfficiency(ship)).toBeLessThan(healthy);
+    });
+  });
+
+  describe('in-system movement', () => {
+    it('should burn fuel when the ship moves', () => {
+      expect(worldManager.moveShipToCoordinates(650, 100)).toBe(true);
+      expect(playerManager.getFuel()).toBeCloseTo(playerManager.getFuelCapacity() - 5);
+    });
+
+    it('should refuse to move without enough fuel', () => {
+      playerManager.getCurrentShip().fuel = 1;
+
+      expect(worldManager.moveShipToCoordinates(650, 100)).toBe(false);
+      expect(playerManager.getFuel()).toBe(1);
+    });
+  });
+
+  describe('refueling', () => {
+    beforeEach(() => {
+      playerManager.setCurrentStation('earth-station');
+      playerManager.getCurrentShip().fuel = 50;
+    });
+
+    it('should fill the tank for credits at a refuel station', () => {
+      const credits = playerManager.getCredits();
+      const missing = playerManager.getFuelCapacity() - 50;
+
+      const result = playerManager.refuel();
+
+      expect(result.success).toBe(true);
+      expect(result.amount).toBe(missing);
+      expect(result.cost).toBe(missing * FUEL_PRICE_PER_UNIT);
+      expect(playerManager.getFuel()).toBe(playerManager.getFuelCapacity());
+      expect(playerManager.getCredits()).toBe(credits - result.cost);
+    });
+
+    it('should buy a partial amount on request', () => {
+      const result = playerManager.refuel(10);
+
+      expect(result.success).toBe(true);
+      expect(playerManager.getFuel()).toBe(60);
+    });
+
+    it('should require docking at a station with refuel service', () => {
+      playerManager.setCurrentStation(null);
+      expect(playerManager.refuel().error).toBe('Ship must be docked to refuel');
+
+      const station = worldManager.getStationById('earth-station')!;
+      station.services = station.services.filter(service => service !== 'refuel');
+      playerManager.setCurrentStation('earth-station');
+      expect(playerManager.refuel().success).toBe(false);
+      expect(playerManager.getFuel()).toBe(50);
+    });
+
+    it('should not refuel without enough credits', () => {
+      playerManager.spendCredits(playerManager.getCredits());
+
+      const result = playerManager.refuel();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Insufficient credits');
+      expect(playerManager.getFuel()).toBe(50);
+    });
+  });
+
+  describe('running dry', () => {
+    it('should only be stranded when no refuel station or gate is in reach', () => {
+      expect(playerManager.isStranded()).toBe(false);
+
+      playerManager.getCurrentShip().fuel = 0;
+      expect(playerManager.isStranded()).toBe(true);
+
+      playerManager.setCurrentStation('earth-station');
+      expect(playerManager.isStranded()).toBe(false);
+    });
+
+    it('should raise one distress call that can deliver fuel', () => {
+      const timeManager = new TimeManager();
+      // Seeded so no unrelated random events are rolled alongside the distress call
+      const eventManager = new EventManager(timeManager, worldManager, playerManager, new FactionManager(), new SeededRandom(2));
+      playerManager.getCurrentShip().fuel = 0;
+
+      timeManager.addTime(10000);
+      eventManager.update(0.016);
+      timeManager.addTime(10000);
+      eventManager.update(0.016);
+
+      const distressCalls = eventManager.getActiveEvents().filter(event => event.tags?.includes('fuel_distress'));
+      expect(distressCalls).toHaveLength(1);
+
+      expect(eventManager.makeEventChoice(distressCalls[0].id, 'wait_for_patrol')).toBe(true);
+      expect(playerManager.getFuel()).toBeGreaterThan(0);
+      expect(eventManager.getActiveEvents()).toHaveLength(0);
+    });
+  });
+
+  describe('NPC ships', () => {
+    let npcAIManager: NPCAIManager;
+    let npc: NPCShip;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      npcAIManager = new NPCAIManager(new TimeManager(), worldManager, playerManager, new SeededRandom(1));
+      npc = {
+        id: 'fuel-npc',
+        name: 'Thirsty Hauler',
+        type: 'trader',
+        position: { systemId: 'sol-system', coordinates: createLayeredPosition(0, 0, 'ship') },
+        movement: { speed: 50, currentVelocity: { x: 0, y: 0 }, lastMoveTime: 0, maneuverability: 50, maxAcceleration: 25, brakingDistance: 100 },
+        ship: { class: 'transport', cargoCapacity: 200, currentCargo: new Map(), condition: 100, fuel: 10, fuelCapacity: 100 },
+        credits: 1000
+      } as unknown as NPCShip;
+    });
+
+    it('should burn fuel for the distance flown and drift once the tank is empty', () => {
+      (npcAIManager as any).burnTravelFuel(npc);
+
+      npc.position.coordinates.x = 500;
+      (npcAIManager as any).burnTravelFuel(npc);
+      expect(npc.ship.fuel).toBeCloseTo(5);
+
+      npc.movement.targetStationId = 'earth-station';
+      npc.position.coordinates.x = 1500;
+      (npcAIManager as any).burnTravelFuel(npc);
+      expect(npc.ship.fuel).toBe(0);
+      expect(npc.movement.targetStationId).toBeUndefined();
+    });
+
+    it('should pay fuel for jumps between systems', () => {
+      const leg = worldManager.getPathfinder().findRoute('sol-system', 'alpha-centauri')!.legs[0];
+      expect(leg.type).toBe('system');
+
+      npc.ship.fuel = 1;
+      (npcAIManager as any).executeSystemJump(npc, 'alpha-centauri', 'unknown-station');
+      expect(npc.position.systemId).toBe('sol-system');
+
+      npc.ship.fuel = 100;
+      (npcAIManager as any).executeSystemJump(npc, 'alpha-centauri', 'unknown-station');
+      expect(npc.position.systemId).toBe('alpha-centauri');
+      expect(npc.ship.fuel).toBeCloseTo(100 - leg.distance / 100);
+    });
+
+    it('should buy what fuel it can afford when docked at a refuel station', () => {
+      npc.position.stationId = 'earth-station';
+      npc.credits = 50 * FUEL_PRICE_PER_UNIT;
+
+      (npcAIManager as any).refuelAtStation(npc);
+
+      expect(npc.ship.fuel).toBe(60);
+      expect(npc.credits).toBe(0);
+    });
+
+    it('should not sell fuel to an NPC in debt', () => {
+      npc.position.stationId = 'earth-station';
+      npc.credits = -200;
+
+      (npcAIManager as any).refuelAtStation(npc);
+
+      expect(npc.ship.fuel).toBe(10);
+      expect(npc.credits).toBe(-200);
+    });
+
+    it('should have a patrol refuel an NPC left adrift for long enough', () => {
+      const hour = 60 * 60 * 1000;
+      npc.ship.fuel = 0;
+
+      (npcAIManager as any).rescueStrandedNPC(npc, 0);
+      (npcAIManager as any).rescueStrandedNPC(npc, hour / 2);
+      expect(npc.ship.fuel).toBe(0);
+
+      (npcAIManager as any).rescueStrandedNPC(npc, hour);
+      expect(npc.ship.fuel).toBe(15);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { Galaxy } from '../types/world';
+import { WorldManager } from '../systems/WorldManager';
+import { SystemManager } from '../engine/SystemManager';
+import { SeededRandom } from '../utils/SeededRandom';
+
+const generate = (seed: number, options = {}): Galaxy =>
+  new WorldManager().generateGalaxy(new SeededRandom(seed), options);
+
+const reachableSectors = (galaxy: Galaxy): Set<string> => {
+  const reached = new Set([galaxy.sectors[0].id]);
+  const queue = [galaxy.sectors[0].id];
+  while (queue.length > 0) {
+    const sectorId = queue.shift();
+    const sector = galaxy.sectors.find(s => s.id === sectorId);
+    for (const gate of sector?.systems.flatMap(system => system.gates) ?? []) {
+      if (!reached.has(gate.destinationSectorId)) {
+        reached.add(gate.destinationSectorId);
+        queue.push(gate.destinationSectorId);
+      }
+    }
+  }
+  return reached;
+};
+
+describe('GalaxyGenerator', () => {
+  it('should generate the same galaxy from the same seed', () => {
+    expect(generate(2157)).toEqual(generate(2157));
+  });
+
+  it('should generate different galaxies from different seeds', () => {
+    expect(generate(1).sectors.map(s => s.name)).not.toEqual(generate(2).sectors.map(s => s.name));
+  });
+
+  it('should build a galaxy of the configured size', () => {
+    const galaxy = generate(7, { sectorCount: 10, systemsPerSector: { min: 2, max: 2 } });
+
+    expect(galaxy.sectors).toHaveLength(10);
+    galaxy.sectors.forEach(sector => expect(sector.systems).toHaveLength(2));
+  });
+
+  it('should give every system a star, stations and unique ids', () => {
+    const galaxy = generate(42, { sectorCount: 8 });
+    const systems = galaxy.sectors.flatMap(sector => sector.systems);
+    const stations = systems.flatMap(system => system.stations);
+
+    systems.forEach(system => {
+      expect(system.star.temperature).toBeGreaterThan(0);
+      expect(system.stations.length).toBeGreaterThan(0);
+      expect(system.securityLevel).toBeGreaterThanOrEqual(0);
+      expect(system.securityLevel).toBeLessThanOrEqual(10);
+    });
+    expect(new Set(systems.map(s => s.id)).size).toBe(systems.length);
+    expect(new Set(stations.map(s => s.id)).size).toBe(stations.length);
+  });
+
+  it('should connect every sector through the gate network', () => {
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const galaxy = generate(seed, { sectorCount: 9 });
+      expect(reachableSectors(galaxy).size).toBe(9);
+    }
+  });
+
+  it('should pair every gate with a return gate', () => {
+    const galaxy = generate(11);
+    const systems = galaxy.sectors.flatMap(sector => sector.systems.map(system => ({ sector, system })));
+
+    for (const { sector, system } of systems) {
+      for (const gate of system.gates) {
+        const destination = systems.find(entry => entry.system.id === gate.destinationSystemId);
+        expect(destination?.sector.id).toBe(gate.destinationSectorId);
+        expect(destination?.system.gates.some(g =>
+          g.destinationSystemId === system.id && g.destinationSectorId === sector.id
+        )).toBe(true);
+      }
+    }
+  });
+
+  it('should build stations that fit the controlling faction', () => {
+    const galaxy = generate(3, { sectorCount: 2, factions: ['Mining Guild'] });
+
+    galaxy.sectors.forEach(sector => {
+      expect(sector.controllingFaction).toBe('Mining Guild');
+      sector.systems.flatMap(system => system.stations)
+        .filter(station => station.type !== 'pirate')
+        .forEach(station => {
+          expect(['mining', 'refinery', 'industrial']).toContain(station.type);
+          expect(station.faction).toBe('Mining Guild');
+        });
+    });
+  });
+
+  it('should start the player at a station in the first sector', () => {
+    const galaxy = generate(5);
+    const startSystem = galaxy.sectors[0].systems.find(s => s.id === galaxy.currentPlayerLocation.systemId);
+
+    expect(galaxy.currentPlayerLocation.sectorId).toBe(galaxy.sectors[0].id);
+    expect(startSystem?.stations.map(s => s.id)).toContain(galaxy.currentPlayerLocation.stationId);
+  });
+
+  it('should keep the hand-made galaxy as a preset', () => {
+    const worldManager = new WorldManager();
+    worldManager.generateGalaxy(new SeededRandom(1));
+
+    const preset = worldManager.createPresetGalaxy();
+
+    expect(preset.sectors.map(s => s.id)).toContain('core-sector');
+    expect(preset.currentPlayerLocation.stationId).toBe('earth-station');
+  });
+
+  it('should set up markets and the player location when SystemManager generates a galaxy', () => {
+    const systemManager = new SystemManager(document.createElement('canvas'), undefined, 99);
+
+    const galaxy = systemManager.generateGalaxy({ sectorCount: 3 });
+    const startStationId = galaxy.currentPlayerLocation.stationId as string;
+
+    expect(systemManager.getWorldManager().getGalaxy()).toBe(galaxy);
+    expect(systemManager.getEconomicSystem().getMarket(startStationId)).toBeDefined();
+    expect(systemManager.getPlayerManager().getCurrentStation()).toBe(startStationId);
+    expect(systemManager.getPlayerManager().getShip().location.systemId).toBe(galaxy.currentPlayerLocation.systemId);
+  });
+
+  it('should drop the preset galaxy\'s markets when a generated galaxy replaces it', () => {
+    const systemManager = new SystemManager(document.createElement('canvas'), undefined, 99);
+    const economicSystem = systemManager.getEconomicSystem();
+    expect(economicSystem.getMarket('earth-station')).toBeDefined();
+
+    const galaxy = systemManager.generateGalaxy({ sectorCount: 3 });
+    const stationIds = galaxy.sectors.flatMap(sector => sector.systems.flatMap(system => system.stations.map(station => station.id)));
+
+    expect(economicSystem.getMarket('earth-station')).toBeUndefined();
+    expect(Array.from(economicSystem.getAllMarkets().keys()).sort()).toEqual(stationIds.sort());
+  });
+
+  it('should hand back what the player\'s open orders hold when a new galaxy replaces the old', () => {
+    const systemManager = new SystemManager(document.createElement('canvas'), undefined, 99);
+    const economicSystem = systemManager.getEconomicSystem();
+    const playerManager = systemManager.getPlayerManager();
+    const commodityId = Array.from(economicSystem.getMarket('earth-station')!.commodities.keys())[0];
+    playerManager.addCommodity(commodityId, 4, 10);
+    const credits = playerManager.getCredits();
+    const quantities = () => playerManager.getCargoManifest().map(item => [item.commodityId, item.quantity]);
+    const cargo = quantities();
+
+    // Limits far from the market so neither order fills
+    expect(economicSystem.placePlayerOrder('earth-station', commodityId, 'buy', 3, 1, playerManager).success).toBe(true);
+    expect(economicSystem.placePlayerOrder('earth-station', commodityId, 'sell', 4, 1_000_000, playerManager).success).toBe(true);
+    expect(playerManager.getCredits()).toBe(credits - 3);
+
+    systemManager.generateGalaxy({ sectorCount: 3 });
+
+    expect(economicSystem.getPlayerOrders()).toEqual([]);
+    expect(playerManager.getCredits()).toBe(credits);
+    expect(quantities()).toEqual(cargo);
+  });
+
+  it('should deal contracts and NPCs for the new galaxy\'s stations', () => {
+    const systemManager = new SystemManager(document.createElement('canvas'), undefined, 99);
+    const npcAIManager = systemManager.getNPCAIManager();
+    const presetNPCs = npcAIManager.getNPCsInSystem('sol-system');
+    expect(presetNPCs.length).toBeGreaterThan(0);
+
+    const galaxy = systemManager.generateGalaxy({ sectorCount: 3 });
+    const systems = galaxy.sectors.flatMap(sector => sector.systems);
+    const stationIds = systems.flatMap(system => system.stations.map(station => station.id));
+
+    const contracts = systemManager.getContractManager().getAvailableContracts();
+    expect(contracts.length).toBeGreaterThan(0);
+    contracts.forEach(contract => {
+      expect(stationIds).toContain(contract.origin);
+      expect(stationIds).toContain(contract.destination);
+    });
+
+    expect(npcAIManager.getNPCsInSystem('sol-system')).toEqual([]);
+    const npcs = systems.flatMap(system => npcAIManager.getNPCsInSystem(system.id));
+    expect(npcs.length).toBeGreaterThan(0);
+    npcs.forEach(npc => expect(stationIds).toContain(npc.position.stationId));
+    presetNPCs.forEach(npc => expect(npcAIManager.getNPCById(npc.id)).toBeNull());
+  });
+});
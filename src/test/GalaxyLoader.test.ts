@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { GalaxyLoader } from '../systems/GalaxyLoader';
+import { FactionManager } from '../systems/FactionManager';
+import { WorldManager } from '../systems/WorldManager';
+import { SystemManager } from '../engine/SystemManager';
+import corporateFrontier from '../data/galaxies/corporate-frontier.json';
+
+const knownFactions = new FactionManager().getFactions().flatMap(faction => [faction.id, faction.name]);
+const cloneMap = (): any => JSON.parse(JSON.stringify(corporateFrontier));
+
+describe('GalaxyLoader', () => {
+  it('should load a valid map definition', () => {
+    const result = new GalaxyLoader(knownFactions).load(cloneMap());
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.galaxy?.sectors.map(s => s.id)).toEqual(['titan-reach', 'green-belt']);
+    expect(result.galaxy?.currentPlayerLocation.stationId).toBe('titan-industrial-complex');
+  });
+
+  it('should default z coordinates to each object layer', () => {
+    const system = new GalaxyLoader().load(cloneMap()).galaxy?.sectors[0].systems[0];
+
+    expect(system?.position.z).toBe(0);
+    expect(system?.stations[0].position.z).toBe(30);
+    expect(system?.planets[0].position.z).toBe(0);
+    expect(system?.gates[0].position.z).toBe(30);
+  });
+
+  it('should accept the preset galaxy when factions are not checked', () => {
+    const preset = JSON.parse(JSON.stringify(new WorldManager().createPresetGalaxy()));
+
+    expect(new GalaxyLoader().load(preset).errors).toEqual([]);
+  });
+
+  it('should report broken references with their paths', () => {
+    const map = cloneMap();
+    map.sectors[0].systems[0].gates[0].destinationSystemId = 'atlantis-system';
+    map.sectors[1].systems[0].gates[0].destinationSectorId = 'green-belt';
+    map.sectors[1].systems[0].gates.push({ ...map.sectors[1].systems[0].gates[0], id: 'gate-to-nowhere', destinationSectorId: 'nowhere' });
+    map.sectors[0].systems[0].stations[1].faction = 'Galactic Empire';
+    map.sectors[1].controllingFaction = 'Galactic Empire';
+    map.currentPlayerLocation.stationId = 'eden-agri-dome';
+
+    const result = new GalaxyLoader(knownFactions).load(map);
+
+    expect(result.success).toBe(false);
+    expect(result.galaxy).toBeUndefined();
+    expect(result.errors).toEqual(expect.arrayContaining([
+      { path: 'sectors[0].systems[0].gates[0].destinationSystemId', message: 'unknown system "atlantis-system"' },
+      { path: 'sectors[1].systems[0].gates[0].destinationSystemId', message: 'system "titan-system" is not in sector "green-belt"' },
+      { path: 'sectors[1].systems[0].gates[1].destinationSectorId', message: 'unknown sector "nowhere"' },
+      { path: 'sectors[0].systems[0].stations[1].faction', message: 'unknown faction "Galactic Empire"' },
+      { path: 'sectors[1].controllingFaction', message: 'unknown faction "Galactic Empire"' },
+      { path: 'currentPlayerLocation.stationId', message: 'station "eden-agri-dome" is not in system "titan-system"' }
+    ]));
+    expect(result.errors).toHaveLength(6);
+  });
+
+  it('should report every shape error in one pass', () => {
+    const map = cloneMap();
+    const system = map.sectors[0].systems[0];
+    system.star.type = 'black-hole';
+    system.securityLevel = 12;
+    delete system.stations[0].dockingCapacity;
+    system.stations[1].id = 'titan-industrial-complex';
+    system.planets[0].radius = 'large';
+    system.gates[0].colour = 'blue';
+    system.gates.push({ ...system.gates[0], colour: undefined });
+
+    const errors = new GalaxyLoader(knownFactions).load(map).errors;
+
+    expect(errors.map(error => error.path)).toEqual(expect.arrayContaining([
+      'sectors[0].systems[0].star.type',
+      'sectors[0].systems[0].securityLevel',
+      'sectors[0].systems[0].stations[0].dockingCapacity',
+      'sectors[0].systems[0].stations[1].id',
+      'sectors[0].systems[0].planets[0].radius',
+      'sectors[0].systems[0].gates[0].colour',
+      'sectors[0].systems[0].gates[1].id'
+    ]));
+    expect(errors.find(error => error.path.endsWith('stations[1].id'))?.message)
+      .toBe('duplicate station id "titan-industrial-complex" (first defined at sectors[0].systems[0].stations[0])');
+    expect(errors.find(error => error.path.endsWith('dockingCapacity'))?.message).toBe('is required');
+  });
+
+  it('should report malformed JSON text', () => {
+    const result = new GalaxyLoader().loadJSON('{ "sectors": [');
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].path).toBe('');
+    expect(result.errors[0].message).toMatch(/^Invalid JSON/);
+  });
+
+  it('should require at least one sector and a starting location', () => {
+    const errors = new GalaxyLoader().load({ sectors: [] }).errors;
+
+    expect(errors).toEqual([
+      { path: 'sectors', message: 'must contain at least 1 item' },
+      { path: 'currentPlayerLocation', message: 'is required' }
+    ]);
+  });
+
+  describe('SystemManager integration', () => {
+    it('should install a loaded map and start the player there', () => {
+      const systemManager = new SystemManager(document.createElement('canvas'));
+
+      const result = systemManager.loadGalaxyDefinition(cloneMap());
+
+      expect(result.success).toBe(true);
+      expect(systemManager.getWorldManager().getCurrentSystem()?.id).toBe('titan-system');
+      expect(systemManager.getPlayerManager().getCurrentStation()).toBe('titan-industrial-complex');
+      expect(systemManager.getEconomicSystem().getMarket('eden-agri-dome')).toBeDefined();
+    });
+
+    it('should keep the current galaxy when the map has errors', () => {
+      const systemManager = new SystemManager(document.createElement('canvas'));
+      const map = cloneMap();
+      map.sectors[0].systems[0].stations[0].faction = 'Galactic Empire';
+
+      const result = systemManager.loadGalaxyDefinition(map);
+
+      expect(result.success).toBe(false);
+      expect(systemManager.getWorldManager().getCurrentSystem()?.id).toBe('sol-system');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GalaxyPathfinder } from '../systems/GalaxyPathfinder';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { NavigationManager } from '../systems/NavigationManager';
+import { TimeManager } from '../systems/TimeManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { NavigationTarget } from '../types/world';
+
+describe('GalaxyPathfinder', () => {
+  let worldManager: WorldManager;
+  let pathfinder: GalaxyPathfinder;
+
+  beforeEach(() => {
+    worldManager = new WorldManager();
+    pathfinder = worldManager.getPathfinder();
+  });
+
+  const findGate = (systemId: string, gateId: string) =>
+    worldManager.getSystemById(systemId)!.gates.find(gate => gate.id === gateId)!;
+
+  describe('routes', () => {
+    it('should route within a sector without gates', () => {
+      const route = pathfinder.findRoute('sol-system', 'sirius')!;
+
+      expect(route.systemIds).toEqual(['sol-system', 'sirius']);
+      expect(route.legs[0].type).toBe('system');
+      expect(route.totalEnergyCost).toBe(0);
+    });
+
+    it('should chain gates across several sectors', () => {
+      const route = pathfinder.findRouteToStation('sol-system', 'horizon-colony-hub')!;
+
+      expect(route.systemIds[0]).toBe('sol-system');
+      expect(route.systemIds[route.systemIds.length - 1]).toBe('new-horizon');
+      expect(route.legs.filter(leg => leg.type === 'gate')).toHaveLength(2);
+      expect(route.totalEnergyCost).toBe(route.legs.reduce((sum, leg) => sum + leg.energyCost, 0));
+    });
+
+    it('should return an empty route for the current system', () => {
+      const route = pathfinder.findRoute('sol-system', 'sol-system')!;
+
+      expect(route.legs).toHaveLength(0);
+      expect(route.totalDistance).toBe(0);
+    });
+
+    it('should return null for unknown systems and stations', () => {
+      expect(pathfinder.findRoute('sol-system', 'nowhere')).toBeNull();
+      expect(pathfinder.findRouteToStation('sol-system', 'no-such-station')).toBeNull();
+    });
+
+    it('should reroute around an inactive gate and give up when a sector is cut off', () => {
+      expect(pathfinder.findRoute('sol-system', 'kepler-442')!.legs[0].gateId).toBe('gate-to-frontier');
+
+      findGate('sol-system', 'gate-to-frontier').isActive = false;
+      const detour = pathfinder.findRoute('sol-system', 'kepler-442')!;
+      expect(detour.legs[0].gateId).not.toBe('gate-to-frontier');
+      expect(detour.systemIds).toEqual(['sol-system', 'assembly-prime', 'new-horizon', 'kepler-442']);
+
+      findGate('new-horizon', 'gate-to-frontier').isActive = false;
+      expect(pathfinder.findRoute('sol-system', 'kepler-442')).toBeNull();
+    });
+
+    it('should detour through well-policed systems on the safest route', () => {
+      worldManager.getSystemById('alpha-centauri')!.securityLevel = 10;
+
+      expect(pathfinder.findRoute('sol-system', 'vega')!.systemIds).toEqual(['sol-system', 'vega']);
+
+      const safest = pathfinder.findRoute('sol-system', 'vega', 'safest')!;
+      expect(safest.systemIds).toEqual(['sol-system', 'alpha-centauri', 'vega']);
+      expect(safest.minSecurityLevel).toBe(6);
+    });
+
+    it('should measure a route from point to point through the system centres', () => {
+      const route = pathfinder.findRoute('sol-system', 'sirius')!;
+      const sol = worldManager.getSystemById('sol-system')!.position;
+      const sirius = worldManager.getSystemById('sirius')!.position;
+
+      expect(pathfinder.measureRoute(route, sol, sirius)).toBeCloseTo(route.totalDistance);
+      expect(pathfinder.measureRoute(route, { x: sol.x + 30, y: sol.y + 40, z: 0 }, sirius))
+        .toBeCloseTo(route.totalDistance + 50);
+    });
+  });
+
+  describe('generated galaxies', () => {
+    it('should reach every station from the starting system', () => {
+      const galaxy = worldManager.generateGalaxy(new SeededRandom(42), { sectorCount: 8 });
+      const generated = worldManager.getPathfinder();
+      const start = galaxy.sectors[0].systems[0].id;
+
+      const stations = galaxy.sectors.flatMap(sector => sector.systems.flatMap(system => system.stations));
+      stations.forEach(station => {
+        expect(generated.findRouteToStation(start, station.id)).not.toBeNull();
+      });
+    });
+  });
+
+  describe('player travel', () => {
+    let playerManager: PlayerManager;
+
+    beforeEach(() => {
+      playerManager = new PlayerManager();
+      playerManager.setWorldManager(worldManager);
+      worldManager.setPlayerManager(playerManager);
+      worldManager.setPlayerShip(playerManager.getCurrentShip());
+    });
+
+    it('should navigate to a station several gates away', () => {
+      expect(worldManager.navigateToTarget('horizon-colony-hub')).toBe(true);
+
+      expect(worldManager.getGalaxy().currentPlayerLocation.systemId).toBe('new-horizon');
+      expect(playerManager.getFuel()).toBeLessThan(playerManager.getFuelCapacity());
+    });
+
+    it('should not leave when the fuel cannot cover every gate on the route', () => {
+      playerManager.getCurrentShip().fuel = 60;
+
+      expect(worldManager.navigateToTarget('horizon-colony-hub')).toBe(false);
+      expect(worldManager.getGalaxy().currentPlayerLocation.systemId).toBe('sol-system');
+      expect(playerManager.getFuel()).toBe(60);
+    });
+
+    it('should charge in-sector jumps and check the whole trip before leaving', () => {
+      const route = worldManager.findRouteToStation('sirius-research')!;
+      expect(route.legs.map(leg => leg.type)).toEqual(['system']);
+      const jumpCost = route.legs[0].distance / 100;
+
+      playerManager.getCurrentShip().fuel = jumpCost;
+      expect(worldManager.navigateToTarget('sirius-research')).toBe(false);
+      expect(worldManager.getGalaxy().currentPlayerLocation.systemId).toBe('sol-system');
+      expect(playerManager.getFuel()).toBe(jumpCost);
+
+      playerManager.getCurrentShip().fuel = 100;
+      expect(worldManager.navigateToTarget('sirius-research')).toBe(true);
+      expect(worldManager.getGalaxy().currentPlayerLocation.systemId).toBe('sirius');
+      expect(playerManager.getFuel()).toBeLessThan(100 - jumpCost);
+    });
+
+    it('should plan travel along the galaxy route', () => {
+      const navigationManager = new NavigationManager(new TimeManager());
+      navigationManager.setWorldManager(worldManager);
+      const ship = playerManager.getCurrentShip();
+      const station = worldManager.getStationById('horizon-colony-hub')!;
+      const destination: NavigationTarget = {
+        type: 'station',
+        id: station.id,
+        name: station.name,
+        position: station.position,
+        distance: 0,
+        estimatedTravelTime: 0
+      };
+
+      const result = navigationManager.startTravel(ship, destination);
+
+      expect(result.success).toBe(true);
+      expect(result.travelPlan!.route!.toSystemId).toBe('new-horizon');
+      expect(result.travelPlan!.fuelCost).toBeGreaterThan(result.travelPlan!.route!.totalEnergyCost);
+    });
+
+    it('should dock the player in the destination system when a timed trip arrives', () => {
+      const timeManager = new TimeManager();
+      const navigationManager = new NavigationManager(timeManager);
+      navigationManager.setWorldManager(worldManager);
+      playerManager.setNavigationManager(navigationManager);
+
+      const result = playerManager.startTravel(worldManager.createStationTarget('horizon-colony-hub')!);
+      expect(result.success).toBe(true);
+
+      timeManager.addTime(result.travelPlan!.actualTravelTime);
+      navigationManager.update();
+
+      const location = worldManager.getGalaxy().currentPlayerLocation;
+      expect(location.sectorId).toBe('expansion-sector');
+      expect(location.systemId).toBe('new-horizon');
+      expect(location.stationId).toBe('horizon-colony-hub');
+      expect(playerManager.getCurrentShip().location.isInTransit).toBe(false);
+      expect(playerManager.getCurrentStation()).toBe('horizon-colony-hub');
+    });
+  });
+});
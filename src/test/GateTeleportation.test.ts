@@ -96,8 +96,9 @@ describe('Gate Teleportation', () => {
       expect(galaxy.currentPlayerLocation.systemId).toBe('kepler-442');
       expect(galaxy.currentPlayerLocation.stationId).toBeUndefined(); // Should arrive in space
       
-      // Check that fuel cost was deducted (50 credits)
-      expect(playerManager.spendCredits).toHaveBeenCalledWith(50);
+      // Check that the jump burned 50 fuel and no credits
+      expect(mockShip.fuel).toBe(50);
+      expect(playerManager.spendCredits).not.toHaveBeenCalled();
       
       // Check that ship location was updated
       expect(mockShip.location.systemId).toBe('kepler-442');
@@ -107,28 +108,7 @@ describe('Gate Teleportation', () => {
     });
 
     it('should fail to use gate with insufficient fuel', () => {
-      // Mock insufficient credits
-      vi.spyOn(playerManager, 'getPlayer').mockReturnValue({
-        id: 'test-player',
-        name: 'Test Player',
-        credits: 25, // Less than required 50
-        currentStationId: 'earth-station',
-        currentShipId: 'test-ship-1',
-        ownedShips: new Map([['test-ship-1', mockShip]]),
-        reputation: new Map(),
-        contracts: [],
-        achievements: [],
-        statistics: {
-          totalCreditsEarned: 0,
-          totalDistanceTraveled: 0,
-          totalCargoTransported: 0,
-          missionsCompleted: 0,
-          combatVictories: 0,
-          systemsVisited: new Set(),
-          stationsVisited: new Set(),
-          timePlayed: 0
-        }
-      });
+      mockShip.fuel = 25; // Less than required 50
 
       const success = worldManager.navigateToTarget('gate-to-frontier');
       
@@ -139,8 +119,8 @@ describe('Gate Teleportation', () => {
       expect(galaxy.currentPlayerLocation.sectorId).toBe('core-sector'); // Should remain in original sector
       expect(galaxy.currentPlayerLocation.systemId).toBe('sol-system');
       
-      // Check that fuel cost was NOT deducted
-      expect(playerManager.spendCredits).not.toHaveBeenCalled();
+      // Check that fuel was NOT deducted
+      expect(mockShip.fuel).toBe(25);
     });
 
     it('should handle different gate destinations correctly', () => {
@@ -152,9 +132,10 @@ describe('Gate Teleportation', () => {
       expect(galaxy.currentPlayerLocation.sectorId).toBe('industrial-sector');
       expect(galaxy.currentPlayerLocation.systemId).toBe('bernard-star');
 
-      // Reset to Sol system for next test
+      // Reset to Sol system with a full tank for next test
       galaxy.currentPlayerLocation.sectorId = 'core-sector';
       galaxy.currentPlayerLocation.systemId = 'sol-system';
+      mockShip.fuel = 100;
       
       // Test Mining Gate
       success = worldManager.navigateToTarget('gate-to-mining');
@@ -180,8 +161,8 @@ describe('Gate Teleportation', () => {
       const success = worldManager.navigateToTarget('gate-to-mining');
       expect(success).toBe(true);
       
-      // Should deduct 60 credits
-      expect(playerManager.spendCredits).toHaveBeenCalledWith(60);
+      // Should burn 60 fuel
+      expect(mockShip.fuel).toBe(40);
     });
   });
 
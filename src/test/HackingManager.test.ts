@@ -593,8 +593,8 @@ describe('HackingManager', () => {
       expect(minigame).toBeNull();
     });
 
-    it('should handle minigame completion for invalid attempt IDs', () => {
-      const result = hackingManager.completeMinigame('invalid-attempt-id', true, 100);
+    it('should handle minigame forfeits for invalid attempt IDs', () => {
+      const result = hackingManager.forfeitMinigame('invalid-attempt-id');
       expect(result).toBe(false);
     });
   });
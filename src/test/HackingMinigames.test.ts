@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HackingManager } from '../systems/HackingManager';
+import { TimeManager } from '../systems/TimeManager';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { SecurityManager } from '../systems/SecurityManager';
+import { CharacterManager } from '../systems/CharacterManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import {
+  applyPuzzleMove,
+  createPuzzle,
+  HackingPuzzleSolution,
+  isCircuitConnected,
+  scorePuzzle
+} from '../utils/hackingPuzzles';
+import {
+  CircuitBypassPuzzle,
+  CodeInjectPuzzle,
+  HackingMinigame,
+  HackingMinigameMove,
+  HackingMinigameType,
+  HackingPuzzle,
+  PasswordCrackPuzzle,
+  PatternMatchPuzzle
+} from '../types/hacking';
+
+const PARAMETERS: Record<HackingMinigameType, Record<string, number>> = {
+  'password-crack': { length: 6, complexity: 2, attempts: 6 },
+  'pattern-match': { gridSize: 4, patternCount: 4, timePerPattern: 8 },
+  'circuit-bypass': { complexity: 5, components: 9, errorTolerance: 2 },
+  'code-inject': { codeLength: 40, syntaxComplexity: 4, injectionPoints: 3 }
+};
+
+const deal = <T extends HackingPuzzle>(type: HackingMinigameType, seed = 11) => {
+  const { puzzle, solution } = createPuzzle(type, PARAMETERS[type], seed, 0);
+  return { puzzle: puzzle as T, solution };
+};
+
+/**
+ * Play a whole puzzle the way a careful player would
+ */
+const solve = (
+  puzzle: HackingPuzzle,
+  solution: HackingPuzzleSolution,
+  play: (move: HackingMinigameMove) => void = move => applyPuzzleMove(puzzle, solution, move, 0)
+) => {
+  switch (puzzle.type) {
+    case 'password-crack': {
+      // Binary search every position at once from the higher/lower hints
+      const low = new Array(puzzle.length).fill(0);
+      const high = new Array(puzzle.length).fill(puzzle.symbols.length - 1);
+      while (puzzle.status === 'in_progress') {
+        const middle = low.map((bottom, index) => Math.floor((bottom + high[index]) / 2));
+        play({ type: 'guess', guess: middle.map(index => puzzle.symbols[index]).join('') });
+        puzzle.guesses[puzzle.guesses.length - 1].feedback.forEach((mark, index) => {
+          if (mark === 'higher') low[index] = middle[index] + 1;
+          if (mark === 'lower') high[index] = middle[index] - 1;
+        });
+      }
+      break;
+    }
+    case 'pattern-match':
+      while (puzzle.status === 'in_progress') {
+        [...puzzle.shown].forEach(cell => play({ type: 'select', cell }));
+      }
+      break;
+    case 'circuit-bypass':
+      solution.tiles!.forEach((tile, index) => {
+        while (tile && puzzle.tiles[index] !== tile) {
+          play({ type: 'rotate', x: index % puzzle.columns, y: Math.floor(index / puzzle.columns) });
+        }
+      });
+      play({ type: 'test' });
+      break;
+    case 'code-inject':
+      solution.vulnerableLines!.forEach(line => play({ type: 'inject', line }));
+      break;
+  }
+};
+
+describe('Hacking minigame puzzles', () => {
+  it('should deal the same puzzle and solution from the same seed', () => {
+    (Object.keys(PARAMETERS) as HackingMinigameType[]).forEach(type => {
+      expect(deal(type, 5)).toEqual(deal(type, 5));
+      expect(deal(type, 5)).not.toEqual(deal(type, 6));
+    });
+  });
+
+  it('should crack a password by following the hints within the allowed attempts', () => {
+    const { puzzle, solution } = deal<PasswordCrackPuzzle>('password-crack');
+
+    expect(puzzle.symbols).toBe('01234567');
+    solve(puzzle, solution);
+
+    expect(puzzle.status).toBe('solved');
+    expect(puzzle.guesses[puzzle.guesses.length - 1].guess).toBe(solution.code);
+    expect(puzzle.guesses.length).toBeLessThanOrEqual(4);
+    expect(scorePuzzle(puzzle)).toBe(Math.round(100 * (puzzle.attemptsAllowed - puzzle.guesses.length + 1) / puzzle.attemptsAllowed));
+  });
+
+  it('should reject malformed guesses without spending an attempt and lock out after the last one', () => {
+    const { puzzle, solution } = deal<PasswordCrackPuzzle>('password-crack');
+    const wrong = solution.code!.replace(/^./, symbol => symbol === '0' ? '1' : '0');
+
+    expect(applyPuzzleMove(puzzle, solution, { type: 'guess', guess: '123' }, 0))
+      .toEqual({ valid: false, error: 'The password is 6 characters long' });
+    expect(applyPuzzleMove(puzzle, solution, { type: 'guess', guess: 'ZZZZZZ' }, 0).valid).toBe(false);
+    expect(puzzle.guesses).toEqual([]);
+
+    for (let attempt = 0; attempt < puzzle.attemptsAllowed; attempt++) {
+      applyPuzzleMove(puzzle, solution, { type: 'guess', guess: wrong }, 0);
+    }
+
+    expect(puzzle.status).toBe('failed');
+    expect(scorePuzzle(puzzle)).toBe(0);
+    expect(applyPuzzleMove(puzzle, solution, { type: 'guess', guess: solution.code! }, 0))
+      .toEqual({ valid: false, error: 'The puzzle is already finished' });
+  });
+
+  it('should grow the pattern each round and strike wrong or slow playbacks', () => {
+    const { puzzle, solution } = deal<PatternMatchPuzzle>('pattern-match');
+    const [first, second] = solution.sequence!;
+
+    expect(puzzle.shown).toEqual([first]);
+    expect(applyPuzzleMove(puzzle, solution, { type: 'select', cell: first }, 1000).message).toBe('Round 2 of 4');
+    expect(puzzle.shown).toEqual([first, second]);
+
+    // A wrong cell replays the round from the start
+    applyPuzzleMove(puzzle, solution, { type: 'select', cell: first }, 2000);
+    applyPuzzleMove(puzzle, solution, { type: 'select', cell: (second + 1) % 16 }, 3000);
+    expect(puzzle).toMatchObject({ strikes: 1, entered: [], round: 2, roundStartedAt: 3000 });
+
+    // Eight seconds for the round plus one per cell
+    applyPuzzleMove(puzzle, solution, { type: 'select', cell: first }, 5000);
+    expect(applyPuzzleMove(puzzle, solution, { type: 'select', cell: second }, 14000).message).toBe('Too slow - the pattern replays');
+    expect(puzzle.strikes).toBe(2);
+
+    applyPuzzleMove(puzzle, solution, { type: 'select', cell: (first + 1) % 16 }, 15000);
+    expect(puzzle.status).toBe('failed');
+  });
+
+  it('should score a cleanly played pattern in full', () => {
+    const { puzzle, solution } = deal<PatternMatchPuzzle>('pattern-match');
+
+    solve(puzzle, solution);
+
+    expect(puzzle.status).toBe('solved');
+    expect(scorePuzzle(puzzle)).toBe(100);
+    expect(applyPuzzleMove(deal('pattern-match').puzzle, solution, { type: 'select', cell: 16 }, 0).valid).toBe(false);
+  });
+
+  it('should bypass the circuit once the route is rotated into place', () => {
+    const { puzzle, solution } = deal<CircuitBypassPuzzle>('circuit-bypass');
+
+    expect(puzzle.columns).toBe(5);
+    expect(puzzle.rows).toBe(4);
+    expect(puzzle.minimumRotations).toBeGreaterThan(0);
+    expect(applyPuzzleMove(puzzle, solution, { type: 'rotate', x: 5, y: 0 }, 0).valid).toBe(false);
+
+    solve(puzzle, solution);
+
+    expect(isCircuitConnected(puzzle)).toBe(true);
+    expect(puzzle.status).toBe('solved');
+    expect(puzzle.rotations).toBe(puzzle.minimumRotations);
+    expect(scorePuzzle(puzzle)).toBe(100);
+  });
+
+  it('should count testing an open circuit as a fault', () => {
+    const { puzzle, solution } = deal<CircuitBypassPuzzle>('circuit-bypass');
+    // Break the entry so the circuit cannot be closed
+    const entry = puzzle.entryRow * puzzle.columns;
+    puzzle.tiles[entry] = 0;
+
+    for (let test = 0; test < puzzle.faultsAllowed; test++) {
+      expect(applyPuzzleMove(puzzle, solution, { type: 'test' }, 0).message).toBe('The circuit is still open');
+    }
+    applyPuzzleMove(puzzle, solution, { type: 'test' }, 0);
+
+    expect(puzzle).toMatchObject({ status: 'failed', faults: puzzle.faultsAllowed + 1 });
+  });
+
+  it('should only accept injections at copies of unchecked input', () => {
+    const { puzzle, solution } = deal<CodeInjectPuzzle>('code-inject');
+    const unchecked = puzzle.lines.flatMap((line, index) =>
+      /^COPY buf\d, input$/.test(line) && !['CHECK input', 'CALL sanitize'].includes(puzzle.lines[index - 1]) ? [index] : []);
+    const safe = puzzle.lines.findIndex((_, index) => !unchecked.includes(index));
+
+    expect(puzzle.lines).toHaveLength(8);
+    expect(solution.vulnerableLines).toEqual(unchecked);
+    expect(puzzle.injectionPoints).toBe(unchecked.length);
+
+    expect(applyPuzzleMove(puzzle, solution, { type: 'inject', line: safe }, 0).message).toBe(`Line ${safe + 1} is not injectable`);
+    applyPuzzleMove(puzzle, solution, { type: 'inject', line: unchecked[0] }, 0);
+    expect(applyPuzzleMove(puzzle, solution, { type: 'inject', line: unchecked[0] }, 0).valid).toBe(false);
+    solve(puzzle, solution);
+
+    expect(puzzle.status).toBe('solved');
+    expect(scorePuzzle(puzzle)).toBe(80);
+  });
+
+  it('should reject moves that belong to another minigame', () => {
+    const { puzzle, solution } = deal('code-inject');
+
+    expect(applyPuzzleMove(puzzle, solution, { type: 'test' }, 0))
+      .toEqual({ valid: false, error: "'test' is not a move in code-inject" });
+  });
+});
+
+describe('Playing hacking minigames', () => {
+  let hackingManager: HackingManager;
+  let attemptId: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const playerManager = new PlayerManager();
+    hackingManager = new HackingManager(
+      new TimeManager(),
+      new WorldManager(),
+      playerManager,
+      playerManager.getFactionManager(),
+      { reportCrime: vi.fn() } as unknown as SecurityManager,
+      new CharacterManager(),
+      new SeededRandom(3)
+    );
+    playerManager.addCredits(10000);
+    hackingManager.purchaseEquipment('handheld-basic');
+    const target = hackingManager.getAvailableTargets().find(t => t.security.accessLevel <= 1)!;
+    attemptId = hackingManager.startHackingAttempt(target.id, 'handheld-basic', [])!.id;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // The seed is private, so only a test can work out the solution
+  const solutionFor = (minigame: HackingMinigame) => {
+    const { seed } = (hackingManager as any).activeMinigames.get(attemptId);
+    return createPuzzle(minigame.type, minigame.parameters, seed, minigame.startedAt);
+  };
+
+  it('should deal a seeded puzzle that cannot be rerolled while it is being played', () => {
+    const minigame = hackingManager.generateMinigame(attemptId)!;
+
+    expect(minigame.puzzle.type).toBe('pattern-match');
+    expect(minigame.startedAt).toBe(1_000_000);
+    expect(minigame).not.toHaveProperty('seed');
+    expect(solutionFor(minigame).puzzle).toEqual(minigame.puzzle);
+    expect(hackingManager.generateMinigame(attemptId)).toEqual(minigame);
+  });
+
+  it('should only hand out copies of the puzzle being played', () => {
+    const minigame = hackingManager.generateMinigame(attemptId)!;
+    minigame.puzzle.status = 'solved';
+
+    const result = hackingManager.submitMinigameMove(attemptId, { type: 'select', cell: -1 });
+    result.puzzle!.status = 'solved';
+
+    expect(result.valid).toBe(false);
+    expect(hackingManager.generateMinigame(attemptId)!.puzzle.status).toBe('in_progress');
+    expect(hackingManager.getActiveAttempts()[0].phase).toBe('reconnaissance');
+  });
+
+  it('should complete the phase with the engine\'s score once the puzzle is solved', () => {
+    const minigame = hackingManager.generateMinigame(attemptId)!;
+    const { solution } = solutionFor(minigame);
+    const results: ReturnType<HackingManager['submitMinigameMove']>[] = [];
+
+    // The player only sees the copy each move hands back
+    solve(minigame.puzzle, solution, move => {
+      const result = hackingManager.submitMinigameMove(attemptId, move);
+      results.push(result);
+      Object.assign(minigame.puzzle, result.puzzle);
+    });
+
+    const last = results[results.length - 1];
+    expect(results.every(result => result.valid)).toBe(true);
+    expect(results.slice(0, -1).every(result => !result.finished)).toBe(true);
+    expect(last).toMatchObject({ finished: true, success: true, score: 100 });
+    expect(hackingManager.getActiveAttempts()[0].phase).toBe('penetration');
+    expect(hackingManager.submitMinigameMove(attemptId, { type: 'select', cell: 0 }))
+      .toEqual({ valid: false, error: 'No minigame in progress', finished: false });
+  });
+
+  it('should leave a cleanly solved phase less exposed than a sloppy one', () => {
+    const riskAfterSolving = (strikes: number) => {
+      hackingManager.generateMinigame(attemptId);
+      const { puzzle } = (hackingManager as any).activeMinigames.get(attemptId).minigame;
+      puzzle.status = 'solved';
+      puzzle.strikes = strikes;
+      (hackingManager as any).completeMinigame(attemptId);
+      const session = hackingManager.getActiveSessions().find(active => active.attemptId === attemptId)!;
+      // Replay the same phase for the next measurement
+      hackingManager.getActiveAttempts()[0].phase = 'reconnaissance';
+      return session.phaseResults.reconnaissance!.detectionRisk;
+    };
+
+    const clean = riskAfterSolving(0);
+    const sloppy = riskAfterSolving(3);
+
+    expect(clean).toBeGreaterThan(0);
+    expect(clean).toBeLessThan(sloppy);
+    expect(clean).toBeCloseTo(sloppy * 0.5 / 0.875);
+  });
+
+  it('should fail a phase that is abandoned or runs out of time', () => {
+    hackingManager.generateMinigame(attemptId);
+    expect(hackingManager.forfeitMinigame(attemptId)).toBe(true);
+    expect(hackingManager.getActiveAttempts()).toEqual([]);
+
+    const target = hackingManager.getAvailableTargets().find(t => t.security.accessLevel <= 1)!;
+    const retry = hackingManager.startHackingAttempt(target.id, 'handheld-basic', [])!;
+    const minigame = hackingManager.generateMinigame(retry.id)!;
+    vi.mocked(Date.now).mockReturnValue(1_000_000 + minigame.timeLimit! * 1000 + 1);
+
+    expect(hackingManager.submitMinigameMove(retry.id, { type: 'select', cell: 0 }))
+      .toMatchObject({ valid: true, message: 'Time ran out', finished: true, success: false, score: 0 });
+    expect(hackingManager.getActiveAttempts()).toEqual([]);
+  });
+
+  it('should resume the puzzle being played from a save', () => {
+    const minigame = hackingManager.generateMinigame(attemptId)!;
+    const saved = JSON.parse(JSON.stringify(hackingManager.serialize()));
+
+    hackingManager.deserialize(saved);
+
+    expect(hackingManager.generateMinigame(attemptId)).toEqual(minigame);
+  });
+
+  it('should drop minigames saved on their session', () => {
+    const minigame = hackingManager.generateMinigame(attemptId)!;
+    const saved = JSON.parse(JSON.stringify(hackingManager.serialize()));
+    saved.hackingState.activeSessions[0][1].currentMinigame = { ...minigame, seed: 1 };
+    delete saved.activeMinigames;
+
+    hackingManager.deserialize(saved);
+
+    expect(hackingManager.getActiveSessions()[0]).not.toHaveProperty('currentMinigame');
+    expect(hackingManager.generateMinigame(attemptId)!.puzzle.status).toBe('in_progress');
+  });
+});
@@ -31,6 +31,7 @@ const mockWorldManager = {
     }
   ]),
   getSystem: vi.fn(() => ({ controllingFaction: 'Test Faction' })),
+  getStationById: vi.fn(() => null),
   getGalaxy: vi.fn(() => ({ 
     currentPlayerLocation: { systemId: 'test-system' },
     sectors: []
@@ -64,6 +65,10 @@ const mockEconomicSystem = {
     ])
   })),
   adjustCommodityPrice: vi.fn(),
+  getPlayerTradeHistory: vi.fn(() => []),
+  getMarketVolume: vi.fn(() => 10000),
+  getStationEconomics: vi.fn(() => undefined),
+  getActiveEvents: vi.fn(() => []),
   update: vi.fn()
 } as unknown as EconomicSystem;
 
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CombatManager } from '../systems/CombatManager';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { SecurityManager } from '../systems/SecurityManager';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { EventManager } from '../systems/EventManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { createEquipmentItem } from '../data/equipment';
+import { CombatParticipant } from '../types/combat';
+
+describe('Loadout-aware combat', () => {
+  let timeManager: TimeManager;
+  let playerManager: PlayerManager;
+  let random: SeededRandom;
+  let combatManager: CombatManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const worldManager = new WorldManager();
+    playerManager = new PlayerManager();
+    random = new SeededRandom(9);
+    timeManager = new TimeManager();
+    timeManager.start();
+    combatManager = new CombatManager(
+      timeManager,
+      worldManager,
+      playerManager,
+      playerManager.getFactionManager(),
+      {} as unknown as SecurityManager,
+      { getNPCsInSystem: vi.fn(() => []) } as unknown as NPCAIManager,
+      {} as unknown as EventManager,
+      random
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const fit = (slot: 'weapons' | 'shields', templateId: string, condition = 1) => {
+    playerManager.getCurrentShip().equipment[slot].push(createEquipmentItem(templateId, condition)!);
+  };
+
+  const startFight = (type: 'pirate-attack' | 'patrol-inspection' = 'pirate-attack') => {
+    const encounter = combatManager.generateEncounter(type, 'sol-system');
+    // Every shot hits for the low end of the damage roll
+    vi.spyOn(random, 'next').mockReturnValue(0);
+    return {
+      player: encounter.participants.find(participant => participant.type === 'player')!,
+      enemy: encounter.participants.find(participant => participant.type === 'ai')!
+    };
+  };
+
+  const attack = (actor: CombatParticipant, target: CombatParticipant, weaponId?: string) =>
+    combatManager.executeCombatAction({
+      id: `attack-${actor.id}`,
+      actorId: actor.id,
+      type: 'attack',
+      targetId: target.id,
+      parameters: weaponId ? { weaponId } : {},
+      timestamp: 0,
+      resolved: false
+    });
+
+  it('should fire the weapons fitted to the player\'s ship', () => {
+    fit('weapons', 'plasma-cannon');
+    const { player, enemy } = startFight();
+
+    expect(player.ship.weapons.map(mount => mount.weapon.id)).toEqual(['plasma-cannon-mk2']);
+
+    const result = attack(player, enemy);
+
+    expect(result.success).toBe(true);
+    expect(result.damage).toMatchObject({ amount: 36, type: 'energy' });
+  });
+
+  it('should leave an unarmed ship unable to attack', () => {
+    const { player, enemy } = startFight();
+
+    const result = attack(player, enemy);
+
+    expect(result.success).toBe(false);
+    expect(combatManager.getCombatStats().weaponsFired).toBe(0);
+    expect(enemy.ship.shields.current).toBe(enemy.ship.shields.maximum);
+  });
+
+  it('should spend ammunition and wait out each weapon\'s cooldown and recharge', () => {
+    fit('weapons', 'antimatter-torpedo');
+    fit('weapons', 'pulse-laser');
+    const { player, enemy } = startFight();
+    const [torpedo, laser] = player.ship.weapons;
+
+    expect(attack(player, enemy, 'torpedo-launcher-mk3').success).toBe(true);
+    expect(torpedo.ammunition).toBe(19);
+    expect(torpedo.cooldown).toBe(5);
+
+    // The torpedo tube is reloading, so the laser fires in its place
+    expect(attack(player, enemy, 'torpedo-launcher-mk3').damage?.type).toBe('energy');
+    expect(laser.energy).toBe(0);
+    expect(attack(player, enemy, 'torpedo-launcher-mk3').success).toBe(false);
+    expect(attack(player, enemy).success).toBe(false);
+
+    // Frames inside one second of game time recharge nothing
+    timeManager.update(0.5);
+    combatManager.update();
+    expect(laser.energy).toBe(0);
+
+    timeManager.update(0.5);
+    combatManager.update();
+    expect(laser.energy).toBe(laser.weapon.stats.energyCost);
+    expect(torpedo.cooldown).toBe(4);
+
+    timeManager.update(4);
+    combatManager.update();
+    expect(attack(player, enemy, 'torpedo-launcher-mk3').damage?.type).toBe('explosive');
+  });
+
+  it('should reduce shield drain by the shield\'s resistance to the damage type', () => {
+    const { enemy } = startFight();
+    const applyDamage = (amount: number, damageType: string) =>
+      (combatManager as any).applyDamage(enemy, amount, damageType);
+
+    expect(enemy.ship.shields).toMatchObject({ type: 'magnetic', current: 60 });
+
+    applyDamage(50, 'energy');
+    expect(enemy.ship.shields.current).toBeCloseTo(40);
+
+    applyDamage(50, 'kinetic');
+    expect(enemy.ship.shields.current).toBeCloseTo(5);
+    expect(enemy.ship.hull.current).toBe(80);
+
+    // The hit the shields could not hold back reaches the hull
+    const result = applyDamage(50, 'energy');
+    expect(result.penetration).toBe(true);
+    expect(enemy.ship.shields.current).toBe(0);
+    expect(enemy.ship.hull.current).toBe(80 - 38);
+  });
+
+  it('should size and type the player\'s shields from fittings and condition', () => {
+    playerManager.getCurrentShip().condition.shields = 0.5;
+    fit('shields', 'reinforced-shielding');
+    fit('shields', 'adaptive-shield-matrix');
+
+    const { player } = startFight();
+
+    expect(player.ship.shields).toMatchObject({ type: 'adaptive', maximum: Math.round((25 + 35 + 60) * 0.5) });
+  });
+
+  it('should carry hull and engine damage back to the player\'s ship', () => {
+    const ship = playerManager.getCurrentShip();
+    ship.condition.hull = 0.8;
+    const { player, enemy } = startFight('patrol-inspection');
+    player.ship.shields.current = 0;
+
+    expect(player.ship.hull.current).toBe(80);
+    expect(enemy.ship.weapons.map(mount => mount.weapon.id)).toEqual(['pulse-laser-mk1', 'plasma-cannon-mk2']);
+
+    const result = attack(enemy, player);
+
+    // 25 damage rolled low to 20; the first system picked is the engines
+    expect(result.damage?.systemDamage).toEqual({ system: 'engines', severity: 0.1 });
+    expect(ship.condition.hull).toBeCloseTo(0.6);
+    expect(ship.condition.engines).toBeCloseTo(0.9);
+    expect(combatManager.getCombatStats().damageTaken).toBe(20);
+  });
+});
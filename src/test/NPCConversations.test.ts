@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { CharacterManager } from '../systems/CharacterManager';
+import { QuestManager } from '../systems/QuestManager';
+import { EventManager } from '../systems/EventManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { CharacterAppearance } from '../types/character';
+import { NPCShip } from '../types/npc';
+
+const appearance: CharacterAppearance = {
+  gender: 'male',
+  skinTone: 'light',
+  hairColor: 'brown',
+  eyeColor: 'green',
+  age: 35,
+  portrait: 'default-male'
+};
+
+describe('NPC conversations', () => {
+  let timeManager: TimeManager;
+  let worldManager: WorldManager;
+  let playerManager: PlayerManager;
+  let characterManager: CharacterManager;
+  let questManager: QuestManager;
+  let npcAIManager: NPCAIManager;
+
+  const createManager = () => {
+    const manager = new NPCAIManager(timeManager, worldManager, playerManager, new SeededRandom(5));
+    manager.setQuestManager(questManager);
+    manager.setCharacterManager(characterManager);
+    return manager;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    timeManager = new TimeManager();
+    worldManager = new WorldManager();
+    playerManager = new PlayerManager();
+    characterManager = new CharacterManager();
+    characterManager.createCharacter('captain', 'Captain', appearance, 'merchant');
+    questManager = new QuestManager(
+      playerManager.getFactionManager(),
+      characterManager,
+      playerManager,
+      timeManager,
+      {} as unknown as EventManager
+    );
+    npcAIManager = createManager();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const npcOfType = (type: NPCShip['type']): NPCShip => {
+    const npc = worldManager.getGalaxy().sectors
+      .flatMap(sector => sector.systems)
+      .flatMap(system => npcAIManager.getNPCsInSystem(system.id))
+      .find(candidate => candidate.type === type)!;
+    npc.reputation = 0;
+    return npc;
+  };
+
+  const choiceIds = (npcId: string) => npcAIManager.getAvailableChoices(npcId).map(choice => choice.id);
+
+  it('should start the conversation tree authored for the NPC type', () => {
+    const trader = npcOfType('trader');
+    const pirate = npcOfType('pirate');
+
+    expect(npcAIManager.startConversation(trader.id)).toMatchObject({ treeId: 'merchant_small_talk', currentNodeId: 'greeting' });
+    expect(npcAIManager.startConversation(pirate.id)).toMatchObject({ treeId: 'pirate_shakedown', currentNodeId: 'greeting' });
+    expect(npcAIManager.getConversationNode(pirate.id)?.text).toContain('Nice ship');
+  });
+
+  it('should only offer choices whose conditions pass', () => {
+    const trader = npcOfType('trader');
+    npcAIManager.startConversation(trader.id);
+
+    expect(choiceIds(trader.id)).not.toContain('sell_electronics');
+    expect(choiceIds(trader.id)).not.toContain('ask_contacts');
+
+    playerManager.addCommodity('electronics', 10, 100);
+    characterManager.getCharacter()!.skills.networking = 5;
+
+    expect(choiceIds(trader.id)).toEqual(expect.arrayContaining(['sell_electronics', 'ask_contacts']));
+    expect(npcAIManager.selectConversationChoice(trader.id, 'missing').success).toBe(false);
+  });
+
+  it('should show the hostile greeting to a player the NPC dislikes', () => {
+    const trader = npcOfType('trader');
+    trader.reputation = -40;
+    npcAIManager.startConversation(trader.id);
+
+    expect(choiceIds(trader.id)).toEqual(['make_amends', 'farewell']);
+
+    const credits = playerManager.getCredits();
+    expect(npcAIManager.selectConversationChoice(trader.id, 'make_amends').success).toBe(true);
+
+    expect(playerManager.getCredits()).toBe(credits - 500);
+    expect(trader.reputation).toBe(-10);
+    expect(npcAIManager.getConversationNode(trader.id)?.id).toBe('amends_accepted');
+  });
+
+  it('should apply cargo and credit effects of a deal', () => {
+    const trader = npcOfType('trader');
+    playerManager.addCommodity('electronics', 12, 100);
+    npcAIManager.startConversation(trader.id);
+    const credits = playerManager.getCredits();
+
+    const result = npcAIManager.selectConversationChoice(trader.id, 'sell_electronics');
+
+    expect(result).toEqual({ success: true, messages: ['Sold 10 electronics for 1,800 CR.'] });
+    expect(playerManager.getCommodityQuantity('electronics')).toBe(2);
+    expect(playerManager.getCredits()).toBe(credits + 1800);
+    expect(trader.reputation).toBe(5);
+  });
+
+  it('should reveal a contact once and remember it with a quest flag', () => {
+    const trader = npcOfType('trader');
+    characterManager.getCharacter()!.skills.networking = 5;
+    npcAIManager.startConversation(trader.id);
+
+    const result = npcAIManager.selectConversationChoice(trader.id, 'ask_contacts');
+
+    const contacts = playerManager.getFactionManager().getContactManager().getContactsForFaction('volans-corp');
+    expect(contacts).toHaveLength(1);
+    expect(result.messages).toEqual([`New contact: ${contacts[0].name} (${contacts[0].role.name})`]);
+    expect(questManager.getFlag('volans_liaison_introduced')).toBe(true);
+
+    expect(npcAIManager.advanceConversation(trader.id).success).toBe(true);
+    expect(npcAIManager.getConversationNode(trader.id)?.id).toBe('greeting');
+    expect(choiceIds(trader.id)).not.toContain('ask_contacts');
+  });
+
+  it('should start a quest from a conversation and end when there is nothing left to say', () => {
+    const pirate = npcOfType('pirate');
+    npcAIManager.startConversation(pirate.id);
+
+    npcAIManager.selectConversationChoice(pirate.id, 'join_reapers');
+
+    expect(questManager.getActiveQuests().map(quest => quest.id)).toContain('pirates_initiation');
+    expect(npcAIManager.isConversationOver(pirate.id)).toBe(false);
+    expect(npcAIManager.selectConversationChoice(pirate.id, 'refuse').success).toBe(false);
+
+    npcAIManager.advanceConversation(pirate.id);
+    expect(npcAIManager.isConversationOver(pirate.id)).toBe(true);
+    expect(npcAIManager.advanceConversation(pirate.id).success).toBe(false);
+  });
+
+  it('should turn an NPC hostile when the player picks a fight', () => {
+    const pirate = npcOfType('pirate');
+    npcAIManager.startConversation(pirate.id);
+
+    const result = npcAIManager.selectConversationChoice(pirate.id, 'refuse');
+
+    expect(result.messages).toEqual(['The pirate powers up weapons!']);
+    expect(pirate.reputation).toBeLessThanOrEqual(-50);
+    expect(pirate.ai.currentGoal.parameters.get('target')).toBe('player');
+  });
+
+  it('should roll random conditions once when a node is entered', () => {
+    const trader = npcOfType('trader');
+    const conversation = npcAIManager.startConversation(trader.id)!;
+    const node = conversation.dialogue.find(candidate => candidate.id === conversation.currentNodeId)!;
+    node.choices![0].conditions = [{ type: 'random', operator: '<', value: 50 }];
+
+    const offered = choiceIds(trader.id);
+    for (let i = 0; i < 20; i++) {
+      expect(choiceIds(trader.id)).toEqual(offered);
+      expect(npcAIManager.getConversationNode(trader.id)?.id).toBe(node.id);
+    }
+    expect(offered.includes(node.choices![0].id)).toBe(conversation.nodeRoll! < 50);
+  });
+
+  it('should keep the conversation and its history across save and load', () => {
+    const patrol = npcOfType('patrol');
+    npcAIManager.startConversation(patrol.id);
+    npcAIManager.selectConversationChoice(patrol.id, 'ask_work');
+
+    const restored = createManager();
+    restored.loadState(structuredClone(npcAIManager.getState()));
+
+    const conversation = restored.getActiveConversations().get(patrol.id)!;
+    expect(conversation.currentNodeId).toBe('referral');
+    expect(conversation.history.map(entry => entry.speaker)).toEqual(['npc', 'player', 'npc']);
+    expect(restored.getConversationNode(patrol.id)?.id).toBe('referral');
+    expect(restored.advanceConversation(patrol.id).success).toBe(true);
+    expect(restored.isConversationOver(patrol.id)).toBe(true);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { CombatManager } from '../systems/CombatManager';
+import { SecurityManager } from '../systems/SecurityManager';
+import { EventManager } from '../systems/EventManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { FleetFormation, NPCFleet, NPCShip } from '../types/npc';
+
+describe('NPC fleets', () => {
+  let npcAIManager: NPCAIManager;
+
+  beforeEach(() => {
+    // Every system forms a fleet at start
+    vi.spyOn(SeededRandom.prototype, 'chance').mockReturnValue(true);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    npcAIManager = new NPCAIManager(new TimeManager(), new WorldManager(), new PlayerManager(), new SeededRandom(12));
+    // Run the first round of AI decisions so later updates only move ships
+    npcAIManager.update(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const fleetOfType = (type: FleetFormation['type']): NPCFleet =>
+    npcAIManager.getFleets().find(fleet => fleet.formation.type === type && fleet.ships.length >= 3)!;
+
+  const member = (id: string): NPCShip => npcAIManager.getNPCById(id)!;
+
+  const followers = (fleet: NPCFleet): NPCShip[] =>
+    fleet.ships.filter(id => id !== fleet.commandShipId).map(member);
+
+  const stopLeader = (leader: NPCShip) => {
+    leader.movement.pathfindingWaypoints = undefined;
+    leader.movement.targetCoordinates = undefined;
+  };
+
+  it('should form convoys, wolf packs and task forces that fly under one flag', () => {
+    const convoy = fleetOfType('convoy');
+    const wolfPack = fleetOfType('attack');
+    const taskForce = fleetOfType('patrol');
+
+    expect(convoy.ships.map(id => member(id).type)).toEqual(expect.arrayContaining(['trader', 'patrol']));
+    expect(wolfPack.ships.every(id => member(id).type === 'pirate')).toBe(true);
+    expect(taskForce.ships.every(id => member(id).type === 'patrol')).toBe(true);
+
+    for (const fleet of [convoy, wolfPack, taskForce]) {
+      const leader = member(fleet.commandShipId);
+      expect(fleet.formation.roles.get(leader.id)?.type).toBe('leader');
+      expect(leader.faction).toBe(fleet.faction);
+      followers(fleet).forEach(npc => {
+        expect(npc.faction).toBe(fleet.faction);
+        expect(npc.position.systemId).toBe(leader.position.systemId);
+        expect(npc.movement.formation?.leaderId).toBe(leader.id);
+        expect(npcAIManager.getFleetForNPC(npc.id)).toBe(fleet);
+      });
+    }
+    followers(convoy)
+      .filter(npc => npc.type !== 'patrol')
+      .forEach(npc => expect(convoy.formation.roles.get(npc.id)?.type).toBe('transport'));
+  });
+
+  it('should keep followers in their slots relative to the leader\'s heading', () => {
+    const fleet = fleetOfType('patrol');
+    const leader = member(fleet.commandShipId);
+    const [follower] = followers(fleet);
+    const offset = fleet.formation.roles.get(follower.id)!.position;
+    stopLeader(leader);
+    leader.movement.currentVelocity = { x: 0, y: 10 };
+    follower.position.coordinates = { ...follower.position.coordinates, x: leader.position.coordinates.x + 400 };
+
+    npcAIManager.update(0);
+
+    // Heading straight along +y turns "behind" into -y and "left" into -x
+    const slot = {
+      x: leader.position.coordinates.x - offset.y,
+      y: leader.position.coordinates.y + offset.x
+    };
+    expect(follower.movement.pathfindingWaypoints![0].x).toBeCloseTo(slot.x);
+    expect(follower.movement.pathfindingWaypoints![0].y).toBeCloseTo(slot.y);
+
+    leader.movement.currentVelocity = { x: 0, y: 0 };
+    for (let i = 0; i < 300; i++) {
+      npcAIManager.update(100);
+    }
+
+    const distance = Math.hypot(follower.position.coordinates.x - slot.x, follower.position.coordinates.y - slot.y);
+    expect(distance).toBeLessThan(30);
+  });
+
+  it('should have the whole wolf pack engage the target one pirate picks', () => {
+    const fleet = fleetOfType('attack');
+    const leader = member(fleet.commandShipId);
+    const prey = npcAIManager.getNPCsInSystem(leader.position.systemId)
+      .find(npc => npc.type !== 'pirate' && !fleet.ships.includes(npc.id))!;
+    fleet.fleetGoal.parameters.set('target', prey.id);
+
+    const decisions = fleet.ships.map(id => (npcAIManager as any).makeCombatDecision(member(id)));
+
+    decisions.forEach(decision => {
+      expect(decision.action).toBe('engage');
+      expect(decision.targetId).toBe(prey.id);
+    });
+  });
+
+  it('should send convoy escorts after a pirate while the cargo ships hold formation', () => {
+    const fleet = fleetOfType('convoy');
+    const leader = member(fleet.commandShipId);
+    const [pirate] = followers(fleetOfType('attack'));
+    pirate.position = { ...leader.position, coordinates: { ...leader.position.coordinates } };
+    leader.ai.threatAssessment.nearbyThreats = [pirate.id];
+
+    npcAIManager.update(0);
+    expect(fleet.fleetGoal.parameters.get('target')).toBe(pirate.id);
+
+    followers(fleet).forEach(npc => {
+      npc.ai.decisionCooldown = 0;
+      (npcAIManager as any).makeAIDecision(npc);
+      const engaging = npc.ai.currentGoal.parameters.get('combatMode') === 'engage';
+      expect(engaging).toBe(fleet.formation.roles.get(npc.id)!.type === 'escort');
+    });
+    followers(fleet)
+      .filter(npc => npc.type === 'patrol')
+      .forEach(npc => expect(npc.ai.currentGoal.type).toBe('patrol'));
+
+    npcAIManager.destroyNPC(pirate.id);
+    npcAIManager.update(0);
+
+    expect(fleet.fleetGoal.parameters.has('target')).toBe(false);
+    followers(fleet).forEach(npc => expect(npc.ai.currentGoal.parameters.has('combatMode')).toBe(false));
+  });
+
+  it('should regroup under the best fighter when the leader is lost and morale holds', () => {
+    const fleet = fleetOfType('patrol');
+    const survivors = followers(fleet);
+    survivors.forEach((npc, index) => {
+      npc.ai.riskTolerance = 75;
+      npc.ai.combatSkill = 40 + index;
+    });
+    const oldLeaderId = fleet.commandShipId;
+
+    expect(npcAIManager.destroyNPC(oldLeaderId)).toBe(true);
+
+    expect(npcAIManager.getNPCById(oldLeaderId)).toBeNull();
+    expect(npcAIManager.getFleet(fleet.id)).toBe(fleet);
+    expect(fleet.commandShipId).toBe(survivors[survivors.length - 1].id);
+    expect(fleet.ships).not.toContain(oldLeaderId);
+    followers(fleet).forEach(npc => expect(npc.movement.formation?.leaderId).toBe(fleet.commandShipId));
+  });
+
+  it('should scatter when the leader is lost and morale breaks', () => {
+    const fleet = fleetOfType('attack');
+    const survivors = followers(fleet);
+    survivors.forEach(npc => { npc.ai.riskTolerance = 25; });
+
+    npcAIManager.destroyNPC(fleet.commandShipId);
+
+    expect(npcAIManager.getFleet(fleet.id)).toBeNull();
+    survivors.forEach(npc => {
+      expect(npcAIManager.getFleetForNPC(npc.id)).toBeNull();
+      expect(npc.movement.formation).toBeUndefined();
+      expect(npc.ai.currentGoal.type).toBe('flee');
+    });
+  });
+
+  const fightWolfPack = () => {
+    const fleet = fleetOfType('attack');
+    const playerManager = new PlayerManager();
+    const random = new SeededRandom(5);
+    const combatManager = new CombatManager(
+      new TimeManager(),
+      new WorldManager(),
+      playerManager,
+      playerManager.getFactionManager(),
+      { reportCrime: vi.fn() } as unknown as SecurityManager,
+      npcAIManager,
+      {} as unknown as EventManager,
+      random
+    );
+    const encounter = combatManager.generateEncounter('pirate-attack', member(fleet.commandShipId).position.systemId);
+    const pirate = encounter.participants.find(participant => participant.npcId && fleet.ships.includes(participant.npcId))!;
+    pirate.ai = undefined;
+    pirate.position = { x: 300, y: 0 };
+    return { fleet, combatManager, random, pirate };
+  };
+
+  it('should lose pirates shot down in combat from their wolf pack', () => {
+    const { fleet, combatManager, pirate } = fightWolfPack();
+    const npcId = pirate.npcId!;
+    expect(pirate.name).toBe(member(npcId).name);
+
+    pirate.ship.shields.current = 0;
+    (combatManager as any).applyDamage(pirate, pirate.ship.hull.maximum * 10, 'kinetic');
+
+    expect(pirate.status).toBe('destroyed');
+    expect(npcAIManager.getNPCById(npcId)).toBeNull();
+    expect(fleet.ships).not.toContain(npcId);
+  });
+
+  it('should lose pirates captured by a boarding party from their wolf pack', () => {
+    const { fleet, combatManager, random, pirate } = fightWolfPack();
+    const npcId = pirate.npcId!;
+    (combatManager as any).disableShip(pirate);
+    vi.spyOn(random, 'next').mockReturnValue(0);
+
+    const result = combatManager.executeCombatAction({
+      id: 'board',
+      actorId: 'player',
+      type: 'board',
+      targetId: pirate.id,
+      parameters: { outcome: 'capture' },
+      timestamp: 0,
+      resolved: false
+    });
+
+    expect(result.success).toBe(true);
+    expect(npcAIManager.getNPCById(npcId)).toBeNull();
+    expect(fleet.ships).not.toContain(npcId);
+  });
+
+  it('should keep fleets across save and load', () => {
+    const restored = new NPCAIManager(new TimeManager(), new WorldManager(), new PlayerManager(), new SeededRandom(3));
+    restored.loadState(structuredClone(npcAIManager.getState()));
+
+    const fleet = fleetOfType('convoy');
+    expect(restored.getFleet(fleet.id)).toEqual(fleet);
+    expect(restored.getFleetForNPC(fleet.commandShipId)?.id).toBe(fleet.id);
+  });
+});
@@ -9,6 +9,7 @@ const mockNPCAIManager = {
   getNPCsInSystem: vi.fn(),
   startConversation: vi.fn(),
   endConversation: vi.fn(),
+  getActiveConversations: vi.fn().mockReturnValue(new Map()),
 } as unknown as NPCAIManager;
 
 // Mock NPC data
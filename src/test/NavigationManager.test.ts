@@ -264,6 +264,41 @@ describe('NavigationManager', () => {
     });
   });
 
+  describe('Fuel', () => {
+    it('should burn fuel by distance when travel starts', () => {
+      const result = navigationManager.startTravel(mockShip, testDestination, testOrigin);
+      const distance = Math.sqrt(100 * 100 + 100 * 100);
+
+      expect(result.success).toBe(true);
+      expect(result.travelPlan?.fuelCost).toBeCloseTo(distance / 100);
+      expect(mockShip.fuel).toBeCloseTo(50 - distance / 100);
+    });
+
+    it('should burn less fuel with efficient engines', () => {
+      mockShip.equipment.engines.push({
+        id: 'efficient-engine',
+        name: 'Efficient Engine',
+        type: 'engine',
+        effects: { fuelEfficiency: 1.0 },
+        condition: 1.0
+      });
+
+      const result = navigationManager.startTravel(mockShip, testDestination, testOrigin);
+      expect(result.travelPlan?.fuelCost).toBeCloseTo(Math.sqrt(20000) / 200);
+    });
+
+    it('should refuse travel without enough fuel', () => {
+      mockShip.fuel = 0.5;
+
+      const result = navigationManager.startTravel(mockShip, testDestination, testOrigin);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Insufficient fuel');
+      expect(mockShip.fuel).toBe(0.5);
+      expect(mockShip.location.isInTransit).toBe(false);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle zero distance travel', () => {
       const sameLocation = { ...testOrigin };
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EconomicSystem } from '../systems/EconomicSystem';
+import { PlayerManager } from '../systems/PlayerManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { calculateSpread } from '../utils/orderBook';
+import { HOUR_MS, createStation } from './testUtils/economy';
+
+describe('Order book', () => {
+  let economicSystem: EconomicSystem;
+  let playerManager: PlayerManager;
+
+  beforeEach(() => {
+    economicSystem = new EconomicSystem(new SeededRandom(21));
+    economicSystem.initializeStationEconomics(createStation('hub'), { securityLevel: 8 });
+    economicSystem.initializeStationEconomics(createStation('far-hub'), { securityLevel: 8 });
+    playerManager = new PlayerManager();
+  });
+
+  const commodity = (stationId: string = 'hub') => economicSystem.getMarket(stationId)!.commodities.get('electronics')!;
+
+  it('should widen the spread in lawless and thin markets', () => {
+    const market = economicSystem.getMarket('hub')!;
+    const busy = { ...commodity(), available: 400, demand: 200 };
+    const thin = { ...commodity(), available: 5, demand: 5 };
+    const lawless = { ...market, demandFactors: { ...market.demandFactors, securityLevel: 0.1 } };
+
+    expect(calculateSpread(market, thin)).toBeGreaterThan(calculateSpread(market, busy));
+    expect(calculateSpread(lawless, busy)).toBeGreaterThan(calculateSpread(market, busy));
+  });
+
+  it('should show station trader bids below asks', () => {
+    const book = economicSystem.getOrderBook('hub', 'electronics')!;
+    expect(book.bids.length).toBeGreaterThan(0);
+    expect(book.asks.length).toBeGreaterThan(0);
+    expect(book.bids[0].price).toBeLessThan(book.asks[0].price);
+  });
+
+  it('should fill a crossing bid at the resting ask and refund the difference', () => {
+    economicSystem.forceUpdate(HOUR_MS);
+    const bestAsk = economicSystem.getOrderBook('hub', 'electronics')!.asks[0];
+    const available = commodity().available;
+    const credits = playerManager.getCredits();
+
+    const result = economicSystem.placePlayerOrder('hub', 'electronics', 'buy', 2, bestAsk.price + 50, playerManager);
+
+    expect(result.success).toBe(true);
+    expect(playerManager.getCommodityQuantity('electronics')).toBe(2);
+    expect(playerManager.getCredits()).toBe(credits - 2 * bestAsk.price);
+    expect(commodity().available).toBe(available - 2);
+    expect(economicSystem.getPlayerOrders()).toHaveLength(0);
+  });
+
+  it('should hold credits for a resting bid and hand them back on cancel', () => {
+    const credits = playerManager.getCredits();
+    const { order } = economicSystem.placePlayerOrder('hub', 'electronics', 'buy', 5, 1, playerManager);
+
+    expect(playerManager.getCredits()).toBe(credits - 5);
+    const bids = economicSystem.getOrderBook('hub', 'electronics')!.bids;
+    expect(bids[bids.length - 1]).toEqual({ price: 1, quantity: 5, orders: 1 });
+
+    expect(economicSystem.cancelPlayerOrder('hub', order!.id, playerManager).success).toBe(true);
+    expect(playerManager.getCredits()).toBe(credits);
+    expect(economicSystem.getPlayerOrders()).toHaveLength(0);
+  });
+
+  it('should fill a resting ask while the player is away and pay out anywhere', () => {
+    playerManager.addCommodity('electronics', 10, 100);
+    const price = commodity().currentPrice;
+    economicSystem.placePlayerOrder('hub', 'electronics', 'sell', 10, price, playerManager);
+    expect(playerManager.getCommodityQuantity('electronics')).toBe(0);
+
+    // A shortage drives the station's bid up through the player's ask
+    Object.assign(commodity(), { available: 0, demand: 1000 });
+    economicSystem.forceUpdate(HOUR_MS);
+
+    const credits = playerManager.getCredits();
+    const settlement = economicSystem.settlePlayerOrders(playerManager, 'far-hub');
+
+    expect(settlement.credits).toBe(10 * price);
+    expect(playerManager.getCredits()).toBe(credits + 10 * price);
+    expect(commodity().available).toBe(10);
+  });
+
+  it('should keep bought goods at the station until the player collects them', () => {
+    const bid = commodity().currentPrice;
+    economicSystem.placePlayerOrder('hub', 'electronics', 'buy', 3, bid, playerManager);
+
+    // A glut drives the station's ask down through the player's bid
+    Object.assign(commodity(), { available: 5000, demand: 0 });
+    economicSystem.forceUpdate(HOUR_MS);
+
+    expect(economicSystem.settlePlayerOrders(playerManager, 'far-hub').delivered).toHaveLength(0);
+    expect(economicSystem.getPlayerOrders()[0].filled).toBe(3);
+
+    const settlement = economicSystem.settlePlayerOrders(playerManager, 'hub');
+    expect(settlement.delivered).toEqual([{ commodityId: 'electronics', quantity: 3 }]);
+    expect(playerManager.getCommodityQuantity('electronics')).toBe(3);
+  });
+
+  it('should let NPC traders trade against station quotes and expire their orders', () => {
+    economicSystem.forceUpdate(HOUR_MS);
+    const bestAsk = economicSystem.getOrderBook('hub', 'electronics')!.asks[0];
+    const available = commodity().available;
+
+    const order = economicSystem.placeOrder('hub', {
+      commodityId: 'electronics',
+      side: 'buy',
+      owner: 'npc',
+      ownerId: 'npc-trader',
+      price: bestAsk.price,
+      quantity: 4,
+      expiresAt: 0
+    })!;
+
+    expect(order.quantity).toBe(0);
+    expect(commodity().available).toBe(available - 4);
+
+    economicSystem.placeOrder('hub', { commodityId: 'electronics', side: 'buy', owner: 'npc', ownerId: 'npc-trader', price: 1, quantity: 4, expiresAt: 0 });
+    economicSystem.forceUpdate(HOUR_MS);
+    expect(economicSystem.getMarket('hub')!.orders.some(o => o.ownerId === 'npc-trader')).toBe(false);
+  });
+
+  it('should keep resting orders across save and load', () => {
+    economicSystem.forceUpdate(HOUR_MS);
+    economicSystem.placePlayerOrder('hub', 'electronics', 'buy', 5, 1, playerManager);
+
+    const restored = new EconomicSystem();
+    restored.deserialize(JSON.parse(JSON.stringify(economicSystem.serialize())));
+
+    expect(restored.getPlayerOrders()).toHaveLength(1);
+    expect(restored.getMarket('hub')!.orders).toHaveLength(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import PlayerInventoryPanel from '../components/ui/PlayerInventoryPanel';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('PlayerInventoryPanel', () => {
+  const renderHold = (days: number) => {
+    const playerManager = new PlayerManager();
+    const timeManager = new TimeManager();
+    playerManager.setTimeManager(timeManager);
+    playerManager.addCommodity('hydroponic-produce', 5, 85);
+    playerManager.addCommodity('steel-alloys', 5, 100);
+    timeManager.addTime(days * DAY_MS);
+
+    render(
+      <PlayerInventoryPanel
+        isVisible={true}
+        onClose={() => {}}
+        cargoItems={playerManager.getCargoManifest()}
+        cargoCapacity={100}
+        cargoUsed={10}
+        playerCredits={playerManager.getCredits()}
+        currentTime={timeManager.getCurrentTimestamp()}
+      />
+    );
+  };
+
+  it('should count down the shelf life of perishable cargo only', () => {
+    renderHold(2);
+
+    expect(screen.getByText(/12d left/)).toBeInTheDocument();
+    expect(screen.getAllByText(/d left/)).toHaveLength(1);
+    expect(screen.queryByText(/Spoiling!/)).not.toBeInTheDocument();
+  });
+
+  it('should warn once perishable cargo starts losing value', () => {
+    renderHold(11);
+
+    expect(screen.getByText(/Spoiling! 3d left, 93% value/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { EconomicSystem } from '../systems/EconomicSystem';
+import { WorldManager } from '../systems/WorldManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { HOUR_MS, createStation, initializeGalaxyEconomy, stock } from './testUtils/economy';
+
+/**
+ * Build an economy over the preset galaxy and empty the input stocks of every
+ * manufacturing-sector station, so production there depends on freight.
+ */
+const createGalaxyEconomy = (): { economicSystem: EconomicSystem; worldManager: WorldManager } => {
+  const worldManager = new WorldManager();
+  const economicSystem = new EconomicSystem(new SeededRandom(11));
+  initializeGalaxyEconomy(economicSystem, worldManager);
+
+  const manufacturing = worldManager.getGalaxy().sectors.find(sector => sector.id === 'manufacturing-sector')!;
+  for (const station of manufacturing.systems.flatMap(system => system.stations)) {
+    for (const production of economicSystem.getStationEconomics(station.id)!.produces) {
+      for (const input of production.requiredInputs ?? []) {
+        stock(economicSystem, station.id, input.commodityId).available = 0;
+      }
+    }
+  }
+
+  return { economicSystem, worldManager };
+};
+
+describe('Production chains', () => {
+  it('should only produce what the input stock allows', () => {
+    const economicSystem = new EconomicSystem(new SeededRandom(3));
+    economicSystem.initializeStationEconomics(createStation('refinery', 'refinery'));
+    stock(economicSystem, 'refinery', 'iron-ore').available = 0;
+    stock(economicSystem, 'refinery', 'carbon-crystals').available = 1000;
+
+    economicSystem.forceUpdate(HOUR_MS);
+
+    expect(stock(economicSystem, 'refinery', 'steel-alloys').productionRate).toBe(0);
+    expect(stock(economicSystem, 'refinery', 'iron-ore').demand).toBeGreaterThan(0);
+
+    stock(economicSystem, 'refinery', 'iron-ore').available = 20;
+    economicSystem.forceUpdate(HOUR_MS);
+
+    const steel = stock(economicSystem, 'refinery', 'steel-alloys');
+    expect(steel.productionRate).toBe(10);
+    expect(stock(economicSystem, 'refinery', 'iron-ore').available).toBe(0);
+  });
+
+  it('should ship inputs from producing stations', () => {
+    const economicSystem = new EconomicSystem(new SeededRandom(5));
+    economicSystem.initializeStationEconomics(createStation('mine', 'mining'));
+    economicSystem.initializeStationEconomics(createStation('refinery', 'refinery'));
+    stock(economicSystem, 'refinery', 'iron-ore').available = 0;
+
+    economicSystem.forceUpdate(HOUR_MS);
+
+    // The refinery started with no ore, so everything it made came from the mine
+    expect(stock(economicSystem, 'refinery', 'steel-alloys').productionRate).toBeGreaterThan(0);
+  });
+
+  it('should starve manufacturing stations when the mining sector is blockaded', () => {
+    const open = createGalaxyEconomy();
+    const blockaded = createGalaxyEconomy();
+    blockaded.economicSystem.setSectorBlockade('mining-sector', true);
+
+    // Leave the mining sector as the only source of ore
+    for (const { economicSystem } of [open, blockaded]) {
+      economicSystem.getMarket('centauri-outpost')!.commodities.forEach(commodity => { commodity.available = 0; });
+    }
+
+    open.economicSystem.forceUpdate(HOUR_MS);
+    blockaded.economicSystem.forceUpdate(HOUR_MS);
+
+    expect(stock(open.economicSystem, 'hull-assembly-station', 'ship-hulls').productionRate).toBeGreaterThan(0);
+    expect(stock(blockaded.economicSystem, 'hull-assembly-station', 'ship-hulls').productionRate).toBe(0);
+    expect(stock(blockaded.economicSystem, 'hull-assembly-station', 'iron-ore').currentPrice)
+      .toBeGreaterThan(stock(open.economicSystem, 'hull-assembly-station', 'iron-ore').currentPrice);
+  });
+
+  it('should stop freight routed through a blockaded sector', () => {
+    const { economicSystem } = createGalaxyEconomy();
+    const canShip = () => (economicSystem as any).canShipBetween('earth-station', 'horizon-colony-hub', new Map());
+
+    expect(canShip()).toBe(true);
+
+    // The route from the core sector to the expansion sector passes through manufacturing
+    economicSystem.setSectorBlockade('manufacturing-sector', true);
+    expect(canShip()).toBe(false);
+  });
+
+  it('should stop freight through inactive gates', () => {
+    const { economicSystem, worldManager } = createGalaxyEconomy();
+    for (const sector of worldManager.getGalaxy().sectors) {
+      for (const system of sector.systems) {
+        system.gates.forEach(gate => { gate.isActive = false; });
+      }
+    }
+
+    economicSystem.forceUpdate(HOUR_MS);
+
+    expect(stock(economicSystem, 'hull-assembly-station', 'ship-hulls').productionRate).toBe(0);
+  });
+
+  it('should keep blockades across save and load', () => {
+    const economicSystem = new EconomicSystem();
+    economicSystem.setSectorBlockade('mining-sector', true);
+
+    const restored = new EconomicSystem();
+    restored.deserialize(JSON.parse(JSON.stringify(economicSystem.serialize())));
+
+    expect(restored.isSectorBlockaded('mining-sector')).toBe(true);
+    expect(restored.isSectorBlockaded('core-sector')).toBe(false);
+  });
+});
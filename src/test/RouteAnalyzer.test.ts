@@ -127,8 +127,10 @@ describe('RouteAnalyzer', () => {
       );
       
       expect(ironOreRoute).toBeDefined();
-      expect(ironOreRoute!.profitPerUnit).toBe(20); // 65 - 45
-      expect(ironOreRoute!.profitMargin).toBeCloseTo(44.44, 1); // (20/45) * 100
+      // 65 - 45, less 1 fuel unit (5 cr) for the 100-unit flight spread over 100 units of cargo
+      expect(ironOreRoute!.fuelCost).toBe(5);
+      expect(ironOreRoute!.profitPerUnit).toBeCloseTo(19.95);
+      expect(ironOreRoute!.profitMargin).toBeCloseTo(44.33, 1); // (19.95/45) * 100
     });
 
     it('should calculate distance and travel time', () => {
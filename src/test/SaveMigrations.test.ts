@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { compareSaveVersions, migrateSave, SaveDocument, SaveMigration } from '../systems/SaveMigrations';
+import { SaveManager } from '../systems/SaveManager';
+import saveV1 from './fixtures/saves/save-v1.0.0.json';
+
+const cloneFixture = (fixture: unknown): SaveDocument => JSON.parse(JSON.stringify(fixture));
+
+describe('SaveMigrations', () => {
+  describe('compareSaveVersions', () => {
+    it('should order dotted versions numerically', () => {
+      expect(compareSaveVersions('1.0.0', '2.0.0')).toBeLessThan(0);
+      expect(compareSaveVersions('2.10.0', '2.9.0')).toBeGreaterThan(0);
+      expect(compareSaveVersions('2.0', '2.0.0')).toBe(0);
+    });
+  });
+
+  describe('migrateSave', () => {
+    it('should migrate a v1.0.0 save to the current format', () => {
+      const migrated = migrateSave(cloneFixture(saveV1), '2.0.0') as any;
+
+      expect(migrated.version).toBe('2.0.0');
+      expect(migrated.world.galaxy).toEqual({
+        sectors: [],
+        currentPlayerLocation: {
+          sectorId: 'core-sector',
+          systemId: 'sol-system',
+          stationId: 'earth-station'
+        }
+      });
+      expect(migrated.time.scheduledEvents).toHaveLength(1);
+      expect(migrated.time.scheduledEvents[0]).not.toHaveProperty('callback');
+      expect(migrated.player.credits).toBe(25000);
+    });
+
+    it('should keep an existing v1.0.0 galaxy', () => {
+      const fixture = cloneFixture(saveV1) as any;
+      fixture.world.galaxy = {
+        sectors: [{ id: 'core-sector', systems: [] }],
+        currentPlayerLocation: { sectorId: 'core-sector', systemId: 'sol-system' }
+      };
+
+      const migrated = migrateSave(fixture, '2.0.0') as any;
+
+      expect(migrated.world.galaxy.sectors).toHaveLength(1);
+      expect(migrated.world.galaxy.currentPlayerLocation.stationId).toBeUndefined();
+    });
+
+    it('should move v2.0.0 economy and contract timestamps onto game time', () => {
+      const savedAt = Date.parse('2025-06-01T12:00:00Z');
+      const gameNow = Date.parse('2157-01-01T00:00:00Z') + 7200000;
+      const save: SaveDocument = {
+        version: '2.0.0',
+        timestamp: new Date(savedAt).toISOString(),
+        time: { gameStartTime: '2157-01-01T00:00:00.000Z', accumulatedTime: 7200000 },
+        systems: {
+          economy: {
+            lastUpdateTime: savedAt - 60000,
+            markets: [['earth-station', {
+              lastUpdate: savedAt - 60000,
+              commodities: [['iron-ore', { priceHistory: [{ timestamp: savedAt - 3600000, price: 10, volume: 0 }] }]]
+            }]],
+            activeEvents: [{ id: 'event-1', startTime: savedAt - 3600000, endTime: savedAt + 3600000 }],
+            stationEconomics: []
+          },
+          contracts: {
+            contracts: [['contract-1', { id: 'contract-1', deadline: savedAt + 7200000 }]],
+            lastGenerationTime: savedAt,
+            contractIdCounter: 2
+          }
+        }
+      };
+
+      const migrated = migrateSave(save, '2.1.0') as any;
+      const economy = migrated.systems.economy;
+      const contracts = migrated.systems.contracts;
+
+      expect(migrated.version).toBe('2.1.0');
+      expect(economy.lastUpdateTime).toBe(gameNow - 60000);
+      expect(economy.markets[0][1].lastUpdate).toBe(gameNow - 60000);
+      expect(economy.markets[0][1].commodities[0][1].priceHistory[0].timestamp).toBe(gameNow - 3600000);
+      expect(economy.activeEvents[0].endTime).toBe(gameNow + 3600000);
+      expect(contracts.contracts[0][1].deadline).toBe(gameNow + 7200000);
+      expect(contracts.lastGenerationTime).toBe(gameNow);
+    });
+
+    it('should chain migrations in order', () => {
+      const migrations: SaveMigration[] = [
+        { fromVersion: '1.0.0', toVersion: '2.0.0', description: 'a', migrate: save => ({ ...save, version: '2.0.0', steps: ['a'] }) },
+        { fromVersion: '2.0.0', toVersion: '3.0.0', description: 'b', migrate: save => ({ ...save, version: '3.0.0', steps: [...(save.steps as string[]), 'b'] }) }
+      ];
+
+      const migrated = migrateSave({ version: '1.0.0' }, '3.0.0', migrations);
+
+      expect(migrated.version).toBe('3.0.0');
+      expect(migrated.steps).toEqual(['a', 'b']);
+    });
+
+    it('should leave a current save untouched', () => {
+      const save = { version: '2.0.0', marker: true };
+
+      expect(migrateSave(save, '2.0.0')).toBe(save);
+    });
+
+    it('should reject saves newer than the build', () => {
+      expect(() => migrateSave({ version: '9.0.0' }, '2.0.0')).toThrow(/newer than this build/);
+    });
+
+    it('should reject versions without a migration path', () => {
+      expect(() => migrateSave({ version: '0.5.0' }, '2.0.0')).toThrow(/No migration path from save version 0.5.0/);
+    });
+  });
+
+  describe('SaveManager integration', () => {
+    let saveManager: SaveManager;
+
+    beforeEach(() => {
+      localStorage.clear();
+      saveManager = new SaveManager();
+    });
+
+    it('should migrate a v1.0.0 save when loading a slot', async () => {
+      localStorage.setItem('space_game_save_legacy', JSON.stringify(saveV1));
+
+      const loadedData = await saveManager.loadGame('legacy');
+
+      expect(loadedData?.version).toBe('2.1.0');
+      expect(loadedData?.world.galaxy.currentPlayerLocation.systemId).toBe('sol-system');
+      expect(loadedData?.time.gameStartTime).toBeInstanceOf(Date);
+      expect(loadedData?.settings.gameplay.difficulty).toBe('hard');
+    });
+
+    it('should migrate a v1.0.0 save when importing', async () => {
+      const success = await saveManager.importSave(JSON.stringify(saveV1), 'imported');
+
+      expect(success).toBe(true);
+      const loadedData = await saveManager.loadGame('imported');
+      expect(loadedData?.version).toBe('2.1.0');
+      expect(loadedData?.player.credits).toBe(25000);
+    });
+
+    it('should report a clear error for saves from a newer build', async () => {
+      localStorage.setItem('space_game_save_future', JSON.stringify({ ...saveV1, version: '99.0.0' }));
+
+      const loadedData = await saveManager.loadGame('future');
+
+      expect(loadedData).toBe(null);
+      expect(saveManager.getLastError()).toMatch(/Save version 99.0.0 is newer than this build supports/);
+    });
+
+    it('should report a clear error when importing a newer save', async () => {
+      const success = await saveManager.importSave(JSON.stringify({ ...saveV1, version: '99.0.0' }));
+
+      expect(success).toBe(false);
+      expect(saveManager.getLastError()).toMatch(/newer than this build/);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileSaveStorage,
+  LocalSaveStorage,
+  MemorySaveStorage,
+  SaveStorageBackend,
+  createSaveStorageBackend
+} from '../systems/SaveStorage';
+import { SaveManager, GameSaveData } from '../systems/SaveManager';
+
+const saveDirectory = mkdtempSync(join(tmpdir(), 'space-game-saves-'));
+let fileBackends = 0;
+
+const backends: Array<[string, () => SaveStorageBackend]> = [
+  ['MemorySaveStorage', () => new MemorySaveStorage()],
+  ['LocalSaveStorage', () => new LocalSaveStorage()],
+  ['FileSaveStorage', () => new FileSaveStorage(join(saveDirectory, `run-${fileBackends++}`))]
+];
+
+afterAll(() => {
+  rmSync(saveDirectory, { recursive: true, force: true });
+});
+
+describe.each(backends)('%s', (_name, createBackend) => {
+  let storage: SaveStorageBackend;
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage = createBackend();
+  });
+
+  it('should store, read and remove items', async () => {
+    await storage.setItem('space_game_save_a', 'first');
+    await storage.setItem('space_game_save_b', 'second');
+
+    expect(await storage.getItem('space_game_save_a')).toBe('first');
+    expect((await storage.keys()).sort()).toEqual(['space_game_save_a', 'space_game_save_b']);
+
+    await storage.removeItem('space_game_save_a');
+
+    expect(await storage.getItem('space_game_save_a')).toBe(null);
+    expect(await storage.keys()).toEqual(['space_game_save_b']);
+  });
+
+  it('should report itself available', async () => {
+    expect(await storage.isAvailable()).toBe(true);
+  });
+
+  it('should back a SaveManager', async () => {
+    const saveManager = new SaveManager(storage);
+    const gameData: Partial<GameSaveData> = { playerName: 'Backend Player', playtimeMs: 60000 };
+
+    expect(await saveManager.saveGame('backend-slot', gameData, 'Backend Save')).toBe(true);
+
+    expect((await saveManager.getSaveSlots()).map(slot => slot.name)).toEqual(['Backend Save']);
+    expect((await saveManager.loadGame('backend-slot'))?.playerName).toBe('Backend Player');
+  });
+});
+
+describe('FileSaveStorage', () => {
+  it('should keep slot names inside its directory', async () => {
+    const directory = join(saveDirectory, 'escaped');
+    const storage = new FileSaveStorage(directory);
+
+    await storage.setItem('../outside', 'contained');
+
+    expect(readdirSync(directory)).toEqual(['..%2Foutside.save']);
+    expect(await storage.keys()).toEqual(['../outside']);
+    expect(await storage.getItem('../outside')).toBe('contained');
+  });
+
+  it('should list nothing before the first save', async () => {
+    expect(await new FileSaveStorage(join(saveDirectory, 'empty')).keys()).toEqual([]);
+  });
+});
+
+describe('createSaveStorageBackend', () => {
+  it('should use localStorage by default', () => {
+    expect(createSaveStorageBackend().type).toBe('localStorage');
+  });
+
+  it('should fall back to localStorage when IndexedDB is missing', () => {
+    expect(typeof indexedDB).toBe('undefined');
+    expect(createSaveStorageBackend('indexedDB').type).toBe('localStorage');
+  });
+
+  it('should create a file backend on request under Node', () => {
+    expect(createSaveStorageBackend('file', saveDirectory)).toBeInstanceOf(FileSaveStorage);
+  });
+
+  it('should create an in-memory backend on request', () => {
+    expect(createSaveStorageBackend('memory')).toBeInstanceOf(MemorySaveStorage);
+  });
+
+  it('should keep memory saves separate from localStorage', async () => {
+    localStorage.clear();
+    const saveManager = new SaveManager(createSaveStorageBackend('memory'));
+
+    await saveManager.saveGame('isolated', { playerName: 'Isolated' });
+
+    expect(localStorage.length).toBe(0);
+    expect(await saveManager.getSaveSlots()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from '../utils/SeededRandom';
+
+const take = (random: SeededRandom, count: number): number[] =>
+  Array.from({ length: count }, () => random.next());
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(take(new SeededRandom(42), 20)).toEqual(take(new SeededRandom(42), 20));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(take(new SeededRandom(1), 5)).not.toEqual(take(new SeededRandom(2), 5));
+  });
+
+  it('should stay within the requested ranges', () => {
+    const random = new SeededRandom(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const int = random.int(3, 5);
+      expect([3, 4, 5]).toContain(int);
+
+      const float = random.range(-2, 2);
+      expect(float).toBeGreaterThanOrEqual(-2);
+      expect(float).toBeLessThan(2);
+    }
+  });
+
+  it('should pick every element of an array eventually', () => {
+    const random = new SeededRandom(99);
+    const picked = new Set(Array.from({ length: 200 }, () => random.pick(['a', 'b', 'c'])));
+
+    expect(picked).toEqual(new Set(['a', 'b', 'c']));
+  });
+
+  it('should continue the same sequence after restoring its state', () => {
+    const random = new SeededRandom(1234);
+    take(random, 10);
+    const state = random.getState();
+    const expected = take(random, 10);
+
+    const restored = new SeededRandom(1);
+    restored.setState(state);
+
+    expect(restored.getSeed()).toBe(1234);
+    expect(take(restored, 10)).toEqual(expected);
+  });
+
+  it('should restart the sequence when reseeded', () => {
+    const random = new SeededRandom(5);
+    const first = take(random, 5);
+
+    random.reseed(5);
+
+    expect(take(random, 5)).toEqual(first);
+  });
+});
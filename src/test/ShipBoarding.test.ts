@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CombatManager } from '../systems/CombatManager';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { CharacterManager } from '../systems/CharacterManager';
+import { SecurityManager } from '../systems/SecurityManager';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { EventManager } from '../systems/EventManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { BoardingOutcome, CombatParticipant } from '../types/combat';
+
+describe('Disabling and boarding ships', () => {
+  let playerManager: PlayerManager;
+  let characterManager: CharacterManager;
+  let reportCrime: ReturnType<typeof vi.fn>;
+  let random: SeededRandom;
+  let combatManager: CombatManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    playerManager = new PlayerManager();
+    characterManager = new CharacterManager();
+    characterManager.createCharacter('captain', 'Captain', {
+      gender: 'female',
+      skinTone: 'medium',
+      hairColor: 'black',
+      eyeColor: 'brown',
+      age: 40,
+      portrait: 'default-female'
+    }, 'merchant');
+    reportCrime = vi.fn();
+    random = new SeededRandom(12);
+    combatManager = new CombatManager(
+      new TimeManager(),
+      new WorldManager(),
+      playerManager,
+      playerManager.getFactionManager(),
+      { reportCrime } as unknown as SecurityManager,
+      { getNPCsInSystem: vi.fn(() => []) } as unknown as NPCAIManager,
+      {} as unknown as EventManager,
+      random
+    );
+    combatManager.setCharacterManager(characterManager);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const startFight = (type: 'pirate-attack' | 'patrol-inspection' = 'pirate-attack') => {
+    const encounter = combatManager.generateEncounter(type, 'sol-system');
+    const enemies = encounter.participants.filter(participant => participant.type === 'ai');
+    // Keep the fight to a single, stationary enemy alongside the player
+    encounter.participants = encounter.participants.filter(participant => participant.type === 'player' || participant === enemies[0]);
+    enemies[0].ai = undefined;
+    enemies[0].position = { x: 300, y: 0 };
+    return {
+      encounter,
+      player: encounter.participants.find(participant => participant.type === 'player')!,
+      enemy: enemies[0]
+    };
+  };
+
+  const disable = (enemy: CombatParticipant) => {
+    enemy.ship.shields.current = 0;
+    return (combatManager as any).applyDamage(enemy, enemy.ship.hull.maximum / 2, 'electromagnetic');
+  };
+
+  const board = (enemy: CombatParticipant, outcome: BoardingOutcome = 'capture') =>
+    combatManager.executeCombatAction({
+      id: `board-${enemy.id}`,
+      actorId: 'player',
+      type: 'board',
+      targetId: enemy.id,
+      parameters: { outcome },
+      timestamp: 0,
+      resolved: false
+    });
+
+  it('should knock out systems with ion fire and leave the ship disabled rather than destroyed', () => {
+    const { enemy } = startFight();
+    const hull = enemy.ship.hull.current;
+
+    const result = disable(enemy);
+
+    expect(result.systemDamage).toEqual({ system: 'power', severity: 1 });
+    expect(enemy.ship.systems.power).toBe(0);
+    expect(enemy.ship.hull.current).toBe(hull - Math.round(hull / 2 * 0.25));
+    expect(enemy.status).toBe('disabled');
+    expect(combatManager.getCombatStats()).toMatchObject({ shipsDisabled: 1, shipsDestroyed: 0 });
+  });
+
+  it('should win the encounter once every enemy is disabled', () => {
+    const { encounter, enemy } = startFight();
+    disable(enemy);
+
+    combatManager.update();
+
+    expect(encounter.status).toBe('resolved');
+    expect(combatManager.getCombatStats().encountersWon).toBe(1);
+    expect(enemy.ship.shields.current).toBe(0);
+  });
+
+  it('should only board disabled ships alongside the player', () => {
+    const { enemy } = startFight();
+
+    expect(board(enemy).message).toBe(`${enemy.name} must be disabled before it can be boarded`);
+
+    disable(enemy);
+    enemy.position = { x: 3000, y: 0 };
+    expect(board(enemy).message).toBe(`${enemy.name} is too far away to board`);
+    expect(combatManager.getCombatStats().boardingActions).toBe(0);
+  });
+
+  it('should give a more skilled captain better boarding odds', () => {
+    const { player, enemy } = startFight();
+    const untrained = combatManager.getBoardingChance(player, enemy);
+
+    characterManager.getCharacter()!.skills.combat = 30;
+    characterManager.getCharacter()!.skills.tactics = 20;
+
+    expect(combatManager.getBoardingChance(player, enemy)).toBeGreaterThan(untrained);
+  });
+
+  it('should harden the defenders after a failed boarding attempt', () => {
+    const { enemy } = startFight();
+    disable(enemy);
+    const morale = enemy.ship.crew.morale;
+    vi.spyOn(random, 'next').mockReturnValue(0.99);
+
+    const result = board(enemy);
+
+    expect(result).toMatchObject({ success: false, message: `${enemy.name}'s crew repelled the boarding party` });
+    expect(enemy.status).toBe('disabled');
+    expect(enemy.ship.crew.morale).toBe(Math.min(100, morale + 10));
+    expect(combatManager.getCombatStats()).toMatchObject({ boardingActions: 1, successfulBoarding: 0 });
+  });
+
+  it('should add a captured ship to the fleet with its weapons and loot its cargo', () => {
+    const { enemy } = startFight();
+    disable(enemy);
+    const [lot] = enemy.ship.cargo;
+    const fleetSize = playerManager.getOwnedShips().length;
+    vi.spyOn(random, 'next').mockReturnValue(0);
+
+    const result = board(enemy);
+
+    expect(result.success).toBe(true);
+    expect(enemy.status).toBe('captured');
+    expect(combatManager.getCombatStats().successfulBoarding).toBe(1);
+
+    const prize = playerManager.getOwnedShips().find(ship => ship.name === enemy.name)!;
+    expect(playerManager.getOwnedShips()).toHaveLength(fleetSize + 1);
+    expect(prize.class.id).toBe('light-combat');
+    expect(prize.condition.hull).toBeCloseTo(enemy.ship.hull.current / enemy.ship.hull.maximum);
+    expect(prize.equipment.weapons.map(item => item.name)).toEqual(['Pulse Laser', 'Pulse Laser']);
+    expect(playerManager.getCommodityQuantity(lot.commodityId)).toBe(lot.quantity);
+    expect(enemy.ship.cargo).toEqual([]);
+  });
+
+  it('should strip a salvaged ship of its weapons', () => {
+    const { enemy } = startFight();
+    disable(enemy);
+    const fleetSize = playerManager.getOwnedShips().length;
+    vi.spyOn(random, 'next').mockReturnValue(0);
+
+    const result = board(enemy, 'salvage');
+
+    expect(result.message).toContain(`Salvaged Pulse Laser, Pulse Laser from ${enemy.name}`);
+    expect(playerManager.getOwnedShips()).toHaveLength(fleetSize);
+    expect(playerManager.getEquipmentInventory().map(item => item.name)).toEqual(['Pulse Laser', 'Pulse Laser']);
+    expect(enemy.ship.weapons).toEqual([]);
+  });
+
+  it('should report seizing a lawful ship as piracy', () => {
+    const pirateFight = startFight();
+    disable(pirateFight.enemy);
+    const patrolFight = startFight('patrol-inspection');
+    disable(patrolFight.enemy);
+    vi.spyOn(random, 'next').mockReturnValue(0);
+
+    board(pirateFight.enemy);
+    expect(reportCrime).not.toHaveBeenCalled();
+
+    board(patrolFight.enemy, 'salvage');
+    expect(reportCrime).toHaveBeenCalledWith('piracy', 'sol-system', [
+      expect.objectContaining({ type: 'witness', description: 'Security Patrol (Security Forces) was boarded and seized' })
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SystemManager } from '../engine/SystemManager';
+
+describe('SystemManager save/load', () => {
+  let canvas: HTMLCanvasElement;
+
+  beforeEach(() => {
+    localStorage.clear();
+    canvas = document.createElement('canvas');
+  });
+
+  it('should build a save document covering every system', () => {
+    const systemManager = new SystemManager(canvas);
+
+    const saveData = systemManager.createSaveData();
+
+    expect(saveData.world?.galaxy.sectors.length).toBeGreaterThan(0);
+    expect(saveData.player?.credits).toBe(10000);
+    expect(Object.keys(saveData.systems ?? {})).toEqual(expect.arrayContaining([
+      'economy', 'contracts', 'player', 'character', 'skillSpecializations', 'achievements',
+      'personalEquipment', 'maintenance', 'events', 'npcAI', 'security', 'hacking',
+      'combat', 'investment', 'quests', 'navigation'
+    ]));
+  });
+
+  it('should restore the exact game state from a saved slot', async () => {
+    const original = new SystemManager(canvas);
+    const playerManager = original.getPlayerManager();
+    playerManager.addCommodity('iron-ore', 10, 50);
+    playerManager.addCredits(1234);
+    original.getTimeManager().addTime(3600000);
+    original.getAchievementManager().getPlayerAchievements().progress.set('first-trade', {
+      achievementId: 'first-trade',
+      progress: new Map([['trades', 1]]),
+      completed: false
+    });
+    original.getWorldManager().getGalaxy().currentPlayerLocation.stationId = 'sol-military-base';
+
+    expect(await original.saveGame('round-trip', 'Round Trip')).toBe(true);
+
+    const restored = new SystemManager(canvas);
+    expect(await restored.loadGame('round-trip')).toBe(true);
+
+    const ship = restored.getPlayerManager().getCurrentShip();
+    expect(ship.cargo.items).toBeInstanceOf(Map);
+    expect(ship.cargo.items.get('iron-ore')?.quantity).toBe(10);
+    expect(restored.getPlayerManager().getCredits()).toBe(playerManager.getCredits());
+    expect(restored.getTimeManager().getCurrentTimestamp())
+      .toBe(original.getTimeManager().getCurrentTimestamp());
+    expect(restored.getWorldManager().getGalaxy().currentPlayerLocation.stationId).toBe('sol-military-base');
+
+    const progress = restored.getAchievementManager().getAchievementProgress('first-trade');
+    expect(progress?.progress).toBeInstanceOf(Map);
+    expect(progress?.progress.get('trades')).toBe(1);
+
+    const originalMarket = original.getEconomicSystem().getMarket('earth-station');
+    const restoredMarket = restored.getEconomicSystem().getMarket('earth-station');
+    expect(restoredMarket?.commodities).toBeInstanceOf(Map);
+    expect(restoredMarket?.commodities.size).toBe(originalMarket?.commodities.size);
+    expect(restored.getEconomicSystem().getStationEconomics('earth-station')?.market).toBe(restoredMarket);
+  });
+
+  it('should generate the same starting state from the same seed', () => {
+    const first = new SystemManager(canvas, undefined, 2157);
+    const second = new SystemManager(canvas, undefined, 2157);
+
+    const summarize = (systemManager: SystemManager) => systemManager.getContractManager().getAvailableContracts()
+      .map(contract => [contract.type, contract.origin, contract.destination, contract.commodity, contract.baseReward]);
+
+    expect(summarize(second)).toEqual(summarize(first));
+    expect(second.getRandom().getState()).toEqual(first.getRandom().getState());
+  });
+
+  it('should store the random seed in the save and resume its sequence', async () => {
+    const original = new SystemManager(canvas, undefined, 2157);
+    expect(await original.saveGame('seeded', 'Seeded')).toBe(true);
+    const expected = [original.getRandom().next(), original.getRandom().next()];
+
+    const restored = new SystemManager(canvas, undefined, 42);
+    expect(await restored.loadGame('seeded')).toBe(true);
+
+    expect(restored.getRandom().getSeed()).toBe(2157);
+    expect([restored.getRandom().next(), restored.getRandom().next()]).toEqual(expected);
+  });
+
+  it('should keep the current state when a slot is missing', async () => {
+    const systemManager = new SystemManager(canvas);
+
+    expect(await systemManager.loadGame('missing-slot')).toBe(false);
+    expect(systemManager.getPlayerManager().getCredits()).toBe(10000);
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CombatManager } from '../systems/CombatManager';
+import { WorldManager } from '../systems/WorldManager';
+import { PlayerManager } from '../systems/PlayerManager';
+import { TimeManager } from '../systems/TimeManager';
+import { SecurityManager } from '../systems/SecurityManager';
+import { NPCAIManager } from '../systems/NPCAIManager';
+import { EventManager } from '../systems/EventManager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { createEquipmentItem } from '../data/equipment';
+import { CombatAction, CombatEncounter, CombatParticipant } from '../types/combat';
+
+describe('Tactical combat space', () => {
+  let timeManager: TimeManager;
+  let playerManager: PlayerManager;
+  let combatManager: CombatManager;
+  let encounter: CombatEncounter;
+  let player: CombatParticipant;
+  let pirate: CombatParticipant;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    timeManager = new TimeManager();
+    timeManager.start();
+    playerManager = new PlayerManager();
+    playerManager.getCurrentShip().equipment.weapons.push(createEquipmentItem('pulse-laser')!);
+    combatManager = new CombatManager(
+      timeManager,
+      new WorldManager(),
+      playerManager,
+      playerManager.getFactionManager(),
+      {} as unknown as SecurityManager,
+      { getNPCsInSystem: vi.fn(() => []) } as unknown as NPCAIManager,
+      {} as unknown as EventManager,
+      new SeededRandom(4)
+    );
+
+    encounter = combatManager.generateEncounter('patrol-inspection', 'sol-system');
+    // Clear, open space unless a test adds terrain
+    encounter.environment.hazards = [];
+    encounter.environment.conditions = [];
+    encounter.environment.visibility = 1;
+    player = encounter.participants.find(participant => participant.type === 'player')!;
+    pirate = encounter.participants.find(participant => participant.type === 'ai')!;
+    pirate.ai = undefined;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Let one second of game time pass, one battlefield tick
+  const tick = () => {
+    timeManager.update(1);
+    combatManager.update();
+  };
+
+  const act = (type: CombatAction['type'], parameters: CombatAction['parameters'] = {}, targetId?: string) =>
+    combatManager.executeCombatAction({
+      id: `${type}-action`,
+      actorId: player.id,
+      type,
+      targetId,
+      parameters,
+      timestamp: 0,
+      resolved: false
+    });
+
+  it('should place range bands by the fraction of the weapon\'s range', () => {
+    const laser = player.ship.weapons[0].weapon;
+
+    expect(laser.stats.range).toBe(8000);
+    expect(combatManager.getRangeBand(1500, laser)).toBe('close');
+    expect(combatManager.getRangeBand(4000, laser)).toBe('medium');
+    expect(combatManager.getRangeBand(7000, laser)).toBe('long');
+    expect(combatManager.getRangeBand(9000, laser)).toBe('out_of_range');
+  });
+
+  it('should not fire at a target beyond every weapon\'s range', () => {
+    pirate.position = { x: 9000, y: 0 };
+
+    const result = act('attack', {}, pirate.id);
+
+    expect(result).toMatchObject({ success: false, message: 'Security Patrol is out of range' });
+    expect(combatManager.getCombatStats().weaponsFired).toBe(0);
+    expect(player.ship.weapons[0].cooldown).toBe(0);
+  });
+
+  it('should lose accuracy at long range', () => {
+    vi.spyOn(SeededRandom.prototype, 'next').mockReturnValue(0.7);
+
+    pirate.position = { x: 1000, y: 0 };
+    expect(act('attack', {}, pirate.id).success).toBe(true);
+
+    player.ship.weapons[0].cooldown = 0;
+    player.ship.weapons[0].energy = 15;
+    pirate.position = { x: 7000, y: 0 };
+    expect(act('attack', {}, pirate.id).message).toBe('Player Ship missed Security Patrol');
+  });
+
+  it('should block shots and sight through asteroids, nebulae and stations', () => {
+    pirate.position = { x: 4000, y: 0 };
+    encounter.environment.hazards = [
+      { type: 'asteroid', position: { x: 2000, y: 100 }, radius: 500, damage: 15, active: true }
+    ];
+
+    expect(combatManager.hasLineOfSight(encounter.id, player.id, pirate.id)).toBe(false);
+    const result = act('attack', {}, pirate.id);
+    expect(result).toMatchObject({ success: false, message: "Player Ship's shot at Security Patrol was blocked by an asteroid" });
+    expect(pirate.ship.shields.current).toBe(pirate.ship.shields.maximum);
+
+    // Mines do not block sight
+    encounter.environment.hazards[0].type = 'mine';
+    expect(combatManager.hasLineOfSight(encounter.id, player.id, pirate.id)).toBe(true);
+  });
+
+  it('should turn before accelerating toward a move order', () => {
+    const turnRate = (Math.PI / 2) * player.ship.maneuverability;
+    act('move', { destination: { x: -3000, y: 0 } });
+
+    tick();
+
+    // Still facing mostly away, so the ship turns on the spot
+    expect(player.movement.facing).toBeCloseTo(turnRate);
+    expect(player.position).toEqual({ x: 0, y: 0 });
+
+    for (let i = 0; i < 10; i++) {
+      tick();
+    }
+    expect(player.position.x).toBeCloseTo(-3000);
+    expect(player.position.y).toBeCloseTo(0);
+    expect(player.movement.destination).toBeUndefined();
+  });
+
+  it('should move by game time rather than by how often combat updates', () => {
+    act('move', { destination: { x: 3000, y: 0 } });
+
+    // Frames within the same tick leave the ship where it is
+    for (let i = 0; i < 5; i++) {
+      timeManager.update(0.1);
+      combatManager.update();
+    }
+    expect(player.position).toEqual({ x: 0, y: 0 });
+
+    timeManager.update(0.5);
+    combatManager.update();
+    const afterOneTick = player.position.x;
+    expect(afterOneTick).toBeGreaterThan(0);
+
+    // A long frame catches up on every tick it spans
+    timeManager.update(2);
+    combatManager.update();
+    expect(player.position.x).toBeCloseTo(Math.min(3000, afterOneTick * 3));
+  });
+
+  it('should only escape once the ship reaches jump distance', () => {
+    pirate.position = { x: 3000, y: 0 };
+
+    expect(act('retreat').message).toBe('Player Ship is breaking away for jump distance');
+    tick();
+    expect(player.status).toBe('active');
+    expect(player.movement.destination!.x).toBeLessThan(-20000);
+
+    let updates = 1;
+    while (player.status === 'active' && updates < 100) {
+      tick();
+      updates++;
+    }
+
+    expect(player.status).toBe('fled');
+    expect(Math.hypot(player.position.x - pirate.position.x, player.position.y - pirate.position.y)).toBeGreaterThanOrEqual(20000);
+    expect(combatManager.getCombatStats().encountersFled).toBe(1);
+  });
+
+  it('should damage ships that drift into an asteroid', () => {
+    encounter.environment.hazards = [
+      { type: 'asteroid', position: { x: 0, y: 0 }, radius: 500, damage: 15, active: true }
+    ];
+    const shields = player.ship.shields.current;
+
+    tick();
+
+    expect(player.ship.shields.current).toBeLessThan(shields);
+  });
+
+  it('should have AI ships close to their preferred range', () => {
+    const [patrol] = combatManager.generateEncounter('patrol-inspection', 'sol-system').participants
+      .filter(participant => participant.type === 'ai');
+    patrol.ai!.tactics.preferredRange = 'long';
+    const patrolEncounter = combatManager.getActiveEncounters()[1];
+    patrolEncounter.environment.hazards = [];
+
+    (combatManager as any).updateThreatAssessment(patrol, patrolEncounter);
+    (combatManager as any).generateAIAction(patrol, patrolEncounter);
+
+    const patrolPlayer = patrolEncounter.participants.find(participant => participant.type === 'player')!;
+    const destination = patrol.movement.destination!;
+    expect(Math.hypot(destination.x - patrolPlayer.position.x, destination.y - patrolPlayer.position.y)).toBeCloseTo(8000 * 0.8);
+  });
+
+  it('should generate typed environments with hazards clear of the starting ships', () => {
+    const locations = new Set<string>();
+    for (let i = 0; i < 30; i++) {
+      const generated = combatManager.generateEncounter('pirate-attack', 'sol-system');
+      locations.add(generated.environment.location);
+      generated.environment.hazards.forEach(hazard => {
+        generated.participants.forEach(participant => {
+          expect(Math.hypot(participant.position.x - hazard.position.x, participant.position.y - hazard.position.y))
+            .toBeGreaterThan(hazard.radius);
+        });
+      });
+    }
+
+    expect(locations.size).toBeGreaterThan(2);
+  });
+
+  it('should give ships from older saves a movement state', () => {
+    const saved = combatManager.serialize();
+    saved.combatState.activeEncounters.forEach(([, saved]) => {
+      saved.participants.forEach(participant => delete (participant as Partial<CombatParticipant>).movement);
+    });
+
+    combatManager.deserialize(saved);
+
+    combatManager.getActiveEncounters()
+      .flatMap(restored => restored.participants)
+      .forEach(participant => expect(participant.movement).toEqual({ facing: 0, speed: 0, retreating: false }));
+  });
+});
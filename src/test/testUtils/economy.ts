@@ -0,0 +1,41 @@
+import { EconomicSystem } from '../../systems/EconomicSystem';
+import { WorldManager } from '../../systems/WorldManager';
+import { MarketCommodity } from '../../types/economy';
+import { Station } from '../../types/world';
+
+export const HOUR_MS = 3600000;
+
+/**
+ * Creates a bare station with a market of the given type, outside any galaxy
+ */
+export function createStation(id: string, type: Station['type'] = 'trade'): Station {
+  return {
+    id,
+    name: id,
+    type,
+    position: { x: 0, y: 0 },
+    faction: 'Independent',
+    dockingCapacity: 10,
+    services: ['refuel'],
+    description: ''
+  };
+}
+
+/**
+ * Opens a market at every station of the world manager's galaxy
+ */
+export function initializeGalaxyEconomy(economicSystem: EconomicSystem, worldManager: WorldManager): void {
+  economicSystem.setWorldManager(worldManager);
+  for (const sector of worldManager.getGalaxy().sectors) {
+    for (const system of sector.systems) {
+      system.stations.forEach(station => economicSystem.initializeStationEconomics(station, system));
+    }
+  }
+}
+
+/**
+ * A commodity's entry in a station's market
+ */
+export function stock(economicSystem: EconomicSystem, stationId: string, commodityId: string): MarketCommodity {
+  return economicSystem.getMarket(stationId)!.commodities.get(commodityId)!;
+}
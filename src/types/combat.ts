@@ -82,6 +82,7 @@ export interface CombatEncounter {
   objectives: CombatObjective[];
   rewards: EncounterReward[];
   startTime: number;
+  lastTick?: number; // Game time the battlefield last advanced; startTime until the first tick
   status: 'active' | 'resolved' | 'fled' | 'negotiated';
 }
 
@@ -92,10 +93,27 @@ export interface CombatParticipant {
   faction?: string;
   ship: ShipCombatData;
   position: { x: number; y: number };
-  status: 'active' | 'disabled' | 'destroyed' | 'fled';
+  movement: CombatMovement;
+  status: 'active' | 'disabled' | 'destroyed' | 'fled' | 'captured';
   ai?: CombatAI;
+  npcId?: string; // NPC ship flying in the galaxy this participant stands for
 }
 
+/**
+ * Movement on the tactical battlefield
+ */
+export interface CombatMovement {
+  facing: number; // Radians, 0 = +x
+  speed: number; // Distance covered in the last update
+  destination?: { x: number; y: number };
+  retreating: boolean; // Heading for jump distance
+}
+
+/**
+ * Distance to a target relative to a weapon's range
+ */
+export type RangeBand = 'close' | 'medium' | 'long' | 'out_of_range';
+
 export interface ShipCombatData {
   id: string;
   name: string;
@@ -115,10 +133,24 @@ export interface ShipCombatData {
   weapons: EquippedWeapon[];
   systems: ShipSystems;
   crew: CrewStats;
+  cargo: CombatCargo[];
   maneuverability: number;
   size: 'fighter' | 'corvette' | 'frigate' | 'cruiser' | 'capital';
 }
 
+/**
+ * Cargo aboard a ship in combat, taken as loot when the ship is boarded
+ */
+export interface CombatCargo {
+  commodityId: string;
+  quantity: number;
+}
+
+/**
+ * What a boarding party does with a ship it takes
+ */
+export type BoardingOutcome = 'capture' | 'salvage';
+
 export interface EquippedWeapon {
   weapon: Weapon;
   mountPoint: string;
@@ -267,7 +299,7 @@ export interface EnvironmentalCondition {
 }
 
 export interface EnvironmentalHazard {
-  type: 'asteroid' | 'mine' | 'debris' | 'radiation_burst';
+  type: 'asteroid' | 'mine' | 'debris' | 'radiation_burst' | 'nebula' | 'station';
   position: { x: number; y: number };
   radius: number;
   damage: number;
@@ -402,4 +434,81 @@ export interface PlayerWeaponLicense {
   cost: number;
   restrictions: WeaponRestriction[];
   status: 'active' | 'expired' | 'revoked' | 'suspended';
-}
\ No newline at end of file
+}
+/**
+ * Hull, shields and weapons (by weapon id) a ship goes into battle with
+ */
+export interface ShipLoadout {
+  hull: number;
+  shields: number;
+  shieldType: ShieldType;
+  weapons: string[];
+}
+
+/**
+ * One side of a simulated battle
+ */
+export interface FleetLoadout {
+  name: string;
+  ships: Array<{
+    name: string;
+    shipType: string;
+    loadout?: ShipLoadout; // Defaults to the ship type's standard loadout
+    behaviour?: 'pirate' | 'patrol';
+  }>;
+}
+
+/**
+ * Headless combat simulation
+ */
+export interface CombatSimulationConfig {
+  fleets: [FleetLoadout, FleetLoadout];
+  seed: number;
+  maxTicks?: number;
+  startDistance?: number;
+}
+
+export interface CombatLogEvent {
+  tick: number;
+  type: CombatActionType | 'disabled' | 'destroyed' | 'fled';
+  actorId: string;
+  targetId?: string;
+  weaponId?: string;
+  success: boolean;
+  damage?: number;
+  message: string;
+}
+
+export interface FleetSimulationStats {
+  name: string;
+  shotsFired: number;
+  hits: number;
+  damageDealt: number;
+  shipsLost: number; // Destroyed or disabled
+  shipsFled: number;
+  shipsRemaining: number;
+}
+
+export interface CombatSimulationResult {
+  seed: number;
+  winner: string | null; // Fleet name, or null for a draw
+  ticks: number;
+  log: CombatLogEvent[];
+  fleets: FleetSimulationStats[];
+}
+
+export interface WeaponBalanceStats {
+  shotsFired: number;
+  hits: number;
+  damageDealt: number;
+  damagePerShot: number;
+}
+
+export interface CombatBatchReport {
+  fights: number;
+  draws: number;
+  wins: Record<string, number>;
+  winRates: Record<string, number>;
+  averageTicks: number;
+  weapons: Record<string, WeaponBalanceStats>;
+}
@@ -16,6 +16,7 @@ export interface Market {
   stationId: string;
   commodities: Map<string, MarketCommodity>;
   lastUpdate: number; // Timestamp of last market update
+  orders: MarketOrder[]; // Resting limit orders, all commodities
   demandFactors: {
     stationType: number; // Multiplier based on station type
     population: number; // Multiplier based on station population
@@ -36,6 +37,43 @@ export interface MarketCommodity {
   restockTime: number; // Hours until next restock
 }
 
+export interface MarketOrder {
+  id: string;
+  stationId: string;
+  commodityId: string;
+  side: 'buy' | 'sell';
+  owner: 'player' | 'npc';
+  ownerId: string; // Player, NPC or station trader ID
+  price: number; // Limit price per unit
+  quantity: number; // Units still open
+  filled: number; // Units filled but not yet settled with the owner
+  fillValue: number; // Credits those filled units traded for
+  placedAt: number;
+  expiresAt?: number; // Good until cancelled when unset
+}
+
+export interface PlayerTrade {
+  stationId: string;
+  commodityId: string;
+  side: 'buy' | 'sell'; // From the player's side
+  quantity: number;
+  price: number; // Per unit
+  timestamp: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface OrderBookDepth {
+  commodityId: string;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  spread: number; // Quoted spread as a fraction of the market price
+}
+
 export interface PricePoint {
   timestamp: number;
   price: number;
@@ -142,6 +180,42 @@ export interface EconomicEvent {
     demandMultiplier?: number;
     productionMultiplier?: number;
   };
+  causeId?: string; // EconomicEventCause behind the event
+  chainId?: string; // Shared by an outbreak and everything it spreads or leads to
+  originSystemId?: string;
+  spreadLevel?: number; // Systems away from the outbreak, 0 at its origin
+  nextSpreadTime?: number; // When the event next tries to spread to neighbouring systems
+}
+
+/**
+ * Outside pressure on one commodity in a market, such as economic warfare
+ */
+export interface MarketPressure {
+  type: EconomicEvent['type'];
+  supplyChange?: number; // Fraction of the stock added (or removed when negative)
+  demandChange?: number; // Fraction of the demand added (or removed when negative)
+  priceMultiplier?: number; // Held on top of supply and demand while the pressure lasts
+  durationHours: number;
+  description: string;
+}
+
+export interface EconomicEventCause {
+  id: string;
+  name: string;
+  type: EconomicEvent['type'];
+  commodities: string[]; // Commodities the cause hits
+  stationTypes: StationEconomics['stationType'][]; // Stations where it can break out
+  factions?: string[]; // Factions whose stations are most prone to it
+  effects: EconomicEvent['effects'];
+  durationHours: [number, number];
+  spontaneous: boolean; // False for causes that only follow other events
+  spread?: {
+    chance: number; // Chance per attempt to reach each neighbouring system
+    intervalHours: number;
+    maxLevel: number; // Furthest number of systems from the origin it reaches
+  };
+  followUps?: Array<{ causeId: string; chance: number }>; // Rolled when the event ends
+  description: string; // {location} is replaced with the system name
 }
 
 // Trade route analysis types
@@ -157,9 +231,10 @@ export interface TradeRoute {
   profitPerHour: number;
   risk: number; // 0-1, based on security levels along route
   volume: number; // How much can be traded
+  fuelCost: number; // Credits of fuel burned on the trip, gate jumps included
   lastCalculated: number; // Timestamp
   // Gate information for cross-sector routes
-  gateCost?: number; // Energy cost to use gate
+  gateCost?: number; // Fuel cost to use gate
   gateId?: string; // Gate ID required for this route
   requiresGate?: boolean; // Whether this route requires gate travel
 }
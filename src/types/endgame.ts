@@ -0,0 +1,47 @@
+/**
+ * Endgame Runtime Types
+ *
+ * This module defines types for:
+ * - Prestige earned during a run
+ * - Legacy carried from one generation to the next by New Game+
+ * - Challenge-mode modifiers read by the economy, combat, social and progression systems
+ */
+
+export type ChallengeModifierCategory = 'economic' | 'combat' | 'social';
+
+/**
+ * A prestige earned in the current run
+ */
+export interface EarnedPrestige {
+  prestigeId: string;
+  title?: string;
+  earnedAt: number; // Game timestamp
+}
+
+/**
+ * Progress inherited from earlier generations
+ */
+export interface EndgameLegacy {
+  generation: number; // 1 for the first run
+  prestige: string[]; // Prestige earned by any earlier generation
+  features: string[]; // New Game+ features the current run started with
+  permanentBonuses: Record<string, number>; // Applied at the start of every later generation
+  bonuses: Record<string, number>; // Starting bonuses with no starting-state equivalent
+}
+
+/**
+ * Challenge mode locked in for the current run
+ */
+export interface ActiveChallenge {
+  modeId: string;
+  startedAt: number; // Game timestamp
+}
+
+/**
+ * Read-only view of endgame state for systems that apply its bonuses and modifiers
+ */
+export interface EndgameModifierSource {
+  getChallengeModifier(category: ChallengeModifierCategory, key: string, fallback?: number): number;
+  getPrestigeBonus(key: string): number;
+  getExperienceMultiplier(): number;
+}
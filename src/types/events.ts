@@ -34,6 +34,7 @@ export interface EventChoice {
     experience?: number;
     items?: string[];
     cargo?: { [commodityId: string]: number };
+    fuel?: number; // Fuel units added to the player's ship
     unlocks?: string[];
     nextEvent?: string;
   };
@@ -116,14 +116,100 @@ export interface HackingAttempt {
  * Hacking minigame mechanics
  */
 export interface HackingMinigame {
-  type: 'password-crack' | 'pattern-match' | 'circuit-bypass' | 'code-inject';
+  type: HackingMinigameType;
   difficulty: number;
   timeLimit?: number; // Seconds
   parameters: {
     [key: string]: any; // Game-specific parameters
   };
+  startedAt: number; // Real time the puzzle was dealt, for the time limit
+  puzzle: HackingPuzzle; // What the player can see and has done so far
   success: boolean;
-  score: number; // Performance score
+  score: number; // Performance score, worked out by the puzzle engine
+}
+
+export type HackingMinigameType = 'password-crack' | 'pattern-match' | 'circuit-bypass' | 'code-inject';
+
+export type HackingPuzzleStatus = 'in_progress' | 'solved' | 'failed';
+
+/**
+ * Guess a hidden code; every guess marks each position correct, or whether the
+ * right symbol comes higher or lower in the symbol set
+ */
+export interface PasswordCrackPuzzle {
+  type: 'password-crack';
+  status: HackingPuzzleStatus;
+  length: number;
+  symbols: string; // In order, for the higher/lower hints
+  attemptsAllowed: number;
+  guesses: Array<{ guess: string; feedback: Array<'correct' | 'higher' | 'lower'> }>;
+}
+
+/**
+ * Repeat a growing sequence of grid cells; each round adds one cell
+ */
+export interface PatternMatchPuzzle {
+  type: 'pattern-match';
+  status: HackingPuzzleStatus;
+  gridSize: number;
+  rounds: number;
+  round: number; // 1-based
+  shown: number[]; // Cells to play back this round, in order
+  entered: number[];
+  roundStartedAt: number;
+  secondsPerRound: number;
+  strikes: number;
+  strikesAllowed: number;
+}
+
+/**
+ * Rotate circuit tiles until power can flow from the entry on the left edge to the exit on the right.
+ * Tiles are bitmasks of their open sides (N=1, E=2, S=4, W=8), row by row.
+ */
+export interface CircuitBypassPuzzle {
+  type: 'circuit-bypass';
+  status: HackingPuzzleStatus;
+  columns: number;
+  rows: number;
+  tiles: number[];
+  entryRow: number;
+  exitRow: number;
+  rotations: number;
+  minimumRotations: number;
+  faults: number; // Failed tests of the circuit
+  faultsAllowed: number;
+}
+
+/**
+ * Find every line that copies unchecked input into a buffer
+ */
+export interface CodeInjectPuzzle {
+  type: 'code-inject';
+  status: HackingPuzzleStatus;
+  lines: string[];
+  injectionPoints: number;
+  found: number[];
+  misses: number;
+  missesAllowed: number;
+}
+
+export type HackingPuzzle = PasswordCrackPuzzle | PatternMatchPuzzle | CircuitBypassPuzzle | CodeInjectPuzzle;
+
+export type HackingMinigameMove =
+  | { type: 'guess'; guess: string }
+  | { type: 'select'; cell: number }
+  | { type: 'rotate'; x: number; y: number }
+  | { type: 'test' }
+  | { type: 'inject'; line: number };
+
+export interface HackingMoveResult {
+  valid: boolean;
+  error?: string;
+  message?: string;
+  puzzle?: HackingPuzzle;
+  finished: boolean;
+  success?: boolean;
+  score?: number;
 }
 
 /**
@@ -286,7 +372,6 @@ export interface HackingSession {
   target: HackingTarget;
   equipment: HackingEquipment;
   software: HackingSoftware[];
-  currentMinigame?: HackingMinigame;
   phaseResults: {
     [phase in HackingPhase]?: {
       success: boolean;
@@ -351,18 +351,61 @@ export interface SectorAnalysis {
  */
 export interface FinancialInstrument {
   id: string;
-  type: 'bond' | 'derivative' | 'option' | 'future' | 'swap';
-  underlyingAsset: string;
+  name: string;
+  type: 'bond' | 'equity' | 'derivative' | 'option' | 'future' | 'swap';
+  underlyingAsset: string; // Station ID or faction name whose economy backs it
+  issuerType: 'station' | 'faction';
   strikePrice?: number;
-  expirationDate: number;
-  premium: number;
-  payoff: number;
+  expirationDate: number; // Maturity; 0 for equity, which never expires
+  premium: number; // Price per unit at issue
+  currentPrice: number; // Price per unit today
+  payoff: number; // Coupon or dividend per unit at the last payment
+  faceValue?: number; // Bonds: repaid per unit at maturity
+  couponRate?: number; // Bonds: annual interest on the face value
+  lastPaymentDate: number;
   riskProfile: RiskLevel;
   liquidity: 'high' | 'medium' | 'low';
   counterparty: string; // Faction or institution
   terms: string[];
 }
 
+/**
+ * Player's position in a financial instrument
+ */
+export interface InstrumentHolding {
+  instrumentId: string;
+  units: number;
+  averageCost: number; // Per unit
+  incomeReceived: number; // Coupons and dividends paid out so far
+}
+
+export type LoanStatus = 'active' | 'repaid' | 'defaulted';
+
+/**
+ * Credit a faction has lent the player
+ */
+export interface Loan {
+  id: string;
+  lenderFactionId: string;
+  principal: number;
+  balance: number; // Outstanding, interest included
+  annualRate: number;
+  takenAt: number;
+  dueDate: number;
+  lastInterestTime: number;
+  status: LoanStatus;
+}
+
+/**
+ * Credit a faction is willing to extend to the player
+ */
+export interface LoanOffer {
+  lenderFactionId: string;
+  maxAmount: number;
+  annualRate: number;
+  termDays: number;
+}
+
 /**
  * Economic war between factions affecting markets
  */
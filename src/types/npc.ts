@@ -128,8 +128,11 @@ export interface NPCConversation {
     systemSecurity: number;
     recentEvents: string[]; // Recent event IDs that might affect conversation
   };
+  treeId: string; // ConversationTree the dialogue was authored in
   dialogue: ConversationNode[];
   currentNodeId: string;
+  nodeRoll?: number; // 0-100 roll 'random' conditions on the current node are checked against, made on entry
+  history: ConversationState['conversationHistory'];
   startTime: number;
 }
 
@@ -152,24 +155,37 @@ export interface ConversationChoice {
     requiredSkills?: string[]; // Skill names needed for this choice
     requiredItems?: string[]; // Item IDs needed
   };
+  conditions?: ConversationCondition[]; // Conditions to offer this choice
   consequences: ConversationEffect[];
   nextNodeId: string;
 }
 
 export interface ConversationCondition {
-  type: 'reputation' | 'credits' | 'faction' | 'skill' | 'item' | 'random';
+  type: 'reputation' | 'credits' | 'faction' | 'skill' | 'item' | 'cargo' | 'quest_flag' | 'random';
   operator: '>' | '<' | '>=' | '<=' | '==' | '!=';
   value: any;
-  target?: string; // For faction, skill, item conditions
+  target?: string; // Faction, skill, commodity or flag; reputation without a target is the NPC's own attitude
 }
 
 export interface ConversationEffect {
-  type: 'reputation' | 'credits' | 'cargo' | 'information' | 'combat' | 'mission';
+  type: 'reputation' | 'credits' | 'cargo' | 'information' | 'combat' | 'mission' | 'quest_flag' | 'contact';
   target?: string; // Faction for reputation, commodity for cargo, etc.
-  value: number | string;
+  value: number | string | boolean;
   message?: string; // Optional player feedback message
 }
 
+/**
+ * Dialogue authored as data for one or more NPC types
+ */
+export interface ConversationTree {
+  id: string;
+  npcTypes: NPCShip['type'][];
+  priority: number; // The highest-priority tree whose conditions pass is used
+  conditions?: ConversationCondition[];
+  startNodeId: string;
+  nodes: ConversationNode[]; // Nodes sharing an id are alternatives; the first whose conditions pass is shown
+}
+
 export interface NPCMarketBehavior {
   npcId: string;
   systemId: string;
@@ -27,6 +27,7 @@ export interface Ship {
   equipment: ShipEquipment;
   condition: ShipCondition;
   location: ShipLocation;
+  fuel?: number; // Current fuel units; a full tank when missing (older saves)
   hubDesign?: import('./shipHubs').ShipHubDesign; // Hub-based ship design for visual rendering
 }
 
@@ -81,6 +82,7 @@ export interface EquipmentItem {
     scannerRange?: number;
     weaponDamage?: number;
     accuracy?: number;
+    shelfLifeBonus?: number; // Extra shelf life for perishable cargo (0.5 = 50% longer)
   };
   condition: number; // 0-1, affects performance
 }
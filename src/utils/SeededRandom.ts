@@ -0,0 +1,101 @@
+/**
+ * SeededRandom - Deterministic random number generator shared by game systems
+ *
+ * Uses mulberry32, a small 32-bit generator whose whole state is one integer.
+ * The state is saved with the game, so a loaded save continues the exact
+ * sequence it would have produced had play never stopped.
+ */
+
+export interface SeededRandomState {
+  seed: number;
+  state: number;
+}
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a seed for a new session
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1), a drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max] inclusive
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Copy of the array in random order
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restart the sequence from a new seed
+   */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getState(): SeededRandomState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  setState(state: SeededRandomState): void {
+    this.seed = state.seed >>> 0;
+    this.state = state.state >>> 0;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * LZ-based string compression for save data.
+ *
+ * Uses an LZW dictionary with growing code widths and packs the output into
+ * 15 bits per UTF-16 character, offset past control characters. The result
+ * never contains surrogate halves, so it is safe to keep in localStorage.
+ */
+
+const UTF16_BITS_PER_CHAR = 15;
+const UTF16_CHAR_OFFSET = 32;
+
+/**
+ * Compress a string into a compact UTF-16 string
+ */
+export function compressToUTF16(input: string): string {
+  return lzCompress(input, UTF16_BITS_PER_CHAR, value => String.fromCharCode(value + UTF16_CHAR_OFFSET)) + ' ';
+}
+
+/**
+ * Decompress a string produced by compressToUTF16.
+ * Returns null when the data is malformed.
+ */
+export function decompressFromUTF16(compressed: string): string | null {
+  if (compressed === '') return '';
+  return lzDecompress(
+    compressed.length,
+    1 << (UTF16_BITS_PER_CHAR - 1),
+    index => compressed.charCodeAt(index) - UTF16_CHAR_OFFSET
+  );
+}
+
+/**
+ * 32-bit FNV-1a checksum of a string, as 8 hex digits
+ */
+export function checksum(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function lzCompress(input: string, bitsPerChar: number, toChar: (value: number) => string): string {
+  const dictionary = new Map<string, number>();
+  const pendingLiterals = new Set<string>();
+  const output: string[] = [];
+  let phrase = '';
+  let dictSize = 3; // 0, 1 and 2 are reserved for 8-bit literal, 16-bit literal and end of stream
+  let numBits = 2;
+  let enlargeIn = 2;
+  let bitBuffer = 0;
+  let bitPosition = 0;
+
+  const writeBits = (value: number, count: number): void => {
+    for (let i = 0; i < count; i++) {
+      bitBuffer = (bitBuffer << 1) | (value & 1);
+      if (bitPosition === bitsPerChar - 1) {
+        output.push(toChar(bitBuffer));
+        bitBuffer = 0;
+        bitPosition = 0;
+      } else {
+        bitPosition++;
+      }
+      value >>= 1;
+    }
+  };
+
+  const countCode = (): void => {
+    enlargeIn--;
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  };
+
+  const emit = (value: string): void => {
+    if (pendingLiterals.has(value)) {
+      const code = value.charCodeAt(0);
+      if (code < 256) {
+        writeBits(0, numBits);
+        writeBits(code, 8);
+      } else {
+        writeBits(1, numBits);
+        writeBits(code, 16);
+      }
+      countCode();
+      pendingLiterals.delete(value);
+    } else {
+      writeBits(dictionary.get(value) as number, numBits);
+    }
+    countCode();
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i);
+    if (!dictionary.has(char)) {
+      dictionary.set(char, dictSize++);
+      pendingLiterals.add(char);
+    }
+
+    const extended = phrase + char;
+    if (dictionary.has(extended)) {
+      phrase = extended;
+    } else {
+      emit(phrase);
+      dictionary.set(extended, dictSize++);
+      phrase = char;
+    }
+  }
+
+  if (phrase !== '') {
+    emit(phrase);
+  }
+
+  // End of stream marker, then flush the last partial character
+  writeBits(2, numBits);
+  for (;;) {
+    bitBuffer <<= 1;
+    if (bitPosition === bitsPerChar - 1) {
+      output.push(toChar(bitBuffer));
+      break;
+    }
+    bitPosition++;
+  }
+
+  return output.join('');
+}
+
+function lzDecompress(length: number, resetValue: number, getValue: (index: number) => number): string | null {
+  const dictionary: string[] = ['', '', ''];
+  const result: string[] = [];
+  let dictSize = 4;
+  let numBits = 3;
+  let enlargeIn = 4;
+  let currentValue = getValue(0);
+  let position = resetValue;
+  let index = 1;
+
+  const readBits = (count: number): number => {
+    let bits = 0;
+    for (let power = 1; power !== 1 << count; power <<= 1) {
+      const bit = currentValue & position;
+      position >>= 1;
+      if (position === 0) {
+        position = resetValue;
+        currentValue = getValue(index++);
+      }
+      if (bit > 0) bits |= power;
+    }
+    return bits;
+  };
+
+  let phrase: string;
+  switch (readBits(2)) {
+    case 0:
+      phrase = String.fromCharCode(readBits(8));
+      break;
+    case 1:
+      phrase = String.fromCharCode(readBits(16));
+      break;
+    case 2:
+      return '';
+    default:
+      return null;
+  }
+  dictionary[3] = phrase;
+  result.push(phrase);
+
+  for (;;) {
+    if (index > length) return null; // Ran out of data before the end marker
+
+    let code = readBits(numBits);
+    switch (code) {
+      case 0:
+        dictionary[dictSize++] = String.fromCharCode(readBits(8));
+        code = dictSize - 1;
+        enlargeIn--;
+        break;
+      case 1:
+        dictionary[dictSize++] = String.fromCharCode(readBits(16));
+        code = dictSize - 1;
+        enlargeIn--;
+        break;
+      case 2:
+        return result.join('');
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+
+    let entry: string;
+    if (code < dictSize && dictionary[code] !== undefined && code > 2) {
+      entry = dictionary[code];
+    } else if (code === dictSize) {
+      entry = phrase + phrase.charAt(0);
+    } else {
+      return null;
+    }
+    result.push(entry);
+
+    dictionary[dictSize++] = phrase + entry.charAt(0);
+    enlargeIn--;
+    phrase = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { Ship } from '../types/player';
+import { NPCShip } from '../types/npc';
+
+/**
+ * Fuel rules shared by navigation, gate travel, station refuelling and route analysis.
+ * Ships burn fuel by distance flown, scaled by engine efficiency; gate jumps cost
+ * the gate's energyCost in fuel. A ship with no recorded fuel level (saves from
+ * before fuel existed) is treated as carrying a full tank. NPC ships follow the
+ * same rules, with their 0-100 condition standing in for engine efficiency.
+ */
+
+export const FUEL_DISTANCE_PER_UNIT = 100; // Distance one fuel unit carries a ship with stock engines
+export const FUEL_PRICE_PER_UNIT = 5; // Credits per fuel unit at station refuel services
+
+export function getFuelCapacity(ship: Ship): number {
+  return ship.class.baseFuelCapacity;
+}
+
+export function getCurrentFuel(ship: Ship): number {
+  return typeof ship.fuel === 'number' ? ship.fuel : getFuelCapacity(ship);
+}
+
+/**
+ * Engine fuel efficiency: 1.0 for stock engines, higher burns less fuel.
+ * Engine upgrades add their bonus (scaled by their condition) and a worn ship
+ * loses efficiency the same way MaintenanceManager reports it.
+ */
+export function getFuelEfficiency(ship: Ship): number {
+  let efficiency = 1.0;
+  for (const engine of ship.equipment.engines) {
+    if (engine.effects.fuelEfficiency) {
+      efficiency += engine.effects.fuelEfficiency * engine.condition;
+    }
+  }
+
+  const averageCondition = (
+    ship.condition.hull +
+    ship.condition.engines +
+    ship.condition.cargo +
+    ship.condition.shields
+  ) / 4;
+
+  return efficiency * Math.max(0.4, averageCondition);
+}
+
+/**
+ * Fuel burned flying the given distance
+ */
+export function calculateTravelFuelCost(ship: Ship, distance: number): number {
+  return distance / FUEL_DISTANCE_PER_UNIT / getFuelEfficiency(ship);
+}
+
+export function hasFuel(ship: Ship, amount: number): boolean {
+  return getCurrentFuel(ship) >= amount;
+}
+
+/**
+ * Burn fuel from the tank. Returns false, leaving the tank untouched, when there is not enough.
+ */
+export function consumeFuel(ship: Ship, amount: number): boolean {
+  if (!hasFuel(ship, amount)) return false;
+  ship.fuel = Math.max(0, getCurrentFuel(ship) - amount);
+  return true;
+}
+
+/**
+ * Add fuel up to the tank capacity. Returns the amount actually added.
+ */
+export function addFuel(ship: Ship, amount: number): number {
+  const current = getCurrentFuel(ship);
+  const added = Math.max(0, Math.min(amount, getFuelCapacity(ship) - current));
+  ship.fuel = current + added;
+  return added;
+}
+
+/**
+ * NPC engine efficiency: NPC ships carry no engine upgrades, so only wear counts
+ */
+export function getNPCFuelEfficiency(ship: NPCShip['ship']): number {
+  return Math.max(0.4, ship.condition / 100);
+}
+
+/**
+ * Fuel an NPC ship burns flying the given distance
+ */
+export function calculateNPCTravelFuelCost(ship: NPCShip['ship'], distance: number): number {
+  return distance / FUEL_DISTANCE_PER_UNIT / getNPCFuelEfficiency(ship);
+}
+
+/**
+ * Burn fuel from an NPC's tank. Returns false, leaving the tank untouched, when there is not enough.
+ */
+export function consumeNPCFuel(ship: NPCShip['ship'], amount: number): boolean {
+  if (ship.fuel < amount) return false;
+  ship.fuel = Math.max(0, ship.fuel - amount);
+  return true;
+}
@@ -0,0 +1,459 @@
+import {
+  CircuitBypassPuzzle,
+  CodeInjectPuzzle,
+  HackingMinigame,
+  HackingMinigameMove,
+  HackingMinigameType,
+  HackingPuzzle,
+  PasswordCrackPuzzle,
+  PatternMatchPuzzle
+} from '../types/hacking';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Puzzle engines for the four hacking minigames. A puzzle is dealt from the
+ * minigame's parameters and a seed, so the engine can always rebuild the
+ * hidden solution; the player only ever sees the puzzle state. Moves are
+ * validated here and the score comes from how the puzzle was played.
+ */
+
+const PASSWORD_SYMBOLS = '0123456789ABCDEF'; // Symbol sets are the first few of these, in order
+const PATTERN_STRIKES_ALLOWED = 2; // Wrong or slow playbacks before the pattern lock trips
+const CODE_LINES_PER_LENGTH = 5; // Characters of code length per line of listing
+
+// Open sides of a circuit tile
+const N = 1;
+const E = 2;
+const S = 4;
+const W = 8;
+const CIRCUIT_SHAPES = [N | S, E | W, N | E, E | S, S | W, W | N];
+
+const FILLER_INSTRUCTIONS = ['NOP', 'PUSH r1', 'POP r2', 'ADD r1, r2', 'CMP r1, 0', 'JMP loop', 'XOR r3, r3'];
+
+/**
+ * What the engine knows and the player has to work out
+ */
+export interface HackingPuzzleSolution {
+  code?: string; // password-crack
+  sequence?: number[]; // pattern-match
+  tiles?: number[]; // circuit-bypass: the intended route, 0 off the route
+  vulnerableLines?: number[]; // code-inject
+}
+
+export interface PuzzleMoveOutcome {
+  valid: boolean;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Deal a puzzle and its solution; the same type, parameters and seed always deal the same puzzle
+ */
+export function createPuzzle(
+  type: HackingMinigameType,
+  parameters: HackingMinigame['parameters'],
+  seed: number,
+  now: number
+): { puzzle: HackingPuzzle; solution: HackingPuzzleSolution } {
+  const random = new SeededRandom(seed);
+  switch (type) {
+    case 'password-crack':
+      return createPasswordCrack(parameters, random);
+    case 'pattern-match':
+      return createPatternMatch(parameters, random, now);
+    case 'circuit-bypass':
+      return createCircuitBypass(parameters, random);
+    case 'code-inject':
+      return createCodeInject(parameters, random);
+  }
+}
+
+/**
+ * Check a move against the rules and the solution, and play it on the puzzle if it is legal
+ */
+export function applyPuzzleMove(
+  puzzle: HackingPuzzle,
+  solution: HackingPuzzleSolution,
+  move: HackingMinigameMove,
+  now: number
+): PuzzleMoveOutcome {
+  if (puzzle.status !== 'in_progress') {
+    return { valid: false, error: 'The puzzle is already finished' };
+  }
+
+  if (puzzle.type === 'password-crack' && move.type === 'guess') {
+    return guessPassword(puzzle, solution.code!, move.guess);
+  }
+  if (puzzle.type === 'pattern-match' && move.type === 'select') {
+    return selectPatternCell(puzzle, solution.sequence!, move.cell, now);
+  }
+  if (puzzle.type === 'circuit-bypass' && move.type === 'rotate') {
+    return rotateCircuitTile(puzzle, move.x, move.y);
+  }
+  if (puzzle.type === 'circuit-bypass' && move.type === 'test') {
+    return testCircuit(puzzle);
+  }
+  if (puzzle.type === 'code-inject' && move.type === 'inject') {
+    return injectCode(puzzle, solution.vulnerableLines!, move.line);
+  }
+  return { valid: false, error: `'${move.type}' is not a move in ${puzzle.type}` };
+}
+
+/**
+ * Score a finished puzzle from 0 to 100; unsolved puzzles score nothing
+ */
+export function scorePuzzle(puzzle: HackingPuzzle): number {
+  if (puzzle.status !== 'solved') return 0;
+
+  switch (puzzle.type) {
+    case 'password-crack':
+      return Math.round(100 * (puzzle.attemptsAllowed - puzzle.guesses.length + 1) / puzzle.attemptsAllowed);
+    case 'pattern-match':
+      return Math.max(0, 100 - puzzle.strikes * 25);
+    case 'circuit-bypass': {
+      // Another route can beat the intended one, so efficiency is capped at 1
+      const efficiency = Math.min(1, puzzle.minimumRotations / Math.max(1, puzzle.rotations));
+      return Math.max(0, Math.round(100 * efficiency - puzzle.faults * 15));
+    }
+    case 'code-inject':
+      return Math.max(0, 100 - puzzle.misses * 20);
+  }
+}
+
+/**
+ * Rotate a circuit tile's open sides a quarter turn clockwise
+ */
+export function rotateTile(tile: number): number {
+  return ((tile << 1) | (tile >> 3)) & 15;
+}
+
+/**
+ * Whether power can flow through open, facing tile sides from the entry to the exit
+ */
+export function isCircuitConnected(puzzle: CircuitBypassPuzzle): boolean {
+  const { columns, rows, tiles } = puzzle;
+  const start = puzzle.entryRow * columns;
+  if (!(tiles[start] & W)) return false;
+
+  const visited = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const index = queue.shift()!;
+    const x = index % columns;
+    const y = Math.floor(index / columns);
+    if (x === columns - 1 && y === puzzle.exitRow && tiles[index] & E) return true;
+
+    for (const [side, dx, dy] of [[N, 0, -1], [E, 1, 0], [S, 0, 1], [W, -1, 0]]) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (!(tiles[index] & side) || nx < 0 || ny < 0 || nx >= columns || ny >= rows) continue;
+
+      const neighbour = ny * columns + nx;
+      if (!visited.has(neighbour) && tiles[neighbour] & rotateTile(rotateTile(side))) {
+        visited.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+  }
+  return false;
+}
+
+function createPasswordCrack(
+  parameters: HackingMinigame['parameters'],
+  random: SeededRandom
+): { puzzle: PasswordCrackPuzzle; solution: HackingPuzzleSolution } {
+  const symbols = PASSWORD_SYMBOLS.slice(0, Math.min(PASSWORD_SYMBOLS.length, 4 + (parameters.complexity ?? 1) * 2));
+  const length = Math.max(1, parameters.length ?? 4);
+  const code = Array.from({ length }, () => random.pick([...symbols])).join('');
+
+  return {
+    puzzle: {
+      type: 'password-crack',
+      status: 'in_progress',
+      length,
+      symbols,
+      // Always enough guesses to binary-search every position at once
+      attemptsAllowed: Math.max(parameters.attempts ?? 3, Math.ceil(Math.log2(symbols.length)) + 1),
+      guesses: []
+    },
+    solution: { code }
+  };
+}
+
+function guessPassword(puzzle: PasswordCrackPuzzle, code: string, rawGuess: string): PuzzleMoveOutcome {
+  const guess = rawGuess.trim().toUpperCase();
+  if (guess.length !== puzzle.length) {
+    return { valid: false, error: `The password is ${puzzle.length} characters long` };
+  }
+  if ([...guess].some(symbol => !puzzle.symbols.includes(symbol))) {
+    return { valid: false, error: `Passwords only use ${puzzle.symbols}` };
+  }
+
+  const feedback = [...guess].map((symbol, index) => {
+    const difference = puzzle.symbols.indexOf(code[index]) - puzzle.symbols.indexOf(symbol);
+    return difference === 0 ? 'correct' as const : difference > 0 ? 'higher' as const : 'lower' as const;
+  });
+  puzzle.guesses.push({ guess, feedback });
+
+  const correct = feedback.filter(mark => mark === 'correct').length;
+  if (correct === puzzle.length) {
+    puzzle.status = 'solved';
+    return { valid: true, message: 'Password accepted' };
+  }
+  if (puzzle.guesses.length >= puzzle.attemptsAllowed) {
+    puzzle.status = 'failed';
+    return { valid: true, message: 'Account locked out' };
+  }
+  return { valid: true, message: `${correct} of ${puzzle.length} characters correct` };
+}
+
+function createPatternMatch(
+  parameters: HackingMinigame['parameters'],
+  random: SeededRandom,
+  now: number
+): { puzzle: PatternMatchPuzzle; solution: HackingPuzzleSolution } {
+  const gridSize = Math.max(2, parameters.gridSize ?? 3);
+  const rounds = Math.max(1, parameters.patternCount ?? 2);
+  const sequence: number[] = [];
+  while (sequence.length < rounds) {
+    const cell = random.int(0, gridSize * gridSize - 1);
+    // Never light the same cell twice running
+    if (cell !== sequence[sequence.length - 1]) {
+      sequence.push(cell);
+    }
+  }
+
+  return {
+    puzzle: {
+      type: 'pattern-match',
+      status: 'in_progress',
+      gridSize,
+      rounds,
+      round: 1,
+      shown: sequence.slice(0, 1),
+      entered: [],
+      roundStartedAt: now,
+      secondsPerRound: parameters.timePerPattern ?? 10,
+      strikes: 0,
+      strikesAllowed: PATTERN_STRIKES_ALLOWED
+    },
+    solution: { sequence }
+  };
+}
+
+function selectPatternCell(puzzle: PatternMatchPuzzle, sequence: number[], cell: number, now: number): PuzzleMoveOutcome {
+  if (!Number.isInteger(cell) || cell < 0 || cell >= puzzle.gridSize * puzzle.gridSize) {
+    return { valid: false, error: `There is no cell ${cell}` };
+  }
+
+  const strike = (reason: string): PuzzleMoveOutcome => {
+    puzzle.strikes++;
+    puzzle.entered = [];
+    puzzle.roundStartedAt = now;
+    if (puzzle.strikes > puzzle.strikesAllowed) {
+      puzzle.status = 'failed';
+      return { valid: true, message: `${reason} - the pattern lock tripped` };
+    }
+    return { valid: true, message: `${reason} - the pattern replays` };
+  };
+
+  if (cell !== sequence[puzzle.entered.length]) {
+    return strike('Wrong cell');
+  }
+  puzzle.entered.push(cell);
+  if (puzzle.entered.length < puzzle.round) {
+    return { valid: true };
+  }
+
+  // Each round allows its time plus a second per cell to play back
+  if (now - puzzle.roundStartedAt > (puzzle.secondsPerRound + puzzle.round) * 1000) {
+    return strike('Too slow');
+  }
+  if (puzzle.round === puzzle.rounds) {
+    puzzle.status = 'solved';
+    return { valid: true, message: 'Pattern accepted' };
+  }
+
+  puzzle.round++;
+  puzzle.shown = sequence.slice(0, puzzle.round);
+  puzzle.entered = [];
+  puzzle.roundStartedAt = now;
+  return { valid: true, message: `Round ${puzzle.round} of ${puzzle.rounds}` };
+}
+
+function createCircuitBypass(
+  parameters: HackingMinigame['parameters'],
+  random: SeededRandom
+): { puzzle: CircuitBypassPuzzle; solution: HackingPuzzleSolution } {
+  const columns = Math.min(10, Math.max(2, parameters.complexity ?? 3));
+  const rows = Math.min(6, 2 + Math.floor((parameters.components ?? 5) / 4));
+  const route: number[] = new Array(columns * rows).fill(0);
+  const entryRow = random.int(0, rows - 1);
+
+  // Lay a route from the left edge to the right, wandering up or down within each column
+  let y = entryRow;
+  let from = W;
+  for (let x = 0; x < columns; x++) {
+    const target = random.int(0, rows - 1);
+    while (y !== target) {
+      const to = target > y ? S : N;
+      route[y * columns + x] = from | to;
+      y += to === S ? 1 : -1;
+      from = to === S ? N : S;
+    }
+    route[y * columns + x] = from | E;
+    from = W;
+  }
+
+  const routeIndices = route.flatMap((tile, index) => tile ? [index] : []);
+  const tiles = route.map(tile => {
+    let scrambled = tile || random.pick(CIRCUIT_SHAPES);
+    for (let turns = random.int(0, 3); turns > 0; turns--) {
+      scrambled = rotateTile(scrambled);
+    }
+    return scrambled;
+  });
+  if (routeIndices.every(index => tiles[index] === route[index])) {
+    tiles[routeIndices[0]] = rotateTile(tiles[routeIndices[0]]);
+  }
+
+  const turnsToSolve = (index: number) => {
+    let turns = 0;
+    for (let tile = tiles[index]; tile !== route[index]; tile = rotateTile(tile)) {
+      turns++;
+    }
+    return turns;
+  };
+
+  return {
+    puzzle: {
+      type: 'circuit-bypass',
+      status: 'in_progress',
+      columns,
+      rows,
+      tiles,
+      entryRow,
+      exitRow: y,
+      rotations: 0,
+      minimumRotations: routeIndices.reduce((total, index) => total + turnsToSolve(index), 0),
+      faults: 0,
+      faultsAllowed: parameters.errorTolerance ?? 1
+    },
+    solution: { tiles: route }
+  };
+}
+
+function rotateCircuitTile(puzzle: CircuitBypassPuzzle, x: number, y: number): PuzzleMoveOutcome {
+  if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= puzzle.columns || y >= puzzle.rows) {
+    return { valid: false, error: `There is no tile at ${x}, ${y}` };
+  }
+
+  const index = y * puzzle.columns + x;
+  puzzle.tiles[index] = rotateTile(puzzle.tiles[index]);
+  puzzle.rotations++;
+  return { valid: true };
+}
+
+function testCircuit(puzzle: CircuitBypassPuzzle): PuzzleMoveOutcome {
+  if (isCircuitConnected(puzzle)) {
+    puzzle.status = 'solved';
+    return { valid: true, message: 'Power flows through the bypass' };
+  }
+
+  puzzle.faults++;
+  if (puzzle.faults > puzzle.faultsAllowed) {
+    puzzle.status = 'failed';
+    return { valid: true, message: 'The open circuit tripped the alarm' };
+  }
+  return { valid: true, message: 'The circuit is still open' };
+}
+
+function createCodeInject(
+  parameters: HackingMinigame['parameters'],
+  random: SeededRandom
+): { puzzle: CodeInjectPuzzle; solution: HackingPuzzleSolution } {
+  const lineCount = Math.min(20, Math.max(6, Math.round((parameters.codeLength ?? 20) / CODE_LINES_PER_LENGTH)));
+  const syntaxComplexity = parameters.syntaxComplexity ?? 1;
+  const lines: Array<string | null> = new Array(lineCount).fill(null);
+  const buffer = () => `buf${random.int(1, 4)}`;
+
+  const vulnerable = new Set<number>();
+  const wanted = Math.min(parameters.injectionPoints ?? 2, Math.floor(lineCount / 2));
+  while (vulnerable.size < wanted) {
+    vulnerable.add(random.int(0, lineCount - 1));
+  }
+  vulnerable.forEach(index => { lines[index] = `COPY ${buffer()}, input`; });
+
+  // Harder code hides the flaws among safe copies that look alike
+  for (let index = 0; index < lineCount; index++) {
+    if (lines[index] !== null) continue;
+
+    const pairFits = index + 1 < lineCount && lines[index + 1] === null;
+    const decoys: Array<() => void> = [
+      () => { lines[index] = `COPY ${buffer()}, 0x${random.int(16, 255).toString(16)}`; }
+    ];
+    if (syntaxComplexity >= 2 && pairFits) {
+      decoys.push(() => { lines[index] = 'CHECK input'; lines[index + 1] = `COPY ${buffer()}, input`; });
+    }
+    if (syntaxComplexity >= 3) {
+      decoys.push(() => { lines[index] = `COPY input, ${buffer()}`; });
+    }
+    if (syntaxComplexity >= 4 && pairFits) {
+      decoys.push(() => { lines[index] = 'CALL sanitize'; lines[index + 1] = `COPY ${buffer()}, input`; });
+    }
+
+    if (random.chance(0.4)) {
+      random.pick(decoys)();
+    } else {
+      lines[index] = random.pick(FILLER_INSTRUCTIONS);
+    }
+  }
+
+  const listing = lines as string[];
+  const vulnerableLines = listing.flatMap((_, index) => isUncheckedCopy(listing, index) ? [index] : []);
+
+  return {
+    puzzle: {
+      type: 'code-inject',
+      status: 'in_progress',
+      lines: listing,
+      injectionPoints: vulnerableLines.length,
+      found: [],
+      misses: 0,
+      missesAllowed: Math.max(1, 4 - syntaxComplexity)
+    },
+    solution: { vulnerableLines }
+  };
+}
+
+/**
+ * A copy of input into a buffer is injectable unless the line before checks or sanitises the input
+ */
+function isUncheckedCopy(lines: string[], index: number): boolean {
+  return /^COPY buf\d, input$/.test(lines[index]) && !['CHECK input', 'CALL sanitize'].includes(lines[index - 1]);
+}
+
+function injectCode(puzzle: CodeInjectPuzzle, vulnerableLines: number[], line: number): PuzzleMoveOutcome {
+  if (!Number.isInteger(line) || line < 0 || line >= puzzle.lines.length) {
+    return { valid: false, error: `There is no line ${line}` };
+  }
+  if (puzzle.found.includes(line)) {
+    return { valid: false, error: `Line ${line + 1} is already injected` };
+  }
+
+  if (vulnerableLines.includes(line)) {
+    puzzle.found.push(line);
+    if (puzzle.found.length === puzzle.injectionPoints) {
+      puzzle.status = 'solved';
+      return { valid: true, message: 'Payload delivered' };
+    }
+    return { valid: true, message: `Injected at line ${line + 1}` };
+  }
+
+  puzzle.misses++;
+  if (puzzle.misses > puzzle.missesAllowed) {
+    puzzle.status = 'failed';
+    return { valid: true, message: 'The injection crashed the process' };
+  }
+  return { valid: true, message: `Line ${line + 1} is not injectable` };
+}
@@ -1 +1,2 @@
-export { Vector2 } from './Vector2';
\ No newline at end of file
+export { Vector2 } from './Vector2';
+export { SeededRandom } from './SeededRandom';
\ No newline at end of file
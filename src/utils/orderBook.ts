@@ -0,0 +1,91 @@
+import { Market, MarketCommodity, MarketOrder, OrderBookDepth, OrderBookLevel } from '../types/economy';
+
+/**
+ * Order book rules for station markets. Limit orders rest on the book until an
+ * order on the other side crosses them; every fill trades at the price of the
+ * order that was resting. Station traders quote both sides around the market
+ * price, wider where the station is lawless or the market thin.
+ */
+
+export const BASE_SPREAD = 0.04; // Spread quoted in a safe, busy market
+export const SECURITY_SPREAD = 0.12; // Extra spread in a station without any security
+export const LIQUIDITY_SPREAD = 0.2; // Extra spread in a market with nothing in stock or wanted
+export const LIQUID_MARKET_UNITS = 300; // Stock plus demand at which a market counts as liquid
+
+/**
+ * Spread station traders quote for a commodity, as a fraction of its market price
+ */
+export function calculateSpread(market: Market, marketCommodity: MarketCommodity): number {
+  const liquidity = Math.min(1, (marketCommodity.available + marketCommodity.demand) / LIQUID_MARKET_UNITS);
+  const security = Math.max(0, Math.min(1, market.demandFactors.securityLevel));
+  return BASE_SPREAD + SECURITY_SPREAD * (1 - security) + LIQUIDITY_SPREAD * (1 - liquidity);
+}
+
+/**
+ * Resting orders an incoming order trades against, best price first and
+ * oldest first at the same price. Orders never trade with their own owner.
+ */
+export function getMatchingOrders(orders: MarketOrder[], incoming: MarketOrder): MarketOrder[] {
+  return orders
+    .filter(order =>
+      order !== incoming &&
+      order.commodityId === incoming.commodityId &&
+      order.side !== incoming.side &&
+      order.ownerId !== incoming.ownerId &&
+      order.quantity > 0 &&
+      (incoming.side === 'buy' ? order.price <= incoming.price : order.price >= incoming.price)
+    )
+    .sort((a, b) =>
+      (incoming.side === 'buy' ? a.price - b.price : b.price - a.price) || a.placedAt - b.placedAt
+    );
+}
+
+/**
+ * Record a fill against an order
+ */
+export function fillOrder(order: MarketOrder, quantity: number, price: number): void {
+  order.quantity -= quantity;
+  order.filled += quantity;
+  order.fillValue += quantity * price;
+}
+
+/**
+ * Trade an incoming order against the book until it is filled or nothing
+ * crosses it. onFill is called for both orders of every fill.
+ */
+export function matchOrder(
+  orders: MarketOrder[],
+  incoming: MarketOrder,
+  onFill: (order: MarketOrder, quantity: number, price: number) => void
+): void {
+  for (const resting of getMatchingOrders(orders, incoming)) {
+    if (incoming.quantity <= 0) break;
+
+    const quantity = Math.min(incoming.quantity, resting.quantity);
+    fillOrder(incoming, quantity, resting.price);
+    fillOrder(resting, quantity, resting.price);
+    onFill(incoming, quantity, resting.price);
+    onFill(resting, quantity, resting.price);
+  }
+}
+
+/**
+ * Open quantity on each side of the book for one commodity, grouped by price
+ */
+export function getOrderBookDepth(orders: MarketOrder[], commodityId: string, spread: number, levels: number = 5): OrderBookDepth {
+  const aggregate = (side: MarketOrder['side']): OrderBookLevel[] => {
+    const byPrice = new Map<number, OrderBookLevel>();
+    for (const order of orders) {
+      if (order.commodityId !== commodityId || order.side !== side || order.quantity <= 0) continue;
+      const level = byPrice.get(order.price) ?? { price: order.price, quantity: 0, orders: 0 };
+      level.quantity += order.quantity;
+      level.orders += 1;
+      byPrice.set(order.price, level);
+    }
+    return Array.from(byPrice.values())
+      .sort((a, b) => side === 'buy' ? b.price - a.price : a.price - b.price)
+      .slice(0, levels);
+  };
+
+  return { commodityId, bids: aggregate('buy'), asks: aggregate('sell'), spread };
+}
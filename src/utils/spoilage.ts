@@ -0,0 +1,82 @@
+import { Ship, CargoItem } from '../types/player';
+import { Commodity } from '../types/economy';
+
+/**
+ * Spoilage rules for perishable cargo. Shelf life runs on game time from the
+ * moment goods are loaded; cold storage equipment stretches it. Goods keep full
+ * value for most of their shelf life, lose value over the final stretch and are
+ * destroyed once they expire.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SPOILAGE_WARNING_FRACTION = 0.75; // Share of shelf life after which goods start losing value
+export const SPOILED_VALUE_FLOOR = 0.5; // Value left just before goods expire
+export const LONG_HAUL_SHELF_LIFE_DAYS = 30; // Goods this short-lived are not worth hauling through gates
+
+/**
+ * Shelf life multiplier from cold storage: 1.0 without any, higher keeps goods longer.
+ * Each cargo module adds its bonus scaled by its condition.
+ */
+export function getShelfLifeMultiplier(ship: Ship): number {
+  let multiplier = 1.0;
+  for (const module of ship.equipment.cargo) {
+    if (module.effects.shelfLifeBonus) {
+      multiplier += module.effects.shelfLifeBonus * module.condition;
+    }
+  }
+  return multiplier;
+}
+
+/**
+ * When goods loaded at the given time expire aboard the ship, or undefined for goods that keep
+ */
+export function calculateExpirationTime(ship: Ship, commodity: Commodity, loadedAt: number): number | undefined {
+  if (!commodity.perishable || !commodity.shelfLife) return undefined;
+  return loadedAt + commodity.shelfLife * DAY_MS * getShelfLifeMultiplier(ship);
+}
+
+/**
+ * Share of the shelf life already used up, from 0 when loaded to 1 at expiry
+ */
+export function getShelfLifeUsed(item: CargoItem, now: number): number {
+  if (item.expirationTime === undefined) return 0;
+  const shelfLife = item.expirationTime - item.acquiredAt;
+  if (shelfLife <= 0) return 1;
+  return Math.max(0, (now - item.acquiredAt) / shelfLife);
+}
+
+/**
+ * Days of game time left before the cargo spoils, or undefined for goods that keep
+ */
+export function getDaysUntilSpoiled(item: CargoItem, now: number): number | undefined {
+  if (item.expirationTime === undefined) return undefined;
+  return Math.max(0, (item.expirationTime - now) / DAY_MS);
+}
+
+export function isSpoiled(item: CargoItem, now: number): boolean {
+  return item.expirationTime !== undefined && now >= item.expirationTime;
+}
+
+export function isSpoiling(item: CargoItem, now: number): boolean {
+  return getShelfLifeUsed(item, now) >= SPOILAGE_WARNING_FRACTION;
+}
+
+/**
+ * Fraction of its market value the cargo still fetches: full value while fresh,
+ * falling linearly to SPOILED_VALUE_FLOOR at expiry, nothing once spoiled
+ */
+export function getSpoilageValueMultiplier(item: CargoItem, now: number): number {
+  if (isSpoiled(item, now)) return 0;
+  const used = getShelfLifeUsed(item, now);
+  if (used < SPOILAGE_WARNING_FRACTION) return 1;
+  const decay = (used - SPOILAGE_WARNING_FRACTION) / (1 - SPOILAGE_WARNING_FRACTION);
+  return 1 - decay * (1 - SPOILED_VALUE_FLOOR);
+}
+
+/**
+ * Whether a commodity spoils too fast to be worth a long multi-sector haul
+ */
+export function isShortLived(commodity: Commodity | undefined): boolean {
+  return !!commodity?.perishable && (commodity.shelfLife ?? 0) <= LONG_HAUL_SHELF_LIFE_DAYS;
+}